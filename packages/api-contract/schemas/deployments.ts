@@ -15,6 +15,11 @@ export const createDeploymentSchema = z.object({
   note: z.string().optional(),
 });
 
+export const rollbackWorkflowSchema = z.object({
+  // Deployment to reactivate; defaults to the one before the active deployment
+  deploymentId: z.string().optional(),
+});
+
 // ============================================================================
 // Response schemas (from src/types/api.ts)
 // ============================================================================
@@ -40,6 +45,8 @@ export const workflowDeploymentSchema = z.object({
   status: workflowDeploymentStatusSchema,
   deployedAt: z.string(),
   note: z.string().nullable().optional(),
+  // floww.yaml environment the deployment targeted (e.g. staging, production)
+  environment: z.string().nullable().optional(),
   webhooks: z.array(z.object({
     id: z.string(),
     url: z.string(),
@@ -57,5 +64,6 @@ export const workflowDeploymentsResponseSchema = z.object({
 // ============================================================================
 
 export type CreateDeploymentInput = z.infer<typeof createDeploymentSchema>;
+export type RollbackWorkflowInput = z.infer<typeof rollbackWorkflowSchema>;
 export type WorkflowDeployment = z.infer<typeof workflowDeploymentSchema>;
 export type WorkflowDeploymentsResponse = z.infer<typeof workflowDeploymentsResponseSchema>;
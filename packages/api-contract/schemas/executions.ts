@@ -5,7 +5,25 @@ import { z } from 'zod';
 // ============================================================================
 
 export const completeExecutionSchema = z.object({
-  status: z.enum(['completed', 'failed']).optional(),
+  status: z.enum(['completed', 'failed', 'suspended']).optional(),
+  // Set with status "suspended": the ctx.sleep() that suspended the handler
+  sleep: z.object({
+    name: z.string().min(1).max(255),
+    until: z.string().datetime({ offset: true }),
+  }).optional(),
+  // Set with status "suspended": the ctx.waitForApproval() that suspended the handler
+  approval: z.object({
+    name: z.string().min(1).max(255),
+    message: z.string().min(1),
+    approvers: z.array(z.string().min(1)).default([]),
+    timeoutAt: z.string().datetime({ offset: true }).nullable().optional(),
+    notify: z.object({
+      slack: z.object({
+        channel: z.string().min(1),
+        provider: z.string().min(1).optional(),
+      }).optional(),
+    }).optional(),
+  }).optional(),
   logs: z.array(z.object({
     timestamp: z.string(),
     level: z.string(),
@@ -16,6 +34,31 @@ export const completeExecutionSchema = z.object({
   duration_ms: z.number().optional(),
 });
 
+export const recordExecutionStepSchema = z.object({
+  name: z.string().min(1).max(255),
+  result: z.unknown().optional(),
+});
+
+export const decideApprovalSchema = z.object({
+  approved: z.boolean(),
+  comment: z.string().max(2000).optional(),
+});
+
+export const replayTargetSchema = z.enum(['active', 'original']);
+
+export const replayExecutionSchema = z.object({
+  target: replayTargetSchema.optional(),
+});
+
+export const bulkReplayExecutionsSchema = z.object({
+  status: z.array(z.enum(['FAILED', 'TIMEOUT'])).optional(),
+  triggerId: z.string().optional(),
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  target: replayTargetSchema.optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+});
+
 // ============================================================================
 // Response schemas (from src/types/api.ts)
 // ============================================================================
@@ -27,6 +70,10 @@ export const executionStatusValues = [
   'failed',
   'timeout',
   'no_deployment',
+  'sleeping',
+  'waiting',
+  'duplicate',
+  'cancelled',
 ] as const;
 
 export const executionStatusSchema = z.enum(executionStatusValues);
@@ -52,6 +99,10 @@ export const executionHistorySchema = z.object({
   completedAt: z.string().nullable(),
   durationMs: z.number().nullable(),
   errorMessage: z.string().nullable(),
+  attempt: z.number(),
+  originalExecutionId: z.string().nullable(),
+  replayOfExecutionId: z.string().nullable(),
+  duplicateOfExecutionId: z.string().nullable(),
   logEntries: z.array(executionLogEntrySchema).nullable(),
   triggerType: z.string().nullable(),
   webhookPath: z.string().nullable(),
@@ -89,11 +140,39 @@ export const summaryResponseSchema = z.object({
   periodDays: z.number(),
 });
 
+export const approvalStatusSchema = z.enum(['pending', 'approved', 'rejected', 'timed_out', 'cancelled']);
+
+export const pendingApprovalSchema = z.object({
+  id: z.string(),
+  executionId: z.string(),
+  workflowId: z.string(),
+  workflowName: z.string(),
+  stepName: z.string(),
+  message: z.string(),
+  approvers: z.array(z.string()),
+  status: approvalStatusSchema,
+  expiresAt: z.string().nullable(),
+  decidedAt: z.string().nullable(),
+  decidedByUserId: z.string().nullable(),
+  comment: z.string().nullable(),
+  createdAt: z.string(),
+  canDecide: z.boolean(),
+});
+
+export const pendingApprovalsResponseSchema = z.object({
+  results: z.array(pendingApprovalSchema),
+});
+
 // ============================================================================
 // Inferred types
 // ============================================================================
 
 export type CompleteExecutionInput = z.infer<typeof completeExecutionSchema>;
+export type RecordExecutionStepInput = z.infer<typeof recordExecutionStepSchema>;
+export type DecideApprovalInput = z.infer<typeof decideApprovalSchema>;
+export type ReplayTarget = z.infer<typeof replayTargetSchema>;
+export type ReplayExecutionInput = z.infer<typeof replayExecutionSchema>;
+export type BulkReplayExecutionsInput = z.infer<typeof bulkReplayExecutionsSchema>;
 
 export type ExecutionStatus = z.infer<typeof executionStatusSchema>;
 export type LogLevel = z.infer<typeof logLevelSchema>;
@@ -103,3 +182,6 @@ export type ExecutionHistoryResponse = z.infer<typeof executionHistoryResponseSc
 export type WorkflowLogsResponse = z.infer<typeof workflowLogsResponseSchema>;
 export type ExecutionDaySummary = z.infer<typeof executionDaySummarySchema>;
 export type SummaryResponse = z.infer<typeof summaryResponseSchema>;
+export type ApprovalStatus = z.infer<typeof approvalStatusSchema>;
+export type PendingApproval = z.infer<typeof pendingApprovalSchema>;
+export type PendingApprovalsResponse = z.infer<typeof pendingApprovalsResponseSchema>;
@@ -4,8 +4,74 @@ import { z } from 'zod';
 // Request schemas (migrated from server/api/schemas.ts)
 // ============================================================================
 
-export const setKvValueSchema = z.object({
-  value: z.unknown(),
+// Lock fencing token; rejected once the lock was acquired again
+const kvFencingTokenSchema = z.number().int().positive().optional();
+
+export const setKvValueSchema = z
+  .object({
+    value: z.unknown(),
+    ttlSeconds: z.number().int().positive().optional(),
+    ifVersion: z.number().int().positive().optional(),
+    ifAbsent: z.boolean().optional(),
+    fencingToken: kvFencingTokenSchema,
+    // Schema version of a typed table; omitted for untyped writes
+    schemaVersion: z.number().int().positive().optional(),
+    // Write-back of a value migrated to a newer schema version; the value
+    // didn't change, so change triggers don't fire
+    migration: z.boolean().optional(),
+  })
+  .refine((data) => !(data.ifVersion !== undefined && data.ifAbsent), {
+    message: 'ifVersion and ifAbsent cannot be combined',
+  });
+
+export const incrementKvValueSchema = z.object({
+  by: z.number().finite().default(1),
+  ttlSeconds: z.number().int().positive().optional(),
+  fencingToken: kvFencingTokenSchema,
+});
+
+const kvBatchKeysSchema = z.array(z.string().min(1)).min(1).max(1000);
+
+export const getManyKvValuesSchema = z.object({
+  keys: kvBatchKeysSchema,
+});
+
+export const setManyKvValuesSchema = z.object({
+  entries: z
+    .array(
+      z.object({
+        key: z.string().min(1),
+        value: z.unknown(),
+        ttlSeconds: z.number().int().positive().optional(),
+        schemaVersion: z.number().int().positive().optional(),
+      })
+    )
+    .min(1)
+    .max(1000),
+  fencingToken: kvFencingTokenSchema,
+});
+
+export const deleteManyKvValuesSchema = z
+  .object({
+    keys: kvBatchKeysSchema.optional(),
+    prefix: z.string().min(1).optional(),
+    fencingToken: kvFencingTokenSchema,
+  })
+  .refine((data) => (data.keys === undefined) !== (data.prefix === undefined), {
+    message: 'Pass either keys or prefix',
+  });
+
+export const acquireKvLockSchema = z.object({
+  ttlMs: z.number().int().positive().max(24 * 60 * 60 * 1000).default(30_000),
+});
+
+export const extendKvLockSchema = z.object({
+  leaseId: z.string().uuid(),
+  ttlMs: z.number().int().positive().max(24 * 60 * 60 * 1000).default(30_000),
+});
+
+export const releaseKvLockSchema = z.object({
+  leaseId: z.string().uuid(),
 });
 
 export const setKvPermissionsSchema = z.object({
@@ -14,9 +80,37 @@ export const setKvPermissionsSchema = z.object({
   canWrite: z.boolean().default(false),
 });
 
+// ============================================================================
+// Response schemas
+// ============================================================================
+
+export const kvItemSchema = z.object({
+  key: z.string(),
+  value: z.unknown(),
+  version: z.number(),
+  schemaVersion: z.number().nullable(),
+  expiresAt: z.string().nullable(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export const kvItemListResponseSchema = z.object({
+  results: z.array(kvItemSchema),
+  nextCursor: z.string().nullable(),
+});
+
 // ============================================================================
 // Inferred types
 // ============================================================================
 
 export type SetKvValueInput = z.infer<typeof setKvValueSchema>;
+export type IncrementKvValueInput = z.infer<typeof incrementKvValueSchema>;
+export type GetManyKvValuesInput = z.infer<typeof getManyKvValuesSchema>;
+export type SetManyKvValuesInput = z.infer<typeof setManyKvValuesSchema>;
+export type DeleteManyKvValuesInput = z.infer<typeof deleteManyKvValuesSchema>;
+export type AcquireKvLockInput = z.infer<typeof acquireKvLockSchema>;
+export type ExtendKvLockInput = z.infer<typeof extendKvLockSchema>;
+export type ReleaseKvLockInput = z.infer<typeof releaseKvLockSchema>;
 export type SetKvPermissionsInput = z.infer<typeof setKvPermissionsSchema>;
+export type KvItem = z.infer<typeof kvItemSchema>;
+export type KvItemListResponse = z.infer<typeof kvItemListResponseSchema>;
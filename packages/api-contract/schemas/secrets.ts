@@ -9,6 +9,8 @@ export const createSecretSchema = z.object({
   name: z.string().min(1, 'name is required'),
   value: z.string().min(1, 'value is required'),
   provider: z.string().optional(),
+  // Merge the keys of a JSON object value into the stored object (null removes a key)
+  merge: z.boolean().optional(),
 });
 
 // ============================================================================
@@ -33,6 +33,14 @@ export interface RuntimeCreateResponse {
   creationLogs: any[];
 }
 
+export interface DefaultRuntimeStatus {
+  sdkVersion: string;
+  available: boolean;
+  runtimeId: string | null;
+  creationStatus: string | null;
+  reason: string | null;
+}
+
 export interface RuntimeStatusResponse {
   id: string;
   config: any;
@@ -71,6 +79,8 @@ export interface WorkflowDeploymentCreateRequest {
   code: WorkflowDeploymentUserCode;
   triggers?: TriggerMetadata[];
   providerMappings?: Record<string, Record<string, string>>;
+  concurrency?: { limit: number; key?: string };
+  environment?: string;
 }
 
 export interface WorkflowDeploymentResponse {
@@ -83,9 +93,22 @@ export interface WorkflowDeploymentResponse {
   status: string;
   deployedAt: string;
   note?: string;
+  environment?: string | null;
   userCode?: WorkflowDeploymentUserCode;
   webhooks?: WebhookInfo[];
   providerMappings?: Record<string, Record<string, string>>;
+  concurrency?: { limit: number; key?: string } | null;
+  triggerDefinitions?: unknown[] | null;
+}
+
+export interface WorkflowRollbackResponse {
+  id: string;
+  workflowId: string;
+  runtimeId: string;
+  status: string;
+  deployedAt: string;
+  previousDeploymentId: string | null;
+  webhooks: WebhookInfo[];
 }
 
 export interface PushTokenResponse {
@@ -251,6 +274,17 @@ export async function getRuntimeStatus(
   );
 }
 
+/**
+ * Whether the server can run deployments on its default runtime for an SDK version
+ */
+export async function fetchDefaultRuntimeStatus(
+  sdkVersion: string
+): Promise<DefaultRuntimeStatus> {
+  return await defaultApiClient().apiCall<DefaultRuntimeStatus>(
+    `/runtimes/default?sdkVersion=${encodeURIComponent(sdkVersion)}`
+  );
+}
+
 // ============================================================================
 // Deployment API methods
 // ============================================================================
@@ -296,6 +330,264 @@ export async function fetchActiveDeployment(
   return deployments.find((d) => d.status === "ACTIVE") ?? null;
 }
 
+export interface DeploymentPlanTrigger {
+  providerType: string;
+  providerAlias: string;
+  triggerType: string;
+  input: Record<string, unknown>;
+  externalWebhook: boolean;
+  optionsChanged?: boolean;
+}
+
+export interface DeploymentPlan {
+  workflowId: string;
+  runtimeId: string;
+  activeDeploymentId: string | null;
+  triggers: {
+    create: DeploymentPlanTrigger[];
+    destroy: DeploymentPlanTrigger[];
+    keep: DeploymentPlanTrigger[];
+  };
+  unresolvedProviders: Array<{
+    providerType: string;
+    providerAlias: string;
+    reason: string;
+  }>;
+  providerMappingChanges: Array<{
+    providerType: string;
+    providerAlias: string;
+    from: string | null;
+    to: string | null;
+  }>;
+}
+
+/**
+ * Compare a deployment against the active one without creating it
+ */
+export async function planWorkflowDeployment(
+  deploymentData: WorkflowDeploymentCreateRequest
+): Promise<DeploymentPlan> {
+  return await defaultApiClient().apiCall<DeploymentPlan>(
+    "/workflow-deployments/plan",
+    {
+      method: "POST",
+      body: deploymentData,
+    }
+  );
+}
+
+export async function fetchWorkflowDeployment(
+  deploymentId: string
+): Promise<WorkflowDeploymentResponse> {
+  return await defaultApiClient().apiCall<WorkflowDeploymentResponse>(
+    `/workflow-deployments/${deploymentId}`
+  );
+}
+
+/**
+ * Reactivate a previous deployment of a workflow; without a deployment ID the
+ * one before the active deployment is used
+ */
+export async function rollbackWorkflow(
+  workflowId: string,
+  deploymentId?: string
+): Promise<WorkflowRollbackResponse> {
+  return await defaultApiClient().apiCall<WorkflowRollbackResponse>(
+    `/workflows/${workflowId}/rollback`,
+    {
+      method: "POST",
+      body: deploymentId ? { deploymentId } : {},
+    }
+  );
+}
+
+// ============================================================================
+// Trigger API methods
+// ============================================================================
+
+export interface TriggerSummary {
+  id: string;
+  workflowId: string;
+  providerId: string;
+  triggerType: string;
+  input: Record<string, unknown>;
+  state: Record<string, unknown> | null;
+}
+
+export async function fetchTriggers(
+  workflowId: string
+): Promise<TriggerSummary[]> {
+  const data = await defaultApiClient().apiCall<{ results: TriggerSummary[] }>(
+    `/triggers?workflowId=${workflowId}`
+  );
+  return data.results;
+}
+
+/**
+ * Run a deployed trigger once with the given event data
+ */
+export async function executeTrigger(
+  triggerId: string,
+  data: Record<string, unknown>
+): Promise<{ executionId: string; status: string }> {
+  return await defaultApiClient().apiCall<{
+    executionId: string;
+    status: string;
+  }>(`/triggers/${triggerId}/execute`, {
+    method: "POST",
+    body: { data },
+  });
+}
+
+// ============================================================================
+// Execution API methods
+// ============================================================================
+
+export interface ExecutionLogEntry {
+  id: string;
+  executionId: string;
+  timestamp: string;
+  level: string;
+  message: string;
+}
+
+export interface ExecutionSummary {
+  id: string;
+  workflowId: string;
+  triggerId: string | null;
+  deploymentId: string | null;
+  status: string;
+  receivedAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  durationMs: number | null;
+  errorMessage: string | null;
+  attempt: number;
+  originalExecutionId: string | null;
+  replayOfExecutionId: string | null;
+  duplicateOfExecutionId: string | null;
+  triggerType: string | null;
+  webhookPath: string | null;
+  webhookMethod: string | null;
+}
+
+export interface ExecutionDetails extends ExecutionSummary {
+  attempts: Array<{
+    id: string;
+    attempt: number;
+    status: string;
+    receivedAt: string;
+    completedAt: string | null;
+    errorMessage: string | null;
+  }>;
+  steps: Array<{
+    name: string;
+    kind: string;
+    result?: unknown;
+    wakeAt: string | null;
+    completedAt: string | null;
+  }>;
+}
+
+export interface ExecutionListQuery {
+  status?: string;
+  triggerId?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export async function fetchExecutions(
+  workflowId: string,
+  query: ExecutionListQuery = {}
+): Promise<{ executions: ExecutionSummary[]; total: number }> {
+  const params = new URLSearchParams({ workflowId });
+  if (query.status) params.set("status", query.status.toUpperCase());
+  if (query.triggerId) params.set("triggerId", query.triggerId);
+  if (query.since) params.set("since", query.since.toISOString());
+  if (query.until) params.set("until", query.until.toISOString());
+  if (query.limit) params.set("limit", String(query.limit));
+
+  return await defaultApiClient().apiCall<{
+    executions: ExecutionSummary[];
+    total: number;
+  }>(`/executions?${params.toString()}`);
+}
+
+export async function fetchExecution(
+  executionId: string
+): Promise<ExecutionDetails> {
+  return await defaultApiClient().apiCall<ExecutionDetails>(
+    `/executions/${executionId}`
+  );
+}
+
+export async function fetchExecutionLogs(
+  executionId: string
+): Promise<Omit<ExecutionLogEntry, "executionId">[]> {
+  const data = await defaultApiClient().apiCall<{
+    results: Omit<ExecutionLogEntry, "executionId">[];
+  }>(`/executions/${executionId}/logs`);
+  return data.results;
+}
+
+/**
+ * Re-run an execution with its original event, on the active deployment or
+ * the deployment that originally ran it
+ */
+export async function replayExecution(
+  executionId: string,
+  target: "active" | "original" = "active"
+): Promise<{ executionId: string; status: string }> {
+  return await defaultApiClient().apiCall<{
+    executionId: string;
+    status: string;
+  }>(`/executions/${executionId}/replay`, {
+    method: "POST",
+    body: { target },
+  });
+}
+
+export async function cancelExecution(
+  executionId: string
+): Promise<ExecutionSummary> {
+  return await defaultApiClient().apiCall<ExecutionSummary>(
+    `/executions/${executionId}/cancel`,
+    { method: "POST" }
+  );
+}
+
+export interface WorkflowLogsQuery {
+  levels?: string[];
+  executionId?: string;
+  since?: Date;
+  limit?: number;
+}
+
+/**
+ * Fetch the most recent log lines of a workflow's executions, newest first
+ */
+export async function fetchWorkflowLogs(
+  workflowId: string,
+  query: WorkflowLogsQuery = {}
+): Promise<ExecutionLogEntry[]> {
+  const params = new URLSearchParams();
+  if (query.levels && query.levels.length > 0) {
+    params.set("level", query.levels.join(","));
+  }
+  if (query.executionId) params.set("executionId", query.executionId);
+  if (query.since) params.set("since", query.since.toISOString());
+  if (query.limit) params.set("limit", String(query.limit));
+
+  const queryString = params.toString();
+  const data = await defaultApiClient().apiCall<{
+    results: ExecutionLogEntry[];
+  }>(
+    `/executions/workflows/${workflowId}/logs${queryString ? `?${queryString}` : ""}`
+  );
+  return data.results;
+}
+
 // ============================================================================
 // Provider API methods
 // ============================================================================
@@ -1,10 +1,12 @@
 import fs from "fs";
 import path from "path";
+import chalk from "chalk";
 import {
   loadProjectConfig,
   hasProjectConfig,
   updateProjectConfig,
   detectProjectDirectory,
+  setActiveEnvironment,
   ProjectConfig,
 } from "../config/projectConfig";
 import {
@@ -14,9 +16,22 @@ import {
   readProjectFiles,
   fetchWorkflows,
   fetchWorkflow,
+  fetchNamespaces,
   getPushData,
+  fetchActiveDeployment,
+  planWorkflowDeployment,
   RuntimeAlreadyExistsError,
+  type DeploymentPlan,
+  type DeploymentPlanTrigger,
+  type WorkflowDeploymentResponse,
 } from "../api/apiMethods";
+import {
+  ClientError,
+  ForbiddenError,
+  NetworkError,
+  NotFoundError,
+  UnauthenticatedError,
+} from "../api/errors";
 import { initCommand } from "./init";
 import {
   dockerBuildImage,
@@ -33,6 +48,52 @@ import { validateProviders } from "../runtime/providers";
 import { getValidAuth } from "../auth/tokenUtils";
 import { autoPopulateProviderMappings } from "../runtime/providerMapping";
 import { ProviderMappings } from "../config/projectConfig";
+import { compileEventKey } from "../../userCode/providers";
+import { resolveWorkflowIdentifier } from "../workflow/workflowContext";
+
+interface DeployOptions {
+  dryRun?: boolean;
+  env?: string;
+  workflow?: string;
+  namespace?: string;
+  yes?: boolean;
+  json?: boolean;
+}
+
+/**
+ * A deploy failure with a stable code for --json output
+ */
+class DeployError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly hint?: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "DeployError";
+  }
+}
+
+function toDeployError(error: unknown): DeployError {
+  if (error instanceof DeployError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ClientError) {
+    const code =
+      error instanceof UnauthenticatedError
+        ? "NOT_AUTHENTICATED"
+        : error instanceof ForbiddenError
+          ? "FORBIDDEN"
+          : error instanceof NotFoundError
+            ? "NOT_FOUND"
+            : error instanceof NetworkError
+              ? "NETWORK_ERROR"
+              : "API_ERROR";
+    return new DeployError(code, message, undefined, error.details);
+  }
+  return new DeployError("DEPLOY_FAILED", message);
+}
 
 function ensureDockerfile(
   projectDir: string,
@@ -64,7 +125,7 @@ function ensureDockerfile(
 /**
  * Check if the project should use the default runtime (no Dockerfile, no build config).
  */
-function shouldUseDefaultRuntime(
+export function shouldUseDefaultRuntime(
   projectDir: string,
   projectConfig: ProjectConfig
 ): boolean {
@@ -79,7 +140,7 @@ function shouldUseDefaultRuntime(
  * Read the floww SDK version from package.json dependencies.
  * Strips semver prefixes (^, ~).
  */
-function readSdkVersion(projectDir: string): string | null {
+export function readSdkVersion(projectDir: string): string | null {
   const packageJsonPath = path.join(projectDir, "package.json");
   if (!fs.existsSync(packageJsonPath)) {
     return null;
@@ -176,6 +237,21 @@ async function selectWorkflow(projectConfig?: ProjectConfig): Promise<string> {
   }
 }
 
+/**
+ * Workflow concurrency settings from floww.yaml, with the key compiled for the API
+ */
+export function buildConcurrencyPayload(
+  projectConfig: ProjectConfig
+): { limit: number; key?: string } | undefined {
+  if (!projectConfig.concurrency) return undefined;
+  return {
+    limit: projectConfig.concurrency.limit,
+    key: projectConfig.concurrency.key !== undefined
+      ? compileEventKey(projectConfig.concurrency.key, "concurrency.key")
+      : undefined,
+  };
+}
+
 function convertTriggersToMetadata(triggers: any[]): any[] {
   if (!Array.isArray(triggers)) {
     logger.warn("Triggers is not an array, returning empty metadata");
@@ -191,6 +267,7 @@ function convertTriggersToMetadata(triggers: any[]): any[] {
       metadata.providerAlias = trigger._providerMeta.alias;
       metadata.triggerType = trigger._providerMeta.triggerType;
       metadata.input = trigger._providerMeta.input;
+      metadata.options = trigger._providerMeta.options;
     }
 
     if (trigger.type === "webhook") {
@@ -210,14 +287,91 @@ function convertTriggersToMetadata(triggers: any[]): any[] {
   });
 }
 
+function formatPlanTrigger(trigger: DeploymentPlanTrigger): string {
+  const input = JSON.stringify(trigger.input);
+  const inputSummary = input === "{}" ? "" : ` ${chalk.dim(input.length > 80 ? input.slice(0, 77) + "..." : input)}`;
+  return `${trigger.providerType}:${trigger.providerAlias} ${trigger.triggerType}${inputSummary}`;
+}
+
+/**
+ * Print a deployment plan in the style of `terraform plan`
+ */
+function printDeploymentPlan(plan: DeploymentPlan) {
+  const { create, destroy, keep } = plan.triggers;
+  const providerName = (trigger: DeploymentPlanTrigger) =>
+    trigger.providerType.charAt(0).toUpperCase() + trigger.providerType.slice(1);
+
+  console.log(`
+${chalk.bold("Triggers")}`);
+  if (create.length + destroy.length + keep.length === 0) {
+    console.log(chalk.dim("  No triggers"));
+  }
+  for (const trigger of create) {
+    const webhook = trigger.externalWebhook ? chalk.yellow(` (registers a ${providerName(trigger)} webhook)`) : "";
+    console.log(`  ${chalk.green("+")} ${formatPlanTrigger(trigger)}${webhook}`);
+  }
+  for (const trigger of destroy) {
+    const webhook = trigger.externalWebhook ? chalk.yellow(` (deletes a ${providerName(trigger)} webhook)`) : "";
+    console.log(`  ${chalk.red("-")} ${formatPlanTrigger(trigger)}${webhook}`);
+  }
+  for (const trigger of keep) {
+    if (trigger.optionsChanged) {
+      console.log(`  ${chalk.yellow("~")} ${formatPlanTrigger(trigger)} ${chalk.dim("(options changed)")}`);
+    } else {
+      console.log(`  ${chalk.dim("=")} ${chalk.dim(formatPlanTrigger(trigger))}`);
+    }
+  }
+
+  if (plan.providerMappingChanges.length > 0) {
+    console.log(`
+${chalk.bold("Provider mappings")}`);
+    for (const change of plan.providerMappingChanges) {
+      console.log(
+        `  ${chalk.yellow("~")} ${change.providerType}:${change.providerAlias} ${chalk.dim(`${change.from ?? "(none)"} → ${change.to ?? "(none)"}`)}`
+      );
+    }
+  }
+
+  if (plan.unresolvedProviders.length > 0) {
+    console.log(`
+${chalk.bold("Unresolved providers")}`);
+    for (const provider of plan.unresolvedProviders) {
+      console.log(`  ${chalk.red("✗")} ${provider.providerType}:${provider.providerAlias} ${chalk.dim(`— ${provider.reason}`)}`);
+    }
+  }
+
+  const changed = keep.filter((trigger) => trigger.optionsChanged).length;
+  const webhooks = [...create, ...destroy].filter((trigger) => trigger.externalWebhook).length;
+  console.log(
+    `
+${chalk.bold("Plan:")} ${create.length} to create, ${destroy.length} to destroy, ${changed} to update, ${keep.length - changed} unchanged` +
+      (webhooks > 0 ? `, ${webhooks} external webhook${webhooks === 1 ? "" : "s"} affected` : "")
+  );
+  if (!plan.activeDeploymentId) {
+    logger.plain("No active deployment: every trigger is new");
+  }
+}
+
 /**
  * Deploy Command - Build and deploy workflow to production
  *
+ * With --dry-run, stops after the checks and prints what the deployment would
+ * change (triggers, external webhooks, provider mappings) without building,
+ * deploying or writing floww.yaml.
+ *
+ * With --env, the workflow, namespace and provider mappings come from that
+ * environment in floww.yaml and the deployment records it.
+ *
+ * With --yes or --json the command runs headless for CI: it authenticates with
+ * FLOWW_TOKEN (a service account API key), never prompts, and fails with a
+ * non-zero exit code instead. --json prints the deployment and its plan (or a
+ * structured error) to stdout.
+ *
  * Flow:
  *
  * Prerequisites:
  * 1. Auto-initialize project if needed (floww.yaml)
- * 2. Resolve workflow from config (verify it exists)
+ * 2. Resolve workflow from --workflow or config (verify it exists)
  *
  * Checks:
  * 3. Execute user code to extract triggers and providers
@@ -228,16 +382,70 @@ function convertTriggersToMetadata(triggers: any[]): any[] {
  * 6. Create runtime environment in backend
  * 7. Deploy code and trigger metadata
  */
-export async function deployCommand() {
+export async function deployCommand(options: DeployOptions = {}) {
+  if (options.json) {
+    logger.enableJsonOutput();
+  }
+
+  try {
+    await runDeploy(options);
+  } catch (error) {
+    const deployError = toDeployError(error);
+    if (options.json) {
+      logger.json({
+        error: {
+          code: deployError.code,
+          message: deployError.message,
+          ...(deployError.details !== undefined && { details: deployError.details }),
+        },
+      });
+    } else {
+      logger.error(deployError.message);
+      if (deployError.hint) {
+        logger.tip(deployError.hint);
+      }
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Resolve --namespace (ID or organization name) to a namespace ID
+ */
+async function resolveNamespaceOption(identifier: string): Promise<string> {
+  const namespaces = await fetchNamespaces();
+  const match = namespaces.find(
+    (ns) =>
+      ns.id === identifier ||
+      (ns.organization?.displayName || "Personal").toLowerCase() === identifier.toLowerCase()
+  );
+
+  if (!match) {
+    throw new DeployError("NAMESPACE_NOT_FOUND", `Namespace not found: ${identifier}`);
+  }
+  return match.id;
+}
+
+async function runDeploy(options: DeployOptions) {
+  const dryRun = options.dryRun ?? false;
+  const headless = (options.yes || options.json) ?? false;
+  const interactive = logger.interactive && !headless;
+
+  // Deploy to the workflow and providers of an environment in floww.yaml
+  setActiveEnvironment(options.env);
+
   // ============================================================================
   // AUTHENTICATION CHECK
   // ============================================================================
 
-  // Check if user is authenticated
+  // Check if user is authenticated (FLOWW_TOKEN or a stored login)
   const auth = await getValidAuth();
   if (!auth) {
-    logger.error("Not logged in. Run 'npx floww login' first.");
-    process.exit(1);
+    throw new DeployError(
+      "NOT_AUTHENTICATED",
+      "Not logged in. Run 'npx floww login' first.",
+      "In CI, set FLOWW_TOKEN to a service account API key"
+    );
   }
 
   // ============================================================================
@@ -249,25 +457,64 @@ export async function deployCommand() {
 
   // Auto-initialize if no config exists
   if (!hasProjectConfig(projectDir)) {
+    if (dryRun || headless) {
+      throw new DeployError("PROJECT_NOT_FOUND", "No floww.yaml found. Run 'npx floww init' first.");
+    }
+
     console.log("🔧 Setting up project configuration...");
 
     try {
       await initCommand({ silent: false });
       console.log("✅ Project configured, continuing with deployment");
     } catch (error) {
-      logger.error(
-        "Initialization failed:",
-        error instanceof Error ? error.message : error
+      throw new DeployError(
+        "INIT_FAILED",
+        `Initialization failed: ${error instanceof Error ? error.message : error}`
       );
-      process.exit(1);
     }
   }
 
   // Load project config
-  let projectConfig = loadProjectConfig(projectDir);
+  let projectConfig: ProjectConfig;
+  try {
+    projectConfig = loadProjectConfig(projectDir);
+  } catch (error) {
+    throw new DeployError(
+      "INVALID_CONFIG",
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  const namespaceId = options.namespace
+    ? await resolveNamespaceOption(options.namespace)
+    : options.env
+      ? projectConfig.environments?.[options.env]?.namespaceId
+      : undefined;
+
+  if (options.workflow) {
+    // --workflow overrides floww.yaml for this deploy only
+    let workflowId: string;
+    try {
+      workflowId = await resolveWorkflowIdentifier(options.workflow, namespaceId);
+    } catch (error) {
+      throw new DeployError(
+        "WORKFLOW_NOT_FOUND",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    projectConfig = { ...projectConfig, workflowId };
+  } else if (!projectConfig.workflowId) {
+    // Handle workflow selection if workflowId is missing (fallback)
+    if (dryRun || headless) {
+      throw new DeployError(
+        "WORKFLOW_NOT_SET",
+        options.env
+          ? `No workflowId for environment "${options.env}" in floww.yaml.`
+          : "No workflowId in floww.yaml. Run 'npx floww init' first.",
+        "Pass --workflow <id|name> to choose the workflow without floww.yaml"
+      );
+    }
 
-  // Handle workflow selection if workflowId is missing (fallback)
-  if (!projectConfig.workflowId) {
     console.log("🎯 Selecting deployment workflow...");
 
     try {
@@ -280,11 +527,10 @@ export async function deployCommand() {
       );
       logger.debugInfo("Workflow saved to floww.yaml");
     } catch (error) {
-      logger.error(
-        "Workflow selection failed:",
-        error instanceof Error ? error.message : error
+      throw new DeployError(
+        "WORKFLOW_NOT_SET",
+        `Workflow selection failed: ${error instanceof Error ? error.message : error}`
       );
-      process.exit(1);
     }
   }
 
@@ -296,7 +542,7 @@ export async function deployCommand() {
     // Check if it's a 404 (workflow not found) and we're in interactive mode
     const is404 = error instanceof Error && error.message.includes("404");
 
-    if (is404 && logger.interactive) {
+    if (is404 && interactive && !dryRun && !options.workflow) {
       logger.warn(`Workflow not found. Let's select or create a workflow.`);
 
       try {
@@ -310,21 +556,19 @@ export async function deployCommand() {
         projectConfig = updateProjectConfig({ workflowId });
         workflow = selectedWorkflow;
       } catch (selectionError) {
-        logger.error(
-          "Failed to select workflow:",
-          selectionError instanceof Error
-            ? selectionError.message
-            : selectionError
+        throw new DeployError(
+          "WORKFLOW_NOT_FOUND",
+          `Failed to select workflow: ${
+            selectionError instanceof Error ? selectionError.message : selectionError
+          }`
         );
-        process.exit(1);
       }
     } else {
-      logger.error(
-        "Workflow not found or inaccessible:",
-        error instanceof Error ? error.message : error
+      throw new DeployError(
+        "WORKFLOW_NOT_FOUND",
+        `Workflow not found or inaccessible: ${error instanceof Error ? error.message : error}`,
+        'Run "npx floww init" to select a different workflow'
       );
-      logger.tip('Run "npx floww init" to select a different workflow');
-      process.exit(1);
     }
   }
 
@@ -340,6 +584,13 @@ export async function deployCommand() {
     async () => await resolveWorkflow(projectConfig)
   );
 
+  if (namespaceId && workflowConfig.namespaceId !== namespaceId) {
+    throw new DeployError(
+      "NAMESPACE_MISMATCH",
+      `Workflow ${workflowConfig.name} is not in namespace ${options.namespace ?? namespaceId}`
+    );
+  }
+
   // Execute user code once to get both triggers and providers
   const executionResult = await logger.debugTask(
     "Executing user code",
@@ -362,14 +613,21 @@ export async function deployCommand() {
     }
   );
 
-  // Validate all providers are configured
-  if (executionResult.usedProviders.length > 0) {
-    await logger.debugTask("Validating providers", async () => {
-      await validateProviders(executionResult.usedProviders, {
-        interactive: logger.interactive,
-        namespaceId: workflowConfig.namespaceId,
+  // Validate all providers are configured (a dry run reports them in the plan instead)
+  if (executionResult.usedProviders.length > 0 && !dryRun) {
+    try {
+      await logger.debugTask("Validating providers", async () => {
+        await validateProviders(executionResult.usedProviders, {
+          interactive,
+          namespaceId: workflowConfig.namespaceId,
+        });
       });
-    });
+    } catch (error) {
+      throw new DeployError(
+        "PROVIDERS_MISSING",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
   }
 
   // Auto-populate provider mappings in floww.yaml
@@ -380,17 +638,20 @@ export async function deployCommand() {
       async () => await autoPopulateProviderMappings(
         executionResult.usedProviders,
         projectDir,
+        !dryRun && !headless,
       ),
     );
-    // Reload project config to pick up saved mappings
-    projectConfig = loadProjectConfig(projectDir);
+    // Reload project config to pick up saved mappings (keeping a --workflow override)
+    projectConfig = { ...loadProjectConfig(projectDir), workflowId: projectConfig.workflowId };
   }
 
   // ============================================================================
   // DEPLOY: Build runtime and deploy code
   // ============================================================================
 
-  console.log("🚀 Starting deployment...");
+  if (!dryRun) {
+    console.log("🚀 Starting deployment...");
+  }
 
   const useDefaultRuntime = shouldUseDefaultRuntime(projectDir, projectConfig);
 
@@ -407,6 +668,8 @@ export async function deployCommand() {
     code: typeof userCode;
     triggers: typeof triggersMetadata;
     providerMappings?: ProviderMappings;
+    environment?: string;
+    concurrency?: { limit: number; key?: string };
   } = {
     workflowId: projectConfig.workflowId!,
     code: userCode,
@@ -414,8 +677,47 @@ export async function deployCommand() {
     providerMappings: providerMappings && Object.keys(providerMappings).length > 0
       ? providerMappings
       : undefined,
+    environment: options.env,
+    concurrency: buildConcurrencyPayload(projectConfig),
   };
 
+  if (dryRun) {
+    if (useDefaultRuntime) {
+      deploymentPayload.sdkVersion = readSdkVersion(projectDir) ?? undefined;
+    } else {
+      // Building the image is what a dry run avoids; read the definitions with
+      // the runtime the active deployment was built with
+      const active = await fetchActiveDeployment(projectConfig.workflowId!);
+      if (active) {
+        deploymentPayload.runtimeId = active.runtimeId;
+        logger.warn("Custom runtime: definitions are read with the active deployment's image");
+      } else {
+        logger.warn("Custom runtime without an active deployment: definitions are read with the default runtime");
+      }
+    }
+
+    const plan = await logger.task("📋 Planning deployment", async () => {
+      return await planWorkflowDeployment(deploymentPayload);
+    });
+
+    if (options.json) {
+      logger.json({ dryRun: true, workflowId: workflow.id, environment: options.env ?? null, plan });
+    } else {
+      console.log(`
+${chalk.bold("Workflow:")} ${workflow.name}`);
+      if (options.env) {
+        console.log(`${chalk.bold("Environment:")} ${options.env}`);
+      }
+      printDeploymentPlan(plan);
+      logger.tip("Dry run: nothing was deployed. Run 'npx floww deploy' to apply.");
+    }
+
+    if (plan.unresolvedProviders.length > 0) {
+      process.exit(1);
+    }
+    return;
+  }
+
   if (useDefaultRuntime) {
     // Default runtime path: skip Docker build entirely
     const sdkVersion = readSdkVersion(projectDir);
@@ -447,7 +749,12 @@ export async function deployCommand() {
         `,
           {
             cwd: sdkDir,
-            stdio: logger.interactive ? "pipe" : "inherit",
+            // Keep stdout clean for --json output
+            stdio: logger.interactive
+              ? "pipe"
+              : options.json
+                ? ["inherit", process.stderr, "inherit"]
+                : "inherit",
             shell: "/bin/bash",
             env: process.env,
           }
@@ -511,11 +818,10 @@ export async function deployCommand() {
             await pollRuntimeUntilReady(runtime.id);
             return runtime;
           } else {
-            logger.error(
-              "Failed to create runtime:",
-              error instanceof Error ? error.message : error
+            throw new DeployError(
+              "RUNTIME_FAILED",
+              `Failed to create runtime: ${error instanceof Error ? error.message : error}`
             );
-            process.exit(1);
           }
         }
       }
@@ -524,28 +830,37 @@ export async function deployCommand() {
     deploymentPayload.runtimeId = runtimeResult.id;
   }
 
+  // The plan is part of the --json output; compute it against the final payload
+  let plan: DeploymentPlan | undefined;
+  if (options.json) {
+    plan = await logger.task("📋 Planning deployment", async () => {
+      return await planWorkflowDeployment(deploymentPayload);
+    });
+    if (plan.unresolvedProviders.length > 0) {
+      throw new DeployError(
+        "PROVIDERS_UNRESOLVED",
+        "Some providers used by the workflow are not configured",
+        undefined,
+        { unresolvedProviders: plan.unresolvedProviders }
+      );
+    }
+  }
+
   // Create workflow deployment
+  let deployment: WorkflowDeploymentResponse;
   try {
-    const deployment = await logger.task("🚀 Deploying workflow", async () => {
+    deployment = await logger.task("🚀 Deploying workflow", async () => {
       return await createWorkflowDeployment(deploymentPayload);
     });
-
-    console.log("\n✨ Deployment successful!");
-
-    // Display webhook URLs if available
-    if (deployment.webhooks && deployment.webhooks.length > 0) {
-      console.log("\n📌 Webhook URLs:");
-      for (const webhook of deployment.webhooks) {
-        const pathInfo = webhook.path
-          ? ` ${webhook.method || "POST"} ${webhook.path}`
-          : "";
-        console.log(`  ${pathInfo}`);
-        console.log(`     → ${webhook.url}`);
-      }
-    }
   } catch (error: any) {
     // Check if this is a trigger failure error
     if (error.failedTriggers && Array.isArray(error.failedTriggers)) {
+      if (options.json) {
+        throw new DeployError("TRIGGERS_FAILED", error.message, undefined, {
+          failedTriggers: error.failedTriggers,
+        });
+      }
+
       console.log("\n❌ Deployment failed: Trigger creation errors");
       console.log("\n⚠️  Failed Triggers:");
       for (const trigger of error.failedTriggers) {
@@ -561,4 +876,37 @@ export async function deployCommand() {
     // Re-throw other errors
     throw error;
   }
+
+  if (options.json) {
+    logger.json({
+      deploymentId: deployment.id,
+      workflowId: deployment.workflowId,
+      namespaceId: workflowConfig.namespaceId,
+      environment: deployment.environment ?? null,
+      runtimeId: deployment.runtimeId,
+      status: deployment.status,
+      deployedAt: deployment.deployedAt,
+      webhooks: deployment.webhooks ?? [],
+      plan,
+    });
+    return;
+  }
+
+  console.log(
+    options.env
+      ? `\n✨ Deployment to ${options.env} successful!`
+      : "\n✨ Deployment successful!"
+  );
+
+  // Display webhook URLs if available
+  if (deployment.webhooks && deployment.webhooks.length > 0) {
+    console.log("\n📌 Webhook URLs:");
+    for (const webhook of deployment.webhooks) {
+      const pathInfo = webhook.path
+        ? ` ${webhook.method || "POST"} ${webhook.path}`
+        : "";
+      console.log(`  ${pathInfo}`);
+      console.log(`     → ${webhook.url}`);
+    }
+  }
 }
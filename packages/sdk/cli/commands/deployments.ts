@@ -0,0 +1,174 @@
+import chalk from "chalk";
+import {
+  fetchWorkflowDeployment,
+  rollbackWorkflow,
+  type WorkflowDeploymentResponse,
+} from "../api/apiMethods";
+import { createUnifiedDiff } from "../utils/diffUtils";
+import { logger } from "../utils/logger";
+import { resolveWorkflowContext } from "../workflow/workflowContext";
+
+type FileChangeStatus = "added" | "removed" | "modified";
+
+interface FileChange {
+  path: string;
+  status: FileChangeStatus;
+  diff: string;
+}
+
+/**
+ * File-level changes between the code of two deployments
+ */
+function diffDeploymentFiles(
+  from: WorkflowDeploymentResponse,
+  to: WorkflowDeploymentResponse
+): FileChange[] {
+  const fromFiles = from.userCode?.files ?? {};
+  const toFiles = to.userCode?.files ?? {};
+  const paths = [...new Set([...Object.keys(fromFiles), ...Object.keys(toFiles)])].sort();
+
+  const changes: FileChange[] = [];
+  for (const path of paths) {
+    const before = fromFiles[path];
+    const after = toFiles[path];
+    if (before === after) continue;
+
+    const status: FileChangeStatus =
+      before === undefined ? "added" : after === undefined ? "removed" : "modified";
+    changes.push({
+      path,
+      status,
+      diff: createUnifiedDiff(
+        before === undefined ? "/dev/null" : `a/${path}`,
+        after === undefined ? "/dev/null" : `b/${path}`,
+        before ?? "",
+        after ?? ""
+      ),
+    });
+  }
+
+  return changes;
+}
+
+function printDiff(diff: string) {
+  for (const line of diff.trimEnd().split("\n")) {
+    if (line.startsWith("+++") || line.startsWith("---")) {
+      console.log(chalk.bold(line));
+    } else if (line.startsWith("@@")) {
+      console.log(chalk.cyan(line));
+    } else if (line.startsWith("+")) {
+      console.log(chalk.green(line));
+    } else if (line.startsWith("-")) {
+      console.log(chalk.red(line));
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+export async function deploymentsDiffCommand(
+  fromId: string,
+  toId: string,
+  options: { json?: boolean }
+) {
+  const [from, to] = await Promise.all([
+    fetchWorkflowDeployment(fromId),
+    fetchWorkflowDeployment(toId),
+  ]);
+
+  const files = diffDeploymentFiles(from, to);
+  const triggers = createUnifiedDiff(
+    "a/triggers.json",
+    "b/triggers.json",
+    JSON.stringify(from.triggerDefinitions ?? [], null, 2),
+    JSON.stringify(to.triggerDefinitions ?? [], null, 2)
+  );
+  const fromEntrypoint = from.userCode?.entrypoint ?? null;
+  const toEntrypoint = to.userCode?.entrypoint ?? null;
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        {
+          from: from.id,
+          to: to.id,
+          entrypoint: { from: fromEntrypoint, to: toEntrypoint },
+          files,
+          triggers,
+        },
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  console.log(`\n${chalk.bold("From:")} ${chalk.dim(from.id)} ${chalk.gray(`(${from.deployedAt})`)}`);
+  console.log(`${chalk.bold("To:")}   ${chalk.dim(to.id)} ${chalk.gray(`(${to.deployedAt})`)}`);
+
+  if (files.length === 0 && !triggers && fromEntrypoint === toEntrypoint) {
+    console.log(`\n${chalk.dim("No differences")}`);
+    return;
+  }
+
+  if (fromEntrypoint !== toEntrypoint) {
+    console.log(`\n${chalk.bold("Entrypoint:")} ${fromEntrypoint} → ${toEntrypoint}`);
+  }
+
+  for (const file of files) {
+    console.log("");
+    printDiff(file.diff);
+  }
+
+  if (triggers) {
+    console.log(`\n${chalk.bold("Trigger definitions")}`);
+    printDiff(triggers);
+  }
+
+  const summary = (["added", "modified", "removed"] as const)
+    .map((status) => ({ status, count: files.filter((file) => file.status === status).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ status, count }) => `${count} ${count === 1 ? "file" : "files"} ${status}`);
+  if (triggers) {
+    summary.push("triggers changed");
+  }
+  console.log(`\n${chalk.dim(summary.join(", "))}`);
+}
+
+export async function rollbackCommand(options: {
+  workflow?: string;
+  to?: string;
+  json?: boolean;
+}) {
+  const workflowId = await resolveWorkflowContext(options.workflow);
+
+  if (options.json) {
+    const deployment = await rollbackWorkflow(workflowId, options.to);
+    console.log(JSON.stringify(deployment, null, 2));
+    return;
+  }
+
+  const deployment = await logger.task("⏪ Rolling back workflow", async () => {
+    return await rollbackWorkflow(workflowId, options.to);
+  });
+
+  logger.success(`Deployment ${deployment.id} is active again`);
+  if (deployment.previousDeploymentId) {
+    logger.plain(`Deactivated deployment ${deployment.previousDeploymentId}`);
+  }
+
+  if (deployment.webhooks.length > 0) {
+    console.log("\n📌 Webhook URLs:");
+    for (const webhook of deployment.webhooks) {
+      const pathInfo = webhook.path
+        ? ` ${webhook.method || "POST"} ${webhook.path}`
+        : "";
+      console.log(`  ${pathInfo}`);
+      console.log(`     → ${webhook.url}`);
+    }
+  }
+
+  if (deployment.previousDeploymentId) {
+    logger.tip(`Undo with: floww rollback --to ${deployment.previousDeploymentId}`);
+  }
+}
@@ -1,6 +1,12 @@
 import chokidar from "chokidar";
 import { DevModeOrchestrator } from "../runtime/DevModeOrchestrator";
-import { loadProjectConfig, hasProjectConfig, detectProjectDirectory } from "../config/projectConfig";
+import { RecordedEvent, loadRecordedEvent } from "../runtime/eventRecorder";
+import {
+  loadProjectConfig,
+  hasProjectConfig,
+  detectProjectDirectory,
+  setActiveEnvironment,
+} from "../config/projectConfig";
 import { logger } from "../utils/logger";
 import { getValidAuth } from "../auth/tokenUtils";
 
@@ -9,6 +15,9 @@ interface DevOptions {
   host: string;
   debug?: boolean;
   debugPort?: string;
+  env?: string;
+  record?: boolean;
+  replay?: string;
 }
 
 /**
@@ -30,6 +39,9 @@ interface DevOptions {
  * - Provider setup: Re-execute from step 1
  *
  * The DevModeOrchestrator handles this entire flow internally.
+ *
+ * Webhook events can be saved with --record and re-run with --replay <file>,
+ * or by pressing "r" to replay the last event after a reload.
  */
 export async function devCommand(
   file: string | undefined,
@@ -62,6 +74,9 @@ export async function devCommand(
     debugPort = 9229;
   }
 
+  // Run against the workflow and providers of an environment in floww.yaml
+  setActiveEnvironment(options.env);
+
   // Determine the file to use
   let entrypoint: string;
   if (file) {
@@ -89,7 +104,11 @@ export async function devCommand(
   if (hasProjectConfig(projectDir)) {
     const config = loadProjectConfig(projectDir);
     if (!config.workflowId) {
-      logger.error("No workflow configured. Run 'floww deploy' to set up your workflow.");
+      logger.error(
+        options.env
+          ? `No workflowId configured for environment "${options.env}" in floww.yaml.`
+          : "No workflow configured. Run 'floww deploy' to set up your workflow."
+      );
       process.exit(1);
     }
   } else {
@@ -97,6 +116,17 @@ export async function devCommand(
     process.exit(1);
   }
 
+  // Load the event to replay up front so a bad file fails before startup
+  let replayEvent: RecordedEvent | undefined;
+  if (options.replay) {
+    try {
+      replayEvent = loadRecordedEvent(options.replay);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+
   logger.info(`Development Mode`);
   logger.plain(`📂 Watching: ${entrypoint}`);
 
@@ -108,6 +138,7 @@ export async function devCommand(
     host,
     debugMode,
     debugPort,
+    record: options.record,
   });
 
   // Start dev mode
@@ -139,9 +170,29 @@ export async function devCommand(
   });
 
   // Handle graceful shutdown
-  process.on("SIGINT", async () => {
+  const shutdown = async () => {
     await watcher.close();
     await orchestrator.stop();
     process.exit(0);
-  });
+  };
+  process.on("SIGINT", shutdown);
+
+  if (replayEvent) {
+    logger.info(`Replaying ${options.replay}`);
+    orchestrator.replayEvent(replayEvent);
+  }
+
+  // Interactive keys; raw mode swallows Ctrl+C, so handle it here too
+  if (logger.interactive && process.stdin.isTTY) {
+    process.stdin.setRawMode(true);
+    process.stdin.setEncoding("utf-8");
+    process.stdin.on("data", (key: string) => {
+      if (key === "\u0003") {
+        shutdown();
+      } else if (key === "r") {
+        orchestrator.replayLastEvent();
+      }
+    });
+    logger.tip("Press r to replay the last webhook event");
+  }
 }
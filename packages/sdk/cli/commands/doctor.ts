@@ -0,0 +1,399 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import logSymbols from "log-symbols";
+import { Centrifuge } from "centrifuge";
+import { defaultApiClient } from "../api/client";
+import { fetchDefaultRuntimeStatus } from "../api/apiMethods";
+import { loadActiveProfile } from "../auth/authUtils";
+import { getValidAuth } from "../auth/tokenUtils";
+import { getConfigValue } from "../config/configUtils";
+import { getWebSocketUrl } from "../config/computedConfig";
+import {
+  ProjectConfig,
+  detectProjectDirectory,
+  hasProjectConfig,
+  loadProjectConfig,
+  setActiveEnvironment,
+} from "../config/projectConfig";
+import { checkProviderAvailability } from "../providers/availability";
+import { executeUserCode } from "../runtime/userCode";
+import {
+  fetchProviderConfigs,
+  fetchProviderConfigsByMapping,
+  resolveWorkflow,
+} from "../runtime/workflow";
+import { dockerGetServerVersion } from "../utils/dockerUtils";
+import { readSdkVersion, shouldUseDefaultRuntime } from "./deploy";
+
+type CheckStatus = "pass" | "warn" | "fail";
+
+interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  message: string;
+  hint?: string;
+}
+
+interface DoctorContext {
+  backendUrl: string;
+  authenticated: boolean;
+  projectDir: string;
+  projectConfig?: ProjectConfig;
+}
+
+// Network checks give up after this long instead of hanging the command
+const TIMEOUT_MS = 5000;
+
+function pass(name: string, message: string): CheckResult {
+  return { name, status: "pass", message };
+}
+
+function warn(name: string, message: string, hint?: string): CheckResult {
+  return { name, status: "warn", message, hint };
+}
+
+function fail(name: string, message: string, hint?: string): CheckResult {
+  return { name, status: "fail", message, hint };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function formatTimeLeft(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d`;
+}
+
+async function checkAuth(ctx: DoctorContext): Promise<CheckResult> {
+  const name = "Authentication";
+  const usingToken = Boolean(process.env.FLOWW_TOKEN);
+  const profile = loadActiveProfile();
+
+  if (!usingToken && !profile) {
+    return fail(name, "Not logged in", "Run 'floww login' or set FLOWW_TOKEN");
+  }
+
+  // Refreshes an expiring session like any other command would
+  const auth = await getValidAuth();
+  if (!auth || (!usingToken && auth.expiresAt <= Date.now())) {
+    return fail(name, "Session expired and could not be refreshed", "Run 'floww login' again");
+  }
+
+  let email: string | undefined;
+  try {
+    const user = await defaultApiClient().apiCall<{ email?: string }>("/whoami");
+    email = user.email;
+  } catch (error) {
+    return fail(
+      name,
+      `The backend rejected the ${usingToken ? "FLOWW_TOKEN" : "stored token"}: ${errorMessage(error)}`,
+      usingToken ? "Check that the API key in FLOWW_TOKEN hasn't been revoked" : "Run 'floww login' again"
+    );
+  }
+
+  ctx.authenticated = true;
+  if (usingToken) {
+    return pass(name, `Using FLOWW_TOKEN${email ? ` (${email})` : ""}`);
+  }
+  const timeLeft = formatTimeLeft(auth.expiresAt - Date.now());
+  if (!auth.refreshToken && auth.expiresAt - Date.now() < 60 * 60 * 1000) {
+    return warn(
+      name,
+      `Logged in as ${email ?? "unknown"}, token expires in ${timeLeft} and can't be refreshed`,
+      "Run 'floww login' to start a new session"
+    );
+  }
+  return pass(name, `Logged in as ${email ?? "unknown"} (token valid for ${timeLeft})`);
+}
+
+async function fetchPublic(ctx: DoctorContext, endpoint: string): Promise<Response> {
+  return await fetch(`${ctx.backendUrl.replace(/\/$/, "")}/api${endpoint}`, {
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+}
+
+async function checkHealth(ctx: DoctorContext): Promise<CheckResult> {
+  const name = "Backend health";
+  try {
+    const response = await fetchPublic(ctx, "/health");
+    const body = (await response.json()) as { status?: string; services?: Record<string, string> };
+    if (response.ok && body.status === "ok") {
+      return pass(name, `${ctx.backendUrl} is healthy`);
+    }
+    const failing = Object.entries(body.services ?? {})
+      .filter(([, status]) => status !== "ok")
+      .map(([service]) => service);
+    return fail(
+      name,
+      `${ctx.backendUrl} reports errors${failing.length > 0 ? ` in: ${failing.join(", ")}` : ""}`,
+      "The server is up but unhealthy; check its logs"
+    );
+  } catch (error) {
+    return fail(
+      name,
+      `Cannot reach ${ctx.backendUrl}: ${errorMessage(error)}`,
+      "Check your connection, or the backend URL with 'floww config get backendUrl'"
+    );
+  }
+}
+
+async function checkServerConfig(ctx: DoctorContext): Promise<CheckResult> {
+  const name = "Backend config";
+  try {
+    const response = await fetchPublic(ctx, "/config");
+    if (!response.ok) {
+      return fail(name, `/config returned HTTP ${response.status}`, "Check that the backend URL points at a floww server");
+    }
+    const config = (await response.json()) as { version?: string; auth?: { provider?: string } };
+    return pass(
+      name,
+      `Server ${config.version ?? "(unknown version)"}, ${config.auth?.provider ?? "unknown"} auth`
+    );
+  } catch (error) {
+    return fail(name, `Could not load /config: ${errorMessage(error)}`);
+  }
+}
+
+function checkProject(ctx: DoctorContext): CheckResult {
+  const name = "Project";
+  if (!hasProjectConfig(ctx.projectDir)) {
+    return warn(name, "No floww.yaml in this directory, skipping project checks", "Run 'floww init' to create one");
+  }
+
+  let projectConfig: ProjectConfig;
+  try {
+    projectConfig = loadProjectConfig(ctx.projectDir);
+  } catch (error) {
+    return fail(name, `floww.yaml is invalid: ${errorMessage(error)}`, "Fix the reported field in floww.yaml");
+  }
+
+  const entrypoint = projectConfig.entrypoint || "main.ts";
+  if (!fs.existsSync(path.join(ctx.projectDir, entrypoint))) {
+    return fail(name, `Entrypoint ${entrypoint} does not exist`, "Create it or set 'entrypoint' in floww.yaml");
+  }
+
+  // Later checks only run against a project that loads
+  ctx.projectConfig = projectConfig;
+  if (!ctx.projectConfig.workflowId) {
+    return warn(name, `floww.yaml is valid (entrypoint ${entrypoint}) but has no workflowId`, "Run 'floww deploy' to create or select a workflow");
+  }
+  return pass(name, `floww.yaml is valid, entrypoint ${entrypoint}`);
+}
+
+async function checkSdkVersion(ctx: DoctorContext): Promise<CheckResult> {
+  const name = "SDK version";
+  if (!shouldUseDefaultRuntime(ctx.projectDir, ctx.projectConfig!)) {
+    return pass(name, "Custom Dockerfile: the SDK version is whatever the image installs");
+  }
+
+  const declared = readSdkVersion(ctx.projectDir);
+  if (!declared) {
+    return warn(
+      name,
+      "floww is not pinned in package.json, so deploys use the server's default runtime as is",
+      "Add a floww version to dependencies in package.json"
+    );
+  }
+
+  let installed: string | undefined;
+  try {
+    const installedPackage = path.join(ctx.projectDir, "node_modules", "floww", "package.json");
+    installed = JSON.parse(fs.readFileSync(installedPackage, "utf-8")).version;
+  } catch {
+    // Not installed locally; the declared version is what deploys use
+  }
+
+  if (!ctx.authenticated) {
+    return warn(name, `package.json declares floww ${declared}; runtime support not checked`, "Log in to check it against the server");
+  }
+
+  try {
+    const status = await fetchDefaultRuntimeStatus(declared);
+    if (!status.available) {
+      return fail(
+        name,
+        status.reason ?? `The server has no default runtime for floww ${declared}`,
+        "Pin a floww version the server supports, or deploy with a custom Dockerfile"
+      );
+    }
+  } catch (error) {
+    return fail(name, `Could not check runtime support for floww ${declared}: ${errorMessage(error)}`);
+  }
+
+  if (installed && installed !== declared) {
+    return warn(
+      name,
+      `Installed floww ${installed}, but package.json declares ${declared} (which deploys use)`,
+      "Run your package manager's install so local runs match deploys"
+    );
+  }
+  return pass(name, `floww ${declared} is supported by the server's default runtime`);
+}
+
+async function checkDocker(ctx: DoctorContext): Promise<CheckResult> {
+  const name = "Docker";
+  const needed = ctx.projectConfig !== undefined && !shouldUseDefaultRuntime(ctx.projectDir, ctx.projectConfig);
+  try {
+    const version = await dockerGetServerVersion();
+    return pass(name, `Docker ${version} is running`);
+  } catch {
+    return needed
+      ? fail(name, "Docker is not available, but this project builds a custom image", "Install Docker and start the daemon")
+      : warn(name, "Docker is not available (only needed for custom Dockerfile builds)", "Install Docker if you add a Dockerfile");
+  }
+}
+
+async function checkProviders(ctx: DoctorContext): Promise<CheckResult> {
+  const name = "Providers";
+  const projectConfig = ctx.projectConfig!;
+  if (!ctx.authenticated) {
+    return warn(name, "Not checked without authentication");
+  }
+
+  let usedProviders;
+  try {
+    // Provider configs let the code load the same way it does in dev mode
+    const mappings = projectConfig.providers && Object.keys(projectConfig.providers).length > 0
+      ? projectConfig.providers
+      : undefined;
+    const providerConfigs = projectConfig.workflowId
+      ? await resolveWorkflow(projectConfig).then(({ namespaceId }) =>
+          mappings ? fetchProviderConfigsByMapping(mappings, namespaceId) : fetchProviderConfigs(namespaceId)
+        )
+      : new Map();
+    ({ usedProviders } = await executeUserCode(projectConfig.entrypoint || "main.ts", providerConfigs));
+  } catch (error) {
+    return fail(name, `Could not load the project code: ${errorMessage(error)}`, "Run 'floww dev' to see the full error");
+  }
+
+  if (usedProviders.length === 0) {
+    return pass(name, "The code uses no providers");
+  }
+
+  const { unavailable } = await checkProviderAvailability(usedProviders, projectConfig.providers);
+  if (unavailable.length > 0) {
+    return fail(
+      name,
+      `Not configured: ${unavailable.map((p) => `${p.type}:${p.alias || "default"}`).join(", ")}`,
+      "Run 'floww dev' to set them up, or map them under 'providers' in floww.yaml"
+    );
+  }
+  return pass(name, `All ${usedProviders.length} provider(s) used in code are configured`);
+}
+
+async function checkRealtime(ctx: DoctorContext): Promise<CheckResult> {
+  const name = "Realtime";
+  if (!ctx.authenticated) {
+    return warn(name, "Not checked without authentication");
+  }
+
+  const auth = await getValidAuth();
+  const websocketUrl = getWebSocketUrl();
+  const centrifuge = new Centrifuge(websocketUrl, {
+    headers: { Authorization: `Bearer ${auth!.accessToken}` },
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error(`no connection within ${TIMEOUT_MS / 1000}s`)),
+        TIMEOUT_MS
+      );
+      centrifuge.on("connected", () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      centrifuge.on("disconnected", (event) => {
+        clearTimeout(timer);
+        reject(new Error(event.reason));
+      });
+      centrifuge.on("error", (event) => {
+        clearTimeout(timer);
+        reject(new Error(event.error.message));
+      });
+      centrifuge.connect();
+    });
+    return pass(name, `Connected to ${websocketUrl}`);
+  } catch (error) {
+    return fail(
+      name,
+      `Cannot connect to ${websocketUrl}: ${errorMessage(error)}`,
+      "floww dev won't receive backend webhooks or realtime events; check that the WebSocket URL is reachable"
+    );
+  } finally {
+    centrifuge.disconnect();
+  }
+}
+
+function printResult(result: CheckResult): void {
+  const symbol =
+    result.status === "pass"
+      ? logSymbols.success
+      : result.status === "warn"
+        ? logSymbols.warning
+        : logSymbols.error;
+  console.log(`  ${symbol} ${chalk.bold(result.name.padEnd(16))} ${result.message}`);
+  if (result.hint && result.status !== "pass") {
+    console.log(`    ${" ".repeat(16)} ${chalk.dim(`→ ${result.hint}`)}`);
+  }
+}
+
+/**
+ * Doctor Command - Check everything that commonly breaks floww
+ *
+ * Runs each check in order and prints a pass/warn/fail checklist with a hint
+ * for every problem. Checks that need a login or a project are reported as
+ * warnings when those are missing. Exits with 1 if any check failed.
+ */
+export async function doctorCommand(options: { env?: string; json?: boolean }) {
+  setActiveEnvironment(options.env);
+
+  const profile = loadActiveProfile();
+  const ctx: DoctorContext = {
+    backendUrl: profile?.backendUrl ?? getConfigValue("backendUrl"),
+    authenticated: false,
+    projectDir: detectProjectDirectory(),
+  };
+
+  // Project checks are left out when there is no usable project
+  const checks: Array<() => Promise<CheckResult | null> | CheckResult | null> = [
+    () => checkAuth(ctx),
+    () => checkHealth(ctx),
+    () => checkServerConfig(ctx),
+    () => checkProject(ctx),
+    () => (ctx.projectConfig ? checkSdkVersion(ctx) : null),
+    () => checkDocker(ctx),
+    () => (ctx.projectConfig ? checkProviders(ctx) : null),
+    () => checkRealtime(ctx),
+  ];
+
+  if (!options.json) {
+    console.log(`\n${chalk.bold("floww doctor")}\n`);
+  }
+
+  const results: CheckResult[] = [];
+  for (const check of checks) {
+    const result = await check();
+    if (!result) continue;
+    results.push(result);
+    if (!options.json) printResult(result);
+  }
+
+  const count = (status: CheckStatus) => results.filter((r) => r.status === status).length;
+  const summary = { pass: count("pass"), warn: count("warn"), fail: count("fail") };
+
+  if (options.json) {
+    console.log(JSON.stringify({ checks: results, summary }, null, 2));
+  } else {
+    console.log(
+      `\n${chalk.green(`${summary.pass} passed`)}, ${chalk.yellow(`${summary.warn} warnings`)}, ${chalk.red(`${summary.fail} failed`)}\n`
+    );
+  }
+
+  // Open handles (user code timers, sockets) shouldn't keep the process alive
+  process.exit(summary.fail > 0 ? 1 : 0);
+}
@@ -0,0 +1,277 @@
+import Table from "cli-table3";
+import chalk from "chalk";
+import logSymbols from "log-symbols";
+import {
+  fetchExecutions,
+  fetchExecution,
+  fetchExecutionLogs,
+  replayExecution,
+  cancelExecution,
+  type ExecutionSummary,
+} from "../api/apiMethods";
+import { logger } from "../utils/logger";
+import { parseTimeFilter } from "../utils/timeUtils";
+import { resolveWorkflowContext } from "../workflow/workflowContext";
+
+interface ExecutionsListOptions {
+  status?: string;
+  trigger?: string;
+  since?: string;
+  until?: string;
+  limit?: string;
+  json?: boolean;
+}
+
+function formatTimestamp(dateString: string | null): string {
+  if (!dateString) return "—";
+  return new Date(dateString).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  });
+}
+
+export function formatDuration(durationMs: number | null): string {
+  if (durationMs === null) return "—";
+  if (durationMs < 1000) return `${durationMs}ms`;
+  return `${(durationMs / 1000).toFixed(2)}s`;
+}
+
+export function formatExecutionStatus(status: string): string {
+  switch (status.toLowerCase()) {
+    case "completed":
+      return chalk.green("Completed");
+    case "failed":
+      return chalk.red("Failed");
+    case "timeout":
+      return chalk.red("Timeout");
+    case "started":
+      return chalk.blue("Started");
+    case "received":
+      return chalk.cyan("Received");
+    case "sleeping":
+      return chalk.yellow("Sleeping");
+    case "waiting":
+      return chalk.yellow("Waiting");
+    case "no_deployment":
+      return chalk.dim("No deployment");
+    default:
+      return chalk.dim(status.charAt(0) + status.slice(1).toLowerCase());
+  }
+}
+
+function formatTrigger(execution: ExecutionSummary): string {
+  if (execution.webhookPath) {
+    return `${execution.webhookMethod ?? "POST"} ${execution.webhookPath}`;
+  }
+  return execution.triggerType ?? "—";
+}
+
+function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return text.substring(0, maxLength - 3) + "...";
+}
+
+function exitWithError(message: string): never {
+  logger.error(message);
+  process.exit(1);
+}
+
+export async function listExecutionsCommand(
+  workflowArg: string | undefined,
+  options: ExecutionsListOptions
+) {
+  let since: Date | undefined;
+  let until: Date | undefined;
+  try {
+    since = options.since ? parseTimeFilter(options.since, "--since") : undefined;
+    until = options.until ? parseTimeFilter(options.until, "--until") : undefined;
+  } catch (error) {
+    exitWithError(error instanceof Error ? error.message : String(error));
+  }
+
+  const limit = options.limit ? parseInt(options.limit, 10) : 20;
+  if (!Number.isInteger(limit) || limit < 1) {
+    exitWithError("--limit must be a positive number");
+  }
+
+  const workflowId = await resolveWorkflowContext(workflowArg);
+  const { executions, total } = await fetchExecutions(workflowId, {
+    status: options.status,
+    triggerId: options.trigger,
+    since,
+    until,
+    limit,
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify(executions, null, 2));
+    return;
+  }
+
+  if (executions.length === 0) {
+    console.log(`\n${logSymbols.warning} ${chalk.yellow("No executions found")}`);
+    return;
+  }
+
+  const table = new Table({
+    head: [
+      chalk.gray("ID"),
+      chalk.gray("STATUS"),
+      chalk.gray("TRIGGER"),
+      chalk.gray("RECEIVED"),
+      chalk.gray("DURATION"),
+      chalk.gray("ERROR"),
+    ],
+    style: {
+      head: [],
+      border: [],
+    },
+    chars: {
+      top: "",
+      "top-mid": "",
+      "top-left": "",
+      "top-right": "",
+      bottom: "",
+      "bottom-mid": "",
+      "bottom-left": "",
+      "bottom-right": "",
+      left: "",
+      "left-mid": "",
+      mid: "",
+      "mid-mid": "",
+      right: "",
+      "right-mid": "",
+      middle: " ",
+    },
+  });
+
+  executions.forEach((execution) => {
+    table.push([
+      chalk.dim(execution.id),
+      formatExecutionStatus(execution.status),
+      chalk.cyan(formatTrigger(execution)),
+      chalk.green(formatTimestamp(execution.receivedAt)),
+      formatDuration(execution.durationMs),
+      chalk.red(truncateText(execution.errorMessage ?? "", 50)),
+    ]);
+  });
+
+  console.log("\n" + table.toString());
+  console.log(`\n${chalk.dim(`Showing ${executions.length} of ${total} executions`)}`);
+}
+
+export async function showExecutionCommand(
+  executionId: string,
+  options: { json?: boolean }
+) {
+  const [execution, logs] = await Promise.all([
+    fetchExecution(executionId),
+    fetchExecutionLogs(executionId),
+  ]);
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...execution, logs }, null, 2));
+    return;
+  }
+
+  console.log(`\n${chalk.bold("Execution:")} ${chalk.white(execution.id)}`);
+  console.log(`${chalk.bold("Status:")}    ${formatExecutionStatus(execution.status)}`);
+  console.log(`${chalk.bold("Trigger:")}   ${chalk.cyan(formatTrigger(execution))}`);
+  console.log(`${chalk.bold("Attempt:")}   ${execution.attempt}`);
+  if (execution.replayOfExecutionId) {
+    console.log(`${chalk.bold("Replay of:")} ${chalk.dim(execution.replayOfExecutionId)}`);
+  }
+  if (execution.duplicateOfExecutionId) {
+    console.log(`${chalk.bold("Duplicate of:")} ${chalk.dim(execution.duplicateOfExecutionId)}`);
+  }
+
+  // Timeline: lifecycle timestamps and durable checkpoints, oldest first
+  const timeline: Array<{ at: string; label: string }> = [
+    { at: execution.receivedAt, label: "Received" },
+  ];
+  if (execution.startedAt) {
+    timeline.push({ at: execution.startedAt, label: "Started" });
+  }
+  for (const step of execution.steps) {
+    if (step.kind === "sleep") {
+      if (step.wakeAt) {
+        timeline.push({ at: step.wakeAt, label: `Sleep "${step.name}" until` });
+      }
+    } else if (step.completedAt) {
+      const kind = step.kind === "approval" ? "Approval" : "Step";
+      timeline.push({ at: step.completedAt, label: `${kind} "${step.name}" done` });
+    }
+  }
+  if (execution.completedAt) {
+    timeline.push({
+      at: execution.completedAt,
+      label: `${formatExecutionStatus(execution.status)} ${chalk.dim(`(${formatDuration(execution.durationMs)})`)}`,
+    });
+  }
+  timeline.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+  console.log(`\n${chalk.bold("Timeline")}`);
+  for (const entry of timeline) {
+    console.log(`  ${chalk.dim(formatTimestamp(entry.at))}  ${entry.label}`);
+  }
+
+  if (execution.attempts.length > 1) {
+    console.log(`\n${chalk.bold("Retry chain")}`);
+    for (const attempt of execution.attempts) {
+      const marker = attempt.id === execution.id ? chalk.cyan("›") : " ";
+      console.log(
+        `${marker} Attempt ${attempt.attempt}  ${formatExecutionStatus(attempt.status)}  ${chalk.dim(attempt.id)}`
+      );
+    }
+  }
+
+  if (execution.errorMessage) {
+    console.log(`\n${chalk.bold("Error")}`);
+    console.log(chalk.red(execution.errorMessage));
+  }
+
+  console.log(`\n${chalk.bold("Logs")}`);
+  if (logs.length === 0) {
+    console.log(chalk.dim("  No logs"));
+  }
+  for (const log of logs) {
+    logger.executionLog(log);
+  }
+}
+
+export async function rerunExecutionCommand(
+  executionId: string,
+  options: { original?: boolean; json?: boolean }
+) {
+  const result = await replayExecution(
+    executionId,
+    options.original ? "original" : "active"
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  logger.success(`Re-running execution ${executionId} as ${result.executionId}`);
+  logger.tip(`Follow it with: floww executions show ${result.executionId}`);
+}
+
+export async function cancelExecutionCommand(
+  executionId: string,
+  options: { json?: boolean }
+) {
+  const execution = await cancelExecution(executionId);
+
+  if (options.json) {
+    console.log(JSON.stringify(execution, null, 2));
+    return;
+  }
+
+  logger.success(`Cancelled execution ${execution.id}`);
+}
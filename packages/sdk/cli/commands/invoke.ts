@@ -0,0 +1,244 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import {
+  executeTrigger,
+  fetchExecution,
+  fetchExecutionLogs,
+  fetchProviders,
+  fetchTriggers,
+  fetchWorkflow,
+} from "../api/apiMethods";
+import { getValidAuth } from "../auth/tokenUtils";
+import {
+  detectProjectDirectory,
+  hasProjectConfig,
+  loadProjectConfig,
+  setActiveEnvironment,
+} from "../config/projectConfig";
+import { createDevContext } from "../runtime/EventRouter";
+import { executionContextManager } from "../runtime/ExecutionContextManager";
+import { executeUserCode } from "../runtime/userCode";
+import { parseDuration } from "../../runtime/durable";
+import {
+  fetchProviderConfigs,
+  fetchProviderConfigsByMapping,
+  resolveWorkflow,
+} from "../runtime/workflow";
+import { logger } from "../utils/logger";
+import { selectTrigger, type TriggerRef } from "../utils/triggerUtils";
+import { resolveWorkflowContext } from "../workflow/workflowContext";
+import { formatDuration, formatExecutionStatus } from "./executions";
+import type { Trigger } from "../../common";
+import type { ProviderMetadata } from "../../userCode/providers";
+
+interface InvokeOptions {
+  data?: string;
+  remote?: boolean;
+  workflow?: string;
+  env?: string;
+  timeout?: string;
+}
+
+// Execution statuses after which nothing more happens without outside input
+const FINISHED_STATUSES = ["COMPLETED", "FAILED", "TIMEOUT", "CANCELLED", "NO_DEPLOYMENT", "DUPLICATE"];
+const SUSPENDED_STATUSES = ["SLEEPING", "WAITING"];
+
+// How long --remote follows an execution before giving up
+const DEFAULT_REMOTE_TIMEOUT = "15m";
+
+function exitWithError(message: string): never {
+  logger.error(message);
+  process.exit(1);
+}
+
+/**
+ * Read the event to invoke the trigger with: a JSON file, or stdin for "-"
+ */
+function readEventData(file?: string): Record<string, unknown> {
+  if (!file) return {};
+
+  let content: string;
+  try {
+    content = file === "-" ? fs.readFileSync(0, "utf-8") : fs.readFileSync(path.resolve(file), "utf-8");
+  } catch (error) {
+    exitWithError(`Could not read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    exitWithError(`Invalid JSON in ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    exitWithError(`The event in ${file} must be a JSON object`);
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Load the project like `floww dev` does and run one trigger's handler in this process
+ */
+async function invokeLocally(selector: string, data: Record<string, unknown>) {
+  const projectDir = detectProjectDirectory();
+  if (!hasProjectConfig(projectDir)) {
+    exitWithError("No floww.yaml found. Run 'floww init' to create one.");
+  }
+  const projectConfig = loadProjectConfig(projectDir);
+  const entrypoint = projectConfig.entrypoint || "main.ts";
+
+  // Providers are configured from the workflow's namespace, as in dev mode
+  const workflowConfig = await resolveWorkflow(projectConfig);
+  const { triggers } = await logger.debugTask("Executing user code", async () => {
+    const providerConfigs =
+      projectConfig.providers && Object.keys(projectConfig.providers).length > 0
+        ? await fetchProviderConfigsByMapping(projectConfig.providers, workflowConfig.namespaceId)
+        : await fetchProviderConfigs(workflowConfig.namespaceId);
+    return await executeUserCode(entrypoint, providerConfigs);
+  });
+
+  let trigger;
+  try {
+    trigger = selectTrigger(
+      triggers,
+      (t: Trigger & { _providerMeta?: ProviderMetadata }): TriggerRef => ({
+        providerType: t._providerMeta?.type ?? t.type,
+        providerAlias: t._providerMeta?.alias ?? "default",
+        triggerType: t._providerMeta?.triggerType ?? t.type,
+        input: t._providerMeta?.input,
+      }),
+      selector
+    );
+  } catch (error) {
+    exitWithError(error instanceof Error ? error.message : String(error));
+  }
+
+  logger.info(`Invoking ${selector} locally`);
+  const startTime = Date.now();
+  try {
+    const ctx = await createDevContext(data);
+    const result = await trigger.handler(ctx, data);
+    logger.success(`Completed in ${formatDuration(Date.now() - startTime)}`);
+    if (result !== undefined) {
+      console.log(`\n${chalk.bold("Result")}`);
+      console.log(JSON.stringify(result, null, 2));
+    }
+  } catch (error) {
+    logger.error(`Failed after ${formatDuration(Date.now() - startTime)}`);
+    exitWithError(error instanceof Error ? error.stack || error.message : String(error));
+  } finally {
+    executionContextManager.clearContext();
+  }
+}
+
+/**
+ * Run a trigger of the deployed workflow and follow its execution until it finishes
+ */
+async function invokeRemotely(
+  selector: string,
+  data: Record<string, unknown>,
+  timeout: string,
+  workflowArg?: string
+) {
+  let timeoutMs: number;
+  try {
+    timeoutMs = parseDuration(timeout);
+  } catch (error) {
+    exitWithError(`Invalid --timeout: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const workflowId = await resolveWorkflowContext(workflowArg);
+  const workflow = await fetchWorkflow(workflowId);
+  const [triggers, providers] = await Promise.all([
+    fetchTriggers(workflowId),
+    fetchProviders(workflow.namespaceId),
+  ]);
+  const providersById = new Map(providers.map((provider) => [provider.id, provider]));
+
+  // Deployed triggers can also be picked by ID
+  let trigger = triggers.find((t) => t.id === selector);
+  if (!trigger) {
+    try {
+      trigger = selectTrigger(
+        triggers,
+        (t): TriggerRef => ({
+          providerType: providersById.get(t.providerId)?.type ?? "unknown",
+          providerAlias: providersById.get(t.providerId)?.alias ?? "default",
+          triggerType: t.triggerType,
+          input: t.input,
+        }),
+        selector
+      );
+    } catch (error) {
+      exitWithError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const { executionId } = await logger.task(`Invoking ${selector} on ${workflow.name}`, async () => {
+    return await executeTrigger(trigger.id, data);
+  });
+  logger.plain(chalk.dim(`Execution ${executionId}`));
+
+  // Follow the execution: print logs as they are reported until it stops
+  const deadline = Date.now() + timeoutMs;
+  let printed = 0;
+  while (true) {
+    const [execution, logs] = await Promise.all([
+      fetchExecution(executionId),
+      fetchExecutionLogs(executionId),
+    ]);
+    for (const log of logs.slice(printed)) {
+      logger.executionLog(log);
+    }
+    printed = logs.length;
+
+    if (FINISHED_STATUSES.includes(execution.status) || SUSPENDED_STATUSES.includes(execution.status)) {
+      console.log(
+        `\n${chalk.bold("Status:")} ${formatExecutionStatus(execution.status)} ${chalk.dim(`(${formatDuration(execution.durationMs)})`)}`
+      );
+      if (execution.errorMessage) {
+        console.log(chalk.red(execution.errorMessage));
+      }
+      if (SUSPENDED_STATUSES.includes(execution.status)) {
+        logger.tip(`The execution is suspended. Follow it with: floww executions show ${executionId}`);
+      } else if (execution.status !== "COMPLETED") {
+        process.exit(1);
+      }
+      return;
+    }
+
+    if (Date.now() >= deadline) {
+      exitWithError(
+        `Gave up waiting after ${timeout}; the execution is still ${execution.status.toLowerCase()}. ` +
+          `Follow it with: floww executions show ${executionId}`
+      );
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+}
+
+/**
+ * Invoke Command - Run one trigger with a given event
+ *
+ * Locally, the project is loaded through executeUserCode and the matching
+ * handler runs once in this process, with no dev server. With --remote, the
+ * deployed trigger is executed through the manual-trigger endpoint and its
+ * logs are streamed until the execution finishes, or --timeout passes.
+ */
+export async function invokeCommand(selector: string, options: InvokeOptions) {
+  const auth = await getValidAuth();
+  if (!auth) {
+    exitWithError("Not logged in. Run 'floww login' first.");
+  }
+
+  setActiveEnvironment(options.env);
+  const data = readEventData(options.data);
+
+  if (options.remote) {
+    await invokeRemotely(selector, data, options.timeout ?? DEFAULT_REMOTE_TIMEOUT, options.workflow);
+  } else {
+    await invokeLocally(selector, data);
+  }
+}
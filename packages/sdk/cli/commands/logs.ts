@@ -0,0 +1,173 @@
+import { Centrifuge } from "centrifuge";
+import { fetchWorkflowLogs } from "../api/apiMethods";
+import { getAuthToken, getValidAuth } from "../auth/tokenUtils";
+import { getWebSocketUrl } from "../config/computedConfig";
+import {
+  getLogLevelsAtLeast,
+  logger,
+  type ExecutionLogLine,
+} from "../utils/logger";
+import { parseTimeFilter } from "../utils/timeUtils";
+import { resolveWorkflowContext } from "../workflow/workflowContext";
+
+interface LogsOptions {
+  follow?: boolean;
+  level?: string;
+  since?: string;
+  execution?: string;
+  limit?: string;
+  json?: boolean;
+}
+
+/**
+ * Identity of a log line, to drop live lines that were already in the history
+ */
+function lineKey(line: ExecutionLogLine): string {
+  return `${line.executionId}|${new Date(line.timestamp).getTime()}|${line.message}`;
+}
+
+/**
+ * Stream the log lines of a workflow's executions as they are reported.
+ * The backend publishes them on the workflow channel when an execution
+ * completes or suspends. Returns a function that stops the stream.
+ */
+async function subscribeToWorkflowLogs(
+  workflowId: string,
+  onLine: (line: ExecutionLogLine) => void
+): Promise<() => void> {
+  const token = await getAuthToken();
+  const centrifuge = new Centrifuge(getWebSocketUrl(), {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  const subscription = centrifuge.newSubscription(`workflow:${workflowId}`);
+
+  subscription.on("publication", (ctx) => {
+    if (ctx.data.type !== "logs") return;
+
+    for (const log of ctx.data.logs ?? []) {
+      onLine({
+        timestamp: log.timestamp,
+        level: log.level,
+        message: log.message,
+        executionId: ctx.data.executionId,
+      });
+    }
+  });
+
+  subscription.on("error", (ctx) => {
+    logger.warn(`Log stream error: ${ctx.error.message}`);
+  });
+
+  subscription.subscribe();
+  centrifuge.connect();
+
+  return () => {
+    subscription.unsubscribe();
+    centrifuge.disconnect();
+  };
+}
+
+export async function logsCommand(
+  workflowArg: string | undefined,
+  options: LogsOptions
+) {
+  const jsonOutput = options.json ?? false;
+
+  // Check authentication
+  const auth = await getValidAuth();
+  if (!auth) {
+    if (jsonOutput) {
+      console.log(JSON.stringify({ error: "Not authenticated" }));
+    } else {
+      logger.error("Not logged in. Run 'npx floww login' first.");
+    }
+    process.exit(1);
+  }
+
+  let levels: string[] | undefined;
+  let since: Date | undefined;
+  try {
+    levels = options.level ? getLogLevelsAtLeast(options.level) : undefined;
+    since = options.since ? parseTimeFilter(options.since, "--since") : undefined;
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  const limit = options.limit ? parseInt(options.limit, 10) : 100;
+  if (!Number.isInteger(limit) || limit < 1) {
+    logger.error("--limit must be a positive number");
+    process.exit(1);
+  }
+
+  const workflowId = await resolveWorkflowContext(workflowArg);
+
+  const matches = (line: ExecutionLogLine) =>
+    (!options.execution || line.executionId === options.execution) &&
+    (!levels || levels.includes(line.level.toLowerCase())) &&
+    (!since || new Date(line.timestamp) >= since);
+
+  const print = (line: ExecutionLogLine) => {
+    if (jsonOutput) {
+      console.log(JSON.stringify(line));
+    } else {
+      logger.executionLog(line);
+    }
+  };
+
+  // Subscribe before reading the history so nothing is missed in between;
+  // live lines are held back until the history has been printed
+  let pending: ExecutionLogLine[] | null = [];
+  const stop = options.follow
+    ? await subscribeToWorkflowLogs(workflowId, (line) => {
+        if (!matches(line)) return;
+        if (pending) {
+          pending.push(line);
+        } else {
+          print(line);
+        }
+      })
+    : null;
+
+  const history = await fetchWorkflowLogs(workflowId, {
+    levels: levels?.map((level) => level.toUpperCase()),
+    executionId: options.execution,
+    since,
+    limit,
+  });
+
+  // The API returns the newest lines first
+  const lines: ExecutionLogLine[] = history.reverse().map((entry) => ({
+    timestamp: entry.timestamp,
+    level: entry.level,
+    message: entry.message,
+    executionId: entry.executionId,
+  }));
+  lines.forEach(print);
+
+  if (!stop) {
+    if (lines.length === 0 && !jsonOutput) {
+      logger.plain("No logs found");
+    }
+    return;
+  }
+
+  const printed = new Set(lines.map(lineKey));
+  for (const line of pending) {
+    if (!printed.has(lineKey(line))) {
+      print(line);
+    }
+  }
+  pending = null;
+
+  if (!jsonOutput) {
+    logger.tip("Streaming new logs, press Ctrl+C to stop");
+  }
+
+  await new Promise<void>((resolve) => process.once("SIGINT", () => resolve()));
+  stop();
+  process.exit(0);
+}
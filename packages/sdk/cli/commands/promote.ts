@@ -0,0 +1,110 @@
+import chalk from "chalk";
+import {
+  createWorkflowDeployment,
+  fetchActiveDeployment,
+} from "../api/apiMethods";
+import {
+  detectProjectDirectory,
+  getEnvironmentConfig,
+  loadProjectConfig,
+} from "../config/projectConfig";
+import { logger } from "../utils/logger";
+
+interface FailedTrigger {
+  providerType: string;
+  triggerType: string;
+  error?: string;
+}
+
+/**
+ * Promote Command - Redeploy the code running in one environment to another
+ *
+ * The active deployment of the source environment's workflow is deployed
+ * unchanged (same userCode, runtime and concurrency limit) to the target
+ * environment's workflow, using the target's provider mappings from floww.yaml.
+ */
+export async function promoteCommand(
+  from: string,
+  to: string,
+  options: { yes?: boolean }
+) {
+  if (from === to) {
+    logger.error("Source and target environment must differ");
+    process.exit(1);
+  }
+
+  const projectDir = detectProjectDirectory();
+  const projectConfig = loadProjectConfig(projectDir);
+  const source = getEnvironmentConfig(projectConfig, from);
+  const target = getEnvironmentConfig(projectConfig, to);
+
+  for (const [name, environment] of [[from, source], [to, target]] as const) {
+    if (!environment.workflowId) {
+      logger.error(`No workflowId for environment "${name}" in floww.yaml`);
+      process.exit(1);
+    }
+  }
+
+  const deployment = await fetchActiveDeployment(source.workflowId!);
+  if (!deployment?.userCode) {
+    logger.error(`Nothing to promote: ${from} has no active deployment`);
+    process.exit(1);
+  }
+
+  const fileCount = Object.keys(deployment.userCode.files).length;
+  console.log(`\n${chalk.bold("From:")} ${from} ${chalk.dim(`deployment ${deployment.id} (${deployment.deployedAt})`)}`);
+  console.log(`${chalk.bold("To:")}   ${to} ${chalk.dim(`workflow ${target.workflowId}`)}`);
+  console.log(chalk.dim(`${fileCount} ${fileCount === 1 ? "file" : "files"}, entrypoint ${deployment.userCode.entrypoint}\n`));
+
+  if (!options.yes) {
+    if (!logger.interactive) {
+      logger.error("Pass --yes to promote without a confirmation prompt");
+      process.exit(1);
+    }
+    const confirmed = await logger.confirm(`Deploy this code to ${to}?`, false);
+    if (!confirmed) {
+      logger.plain("Promotion cancelled");
+      return;
+    }
+  }
+
+  try {
+    const promoted = await logger.task(`🚀 Promoting to ${to}`, async () => {
+      return await createWorkflowDeployment({
+        workflowId: target.workflowId!,
+        runtimeId: deployment.runtimeId,
+        code: deployment.userCode!,
+        providerMappings:
+          target.providers && Object.keys(target.providers).length > 0
+            ? target.providers
+            : undefined,
+        environment: to,
+        concurrency: deployment.concurrency ?? undefined,
+      });
+    });
+
+    logger.success(`Deployment ${promoted.id} is active in ${to}`);
+
+    if (promoted.webhooks && promoted.webhooks.length > 0) {
+      console.log("\n📌 Webhook URLs:");
+      for (const webhook of promoted.webhooks) {
+        const pathInfo = webhook.path
+          ? ` ${webhook.method || "POST"} ${webhook.path}`
+          : "";
+        console.log(`  ${pathInfo}`);
+        console.log(`     → ${webhook.url}`);
+      }
+    }
+  } catch (error) {
+    const failedTriggers = (error as { failedTriggers?: FailedTrigger[] }).failedTriggers;
+    if (Array.isArray(failedTriggers)) {
+      console.log("\n❌ Promotion failed: Trigger creation errors");
+      for (const trigger of failedTriggers) {
+        const errorMsg = trigger.error || "Unknown error";
+        console.log(`  ✗ ${trigger.providerType}/${trigger.triggerType}: ${errorMsg.split("\nFor more information")[0].trim()}`);
+      }
+      process.exit(1);
+    }
+    throw error;
+  }
+}
@@ -1,10 +1,6 @@
 import fs from "fs";
 import path from "path";
-import {
-  fetchWorkflow,
-  fetchWorkflows,
-  fetchActiveDeployment,
-} from "../api/apiMethods";
+import { fetchWorkflow, fetchActiveDeployment } from "../api/apiMethods";
 import {
   hasProjectConfig,
   loadProjectConfig,
@@ -12,6 +8,7 @@ import {
 } from "../config/projectConfig";
 import { getValidAuth } from "../auth/tokenUtils";
 import { logger } from "../utils/logger";
+import { resolveWorkflowIdentifier } from "../workflow/workflowContext";
 
 interface PullOptions {
   outputDir?: string;
@@ -38,35 +35,6 @@ function classifyDirectory(dir: string): "empty" | "has_config" | "non_empty" {
   return "non_empty";
 }
 
-/**
- * Resolve a workflow identifier (name or ID) to a workflow ID.
- */
-async function resolveWorkflowIdentifier(
-  identifier: string
-): Promise<string> {
-  // Try as a direct ID first by fetching it
-  try {
-    const workflow = await fetchWorkflow(identifier);
-    return workflow.id;
-  } catch {
-    // Not a valid ID, try as a name
-  }
-
-  // Search by name
-  const workflows = await fetchWorkflows();
-  const match = workflows.find(
-    (w) => w.name.toLowerCase() === identifier.toLowerCase()
-  );
-
-  if (!match) {
-    throw new Error(
-      `Workflow not found: "${identifier}". Provide a valid workflow ID or name.`
-    );
-  }
-
-  return match.id;
-}
-
 export async function pullCommand(
   workflowArg: string | undefined,
   options: PullOptions
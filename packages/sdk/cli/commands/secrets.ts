@@ -0,0 +1,271 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import Table from "cli-table3";
+import { defaultApiClient } from "../api/client";
+import { resolveNamespaceContext } from "../namespace/namespaceContext";
+import { formatEnvFile, parseEnvFile } from "../secrets/envFile";
+import { SecretManager, type SecretResponse } from "../secrets/secretManager";
+import { logger } from "../utils/logger";
+
+interface SecretsOptions {
+  namespace?: string;
+  credential?: string;
+  reveal?: boolean;
+  yes?: boolean;
+  json?: boolean;
+}
+
+const MASK = "••••••••";
+
+function exitWithError(message: string): never {
+  logger.error(message);
+  process.exit(1);
+}
+
+async function getSecretManager(options: SecretsOptions): Promise<SecretManager> {
+  const namespaceId = options.namespace ?? (await resolveNamespaceContext())!.id;
+  return new SecretManager(defaultApiClient(), namespaceId);
+}
+
+/**
+ * Label for a secret as used in code: `new Secret("openai", schema, "work")`
+ * is `openai` (default credential) or `openai (work)`
+ */
+function secretLabel(name: string, credential: string): string {
+  return credential === "default" ? name : `${name} (${credential})`;
+}
+
+async function findSecretOrExit(
+  manager: SecretManager,
+  name: string,
+  credential: string
+): Promise<SecretResponse> {
+  const secret = await manager.findSecret(name, credential);
+  if (!secret) {
+    exitWithError(`No secret ${secretLabel(name, credential)} in this namespace`);
+  }
+  return secret;
+}
+
+/**
+ * Read a secret value from stdin when it is piped, or prompt for it with
+ * masked input, so values don't end up in shell history
+ */
+async function readSecretValue(key: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    const value = fs.readFileSync(0, "utf-8").replace(/\r?\n$/, "");
+    if (!value) exitWithError(`No value for ${key} on stdin`);
+    return value;
+  }
+  return await logger.password(`Value for ${key}`);
+}
+
+function renderTable(head: string[], rows: string[][]): string {
+  const table = new Table({
+    head: head.map((column) => chalk.gray(column)),
+    style: { head: [], border: [] },
+    chars: {
+      top: "",
+      "top-mid": "",
+      "top-left": "",
+      "top-right": "",
+      bottom: "",
+      "bottom-mid": "",
+      "bottom-left": "",
+      "bottom-right": "",
+      left: "",
+      "left-mid": "",
+      mid: "",
+      "mid-mid": "",
+      right: "",
+      "right-mid": "",
+      middle: " ",
+    },
+  });
+  table.push(...rows);
+  return table.toString();
+}
+
+/**
+ * List the secrets in the namespace, optionally for one Secret name
+ */
+export async function listSecretsCommand(name: string | undefined, options: SecretsOptions) {
+  const manager = await getSecretManager(options);
+  const secrets = await manager.listSecrets(name);
+
+  if (options.json) {
+    console.log(JSON.stringify(secrets, null, 2));
+    return;
+  }
+
+  if (secrets.length === 0) {
+    logger.plain(chalk.yellow("No secrets found"));
+    return;
+  }
+
+  console.log(
+    "\n" +
+      renderTable(
+        ["SECRET", "CREDENTIAL", "UPDATED"],
+        secrets.map((secret) => [
+          chalk.white(secret.provider),
+          secret.name,
+          chalk.dim(new Date(secret.updatedAt).toLocaleString()),
+        ])
+      )
+  );
+}
+
+/**
+ * Show the keys of a secret, masked unless --reveal is passed
+ */
+export async function getSecretCommand(
+  name: string,
+  key: string | undefined,
+  options: SecretsOptions
+) {
+  const credential = options.credential ?? "default";
+  const manager = await getSecretManager(options);
+  const secret = await findSecretOrExit(manager, name, credential);
+  const details = await manager.getSecretDetails(secret.id, options.reveal);
+
+  // Secrets that aren't key/value objects are shown as a single value
+  if (!details.keys) {
+    console.log(details.value ?? MASK);
+    return;
+  }
+
+  const values: Record<string, unknown> | null =
+    details.value !== undefined ? JSON.parse(details.value) : null;
+  const keys = details.keys;
+
+  if (key) {
+    if (!keys.includes(key)) {
+      exitWithError(`${secretLabel(name, credential)} has no key ${key}`);
+    }
+    // Print the bare value so it can be piped
+    console.log(values ? String(values[key]) : MASK);
+    return;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(values ?? Object.fromEntries(keys.map((k) => [k, MASK])), null, 2));
+    return;
+  }
+
+  console.log(`\n${chalk.bold(secretLabel(name, credential))}`);
+  console.log(
+    renderTable(
+      ["KEY", "VALUE"],
+      keys.map((k) => [chalk.white(k), values ? String(values[k]) : chalk.dim(MASK)])
+    )
+  );
+  if (!options.reveal) {
+    logger.tip("Values are masked. Pass --reveal to show them (requires the owner or admin role)");
+  }
+}
+
+/**
+ * Set one key of a secret. The value is read from stdin or a masked prompt
+ * unless given as an argument.
+ */
+export async function setSecretCommand(
+  name: string,
+  key: string,
+  value: string | undefined,
+  options: SecretsOptions
+) {
+  const credential = options.credential ?? "default";
+  if (value !== undefined) {
+    logger.warn("Secret values passed as arguments are kept in your shell history");
+  }
+  const secretValue = value ?? (await readSecretValue(key));
+
+  const manager = await getSecretManager(options);
+  await manager.mergeProviderSecrets(name, credential, { [key]: secretValue });
+  logger.success(`Set ${key} on ${secretLabel(name, credential)}`);
+}
+
+/**
+ * Delete one key of a secret, or the whole secret
+ */
+export async function deleteSecretCommand(
+  name: string,
+  key: string | undefined,
+  options: SecretsOptions
+) {
+  const credential = options.credential ?? "default";
+  const manager = await getSecretManager(options);
+  const secret = await findSecretOrExit(manager, name, credential);
+
+  if (key) {
+    await manager.mergeProviderSecrets(name, credential, { [key]: null });
+    logger.success(`Deleted ${key} from ${secretLabel(name, credential)}`);
+    return;
+  }
+
+  if (!options.yes) {
+    if (!logger.interactive) {
+      exitWithError("Pass --yes to delete a secret without a confirmation prompt");
+    }
+    const confirmed = await logger.confirm(
+      `Delete all keys of ${secretLabel(name, credential)}?`,
+      false
+    );
+    if (!confirmed) {
+      logger.plain("Deletion cancelled");
+      return;
+    }
+  }
+
+  await manager.clearProviderSecrets(secret.provider, secret.name);
+  logger.success(`Deleted ${secretLabel(name, credential)}`);
+}
+
+/**
+ * Set the keys of a secret from a .env file (or stdin for "-")
+ */
+export async function importSecretsCommand(
+  name: string,
+  file: string,
+  options: SecretsOptions
+) {
+  const credential = options.credential ?? "default";
+
+  let values: Record<string, string>;
+  try {
+    const content =
+      file === "-" ? fs.readFileSync(0, "utf-8") : fs.readFileSync(path.resolve(file), "utf-8");
+    values = parseEnvFile(content);
+  } catch (error) {
+    exitWithError(error instanceof Error ? error.message : String(error));
+  }
+
+  const keys = Object.keys(values);
+  if (keys.length === 0) {
+    exitWithError(`No values found in ${file}`);
+  }
+
+  const manager = await getSecretManager(options);
+  await manager.mergeProviderSecrets(name, credential, values);
+  logger.success(
+    `Imported ${keys.length} ${keys.length === 1 ? "key" : "keys"} into ${secretLabel(name, credential)}: ${keys.join(", ")}`
+  );
+}
+
+/**
+ * Print the values of a secret in .env format. Exporting reveals values, so
+ * it requires the owner or admin role.
+ */
+export async function exportSecretsCommand(name: string, options: SecretsOptions) {
+  const credential = options.credential ?? "default";
+  const manager = await getSecretManager(options);
+  const secret = await findSecretOrExit(manager, name, credential);
+  const details = await manager.getSecretDetails(secret.id, true);
+
+  if (!details.keys || details.value === undefined) {
+    exitWithError(`${secretLabel(name, credential)} does not hold key/value pairs`);
+  }
+  console.log(formatEnvFile(JSON.parse(details.value)));
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import yaml from "js-yaml";
+import {
+  loadProjectConfig,
+  loadRawProjectConfig,
+  setActiveEnvironment,
+  updateProjectConfig,
+} from "./projectConfig";
+
+describe("project config environments", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "floww-config-"));
+    fs.writeFileSync(
+      path.join(dir, "floww.yaml"),
+      yaml.dump({
+        name: "orders",
+        workflowId: "wf-default",
+        providers: { slack: { default: "slack-default" } },
+        environments: {
+          staging: {
+            workflowId: "wf-staging",
+            namespaceId: "ns-staging",
+            providers: { slack: { default: "slack-staging" } },
+          },
+          production: { workflowId: "wf-production" },
+        },
+      })
+    );
+  });
+
+  afterEach(() => {
+    setActiveEnvironment(undefined);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should use the top-level workflow without an environment", () => {
+    const config = loadProjectConfig(dir);
+    expect(config.workflowId).toBe("wf-default");
+    expect(config.providers).toEqual({ slack: { default: "slack-default" } });
+  });
+
+  it("should replace the workflow and providers with the active environment's", () => {
+    setActiveEnvironment("staging");
+    const config = loadProjectConfig(dir);
+    expect(config.workflowId).toBe("wf-staging");
+    expect(config.providers).toEqual({ slack: { default: "slack-staging" } });
+
+    setActiveEnvironment("production");
+    expect(loadProjectConfig(dir).providers).toBeUndefined();
+  });
+
+  it("should reject an environment that is not defined", () => {
+    setActiveEnvironment("qa");
+    expect(() => loadProjectConfig(dir)).toThrow(
+      'Environment "qa" is not defined in floww.yaml (available: staging, production)'
+    );
+  });
+
+  it("should write workflow and provider updates to the active environment", () => {
+    setActiveEnvironment("production");
+    updateProjectConfig(
+      { workflowId: "wf-production-2", providers: { slack: { default: "slack-production" } } },
+      dir
+    );
+
+    const raw = loadRawProjectConfig(dir)!;
+    expect(raw.workflowId).toBe("wf-default");
+    expect(raw.providers).toEqual({ slack: { default: "slack-default" } });
+    expect(raw.environments.production).toEqual({
+      workflowId: "wf-production-2",
+      providers: { slack: { default: "slack-production" } },
+    });
+    expect(raw.environments.staging.workflowId).toBe("wf-staging");
+  });
+});
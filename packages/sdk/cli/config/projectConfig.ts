@@ -21,6 +21,38 @@ export interface BuildConfig {
  */
 export type ProviderMappings = Record<string, Record<string, string>>;
 
+/**
+ * Workflow-wide concurrency limit, shared by all triggers of the workflow.
+ *
+ * Example:
+ *   concurrency:
+ *     limit: 1
+ *     key: body.repository.full_name
+ */
+export interface WorkflowConcurrencyConfig {
+  limit: number;
+  key?: string; // Path into the event, or a template such as "{{body.owner}}/{{body.repo}}"
+}
+
+/**
+ * A deployment target of the project, selected with --env. Its workflow and
+ * provider mappings replace the top-level ones.
+ *
+ * Example:
+ *   environments:
+ *     staging:
+ *       workflowId: "0c6f3a2e-..."
+ *       namespaceId: "9b1d7f4a-..."
+ *       providers:
+ *         slack:
+ *           default: "550e8400-e29b-41d4-a716-446655440000"
+ */
+export interface EnvironmentConfig {
+  workflowId?: string;
+  namespaceId?: string;
+  providers?: ProviderMappings;
+}
+
 export interface ProjectConfig {
   workflowId?: string;
   name: string;
@@ -29,10 +61,48 @@ export interface ProjectConfig {
   entrypoint?: string;
   build?: BuildConfig; // Optional build configuration
   providers?: ProviderMappings; // Maps code aliases to provider IDs
+  concurrency?: WorkflowConcurrencyConfig; // Limit on executions running at the same time
+  environments?: Record<string, EnvironmentConfig>; // Deployment targets selected with --env
 }
 
 const CONFIG_FILENAME = "floww.yaml";
 
+// Environment selected with --env for the current command
+let activeEnvironment: string | undefined;
+
+/**
+ * Select the environment (--env) whose workflowId and providers are read and
+ * written by loadProjectConfig and updateProjectConfig
+ */
+export function setActiveEnvironment(name: string | undefined): void {
+  activeEnvironment = name;
+}
+
+export function getActiveEnvironment(): string | undefined {
+  return activeEnvironment;
+}
+
+/**
+ * Get an environment from the config
+ * @throws Error if the environment is not defined
+ */
+export function getEnvironmentConfig(
+  config: ProjectConfig,
+  name: string,
+): EnvironmentConfig {
+  const environment = config.environments?.[name];
+  if (!environment) {
+    const available = Object.keys(config.environments ?? {});
+    throw new Error(
+      `Environment "${name}" is not defined in floww.yaml` +
+        (available.length > 0
+          ? ` (available: ${available.join(", ")})`
+          : ". Add it under environments:"),
+    );
+  }
+  return environment;
+}
+
 /**
  * Get the path to the project config file
  */
@@ -184,6 +254,33 @@ export function loadProjectConfig(dir: string = process.cwd()): ProjectConfig {
       validateBuildConfig(config.build, dir);
     }
 
+    if (
+      config.concurrency &&
+      (!Number.isInteger(config.concurrency.limit) || config.concurrency.limit < 1)
+    ) {
+      throw new Error("floww.yaml concurrency.limit must be a positive integer");
+    }
+
+    if (config.environments !== undefined) {
+      if (typeof config.environments !== "object" || Array.isArray(config.environments)) {
+        throw new Error("floww.yaml environments must be a map of environment names");
+      }
+      for (const [name, environment] of Object.entries(config.environments)) {
+        if (!environment || typeof environment !== "object") {
+          throw new Error(`floww.yaml environments.${name} must be an object`);
+        }
+      }
+    }
+
+    if (activeEnvironment) {
+      const environment = getEnvironmentConfig(config, activeEnvironment);
+      return {
+        ...config,
+        workflowId: environment.workflowId,
+        providers: environment.providers,
+      };
+    }
+
     return config;
   } catch (error) {
     if (error instanceof yaml.YAMLException) {
@@ -286,7 +383,8 @@ export function initProjectConfig(
 
 /**
  * Update specific fields in the project config
- * Preserves custom fields that aren't part of the ProjectConfig interface
+ * Preserves custom fields that aren't part of the ProjectConfig interface.
+ * With an active environment, workflowId and providers are written to it.
  */
 export function updateProjectConfig(
   updates: Partial<ProjectConfig>,
@@ -294,6 +392,18 @@ export function updateProjectConfig(
 ): ProjectConfig {
   const existing = loadRawProjectConfig(dir);
   const config = loadProjectConfig(dir);
+
+  if (activeEnvironment) {
+    const { workflowId, providers, ...rest } = updates;
+    const environments = { ...existing?.environments };
+    environments[activeEnvironment] = {
+      ...environments[activeEnvironment],
+      ...(workflowId !== undefined && { workflowId }),
+      ...(providers !== undefined && { providers }),
+    };
+    saveProjectConfig({ ...existing, ...rest, environments }, dir, true);
+    return { ...config, ...updates };
+  }
   const updatedConfig = { ...existing, ...config, ...updates };
   saveProjectConfig(updatedConfig, dir, true);
   return updatedConfig as ProjectConfig;
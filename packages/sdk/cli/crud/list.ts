@@ -214,6 +214,7 @@ export async function listDeploymentsCommand(workflowId?: string, json: boolean
         chalk.gray("WORKFLOW"),
         chalk.gray("RUNTIME"),
         chalk.gray("STATUS"),
+        chalk.gray("ENV"),
         chalk.gray("DEPLOYED"),
         chalk.gray("DEPLOYMENT ID"),
       ],
@@ -249,6 +250,7 @@ export async function listDeploymentsCommand(workflowId?: string, json: boolean
           deployment.runtimeName || truncateText(deployment.runtimeId, 12),
         ),
         formatStatus(deployment.status),
+        deployment.environment ? chalk.magenta(deployment.environment) : chalk.dim("-"),
         chalk.green(formatDate(deployment.deployedAt)),
         chalk.dim(deployment.id.substring(0, 8)),
       ]);
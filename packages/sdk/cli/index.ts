@@ -17,6 +17,25 @@ import { setConfig } from "./config/configUtils";
 import { deployCommand } from "./commands/deploy";
 import { initCommand } from "./commands/init";
 import { pullCommand } from "./commands/pull";
+import { logsCommand } from "./commands/logs";
+import {
+  listExecutionsCommand,
+  showExecutionCommand,
+  rerunExecutionCommand,
+  cancelExecutionCommand,
+} from "./commands/executions";
+import { deploymentsDiffCommand, rollbackCommand } from "./commands/deployments";
+import { promoteCommand } from "./commands/promote";
+import { invokeCommand } from "./commands/invoke";
+import { doctorCommand } from "./commands/doctor";
+import {
+  deleteSecretCommand,
+  exportSecretsCommand,
+  getSecretCommand,
+  importSecretsCommand,
+  listSecretsCommand,
+  setSecretCommand,
+} from "./commands/secrets";
 import {
   listWorkflowsCommand,
   listNamespacesCommand,
@@ -79,6 +98,9 @@ program
     "Inspector port for debugging (default: 9229)",
     "9229"
   )
+  .option("-e, --env <environment>", "Environment from floww.yaml to run against")
+  .option("--record", "Save incoming webhook events to .floww/events")
+  .option("--replay <file>", "Replay a recorded event once the dev server is ready")
   .action(devCommand);
 
 program
@@ -86,7 +108,27 @@ program
   .description(
     "Deploy triggers to the server (uses entrypoint from floww.yaml)"
   )
-  .action(deployCommand);
+  .option(
+    "--dry-run",
+    "Show the trigger, webhook and provider changes without deploying"
+  )
+  .option(
+    "-w, --workflow <workflow>",
+    "Workflow ID or name to deploy to (overrides floww.yaml)"
+  )
+  .option(
+    "-n, --namespace <namespace>",
+    "Namespace ID or name the workflow must belong to"
+  )
+  .option("-e, --env <environment>", "Environment from floww.yaml to deploy to")
+  .option("-y, --yes", "Run without prompts, failing instead (for CI)")
+  .option(
+    "--json",
+    "Print the deployment ID and plan as JSON (implies --yes)"
+  )
+  .action(async (options) => {
+    await deployCommand(options);
+  });
 
 program
   .command("pull [workflow]")
@@ -97,6 +139,27 @@ program
     await pullCommand(workflow, options);
   });
 
+program
+  .command("logs [workflow]")
+  .description(
+    "Show execution logs of a workflow (defaults to the workflow in floww.yaml)"
+  )
+  .option("-f, --follow", "Keep streaming new logs as executions report them")
+  .option(
+    "-l, --level <level>",
+    "Only show logs at or above a level (debug, info, warn, error)"
+  )
+  .option(
+    "--since <time>",
+    "Only show logs newer than a duration (e.g. 1h, 30m) or an ISO date"
+  )
+  .option("-e, --execution <id>", "Only show logs of one execution")
+  .option("-n, --limit <count>", "Number of past log lines to show", "100")
+  .option("--json", "Output one JSON object per log line")
+  .action(async (workflow, options) => {
+    await logsCommand(workflow, options);
+  });
+
 program.command("login").description("Login to Floww").action(loginCommand);
 
 program.command("logout").description("Logout").action(logoutCommand);
@@ -170,6 +233,182 @@ listCmd
     await listProvidersCommand(options.json);
   });
 
+// Deployment commands
+program
+  .command("rollback")
+  .description(
+    "Reactivate a previous deployment of the workflow in floww.yaml"
+  )
+  .option(
+    "--to <deploymentId>",
+    "Deployment to reactivate (default: the one before the active deployment)"
+  )
+  .option("-w, --workflow <id>", "Workflow ID or name (default: from floww.yaml)")
+  .option("--json", "Output as JSON")
+  .action(async (options) => {
+    await rollbackCommand(options);
+  });
+
+program
+  .command("invoke <trigger>")
+  .description(
+    "Run one trigger with an event, locally or on the deployed workflow"
+  )
+  .option("-d, --data <file>", "JSON file with the event (- reads stdin)")
+  .option("--remote", "Execute the deployed trigger and stream its logs")
+  .option("-w, --workflow <id>", "Workflow ID or name for --remote (default: from floww.yaml)")
+  .option("-e, --env <environment>", "Environment from floww.yaml")
+  .option("--timeout <duration>", "Stop following a --remote execution after this long (default: 15m)")
+  .action(async (trigger, options) => {
+    await invokeCommand(trigger, options);
+  });
+
+program
+  .command("promote <from> <to>")
+  .description(
+    "Redeploy the code active in one floww.yaml environment to another"
+  )
+  .option("-y, --yes", "Skip the confirmation prompt")
+  .action(async (from, to, options) => {
+    await promoteCommand(from, to, options);
+  });
+
+const deploymentsCmd = program
+  .command("deployments")
+  .description("Compare workflow deployments");
+
+deploymentsCmd
+  .command("diff <from> <to>")
+  .description("Show the code and trigger changes between two deployments")
+  .option("--json", "Output as JSON")
+  .action(async (from, to, options) => {
+    await deploymentsDiffCommand(from, to, options);
+  });
+
+// Execution commands
+const executionsCmd = program
+  .command("executions")
+  .description("Inspect and re-run workflow executions");
+
+executionsCmd
+  .command("list [workflow]")
+  .description(
+    "List recent executions (defaults to the workflow in floww.yaml)"
+  )
+  .option(
+    "-s, --status <status>",
+    "Filter by status (e.g. failed, completed, waiting)"
+  )
+  .option("-t, --trigger <id>", "Filter by trigger ID")
+  .option("--since <time>", "Received after a duration ago (e.g. 1h) or date")
+  .option("--until <time>", "Received before a duration ago or date")
+  .option("-n, --limit <count>", "Number of executions to show", "20")
+  .option("--json", "Output as JSON")
+  .action(async (workflow, options) => {
+    await listExecutionsCommand(workflow, options);
+  });
+
+executionsCmd
+  .command("show <executionId>")
+  .description("Show the timeline, error and logs of an execution")
+  .option("--json", "Output as JSON")
+  .action(async (executionId, options) => {
+    await showExecutionCommand(executionId, options);
+  });
+
+executionsCmd
+  .command("rerun <executionId>")
+  .description("Run an execution again with its original event")
+  .option(
+    "--original",
+    "Run on the deployment that ran it originally instead of the active one"
+  )
+  .option("--json", "Output as JSON")
+  .action(async (executionId, options) => {
+    await rerunExecutionCommand(executionId, options);
+  });
+
+executionsCmd
+  .command("cancel <executionId>")
+  .description("Cancel a queued, sleeping or waiting execution")
+  .option("--json", "Output as JSON")
+  .action(async (executionId, options) => {
+    await cancelExecutionCommand(executionId, options);
+  });
+
+program
+  .command("doctor")
+  .description(
+    "Check auth, backend, project, runtime, Docker, providers and realtime connectivity"
+  )
+  .option("-e, --env <environment>", "Environment from floww.yaml to check")
+  .option("--json", "Output as JSON")
+  .action(async (options) => {
+    await doctorCommand(options);
+  });
+
+// Secret commands: <name> and --credential are the arguments of `new Secret(name, schema, credential)`
+const secretsCmd = program
+  .command("secrets")
+  .description("Manage the values of Secret providers in the namespace");
+
+secretsCmd
+  .command("list [name]")
+  .description("List secrets, optionally for one Secret name")
+  .option("--namespace <id>", "Namespace ID (default: current namespace)")
+  .option("--json", "Output as JSON")
+  .action(async (name, options) => {
+    await listSecretsCommand(name, options);
+  });
+
+secretsCmd
+  .command("get <name> [key]")
+  .description("Show the keys of a secret, with values masked")
+  .option("-c, --credential <credential>", "Credential name", "default")
+  .option("--reveal", "Show the values (requires the owner or admin role)")
+  .option("--namespace <id>", "Namespace ID (default: current namespace)")
+  .option("--json", "Output as JSON")
+  .action(async (name, key, options) => {
+    await getSecretCommand(name, key, options);
+  });
+
+secretsCmd
+  .command("set <name> <key> [value]")
+  .description("Set one key of a secret (reads the value from stdin or a prompt when omitted)")
+  .option("-c, --credential <credential>", "Credential name", "default")
+  .option("--namespace <id>", "Namespace ID (default: current namespace)")
+  .action(async (name, key, value, options) => {
+    await setSecretCommand(name, key, value, options);
+  });
+
+secretsCmd
+  .command("delete <name> [key]")
+  .description("Delete one key of a secret, or the whole secret")
+  .option("-c, --credential <credential>", "Credential name", "default")
+  .option("-y, --yes", "Skip the confirmation prompt")
+  .option("--namespace <id>", "Namespace ID (default: current namespace)")
+  .action(async (name, key, options) => {
+    await deleteSecretCommand(name, key, options);
+  });
+
+secretsCmd
+  .command("import <name> <file>")
+  .description("Set keys of a secret from a .env file (- reads stdin)")
+  .option("-c, --credential <credential>", "Credential name", "default")
+  .option("--namespace <id>", "Namespace ID (default: current namespace)")
+  .action(async (name, file, options) => {
+    await importSecretsCommand(name, file, options);
+  });
+
+secretsCmd
+  .command("export <name>")
+  .description("Print the values of a secret as a .env file (requires the owner or admin role)")
+  .option("-c, --credential <credential>", "Credential name", "default")
+  .option("--namespace <id>", "Namespace ID (default: current namespace)")
+  .action(async (name, options) => {
+    await exportSecretsCommand(name, options);
+  });
+
 // Provider management commands
 // program
 //   .command('manage')
@@ -1,6 +1,8 @@
+import path from "path";
 import { loadProjectConfig, updateProjectConfig, ProviderMappings } from "../config/projectConfig";
 import { DebugContext } from "../../codeExecution";
 import { EventRouter } from "./EventRouter";
+import { RecordedEvent } from "./eventRecorder";
 import {
   resolveWorkflow,
   fetchProviderConfigs,
@@ -21,6 +23,7 @@ export interface DevModeOptions {
   host: string;
   debugMode?: boolean;
   debugPort?: number;
+  record?: boolean; // save incoming webhook events under .floww/events
 }
 
 /**
@@ -124,6 +127,9 @@ export class DevModeOrchestrator {
       this.options.host,
       this.debugContext,
       this.workflow.workflowId,
+      this.options.record
+        ? path.join(this.options.projectDir || process.cwd(), ".floww", "events")
+        : undefined,
     );
 
     // Step 2: Fetch provider configs (using mapping if available)
@@ -243,6 +249,7 @@ export class DevModeOrchestrator {
         metadata.providerAlias = trigger._providerMeta.alias;
         metadata.triggerType = trigger._providerMeta.triggerType;
         metadata.input = trigger._providerMeta.input;
+        metadata.options = trigger._providerMeta.options;
       }
 
       if (trigger.type === "webhook") {
@@ -411,6 +418,36 @@ export class DevModeOrchestrator {
     return await fetchProviderConfigs(this.workflow!.namespaceId);
   }
 
+  /**
+   * Re-run a recorded event against the currently loaded triggers
+   */
+  replayEvent(recorded: RecordedEvent): void {
+    if (!this.eventRouter) {
+      throw new Error(
+        "Cannot replay: orchestrator not initialized. Call start() first.",
+      );
+    }
+
+    if (!this.eventRouter.replay(recorded)) {
+      const name = recorded.trigger
+        ? `${recorded.trigger.type}:${recorded.trigger.triggerType}`
+        : `${recorded.data.method} ${recorded.data.path}`;
+      logger.warn(`No trigger in the current code matches the recorded ${name} event`);
+    }
+  }
+
+  /**
+   * Re-run the last webhook event received in this session
+   */
+  replayLastEvent(): void {
+    const lastEvent = this.eventRouter?.getLastEvent();
+    if (!lastEvent) {
+      logger.warn("No webhook event received yet, nothing to replay");
+      return;
+    }
+    this.replayEvent(lastEvent);
+  }
+
   /**
    * Stop the orchestrator and cleanup resources
    */
@@ -1,3 +1,4 @@
+import path from "path";
 import {
   Trigger,
   WebhookTrigger,
@@ -7,7 +8,13 @@ import {
   CronContext,
   RealtimeContext,
 } from "../../common";
-import { EventStream, EventProducer } from "./types";
+import { EventStream, EventProducer, TriggerEvent } from "./types";
+import {
+  RecordedEvent,
+  findRecordedEventTriggers,
+  saveRecordedEvent,
+  toRecordedEvent,
+} from "./eventRecorder";
 import { WebhookEventProducer } from "./eventProducers/webhookEventProducer";
 import { CronEventProducer } from "./eventProducers/cronEventProducer";
 import { WebSocketEventProducer } from "./eventProducers/websocketEventProducer";
@@ -17,6 +24,54 @@ import { getConfigValue } from "../config/configUtils";
 import { ExecutionContext } from "./ExecutionContext";
 import { executionContextManager } from "./ExecutionContextManager";
 import { getAuthToken } from "../auth/tokenUtils";
+import { createDurableContext } from "../../runtime/durable";
+
+/**
+ * Create the handler context for running a trigger locally and set up the
+ * execution context. Extracts execution context from event data and makes it
+ * globally available.
+ */
+export async function createDevContext(
+  event?: any
+): Promise<WebhookContext | CronContext | RealtimeContext> {
+  const executionContext = ExecutionContext.fromEvent(event);
+
+  // If no workflow auth token from event, use CLI user's token as fallback (for dev mode)
+  if (!executionContext.getAuthToken()) {
+    const cliToken = await getAuthToken();
+    if (cliToken) {
+      executionContext.setAuthToken(cliToken);
+    }
+  }
+
+  // Set backend URL from environment variable or default if not already set from event
+  if (!executionContext.getBackendUrl()) {
+    const backendUrl =
+      process.env.FLOWW_BACKEND_URL || getConfigValue("backendUrl");
+    executionContext.setBackendUrl(backendUrl);
+  }
+
+  // Set execution context globally so providers can access it
+  executionContextManager.setContext(executionContext);
+
+  // Providers are instantiated directly; in dev mode sleeps wait in-process and approvals pass
+  return createDurableContext({
+    sleep: (name, ms) => {
+      logger.console.info(`ctx.sleep("${name}") waiting ${ms}ms`);
+      return new Promise((resolve) => setTimeout(resolve, ms));
+    },
+    approve: async (name) => {
+      logger.console.warn(`ctx.waitForApproval("${name}") auto-approved in dev mode`);
+      return {
+        approved: true,
+        status: "approved",
+        decidedBy: null,
+        comment: "Auto-approved in dev mode",
+        decidedAt: new Date().toISOString(),
+      };
+    },
+  });
+}
 
 /**
  * Setup event routing to userspace (websocket + local events).
@@ -29,6 +84,7 @@ import { getAuthToken } from "../auth/tokenUtils";
  * Responsibilities:
  * - Start event producers (webhook, cron, websocket servers)
  * - Route incoming events to matching trigger handlers
+ * - Keep (and optionally record) the last webhook event for replay
  * - Update triggers on code reload
  * - Manage cleanup on shutdown
  */
@@ -37,12 +93,14 @@ export class EventRouter {
   private eventProducers: EventProducer[];
   private currentTriggers: Trigger[] = [];
   private needsSeparator = false;
+  private lastEvent?: RecordedEvent;
 
   constructor(
     port: number,
     host: string,
     private debugContext?: DebugContext,
-    workflowId?: string
+    workflowId?: string,
+    private recordDir?: string
   ) {
     // Initialize event producers
     this.eventProducers = [
@@ -98,45 +156,39 @@ export class EventRouter {
   }
 
   /**
-   * Stop event routing and cleanup resources
+   * The last webhook event received from a producer, if any
    */
-  async stop(): Promise<void> {
-    for (const producer of this.eventProducers) {
-      await producer.stop();
-    }
-
-    this.eventStream.removeAllListeners();
+  getLastEvent(): RecordedEvent | undefined {
+    return this.lastEvent;
   }
 
   /**
-   * Create context object and set up execution context
-   * Extracts execution context from event data and makes it globally available
+   * Re-run a recorded webhook event against the current triggers
+   *
+   * @returns false if no current trigger matches the event
    */
-  private async createContext(
-    event?: any
-  ): Promise<WebhookContext | CronContext | RealtimeContext> {
-    const executionContext = ExecutionContext.fromEvent(event);
-
-    // If no workflow auth token from event, use CLI user's token as fallback (for dev mode)
-    if (!executionContext.getAuthToken()) {
-      const cliToken = await getAuthToken();
-      if (cliToken) {
-        executionContext.setAuthToken(cliToken);
-      }
+  replay(recorded: RecordedEvent): boolean {
+    const triggers = findRecordedEventTriggers(this.currentTriggers, recorded);
+    for (const trigger of triggers) {
+      this.eventStream.emit("data", {
+        type: recorded.type,
+        trigger,
+        data: recorded.data,
+        replayed: true,
+      });
     }
+    return triggers.length > 0;
+  }
 
-    // Set backend URL from environment variable or default if not already set from event
-    if (!executionContext.getBackendUrl()) {
-      const backendUrl =
-        process.env.FLOWW_BACKEND_URL || getConfigValue("backendUrl");
-      executionContext.setBackendUrl(backendUrl);
+  /**
+   * Stop event routing and cleanup resources
+   */
+  async stop(): Promise<void> {
+    for (const producer of this.eventProducers) {
+      await producer.stop();
     }
 
-    // Set execution context globally so providers can access it
-    executionContextManager.setContext(executionContext);
-
-    // Return empty base context - providers are instantiated directly
-    return {};
+    this.eventStream.removeAllListeners();
   }
 
   /**
@@ -167,11 +219,16 @@ export class EventRouter {
       } else {
         eventInfo = event.type;
       }
+      if (event.replayed) {
+        eventInfo += " (replay)";
+      } else {
+        this.rememberEvent(event);
+      }
 
       try {
         if (event.trigger) {
           // Direct trigger provided (webhook/cron)
-          const ctx = await this.createContext(event.data);
+          const ctx = await createDevContext(event.data);
           await event.trigger.handler(ctx, event.data);
         } else if (event.type === "realtime") {
           // Find matching realtime triggers
@@ -184,7 +241,7 @@ export class EventRouter {
               trigger.channel === event.data.channel &&
               (!trigger.messageType || trigger.messageType === event.data.type)
             ) {
-              const ctx = await this.createContext(event.data);
+              const ctx = await createDevContext(event.data);
               await trigger.handler(ctx, event.data);
             }
           }
@@ -231,6 +288,26 @@ export class EventRouter {
     });
   }
 
+  /**
+   * Keep a webhook event for replay and save it when recording is enabled
+   */
+  private rememberEvent(event: TriggerEvent): void {
+    const recorded = toRecordedEvent(event);
+    if (!recorded) return;
+
+    this.lastEvent = recorded;
+    if (this.recordDir) {
+      try {
+        const file = saveRecordedEvent(this.recordDir, recorded);
+        logger.console.info(`Recorded event → ${path.relative(process.cwd(), file)}`);
+      } catch (error) {
+        logger.console.warn(
+          `Could not record event: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+  }
+
   /**
    * Log registered triggers in debug mode
    */
@@ -1,39 +1,83 @@
-import cron, { type ScheduledTask } from "node-cron";
 import { CronTrigger, CronEvent, Trigger } from "../../../common";
+import {
+  getNextCronRun,
+  getDueCronRuns,
+  getCronJitterMs,
+} from "../../../providers/builtin/cron";
 import { EventProducer, EventStream } from "../types";
 
+// setTimeout can't wait longer than ~24.8 days
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+/**
+ * Runs cron triggers locally with the same schedule semantics as the backend
+ * worker: timezone-aware next-run calculation, jitter, and the catch-up policy
+ * for runs missed while the process was suspended (e.g. a sleeping laptop).
+ */
 export class CronEventProducer implements EventProducer {
-  private tasks: ScheduledTask[] = [];
+  private timers = new Set<NodeJS.Timeout>();
 
   async updateTriggers(
     triggers: Trigger[],
     stream: EventStream
   ): Promise<void> {
-    // Stop all existing tasks
-    this.tasks.forEach((task) => task.stop());
-    this.tasks = [];
+    // Stop all existing timers
+    this.clearTimers();
 
     // Filter cron triggers
     const cronTriggers = triggers.filter(
       (t) => t.type === "cron"
     ) as CronTrigger[];
 
-    // Start new tasks
+    // Schedule the first run of each trigger
     for (const trigger of cronTriggers) {
-      const task = cron.schedule(trigger.expression, () => {
-        const cronEvent: CronEvent = {
-          scheduledTime: new Date(),
-          actualTime: new Date(),
-        };
-        stream.emit("data", { type: "cron", trigger, data: cronEvent });
-      });
-      this.tasks.push(task);
-      task.start();
+      this.scheduleNext(trigger, new Date(), stream);
     }
   }
 
   async stop(): Promise<void> {
-    this.tasks.forEach((task) => task.stop());
-    this.tasks = [];
+    this.clearTimers();
+  }
+
+  private scheduleNext(trigger: CronTrigger, lastRun: Date, stream: EventStream): void {
+    const next = getNextCronRun(trigger.expression, lastRun, trigger.timezone);
+    if (!next) return;
+
+    const runAt = next.getTime() + getCronJitterMs(trigger.jitter);
+    this.setTimer(runAt, () => this.fire(trigger, lastRun, stream));
+  }
+
+  private fire(trigger: CronTrigger, lastRun: Date, stream: EventStream): void {
+    const now = new Date();
+    const { runs } = getDueCronRuns(trigger.expression, lastRun, now, trigger);
+
+    for (const scheduledTime of runs) {
+      const cronEvent: CronEvent = {
+        scheduledTime,
+        actualTime: now,
+      };
+      stream.emit("data", { type: "cron", trigger, data: cronEvent });
+    }
+
+    this.scheduleNext(trigger, now, stream);
+  }
+
+  private setTimer(runAt: number, callback: () => void): void {
+    const delay = Math.min(Math.max(runAt - Date.now(), 0), MAX_TIMEOUT_MS);
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      if (runAt > Date.now()) {
+        // Woke up early because of the timeout cap
+        this.setTimer(runAt, callback);
+      } else {
+        callback();
+      }
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
   }
 }
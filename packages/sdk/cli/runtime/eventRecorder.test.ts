@@ -0,0 +1,68 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  findRecordedEventTriggers,
+  loadRecordedEvent,
+  saveRecordedEvent,
+  toRecordedEvent,
+} from "./eventRecorder";
+import type { Trigger } from "../../common";
+import type { ProviderMetadata } from "../../userCode/providers";
+
+const slackTrigger: Trigger & { _providerMeta: ProviderMetadata } = {
+  type: "webhook",
+  handler: async () => {},
+  _providerMeta: {
+    type: "slack",
+    alias: "work",
+    triggerType: "onMessage",
+    input: { channel_id: "C1" },
+  },
+};
+
+const webhookEvent = {
+  type: "webhook" as const,
+  trigger: slackTrigger,
+  data: {
+    body: { text: "hi" },
+    headers: { "content-type": "application/json" },
+    query: {},
+    method: "POST",
+    path: "/webhook/slack",
+    __context: { auth_token: "secret", backend_url: "https://api.example.com" },
+  },
+};
+
+describe("event recorder", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should not record the backend context", () => {
+    const recorded = toRecordedEvent(webhookEvent)!;
+    expect(recorded.trigger).toEqual(slackTrigger._providerMeta);
+    expect(recorded.data).not.toHaveProperty("__context");
+    expect(toRecordedEvent({ type: "cron", trigger: slackTrigger, data: {} })).toBeNull();
+  });
+
+  it("should save events per trigger and load them back", () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "floww-events-"));
+    const recorded = toRecordedEvent(webhookEvent)!;
+
+    const file = saveRecordedEvent(dir, recorded);
+    expect(path.relative(dir, file)).toMatch(/^slack\.work_onMessage\/[\dT-]+Z\.json$/);
+    expect(loadRecordedEvent(file)).toEqual(recorded);
+  });
+
+  it("should match the recorded trigger in reloaded code", () => {
+    const recorded = toRecordedEvent(webhookEvent)!;
+    const reloaded = { ...slackTrigger, _providerMeta: { ...slackTrigger._providerMeta } };
+    const other = { ...slackTrigger, _providerMeta: { ...slackTrigger._providerMeta, input: { channel_id: "C2" } } };
+
+    expect(findRecordedEventTriggers([other, reloaded], recorded)).toEqual([reloaded]);
+  });
+});
@@ -0,0 +1,119 @@
+import fs from "fs";
+import path from "path";
+import { Trigger, WebhookTrigger } from "../../common";
+import type { ProviderMetadata } from "../../userCode/providers";
+import { getMatchingTriggers } from "../../userCode/utils";
+import { getTriggerLabels } from "../utils/triggerUtils";
+import { TriggerEvent } from "./types";
+
+/**
+ * A webhook event as saved under .floww/events, with enough of the trigger's
+ * identity to find it again after the code has been reloaded.
+ */
+export interface RecordedEvent {
+  type: "webhook";
+  // Provider metadata of the trigger, or null for plain webhook triggers
+  trigger: Omit<ProviderMetadata, "options"> | null;
+  receivedAt: string;
+  data: {
+    body: unknown;
+    headers: Record<string, string>;
+    query: Record<string, string>;
+    method: string;
+    path: string;
+  };
+}
+
+type TriggerWithMeta = Trigger & { _providerMeta?: ProviderMetadata };
+
+/**
+ * Convert a routed event to its recorded form. Only webhook events are
+ * recorded; the backend's __context (workflow auth token) is never saved.
+ */
+export function toRecordedEvent(event: TriggerEvent): RecordedEvent | null {
+  if (event.type !== "webhook" || !event.trigger) return null;
+
+  const meta = (event.trigger as TriggerWithMeta)._providerMeta;
+  const { body, headers, query, method, path: eventPath } = event.data ?? {};
+  return {
+    type: "webhook",
+    trigger: meta
+      ? { type: meta.type, alias: meta.alias, triggerType: meta.triggerType, input: meta.input }
+      : null,
+    receivedAt: new Date().toISOString(),
+    data: { body, headers: headers ?? {}, query: query ?? {}, method, path: eventPath },
+  };
+}
+
+/**
+ * Directory name for a recorded event's trigger, e.g. `slack_onMessage`
+ */
+function triggerDirName(recorded: RecordedEvent): string {
+  const label = recorded.trigger
+    ? getTriggerLabels([
+        {
+          providerType: recorded.trigger.type,
+          providerAlias: recorded.trigger.alias,
+          triggerType: recorded.trigger.triggerType,
+        },
+      ])[0]
+    : "webhook";
+  return label.replace(/[^\w.-]/g, "_");
+}
+
+/**
+ * Save a recorded event to `<dir>/<trigger>/<timestamp>.json`
+ * @returns The path of the written file
+ */
+export function saveRecordedEvent(dir: string, recorded: RecordedEvent): string {
+  const triggerDir = path.join(dir, triggerDirName(recorded));
+  fs.mkdirSync(triggerDir, { recursive: true });
+
+  const file = path.join(triggerDir, `${recorded.receivedAt.replace(/[:.]/g, "-")}.json`);
+  fs.writeFileSync(file, JSON.stringify(recorded, null, 2) + "\n");
+  return file;
+}
+
+/**
+ * Load an event saved by saveRecordedEvent
+ * @throws Error if the file is missing or not a recorded webhook event
+ */
+export function loadRecordedEvent(file: string): RecordedEvent {
+  let recorded: RecordedEvent;
+  try {
+    recorded = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Could not read recorded event ${file}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  if (recorded?.type !== "webhook" || !recorded.data) {
+    throw new Error(`${file} is not a recorded webhook event`);
+  }
+  return recorded;
+}
+
+/**
+ * Triggers in the current code that a recorded event belongs to. Provider
+ * triggers are matched by their metadata, plain webhooks by method and path.
+ */
+export function findRecordedEventTriggers(
+  triggers: Trigger[],
+  recorded: RecordedEvent
+): Trigger[] {
+  if (recorded.trigger) {
+    return getMatchingTriggers(triggers, recorded.trigger);
+  }
+
+  const recordedPath = (recorded.data.path ?? "").split("?")[0];
+  return triggers.filter((t: TriggerWithMeta) => {
+    if (t.type !== "webhook" || t._providerMeta) return false;
+    const webhook = t as WebhookTrigger;
+    return (
+      webhook.path !== undefined &&
+      `/webhook${webhook.path}` === recordedPath &&
+      (webhook.method || "POST") === recorded.data.method
+    );
+  });
+}
@@ -25,11 +25,13 @@ export interface UsedProviderInfo {
  *
  * @param usedProviders - Providers detected from user code execution
  * @param projectDir - Directory containing floww.yaml
+ * @param save - Write new mappings to floww.yaml (off for dry runs)
  * @returns The final provider mappings (existing + newly created)
  */
 export async function autoPopulateProviderMappings(
   usedProviders: UsedProviderInfo[],
   projectDir?: string,
+  save: boolean = true,
 ): Promise<ProviderMappings> {
   if (usedProviders.length === 0) {
     return {};
@@ -101,7 +103,7 @@ export async function autoPopulateProviderMappings(
   }
 
   // Save updated mappings to floww.yaml if any new ones were added
-  if (newMappingsCount > 0) {
+  if (newMappingsCount > 0 && save) {
     updateProjectConfig({ providers: updatedMappings }, projectDir);
     logger.debugInfo(
       `Saved ${newMappingsCount} new provider mapping(s) to floww.yaml`
@@ -5,6 +5,7 @@ export interface TriggerEvent {
   type: "webhook" | "cron" | "realtime";
   trigger: Trigger | null; // null for events that need to be routed to matching triggers
   data: any;
+  replayed?: boolean; // re-run of a recorded event, not recorded again
 }
 
 export class EventStream extends EventEmitter {
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { formatEnvFile, parseEnvFile } from "./envFile";
+
+describe("parseEnvFile", () => {
+  it("should parse assignments, quotes and comments", () => {
+    const content = [
+      "# OpenAI",
+      "export API_KEY=sk-123 # inline comment",
+      "",
+      'GREETING="hello \\"world\\"\\nbye"',
+      "RAW='a # not a comment'",
+      "EMPTY=",
+    ].join("\n");
+
+    expect(parseEnvFile(content)).toEqual({
+      API_KEY: "sk-123",
+      GREETING: 'hello "world"\nbye',
+      RAW: "a # not a comment",
+      EMPTY: "",
+    });
+  });
+
+  it("should reject lines that are not assignments", () => {
+    expect(() => parseEnvFile("API_KEY=1\nnot an assignment")).toThrow(
+      "Invalid .env line 2: not an assignment"
+    );
+  });
+});
+
+describe("formatEnvFile", () => {
+  it("should round-trip values through parseEnvFile", () => {
+    const values = { API_KEY: "sk-123", GREETING: 'hello "world"\nbye', PORT: 8080 };
+    const formatted = formatEnvFile(values);
+
+    expect(formatted).toBe('API_KEY=sk-123\nGREETING="hello \\"world\\"\\nbye"\nPORT=8080');
+    expect(parseEnvFile(formatted)).toEqual({ ...values, PORT: "8080" });
+  });
+});
@@ -0,0 +1,54 @@
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+/**
+ * Parse the contents of a .env file: `KEY=value` lines with optional
+ * `export ` prefixes, quoted values and `#` comments.
+ * @throws Error on a line that is not a valid assignment
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) return;
+
+    const assignment = line.replace(/^export\s+/, "");
+    const separator = assignment.indexOf("=");
+    const key = separator === -1 ? "" : assignment.slice(0, separator).trim();
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid .env line ${index + 1}: ${rawLine}`);
+    }
+
+    let value = assignment.slice(separator + 1).trim();
+    const quote = value[0];
+    if ((quote === '"' || quote === "'") && value.endsWith(quote) && value.length > 1) {
+      value = value.slice(1, -1);
+      if (quote === '"') {
+        value = value.replace(/\\([n"\\])/g, (_, char) => (char === "n" ? "\n" : char));
+      }
+    } else {
+      // Unquoted values end at an inline comment
+      value = value.replace(/\s+#.*$/, "");
+    }
+
+    values[key] = value;
+  });
+
+  return values;
+}
+
+/**
+ * Format values as a .env file, quoting values that need it
+ */
+export function formatEnvFile(values: Record<string, unknown>): string {
+  return Object.entries(values)
+    .map(([key, raw]) => {
+      const value = String(raw);
+      if (value === "" || /^[\w@%+=:,./-]+$/.test(value)) {
+        return `${key}=${value}`;
+      }
+      const escaped = value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+      return `${key}="${escaped}"`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { SecretManager } from "./secretManager";
+import { ForbiddenError } from "../api/errors";
+import { logger } from "../utils/logger";
+import type { ApiClient } from "../api/types";
+
+const secret = {
+  id: "secret-1",
+  name: "default",
+  provider: "slack",
+  createdAt: "2026-01-01T00:00:00Z",
+  updatedAt: "2026-01-01T00:00:00Z",
+};
+
+function createApiClient(reveal: () => unknown): ApiClient {
+  return {
+    apiCall: vi.fn(async (endpoint: string) => {
+      if (endpoint.startsWith("/secrets?")) {
+        return { results: [secret] };
+      }
+      return reveal();
+    }),
+  } as ApiClient;
+}
+
+describe("SecretManager.getProviderSecrets", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should parse the revealed secret value", async () => {
+    const manager = new SecretManager(
+      createApiClient(() => ({ ...secret, namespaceId: "ns-1", keys: ["token"], value: '{"token":"xoxb"}' })),
+      "ns-1"
+    );
+
+    expect(await manager.getProviderSecrets("slack", "default")).toEqual({ token: "xoxb" });
+  });
+
+  it("should warn once with the reason when the value can't be revealed", async () => {
+    const warn = vi.spyOn(logger, "warn").mockImplementation(() => {});
+    const manager = new SecretManager(
+      createApiClient(() => {
+        throw new ForbiddenError("Revealing secret values requires the owner or admin role");
+      }),
+      "ns-1"
+    );
+
+    expect(await manager.getProviderSecrets("slack", "default")).toBeUndefined();
+    expect(await manager.getProviderSecrets("slack", "default")).toBeUndefined();
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain("slack:default");
+    expect(warn.mock.calls[0][0]).toContain("requires the owner or admin role");
+  });
+});
@@ -1,6 +1,7 @@
 import inquirer from "inquirer";
 import { ApiClient } from "../api/types";
-import { NotFoundError } from "../api/errors";
+import { ForbiddenError, NotFoundError } from "../api/errors";
+import { logger } from "../utils/logger";
 
 export type SecretDefinition = {
   key: string;
@@ -13,22 +14,29 @@ export type SecretDefinition = {
 export type ProviderSecrets = Record<string, string>;
 
 // Backend API response types
-interface SecretResponse {
+export interface SecretResponse {
   id: string;
-  namespace_id: string;
   name: string;
   provider: string;
-  created_at: string;
-  updated_at: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
-interface SecretWithValueResponse extends SecretResponse {
-  value: string;
+export interface SecretDetailsResponse extends SecretResponse {
+  namespaceId: string;
+  keys: string[] | null; // null when the value is not a JSON object
+  value?: string; // only when revealed
+}
+
+interface SecretListResponse {
+  results: SecretResponse[];
 }
 
 export class SecretManager {
   private apiClient: ApiClient;
   private namespaceId: string;
+  // Secrets we already warned about not being able to read
+  private unreadableSecrets = new Set<string>();
 
   constructor(apiClient: ApiClient, namespaceId: string) {
     this.apiClient = apiClient;
@@ -36,33 +44,36 @@ export class SecretManager {
   }
 
   /**
-   * Get a specific secret value from the backend
+   * List the secrets in the namespace, optionally for one provider type
    */
-  async getSecret(
+  async listSecrets(providerType?: string): Promise<SecretResponse[]> {
+    const params = new URLSearchParams({ namespaceId: this.namespaceId });
+    if (providerType) params.set("provider", providerType);
+
+    const response = await this.apiClient.apiCall<SecretListResponse>(
+      `/secrets?${params.toString()}`,
+    );
+    return response.results;
+  }
+
+  /**
+   * Find the secret stored under a provider type and name
+   */
+  async findSecret(
     providerType: string,
-    credentialName: string,
-    key: string,
-  ): Promise<string | undefined> {
-    const secretName = `${credentialName}:${key}`;
+    name: string,
+  ): Promise<SecretResponse | undefined> {
+    const params = new URLSearchParams({
+      namespaceId: this.namespaceId,
+      provider: providerType,
+      name,
+    });
 
     try {
-      // First, list secrets to find the matching one
-      const secrets = await this.apiClient.apiCall<SecretResponse[]>(
-        `/secrets/namespace/${this.namespaceId}?provider=${encodeURIComponent(providerType)}&name=${encodeURIComponent(secretName)}`,
+      const response = await this.apiClient.apiCall<SecretListResponse>(
+        `/secrets?${params.toString()}`,
       );
-
-      if (!Array.isArray(secrets) || secrets.length === 0) {
-        return undefined;
-      }
-
-      // Get the secret with its decrypted value
-      const secret = secrets[0];
-      const secretWithValue =
-        await this.apiClient.apiCall<SecretWithValueResponse>(
-          `/secrets/${secret.id}`,
-        );
-
-      return secretWithValue?.value;
+      return response.results[0];
     } catch (error) {
       // 404 Not Found is okay - it just means no secrets exist yet
       if (error instanceof NotFoundError) {
@@ -72,6 +83,31 @@ export class SecretManager {
     }
   }
 
+  /**
+   * Get a secret's keys, and its decrypted value when revealed. Revealing
+   * requires the owner or admin role in the namespace's organization.
+   */
+  async getSecretDetails(
+    secretId: string,
+    reveal: boolean = false,
+  ): Promise<SecretDetailsResponse> {
+    return await this.apiClient.apiCall<SecretDetailsResponse>(
+      `/secrets/${secretId}${reveal ? "?reveal=true" : ""}`,
+    );
+  }
+
+  /**
+   * Get a specific secret value from the backend
+   */
+  async getSecret(
+    providerType: string,
+    credentialName: string,
+    key: string,
+  ): Promise<string | undefined> {
+    const secrets = await this.getProviderSecrets(providerType, credentialName);
+    return secrets?.[key];
+  }
+
   /**
    * Get all secrets for a provider credential
    */
@@ -79,41 +115,39 @@ export class SecretManager {
     providerType: string,
     credentialName: string,
   ): Promise<ProviderSecrets | undefined> {
-    try {
-      // List all secrets for this provider
-      const allSecrets = await this.apiClient.apiCall<SecretResponse[]>(
-        `/secrets/namespace/${this.namespaceId}?provider=${encodeURIComponent(providerType)}&name=${encodeURIComponent(credentialName)}`,
-      );
-
-      if (!Array.isArray(allSecrets) || allSecrets.length === 0) {
-        return undefined;
-      }
-
-      // Get the secret with its decrypted value
-      const secret = allSecrets[0];
-      const secretWithValue =
-        await this.apiClient.apiCall<SecretWithValueResponse>(
-          `/secrets/${secret.id}`,
-        );
-
-      if (!secretWithValue?.value) {
-        return undefined;
-      }
+    const secret = await this.findSecret(providerType, credentialName);
+    if (!secret) {
+      return undefined;
+    }
 
-      // Parse JSON value
-      try {
-        return JSON.parse(secretWithValue.value);
-      } catch (error) {
-        console.error(`Failed to parse secret JSON for ${providerType}:${credentialName}`, error);
-        return undefined;
-      }
+    // Get the secret with its decrypted value; members without the reveal
+    // permission fall back to the provider's own config
+    let secretWithValue: SecretDetailsResponse;
+    try {
+      secretWithValue = await this.getSecretDetails(secret.id, true);
     } catch (error) {
-      // 404 Not Found is okay - it just means no secrets exist yet
-      if (error instanceof NotFoundError) {
+      if (error instanceof ForbiddenError) {
+        if (!this.unreadableSecrets.has(secret.id)) {
+          this.unreadableSecrets.add(secret.id);
+          logger.warn(
+            `Can't read the ${providerType}:${credentialName} secret (${error.message}); continuing without its values`,
+          );
+        }
         return undefined;
       }
       throw error;
     }
+    if (!secretWithValue.value) {
+      return undefined;
+    }
+
+    // Parse JSON value
+    try {
+      return JSON.parse(secretWithValue.value);
+    } catch (error) {
+      console.error(`Failed to parse secret JSON for ${providerType}:${credentialName}`, error);
+      return undefined;
+    }
   }
 
   /**
@@ -125,48 +159,7 @@ export class SecretManager {
     key: string,
     value: string,
   ): Promise<void> {
-    const secretName = `${credentialName}:${key}`;
-
-    try {
-      // Check if secret already exists
-      const existing = await this.apiClient.apiCall<SecretResponse[]>(
-        `/secrets/namespace/${this.namespaceId}?provider=${encodeURIComponent(providerType)}&name=${encodeURIComponent(secretName)}`,
-      );
-
-      if (Array.isArray(existing) && existing.length > 0) {
-        // Update existing secret
-        await this.apiClient.apiCall(`/secrets/${existing[0].id}`, {
-          method: "PATCH",
-          body: { value },
-        });
-      } else {
-        // Create new secret
-        await this.apiClient.apiCall("/secrets/", {
-          method: "POST",
-          body: {
-            namespace_id: this.namespaceId,
-            name: secretName,
-            provider: providerType,
-            value,
-          },
-        });
-      }
-    } catch (error) {
-      // 404 Not Found means no secrets exist, so create new
-      if (error instanceof NotFoundError) {
-        await this.apiClient.apiCall("/secrets/", {
-          method: "POST",
-          body: {
-            namespace_id: this.namespaceId,
-            name: secretName,
-            provider: providerType,
-            value,
-          },
-        });
-      } else {
-        throw error;
-      }
-    }
+    await this.mergeProviderSecrets(providerType, credentialName, { [key]: value });
   }
 
   /**
@@ -177,50 +170,37 @@ export class SecretManager {
     credentialName: string,
     secrets: ProviderSecrets,
   ): Promise<void> {
-    console.log(`[SecretManager] Storing secrets for ${providerType}:${credentialName}:`, secrets);
-    const jsonValue = JSON.stringify(secrets);
-    console.log(`[SecretManager] JSON value:`, jsonValue);
-
-    try {
-      // Check if secret already exists
-      const existing = await this.apiClient.apiCall<SecretResponse[]>(
-        `/secrets/namespace/${this.namespaceId}?provider=${encodeURIComponent(providerType)}&name=${encodeURIComponent(credentialName)}`,
-      );
+    // Creates the secret or replaces its value
+    await this.apiClient.apiCall("/secrets", {
+      method: "POST",
+      body: {
+        namespaceId: this.namespaceId,
+        name: credentialName,
+        provider: providerType,
+        value: JSON.stringify(secrets),
+      },
+    });
+  }
 
-      if (Array.isArray(existing) && existing.length > 0) {
-        // Update existing secret
-        await this.apiClient.apiCall(`/secrets/${existing[0].id}`, {
-          method: "PATCH",
-          body: { value: jsonValue },
-        });
-      } else {
-        // Create new secret
-        await this.apiClient.apiCall("/secrets/", {
-          method: "POST",
-          body: {
-            namespace_id: this.namespaceId,
-            name: credentialName,
-            provider: providerType,
-            value: jsonValue,
-          },
-        });
-      }
-    } catch (error) {
-      // 404 Not Found means no secrets exist, so create new
-      if (error instanceof NotFoundError) {
-        await this.apiClient.apiCall("/secrets/", {
-          method: "POST",
-          body: {
-            namespace_id: this.namespaceId,
-            name: credentialName,
-            provider: providerType,
-            value: jsonValue,
-          },
-        });
-      } else {
-        throw error;
-      }
-    }
+  /**
+   * Add or replace keys of a provider credential's secrets without reading
+   * the stored values; keys set to null are removed
+   */
+  async mergeProviderSecrets(
+    providerType: string,
+    credentialName: string,
+    secrets: Record<string, string | null>,
+  ): Promise<void> {
+    await this.apiClient.apiCall("/secrets", {
+      method: "POST",
+      body: {
+        namespaceId: this.namespaceId,
+        name: credentialName,
+        provider: providerType,
+        value: JSON.stringify(secrets),
+        merge: true,
+      },
+    });
   }
 
   /**
@@ -386,56 +366,27 @@ export class SecretManager {
     providerType: string,
     credentialName: string,
   ): Promise<void> {
-    try {
-      // List all secrets for this provider and credential
-      const allSecrets = await this.apiClient.apiCall<SecretResponse[]>(
-        `/secrets/namespace/${this.namespaceId}?provider=${encodeURIComponent(providerType)}&name=${encodeURIComponent(credentialName)}`,
-      );
-
-      if (!Array.isArray(allSecrets) || allSecrets.length === 0) {
-        return;
-      }
-
-      // Delete the secret
-      const secret = allSecrets[0];
-      await this.apiClient.apiCall(`/secrets/${secret.id}`, {
-        method: "DELETE",
-      });
-    } catch (error) {
-      // 404 Not Found is okay - it just means no secrets exist
-      if (error instanceof NotFoundError) {
-        return;
-      }
-      throw error;
+    const secret = await this.findSecret(providerType, credentialName);
+    if (!secret) {
+      return;
     }
+
+    await this.apiClient.apiCall(`/secrets/${secret.id}`, {
+      method: "DELETE",
+    });
   }
 
   /**
    * Clear all secrets in the namespace
    */
   async clearAllSecrets(): Promise<void> {
-    try {
-      // List all secrets in the namespace
-      const allSecrets = await this.apiClient.apiCall<SecretResponse[]>(
-        `/secrets/namespace/${this.namespaceId}`,
-      );
-
-      if (!Array.isArray(allSecrets) || allSecrets.length === 0) {
-        return;
-      }
+    const allSecrets = await this.listSecrets();
 
-      // Delete each secret
-      for (const secret of allSecrets) {
-        await this.apiClient.apiCall(`/secrets/${secret.id}`, {
-          method: "DELETE",
-        });
-      }
-    } catch (error) {
-      // 404 Not Found is okay - it just means no secrets exist
-      if (error instanceof NotFoundError) {
-        return;
-      }
-      throw error;
+    // Delete each secret
+    for (const secret of allSecrets) {
+      await this.apiClient.apiCall(`/secrets/${secret.id}`, {
+        method: "DELETE",
+      });
     }
   }
 }
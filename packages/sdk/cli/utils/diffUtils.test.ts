@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { createUnifiedDiff } from "./diffUtils";
+
+describe("createUnifiedDiff", () => {
+  it("should return an empty string for equal texts", () => {
+    expect(createUnifiedDiff("a/main.ts", "b/main.ts", "x\ny\n", "x\ny\n")).toBe("");
+  });
+
+  it("should produce hunks with context", () => {
+    const oldText = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"].join("\n") + "\n";
+    const newText = ["1", "2", "3", "4", "five", "6", "7", "8", "9", "10", "11"].join("\n") + "\n";
+
+    expect(createUnifiedDiff("a/main.ts", "b/main.ts", oldText, newText, 1)).toBe(
+      [
+        "--- a/main.ts",
+        "+++ b/main.ts",
+        "@@ -4,3 +4,3 @@",
+        " 4",
+        "-5",
+        "+five",
+        " 6",
+        "@@ -10,1 +10,2 @@",
+        " 10",
+        "+11",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should diff added and removed files against nothing", () => {
+    expect(createUnifiedDiff("/dev/null", "b/new.ts", "", "a\nb\n")).toBe(
+      ["--- /dev/null", "+++ b/new.ts", "@@ -0,0 +1,2 @@", "+a", "+b", ""].join("\n")
+    );
+  });
+});
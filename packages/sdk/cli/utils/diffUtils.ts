@@ -0,0 +1,130 @@
+export interface DiffLine {
+  type: " " | "-" | "+";
+  text: string;
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Line-level edit script between two texts (longest common subsequence).
+ * The common prefix and suffix are skipped so small edits to large files stay cheap.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  // lcs[i * (m + 1) + j] = length of the LCS of oldMiddle[i..] and newMiddle[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        oldMiddle[i] === newMiddle[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, prefix).map((text) => ({ type: " ", text }));
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldMiddle[i] === newMiddle[j]) {
+      result.push({ type: " ", text: oldMiddle[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      result.push({ type: "-", text: oldMiddle[i++] });
+    } else {
+      result.push({ type: "+", text: newMiddle[j++] });
+    }
+  }
+  while (i < n) result.push({ type: "-", text: oldMiddle[i++] });
+  while (j < m) result.push({ type: "+", text: newMiddle[j++] });
+  for (const text of a.slice(a.length - suffix)) {
+    result.push({ type: " ", text });
+  }
+
+  return result;
+}
+
+/**
+ * Unified diff (as produced by `diff -u`) of two versions of a file.
+ * Returns an empty string when the texts are equal.
+ */
+export function createUnifiedDiff(
+  oldPath: string,
+  newPath: string,
+  oldText: string,
+  newText: string,
+  context: number = 3
+): string {
+  const lines = diffLines(oldText, newText);
+
+  // Line numbers each diff line starts at, in the old and new text
+  const oldNumbers: number[] = [];
+  const newNumbers: number[] = [];
+  let oldNo = 1;
+  let newNo = 1;
+  for (const line of lines) {
+    oldNumbers.push(oldNo);
+    newNumbers.push(newNo);
+    if (line.type !== "+") oldNo++;
+    if (line.type !== "-") newNo++;
+  }
+
+  const changed = lines
+    .map((line, index) => (line.type === " " ? -1 : index))
+    .filter((index) => index >= 0);
+  if (changed.length === 0) return "";
+
+  const output = [`--- ${oldPath}`, `+++ ${newPath}`];
+
+  let k = 0;
+  while (k < changed.length) {
+    const start = Math.max(0, changed[k] - context);
+    let end = Math.min(lines.length, changed[k] + context + 1);
+    // Merge changes whose context overlaps into one hunk
+    while (k + 1 < changed.length && changed[k + 1] - context <= end) {
+      k++;
+      end = Math.min(lines.length, changed[k] + context + 1);
+    }
+    k++;
+
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.type !== "+").length;
+    const newCount = hunk.filter((line) => line.type !== "-").length;
+    // An empty side is numbered after the line it follows, as diff -u does
+    const oldStart = oldCount === 0 ? oldNumbers[start] - 1 : oldNumbers[start];
+    const newStart = newCount === 0 ? newNumbers[start] - 1 : newNumbers[start];
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      output.push(`${line.type}${line.text}`);
+    }
+  }
+
+  return output.join("\n") + "\n";
+}
@@ -7,6 +7,15 @@ export interface DockerBuildResult {
   localImage: string;
 }
 
+/**
+ * Version of the Docker daemon
+ * @throws Error if the docker CLI is missing or the daemon is not running
+ */
+export async function dockerGetServerVersion(): Promise<string> {
+  const { stdout } = await execa("docker", ["version", "--format", "{{.Server.Version}}"]);
+  return stdout.trim();
+}
+
 export async function dockerRetagImage(args: {
   currentTag: string;
   newTag: string;
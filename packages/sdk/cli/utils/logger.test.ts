@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { getLogLevelsAtLeast } from "./logger";
+
+describe("getLogLevelsAtLeast", () => {
+  it("should return the level and every more severe level", () => {
+    expect(getLogLevelsAtLeast("warn")).toEqual(["warn", "error"]);
+    expect(getLogLevelsAtLeast("error")).toEqual(["error"]);
+    expect(getLogLevelsAtLeast("debug")).toEqual(["debug", "log", "info", "warn", "error"]);
+  });
+
+  it("should treat log as info, in any case", () => {
+    expect(getLogLevelsAtLeast("INFO")).toEqual(["log", "info", "warn", "error"]);
+    expect(getLogLevelsAtLeast("log")).toEqual(getLogLevelsAtLeast("info"));
+  });
+
+  it("should reject unknown levels", () => {
+    expect(() => getLogLevelsAtLeast("verbose")).toThrow('Unknown log level "verbose"');
+  });
+});
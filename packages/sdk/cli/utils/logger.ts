@@ -1,9 +1,11 @@
 import { consola } from "consola";
+import chalk from "chalk";
 import {
   spinner,
   confirm,
   select,
   text,
+  password,
   isCancel,
   cancel,
   log,
@@ -24,7 +26,7 @@ export const ICONS = {
 } as const;
 
 // Environment detection for interactive vs non-interactive mode
-const isInteractive =
+let isInteractive =
   process.stdout.isTTY && !process.env.CI && !process.env.FLOWW_LOG_FORMAT;
 
 // Debug mode detection
@@ -36,6 +38,38 @@ export interface TaskStep {
   task: () => Promise<void>;
 }
 
+// Severity of the log levels of workflow executions ("log" is console.log, same as info)
+const EXECUTION_LOG_LEVELS: Record<string, number> = {
+  debug: 0,
+  log: 1,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * Execution log levels at or above a minimum level, e.g. "warn" -> ["warn", "error"]
+ */
+export function getLogLevelsAtLeast(minLevel: string): string[] {
+  const minSeverity = EXECUTION_LOG_LEVELS[minLevel.toLowerCase()];
+  if (minSeverity === undefined) {
+    throw new Error(
+      `Unknown log level "${minLevel}" (expected ${Object.keys(EXECUTION_LOG_LEVELS).join(", ")})`
+    );
+  }
+
+  return Object.keys(EXECUTION_LOG_LEVELS).filter(
+    (level) => EXECUTION_LOG_LEVELS[level] >= minSeverity
+  );
+}
+
+export interface ExecutionLogLine {
+  timestamp: string;
+  level: string;
+  message: string;
+  executionId?: string;
+}
+
 export class FlowwLogger {
   private _consola = consola;
 
@@ -293,6 +327,25 @@ export class FlowwLogger {
     return result;
   }
 
+  /**
+   * Show masked input prompt; there is no default to fall back to, so this
+   * requires interactive mode
+   */
+  async password(message: string): Promise<string> {
+    if (!isInteractive) {
+      throw new Error(`${message}: input requires an interactive terminal`);
+    }
+
+    const result = await password({ message, mask: "•" });
+
+    if (isCancel(result)) {
+      cancel("Operation cancelled.");
+      process.exit(0);
+    }
+
+    return result;
+  }
+
   /**
    * Show a tip or suggestion message
    */
@@ -316,6 +369,34 @@ export class FlowwLogger {
     }
   }
 
+  /**
+   * Print a log line written by a workflow execution, coloured by level.
+   * Printed without clack decoration so tailed output stays greppable.
+   */
+  executionLog(line: ExecutionLogLine): void {
+    const level = line.level.toLowerCase();
+    const colour =
+      level === "error"
+        ? chalk.red
+        : level === "warn"
+          ? chalk.yellow
+          : level === "debug"
+            ? chalk.gray
+            : chalk.white;
+
+    const timestamp = new Date(line.timestamp)
+      .toISOString()
+      .replace("T", " ")
+      .replace("Z", "");
+    const executionId = line.executionId
+      ? chalk.dim(line.executionId.slice(-8)) + " "
+      : "";
+
+    console.log(
+      `${chalk.dim(timestamp)} ${colour(level.toUpperCase().padEnd(5))} ${executionId}${colour(line.message)}`
+    );
+  }
+
   /**
    * Direct access to consola methods for cleaner logging without clack
    */
@@ -350,6 +431,34 @@ export class FlowwLogger {
     return isInteractive;
   }
 
+  /**
+   * Switch to machine-readable output (--json): never prompt, and send all
+   * human-readable output to stderr so stdout only carries the JSON result
+   */
+  enableJsonOutput(): void {
+    isInteractive = false;
+    this._consola = consola.create({
+      level: process.env.FLOWW_LOG_LEVEL
+        ? parseInt(process.env.FLOWW_LOG_LEVEL)
+        : 3,
+      formatOptions: {
+        date: true,
+        colors: false,
+      },
+      stdout: process.stderr,
+      stderr: process.stderr,
+    });
+    // Progress lines written with console.log (task(), command output) go to stderr too
+    console.log = console.error;
+  }
+
+  /**
+   * Write a machine-readable result to stdout
+   */
+  json(data: unknown): void {
+    process.stdout.write(JSON.stringify(data, null, 2) + "\n");
+  }
+
   /**
    * Check if running in debug mode
    */
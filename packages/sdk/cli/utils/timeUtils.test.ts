@@ -0,0 +1,30 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { parseTimeFilter } from "./timeUtils";
+
+describe("parseTimeFilter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should count durations back from now", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-31T12:00:00Z"));
+
+    expect(parseTimeFilter("1h", "--since")).toEqual(new Date("2025-01-31T11:00:00Z"));
+    expect(parseTimeFilter("30 minutes", "--since")).toEqual(new Date("2025-01-31T11:30:00Z"));
+    expect(parseTimeFilter("2d", "--since")).toEqual(new Date("2025-01-29T12:00:00Z"));
+  });
+
+  it("should parse dates and ISO timestamps", () => {
+    expect(parseTimeFilter("2025-01-31", "--since")).toEqual(new Date("2025-01-31"));
+    expect(parseTimeFilter("2025-01-31T08:15:00Z", "--since")).toEqual(
+      new Date("2025-01-31T08:15:00Z")
+    );
+  });
+
+  it("should name the option in the error for other values", () => {
+    expect(() => parseTimeFilter("yesterday", "--since")).toThrow(
+      'Invalid --since value "yesterday"'
+    );
+  });
+});
@@ -0,0 +1,21 @@
+import { parseDuration } from "../../runtime/durable";
+
+/**
+ * Parse a time filter such as --since: either a duration back from now
+ * ("1h", "30 minutes", "2d") or a date ("2025-01-31", an ISO timestamp)
+ */
+export function parseTimeFilter(value: string, option: string): Date {
+  try {
+    return new Date(Date.now() - parseDuration(value));
+  } catch {
+    // Not a duration, try as a date
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid ${option} value "${value}" (expected e.g. "1h", "30m" or an ISO date)`
+    );
+  }
+  return date;
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { getTriggerLabels, selectTrigger, type TriggerRef } from "./triggerUtils";
+
+const triggers: TriggerRef[] = [
+  { providerType: "slack", providerAlias: "default", triggerType: "onMessage", input: { channel_id: "C1" } },
+  { providerType: "slack", providerAlias: "default", triggerType: "onMessage", input: { channel_id: "C2" } },
+  { providerType: "slack", providerAlias: "work", triggerType: "onReaction" },
+  { providerType: "builtin", providerAlias: "default", triggerType: "onCron" },
+];
+
+describe("getTriggerLabels", () => {
+  it("should name triggers by provider and type", () => {
+    expect(getTriggerLabels(triggers)).toEqual([
+      "slack:onMessage#1",
+      "slack:onMessage#2",
+      "slack.work:onReaction",
+      "builtin:onCron",
+    ]);
+  });
+});
+
+describe("selectTrigger", () => {
+  const select = (selector: string) => selectTrigger(triggers, (ref) => ref, selector);
+
+  it("should select by label, provider and type, or type", () => {
+    expect(select("slack:onMessage#2")).toBe(triggers[1]);
+    expect(select("slack:onReaction")).toBe(triggers[2]);
+    expect(select("onCron")).toBe(triggers[3]);
+  });
+
+  it("should reject ambiguous and unknown selectors", () => {
+    expect(() => select("onMessage")).toThrow(
+      '"onMessage" matches 2 triggers, pick one of: slack:onMessage#1, slack:onMessage#2'
+    );
+    expect(() => select("github:onPush")).toThrow('No trigger matches "github:onPush"');
+  });
+});
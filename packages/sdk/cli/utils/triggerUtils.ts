@@ -0,0 +1,70 @@
+export interface TriggerRef {
+  providerType: string;
+  providerAlias: string;
+  triggerType: string;
+  input?: unknown;
+}
+
+/**
+ * Names for triggers on the command line: `slack:onMessage`, with the provider
+ * alias when it isn't the default (`slack.work:onMessage`) and a `#n` suffix
+ * when several triggers share a name.
+ */
+export function getTriggerLabels(refs: TriggerRef[]): string[] {
+  const bases = refs.map((ref) => {
+    const provider =
+      ref.providerAlias && ref.providerAlias !== "default"
+        ? `${ref.providerType}.${ref.providerAlias}`
+        : ref.providerType;
+    return `${provider}:${ref.triggerType}`;
+  });
+
+  const seen = new Map<string, number>();
+  return bases.map((base) => {
+    if (bases.filter((other) => other === base).length === 1) return base;
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    return `${base}#${n}`;
+  });
+}
+
+/**
+ * Find the one trigger a selector refers to. A selector is a label from
+ * getTriggerLabels, `provider:triggerType`, or just the trigger type.
+ * @throws Error if no trigger or more than one trigger matches
+ */
+export function selectTrigger<T>(
+  items: T[],
+  toRef: (item: T) => TriggerRef,
+  selector: string
+): T {
+  const refs = items.map(toRef);
+  const labels = getTriggerLabels(refs);
+  const available = () =>
+    labels.length > 0
+      ? `Available triggers:\n${labels.map((label) => `  ${label}`).join("\n")}`
+      : "No triggers are registered.";
+
+  const exact = labels.indexOf(selector);
+  if (exact !== -1) return items[exact];
+
+  const matches = items.filter((_, index) => {
+    const ref = refs[index];
+    return (
+      labels[index].split("#")[0] === selector ||
+      `${ref.providerType}:${ref.triggerType}` === selector ||
+      ref.triggerType === selector
+    );
+  });
+
+  if (matches.length === 0) {
+    throw new Error(`No trigger matches "${selector}". ${available()}`);
+  }
+  if (matches.length > 1) {
+    const matching = labels.filter((_, index) => matches.includes(items[index]));
+    throw new Error(
+      `"${selector}" matches ${matches.length} triggers, pick one of: ${matching.join(", ")}`
+    );
+  }
+  return matches[0];
+}
@@ -0,0 +1,58 @@
+import { fetchWorkflow, fetchWorkflows } from "../api/apiMethods";
+import {
+  findProjectDirectory,
+  tryLoadProjectConfig,
+} from "../config/projectConfig";
+
+/**
+ * Resolve a workflow identifier (name or ID) to a workflow ID.
+ * Names are looked up in the given namespace when one is passed.
+ */
+export async function resolveWorkflowIdentifier(
+  identifier: string,
+  namespaceId?: string
+): Promise<string> {
+  // Try as a direct ID first by fetching it
+  try {
+    const workflow = await fetchWorkflow(identifier);
+    return workflow.id;
+  } catch {
+    // Not a valid ID, try as a name
+  }
+
+  // Search by name
+  const workflows = await fetchWorkflows(namespaceId);
+  const match = workflows.find(
+    (w) => w.name.toLowerCase() === identifier.toLowerCase()
+  );
+
+  if (!match) {
+    throw new Error(
+      `Workflow not found: "${identifier}". Provide a valid workflow ID or name.`
+    );
+  }
+
+  return match.id;
+}
+
+/**
+ * Resolve the workflow a command acts on: the given name or ID, or else the
+ * workflowId from the floww.yaml of the project in the current directory.
+ */
+export async function resolveWorkflowContext(
+  workflowArg?: string
+): Promise<string> {
+  if (workflowArg) {
+    return resolveWorkflowIdentifier(workflowArg);
+  }
+
+  const projectDir = findProjectDirectory(process.cwd());
+  const config = projectDir ? tryLoadProjectConfig(projectDir) : null;
+  if (!config?.workflowId) {
+    throw new Error(
+      "No workflow specified. Pass a workflow ID or name, or run this command in a project with a floww.yaml."
+    );
+  }
+
+  return config.workflowId;
+}
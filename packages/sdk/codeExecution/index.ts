@@ -49,7 +49,7 @@ export async function getUserProject(
   const filesMap: Record<string, string> = {};
 
   // Directories to exclude
-  const excludeDirs = ["node_modules", ".git", "dist", "build", ".next"];
+  const excludeDirs = ["node_modules", ".git", "dist", "build", ".next", ".floww"];
 
   // Walk directory tree, excluding specified directories and symlinks
   await walkDirectory(process.cwd(), process.cwd(), excludeDirs, filesMap);
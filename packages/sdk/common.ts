@@ -2,8 +2,46 @@
 export { ExecutionContext } from './cli/runtime/ExecutionContext';
 export type { ExecutionContextData } from './cli/runtime/ExecutionContext';
 
+// Milliseconds, or a string such as "30s", "5 minutes" or "1 day"
+export type Duration = number | string;
+
+// Request for a human decision via ctx.waitForApproval()
+export type ApprovalOptions = {
+  // Shown to approvers in the dashboard inbox and notifications
+  message: string;
+  // Emails or usernames of the Floww users allowed to decide (default: anyone with access to the workflow)
+  approvers?: string[];
+  // Give up after this long; the decision then has status "timed_out" (default: wait forever)
+  timeout?: Duration;
+  // Step name; defaults to "approval-1", "approval-2", ... in call order
+  name?: string;
+  // Also post the request to Slack, with Approve/Reject buttons linking to signed callback URLs
+  notify?: {
+    slack?: {
+      channel: string;
+      // Alias of the Slack provider to post with (default: "default")
+      provider?: string;
+    };
+  };
+};
+
+export type ApprovalDecision = {
+  approved: boolean;
+  status: "approved" | "rejected" | "timed_out";
+  // Email or username of the deciding user; null for signed links and timeouts
+  decidedBy: string | null;
+  comment: string | null;
+  decidedAt: string;
+};
+
+// Providers are instantiated directly; the context only carries durable-execution helpers
 export type BaseContext = {
-  // Base context is now empty - providers are instantiated directly
+  // Run `fn` once per execution; retries, replays and resumes reuse its recorded (JSON) result
+  step<T>(name: string, fn: () => T | Promise<T>): Promise<T>;
+  // Suspend the execution and continue after `duration`; the handler re-runs with completed steps skipped
+  sleep(name: string, duration: Duration): Promise<void>;
+  // Suspend the execution until someone approves or rejects it (or the timeout passes)
+  waitForApproval(options: ApprovalOptions): Promise<ApprovalDecision>;
 };
 
 export type Handler<TEvent = any, TContext = any> = (
@@ -27,6 +65,43 @@ export interface Trigger<TEvent = any, TContext = any> {
   handler: Handler<TEvent, TContext>;
 }
 
+// Retry policy for failed executions
+export type RetryOptions = {
+  // Total number of attempts, including the first one
+  attempts: number;
+  // Delay growth between attempts (default: "exponential")
+  backoff?: "exponential" | "fixed";
+  // Delay before the first retry in milliseconds (default: 1000)
+  initialDelayMs?: number;
+  // Upper bound for a single delay in milliseconds (default: 1 hour)
+  maxDelayMs?: number;
+  // Only retry errors whose name or message contains one of these strings (default: retry all errors)
+  retryOn?: string[];
+};
+
+// Limit on the number of executions that run at the same time
+export type ConcurrencyOptions = {
+  // Executions running at once per key; executions over the limit wait in order
+  limit: number;
+  // Executions sharing a key count against the same limit (default: one shared limit).
+  // Either a path into the event ("body.repository.full_name") or a function that
+  // only reads event fields, e.g. (event) => `${event.body.owner}/${event.body.repo}`
+  key?: string | ((event: any) => string);
+};
+
+// Execution options accepted by every trigger factory
+export type TriggerOptions = {
+  retry?: RetryOptions;
+  concurrency?: ConcurrencyOptions;
+  // Webhook deliveries with a key seen before (within idempotencyWindow) are recorded as
+  // duplicates instead of running again. Defaults to the provider's delivery ID
+  // (X-GitHub-Delivery, Slack event_id, an Idempotency-Key header for onWebhook, ...).
+  // Like concurrency.key, either an event path or a function that only reads event fields.
+  idempotencyKey?: string | ((event: any) => string);
+  // How long a key is remembered (default: 24 hours)
+  idempotencyWindow?: Duration;
+};
+
 // Webhook-specific types
 export type WebhookEvent<TBody = any> = BaseEvent & {
   body: TBody;
@@ -65,7 +140,7 @@ export type WebhookTeardownContext = {
 };
 
 // Webhook trigger args
-export type WebhookTriggerArgs<TBody = any> = {
+export type WebhookTriggerArgs<TBody = any> = TriggerOptions & {
   handler: Handler<WebhookEvent<TBody>, WebhookContext>;
   path?: string;
   method?: "POST" | "GET" | "PUT" | "DELETE";
@@ -87,6 +162,9 @@ export interface CronTrigger extends Trigger<CronEvent, CronContext> {
   type: "cron";
   handler: Handler<CronEvent, CronContext>;
   expression: string;
+  timezone?: string;
+  catchUp?: CronCatchUp;
+  jitter?: number;
   setup?: (ctx: CronSetupContext) => Promise<void> | void;
   teardown?: (ctx: CronTeardownContext) => Promise<void> | void;
 }
@@ -99,9 +177,18 @@ export type CronTeardownContext = {
   // cron-specific teardown context
 };
 
+// What to do with cron runs missed while the scheduler was down
+export type CronCatchUp = "none" | "latest" | "all";
+
 // Cron trigger args
-export type CronTriggerArgs = {
+export type CronTriggerArgs = TriggerOptions & {
   expression: string;
+  // IANA timezone the expression is evaluated in (default: UTC)
+  timezone?: string;
+  // Missed runs: skip them ("none", default), run only the most recent ("latest") or run all of them ("all")
+  catchUp?: CronCatchUp;
+  // Maximum random delay in seconds added to each run
+  jitter?: number;
   handler: Handler<CronEvent, CronContext>;
   setup?: (ctx: CronSetupContext) => Promise<void> | void;
   teardown?: (ctx: CronTeardownContext) => Promise<void> | void;
@@ -174,7 +261,7 @@ export interface ManualTrigger<TInput = any>
 }
 
 // Manual trigger args
-export type ManualTriggerArgs<TInput = any> = {
+export type ManualTriggerArgs<TInput = any> = TriggerOptions & {
   name: string;
   description?: string;
   inputSchema?: Record<string, any>;
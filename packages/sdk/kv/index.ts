@@ -1,13 +1,24 @@
 // KV types - used by the KVStore provider
 export type {
   KVItem,
+  KVEntry,
+  KVSetOptions,
+  KVListOptions,
+  KVTableOptions,
+  KVListPage,
+  KVIncrementOptions,
+  KVDeleteOptions,
+  KVLockOptions,
+  KVLease,
+  KVChangeOperation,
+  KVChangeEvent,
   Permission,
   TableListResponse,
   KeyListResponse,
   KeysWithValuesResponse,
   GrantPermissionRequest,
 } from './types';
-export { KVError } from './types';
+export { KVError, KVLockError, KVValidationError } from './types';
 
 // Note: KVStore is now a provider, not exported from here
 // Import it from 'floww' instead: import { KVStore } from 'floww';
@@ -0,0 +1,77 @@
+import type { KVLease, KVLockOptions } from './types';
+import { KVLockError } from './types';
+
+export const DEFAULT_LOCK_TTL_MS = 30_000;
+
+// Bounds for polling a held lock while waiting for it
+const MIN_RETRY_MS = 50;
+const MAX_RETRY_MS = 1_000;
+
+export interface KVLockGrant {
+  leaseId: string;
+  fencingToken: number;
+  expiresAt: Date;
+}
+
+/**
+ * Where leases are kept: the backend's /kv/:provider/locks routes, or an
+ * in-memory map under floww/testing
+ */
+export interface KVLockBackend {
+  /** Returns the lease, or how long until the current one expires */
+  acquireLock(name: string, ttlMs: number): Promise<KVLockGrant | { retryAfterMs: number }>;
+  /** Returns the new expiry, or null when the lease is gone */
+  extendLock(name: string, leaseId: string, ttlMs: number): Promise<Date | null>;
+  releaseLock(name: string, leaseId: string): Promise<void>;
+}
+
+class Lease implements KVLease {
+  constructor(
+    private backend: KVLockBackend,
+    public readonly name: string,
+    private leaseId: string,
+    public readonly fencingToken: number,
+    public expiresAt: Date,
+    private ttlMs: number
+  ) {}
+
+  async extend(ttlMs: number = this.ttlMs): Promise<void> {
+    const expiresAt = await this.backend.extendLock(this.name, this.leaseId, ttlMs);
+    if (!expiresAt) {
+      throw new KVLockError(`Lease on lock ${this.name} expired or was released`, this.name);
+    }
+    this.expiresAt = expiresAt;
+  }
+
+  async release(): Promise<void> {
+    await this.backend.releaseLock(this.name, this.leaseId);
+  }
+}
+
+/**
+ * Acquire a lock, polling until waitMs has passed while another lease holds it
+ * @throws KVLockError if the lock is still held after waitMs
+ */
+export async function acquireLease(
+  backend: KVLockBackend,
+  name: string,
+  options: KVLockOptions = {}
+): Promise<KVLease> {
+  const ttlMs = options.ttlMs ?? DEFAULT_LOCK_TTL_MS;
+  const deadline = Date.now() + (options.waitMs ?? 0);
+
+  while (true) {
+    const result = await backend.acquireLock(name, ttlMs);
+    if ('leaseId' in result) {
+      return new Lease(backend, name, result.leaseId, result.fencingToken, result.expiresAt, ttlMs);
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new KVLockError(`Lock ${name} is held by another execution`, name);
+    }
+
+    const delay = Math.min(Math.max(result.retryAfterMs, MIN_RETRY_MS), MAX_RETRY_MS, remaining);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { decodeEntry, tableSchema, validateValue } from './schema';
+import { KVValidationError } from './types';
+import { KVTable } from '../providers/kvstore';
+
+const UserSchema = z.object({
+  name: z.string(),
+  plan: z.enum(['free', 'pro']),
+});
+
+describe('validateValue', () => {
+  it('should return the parsed value', () => {
+    const users = tableSchema(UserSchema);
+    expect(validateValue(users, 'users', 'u1', { name: 'Alice', plan: 'pro', extra: 1 })).toEqual({
+      name: 'Alice',
+      plan: 'pro',
+    });
+  });
+
+  it('should throw a KVValidationError with the issues', () => {
+    const users = tableSchema(UserSchema);
+    try {
+      validateValue(users, 'users', 'u1', { name: 'Alice', plan: 'enterprise' });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(KVValidationError);
+      const validationError = error as KVValidationError;
+      expect(validationError.statusCode).toBe(422);
+      expect(validationError.key).toBe('u1');
+      expect(validationError.issues[0].path).toEqual(['plan']);
+    }
+  });
+
+  it('should reject versions that are not positive integers', () => {
+    expect(() => tableSchema(UserSchema, { version: 0 })).toThrow();
+    expect(() => tableSchema(UserSchema, { version: 1.5 })).toThrow();
+  });
+});
+
+describe('decodeEntry', () => {
+  const migrate = vi.fn((old: any) => ({ ...old, plan: 'free' as const }));
+  const users = tableSchema(UserSchema, { version: 2, migrate });
+
+  it('should migrate values written at an older version or without a schema', async () => {
+    migrate.mockClear();
+
+    const fromV1 = await decodeEntry(users, 'users', { key: 'u1', value: { name: 'A' }, schemaVersion: 1 });
+    const untyped = await decodeEntry(users, 'users', { key: 'u2', value: { name: 'B' }, schemaVersion: null });
+
+    expect(fromV1).toEqual({ value: { name: 'A', plan: 'free' }, migrated: true });
+    expect(untyped.migrated).toBe(true);
+    expect(migrate).toHaveBeenCalledWith({ name: 'A' }, 1);
+    expect(migrate).toHaveBeenCalledWith({ name: 'B' }, 0);
+  });
+
+  it('should only validate values at the current version', async () => {
+    migrate.mockClear();
+
+    const current = await decodeEntry(users, 'users', {
+      key: 'u1',
+      value: { name: 'A', plan: 'pro' },
+      schemaVersion: 2,
+    });
+
+    expect(current).toEqual({ value: { name: 'A', plan: 'pro' }, migrated: false });
+    expect(migrate).not.toHaveBeenCalled();
+  });
+
+  it('should validate the result of migrate', async () => {
+    const broken = tableSchema(UserSchema, { version: 2, migrate: (old) => old });
+    await expect(
+      decodeEntry(broken, 'users', { key: 'u1', value: { name: 'A' }, schemaVersion: 1 })
+    ).rejects.toBeInstanceOf(KVValidationError);
+  });
+});
+
+describe('typed KVTable', () => {
+  function fakeClient(stored: Record<string, unknown>) {
+    return {
+      getEntry: vi.fn(async () => stored),
+      set: vi.fn(async () => {}),
+      setIfVersion: vi.fn(async () => true),
+    };
+  }
+
+  it('should write migrated values back at the version they were read', async () => {
+    const client = fakeClient({
+      key: 'u1',
+      value: { name: 'A' },
+      version: 4,
+      schemaVersion: 1,
+      expiresAt: null,
+    });
+    const users = new KVTable(
+      client as any,
+      'users',
+      tableSchema(UserSchema, { version: 2, migrate: (old) => ({ ...old, plan: 'free' }) })
+    );
+
+    const entry = await users.getEntry('u1');
+
+    expect(entry).toMatchObject({ value: { name: 'A', plan: 'free' }, version: 5, schemaVersion: 2 });
+    expect(client.setIfVersion).toHaveBeenCalledWith('users', 'u1', { name: 'A', plan: 'free' }, 4, {
+      ttlSeconds: undefined,
+      schemaVersion: 2,
+      migration: true,
+    });
+  });
+
+  it('should validate before writing and record the schema version', async () => {
+    const client = fakeClient({});
+    const users = new KVTable(client as any, 'users', tableSchema(UserSchema, { version: 3 }));
+
+    await expect(users.set('u1', { name: 'A', plan: 'gold' } as any)).rejects.toBeInstanceOf(
+      KVValidationError
+    );
+    expect(client.set).not.toHaveBeenCalled();
+
+    await users.set('u1', { name: 'A', plan: 'pro' }, { ttlSeconds: 60 });
+    expect(client.set).toHaveBeenCalledWith('users', 'u1', { name: 'A', plan: 'pro' }, {
+      ttlSeconds: 60,
+      schemaVersion: 3,
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import type { ZodType } from 'zod';
+import type { KVEntry, KVTableOptions } from './types';
+import { KVValidationError } from './types';
+
+/**
+ * Schema of a typed table, as passed to kv.table()
+ */
+export interface KVTableSchema<T> {
+  schema: ZodType<T>;
+  version: number;
+  migrate?: KVTableOptions<T>['migrate'];
+}
+
+export function tableSchema<T>(schema: ZodType<T>, options: KVTableOptions<T> = {}): KVTableSchema<T> {
+  const version = options.version ?? 1;
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`KV table schema version must be a positive integer, got ${version}`);
+  }
+  return { schema, version, migrate: options.migrate };
+}
+
+/**
+ * Parse a value against the table schema
+ * @throws KVValidationError if it doesn't match
+ */
+export function validateValue<T>(
+  tableSchema: KVTableSchema<T>,
+  table: string,
+  key: string,
+  value: unknown
+): T {
+  const result = tableSchema.schema.safeParse(value);
+  if (!result.success) {
+    throw new KVValidationError(
+      `Invalid value for ${table}/${key}: ${result.error.message}`,
+      table,
+      key,
+      result.error.issues
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Turn a stored entry into a value of the current schema version. Entries
+ * written at an older version (or without a schema, which counts as version 0)
+ * go through migrate first when the table has one.
+ */
+export async function decodeEntry<T>(
+  tableSchema: KVTableSchema<T>,
+  table: string,
+  entry: Pick<KVEntry, 'key' | 'value' | 'schemaVersion'>
+): Promise<{ value: T; migrated: boolean }> {
+  const fromVersion = entry.schemaVersion ?? 0;
+
+  if (tableSchema.migrate && fromVersion < tableSchema.version) {
+    const migrated = await tableSchema.migrate(entry.value, fromVersion);
+    return { value: validateValue(tableSchema, table, entry.key, migrated), migrated: true };
+  }
+
+  return { value: validateValue(tableSchema, table, entry.key, entry.value), migrated: false };
+}
@@ -1,3 +1,5 @@
+import type { ZodError } from 'zod';
+
 export interface KVItem<T = any> {
   key: string;
   value: T;
@@ -5,6 +7,108 @@ export interface KVItem<T = any> {
   updated_at: string;
 }
 
+/**
+ * A value with the metadata needed for compare-and-swap writes
+ */
+export interface KVEntry<T = any> {
+  key: string;
+  value: T;
+  version: number;
+  /** Schema version of a typed table the value was written with; null when written without one */
+  schemaVersion: number | null;
+  expiresAt: string | null;
+}
+
+export interface KVTableOptions<T = any> {
+  /** Version of the schema; bump it when the shape of stored values changes (default 1) */
+  version?: number;
+  /**
+   * Upgrade a value written at an older version. Called on read; the result is
+   * validated and written back, so each value is migrated once. Values written
+   * without a schema come in with fromVersion 0.
+   */
+  migrate?: (oldValue: any, fromVersion: number) => T | Promise<T>;
+}
+
+export interface KVSetOptions {
+  /** Delete the key this many seconds after the write */
+  ttlSeconds?: number;
+  /**
+   * Fencing token of the lease guarding the write. The write throws
+   * KVLockError if the lock was acquired again since, i.e. by a later lock
+   * holder.
+   */
+  fencingToken?: number;
+}
+
+export interface KVListOptions {
+  /** Only keys starting with this prefix */
+  prefix?: string;
+  /** Page size, at most 1000 (default 100) */
+  limit?: number;
+  /** nextCursor of the previous page */
+  cursor?: string;
+}
+
+export interface KVListPage<T = any> {
+  items: KVEntry<T>[];
+  /** Pass as cursor to get the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+export interface KVIncrementOptions {
+  /** Expiry for a newly created counter; existing counters keep theirs */
+  ttlSeconds?: number;
+  /** Fencing token of the lease guarding the write, as for set */
+  fencingToken?: number;
+}
+
+export interface KVDeleteOptions {
+  /** Fencing token of the lease guarding the delete, as for set */
+  fencingToken?: number;
+}
+
+export interface KVLockOptions {
+  /** How long the lease lasts unless extended (default 30s) */
+  ttlMs?: number;
+  /** How long to wait for a held lock before giving up (default 0: fail right away) */
+  waitMs?: number;
+}
+
+/**
+ * A held lock. Release it when done, or extend it for long-running work.
+ */
+export interface KVLease {
+  readonly name: string;
+  /** Increases with every acquire of the lock; pass it to writes the lock guards */
+  readonly fencingToken: number;
+  readonly expiresAt: Date;
+  /**
+   * Push the expiry back by ttlMs (default: the lock's ttlMs)
+   * @throws KVLockError if the lease expired or was released
+   */
+  extend(ttlMs?: number): Promise<void>;
+  release(): Promise<void>;
+}
+
+export type KVChangeOperation = 'set' | 'delete';
+
+/**
+ * Event received by kv.triggers.onChange handlers
+ */
+export interface KVChangeEvent<T = any> {
+  table: string;
+  key: string;
+  operation: KVChangeOperation;
+  /** Value before the write, null if the key didn't exist */
+  oldValue: T | null;
+  /** Value after the write, null for deletes */
+  newValue: T | null;
+  /** Workflow that made the write, null for writes from outside a workflow */
+  workflowId: string | null;
+  changedAt: string;
+}
+
 export interface Permission {
   workflow_id: string;
   can_read: boolean;
@@ -40,3 +144,26 @@ export class KVError extends Error {
     this.name = 'KVError';
   }
 }
+
+export class KVValidationError extends KVError {
+  constructor(
+    message: string,
+    public table: string,
+    public key: string,
+    public issues: ZodError['issues']
+  ) {
+    super(message, 422, issues);
+    this.name = 'KVValidationError';
+  }
+}
+
+export class KVLockError extends KVError {
+  constructor(
+    message: string,
+    /** Unknown when a write was rejected for its fencing token */
+    public lockName?: string
+  ) {
+    super(message, 409);
+    this.name = 'KVLockError';
+  }
+}
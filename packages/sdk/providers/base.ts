@@ -102,6 +102,37 @@ export interface TriggerRefreshContext<TInput, TState, TSecrets = Record<string,
   secrets: TSecrets;
 }
 
+/**
+ * Context passed to trigger poll method
+ */
+export interface TriggerPollContext<TInput, TState, TSecrets = Record<string, string>> {
+  input: TInput;
+  /** State returned by lifecycle.create or the previous poll (holds the cursor) */
+  state: TState;
+  providerId: string;
+  triggerId: string;
+  secrets: TSecrets;
+}
+
+/**
+ * A single event produced by a poll
+ */
+export interface PolledEvent {
+  /** Stable identifier used by the backend to deduplicate events across polls */
+  id: string;
+  /** Event payload passed to the trigger handler */
+  event: Record<string, unknown>;
+}
+
+/**
+ * Result of a poll - new events plus the updated cursor state
+ */
+export interface TriggerPollResult<TState> {
+  events: PolledEvent[];
+  /** Persisted to triggers.state and passed to the next poll */
+  state: TState;
+}
+
 /**
  * Trigger lifecycle methods for managing external resources (webhooks, subscriptions, etc.)
  */
@@ -124,6 +155,10 @@ export interface WebhookRequest {
   body: unknown;
   method: string;
   path: string;
+  /** Unparsed request body, for signature verification */
+  rawBody?: string;
+  /** The trigger that owns the webhook (only set for trigger-owned webhooks) */
+  trigger?: TriggerInfo;
 }
 
 /**
@@ -156,6 +191,8 @@ export interface WebhookMatch {
   triggerId: string;
   /** Normalized event payload to pass to trigger handler */
   event: Record<string, unknown>;
+  /** Delivery ID for this match, when it differs from getIdempotencyKey() */
+  idempotencyKey?: string;
 }
 
 /**
@@ -171,6 +208,12 @@ export interface WebhookProcessor {
     triggers: TriggerInfo[],
     secrets: Record<string, string>
   ): Promise<WebhookMatch[]>;
+
+  /**
+   * Unique ID of a delivery (e.g., X-GitHub-Delivery, Slack event_id).
+   * Redeliveries of the same event share it, so the backend records them as duplicates.
+   */
+  getIdempotencyKey?(req: WebhookRequest): string | undefined;
 }
 
 /**
@@ -183,6 +226,13 @@ export interface TriggerDefinition<TInput = unknown, TState = unknown, TSecrets
   stateSchema: ZodType<TState>;
   /** Lifecycle methods for managing trigger resources */
   lifecycle: TriggerLifecycle<TInput, TState, TSecrets>;
+  /**
+   * Fetch new events for triggers without push webhooks.
+   * When defined, the backend schedules polls instead of creating a webhook.
+   */
+  poll?(ctx: TriggerPollContext<TInput, TState, TSecrets>): Promise<TriggerPollResult<TState>>;
+  /** Seconds between polls (defaults to 60) */
+  pollIntervalSeconds?: number;
 }
 
 /**
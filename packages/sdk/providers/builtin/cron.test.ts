@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { getNextCronRun, getDueCronRuns, validateCronSchedule } from "./cron";
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe("getNextCronRun", () => {
+  it("should evaluate the expression in the given timezone", () => {
+    const after = new Date("2026-01-01T00:00:00Z");
+
+    expect(getNextCronRun("0 9 * * *", after)?.toISOString()).toBe("2026-01-01T09:00:00.000Z");
+    expect(getNextCronRun("0 9 * * *", after, "Europe/Amsterdam")?.toISOString()).toBe(
+      "2026-01-01T08:00:00.000Z"
+    );
+    expect(getNextCronRun("0 9 * * *", after, "America/New_York")?.toISOString()).toBe(
+      "2026-01-01T14:00:00.000Z"
+    );
+  });
+
+  it("should support weekday ranges, names and seconds", () => {
+    // Friday afternoon -> Monday morning
+    expect(getNextCronRun("0 9 * * mon-fri", new Date("2026-01-02T12:00:00Z"))?.toISOString()).toBe(
+      "2026-01-05T09:00:00.000Z"
+    );
+    expect(getNextCronRun("*/15 * * * * *", new Date("2026-01-01T00:00:07.500Z"))?.toISOString()).toBe(
+      "2026-01-01T00:00:15.000Z"
+    );
+    expect(getNextCronRun("0 0 29 feb *", new Date("2026-01-01T00:00:00Z"))?.toISOString()).toBe(
+      "2028-02-29T00:00:00.000Z"
+    );
+  });
+
+  it("should handle daylight saving transitions", () => {
+    // 02:30 doesn't exist on 2026-03-29 in Amsterdam; run right after the jump
+    expect(
+      getNextCronRun("30 2 * * *", new Date("2026-03-28T12:00:00Z"), "Europe/Amsterdam")?.toISOString()
+    ).toBe("2026-03-29T01:30:00.000Z");
+
+    // 02:30 happens twice on 2026-10-25; only the first one fires
+    const first = getNextCronRun("30 2 * * *", new Date("2026-10-24T12:00:00Z"), "Europe/Amsterdam")!;
+    expect(first.toISOString()).toBe("2026-10-25T00:30:00.000Z");
+    expect(getNextCronRun("30 2 * * *", first, "Europe/Amsterdam")?.toISOString()).toBe(
+      "2026-10-26T01:30:00.000Z"
+    );
+  });
+});
+
+describe("validateCronSchedule", () => {
+  it("should reject invalid expressions and timezones", () => {
+    expect(() => validateCronSchedule("61 * * * *")).toThrow("out of range");
+    expect(() => validateCronSchedule("* * *")).toThrow("expected 5 or 6 fields");
+    expect(() => validateCronSchedule("0 9 * * *", "Mars/Olympus")).toThrow('Invalid timezone "Mars/Olympus"');
+    expect(() => validateCronSchedule("0 9 * * *", "Europe/Amsterdam")).not.toThrow();
+  });
+});
+
+describe("getDueCronRuns", () => {
+  // Worker was down from 00:00 until just after 05:00
+  const lastRun = new Date("2026-01-01T00:00:00Z");
+  const now = new Date("2026-01-01T05:00:10Z");
+
+  it("should only run on-time runs with catchUp none", () => {
+    const result = getDueCronRuns("0 * * * *", lastRun, now, { catchUp: "none" });
+
+    expect(iso(result.runs)).toEqual(["2026-01-01T05:00:00.000Z"]);
+    expect(result.skipped).toBe(4);
+  });
+
+  it("should run every missed run with catchUp all", () => {
+    const result = getDueCronRuns("0 * * * *", lastRun, now, { catchUp: "all" });
+
+    expect(iso(result.runs)).toEqual([
+      "2026-01-01T01:00:00.000Z",
+      "2026-01-01T02:00:00.000Z",
+      "2026-01-01T03:00:00.000Z",
+      "2026-01-01T04:00:00.000Z",
+      "2026-01-01T05:00:00.000Z",
+    ]);
+    expect(result.skipped).toBe(0);
+  });
+
+  it("should run only the most recent missed run with catchUp latest", () => {
+    const result = getDueCronRuns("0 * * * *", lastRun, new Date("2026-01-01T05:30:00Z"), {
+      catchUp: "latest",
+    });
+
+    expect(iso(result.runs)).toEqual(["2026-01-01T05:00:00.000Z"]);
+    expect(result.skipped).toBe(4);
+  });
+
+  it("should count runs delayed by jitter as on time", () => {
+    const delayed = new Date("2026-01-01T05:03:00Z");
+    const since = new Date("2026-01-01T04:30:00Z");
+
+    expect(getDueCronRuns("0 * * * *", since, delayed, { jitter: 300 }).runs).toHaveLength(1);
+    expect(getDueCronRuns("0 * * * *", since, delayed).runs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Cron schedule calculation shared by the backend worker and `floww dev`.
+ *
+ * Supports 5-field (minute precision) and 6-field (second precision)
+ * expressions with `*`, ranges, steps, lists and month/weekday names,
+ * evaluated in an IANA timezone.
+ */
+
+import type { CronCatchUp } from "../../common";
+
+export interface CronScheduleOptions {
+  /** IANA timezone the expression is evaluated in (defaults to UTC) */
+  timezone?: string;
+  /** What to do with runs missed while the scheduler was down (defaults to "none") */
+  catchUp?: CronCatchUp;
+  /** Maximum random delay in seconds added to each run */
+  jitter?: number;
+}
+
+interface CronSchedule {
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether day-of-month / day-of-week were restricted (standard cron ORs them when both are) */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+/** Wall-clock time in the schedule's timezone, stored as a UTC timestamp */
+type WallClock = number;
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/** Runs that fire later than this after their scheduled time count as missed */
+export const CRON_MISSED_RUN_GRACE_MS = 60_000;
+
+/** Missed runs older than this are never caught up */
+const MAX_CATCH_UP_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Upper bound on runs executed by a single catch-up with `catchUp: "all"` */
+const MAX_CATCH_UP_RUNS = 100;
+
+/** Search horizon for the next run (covers Feb 29 on non-leap years) */
+const MAX_SEARCH_YEARS = 8;
+
+function parseValue(value: string, names: string[] | undefined, offset: number): number {
+  const lower = value.toLowerCase();
+  if (names) {
+    const index = names.indexOf(lower);
+    if (index !== -1) return index + offset;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid cron value "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*" || range === "?") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, names, nameOffset);
+      end = parseValue(to, names, nameOffset);
+    } else {
+      start = parseValue(range, names, nameOffset);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron value "${part}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse and validate a cron expression
+ */
+function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 or 6 fields`);
+  }
+
+  const [second, minute, hour, dayOfMonth, month, dayOfWeek] =
+    fields.length === 6 ? fields : ["0", ...fields];
+
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, WEEKDAY_NAMES);
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    seconds: parseField(second, 0, 59),
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    dayOfMonthRestricted: dayOfMonth !== "*" && dayOfMonth !== "?",
+    dayOfWeekRestricted: dayOfWeek !== "*" && dayOfWeek !== "?",
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+function toWallClock(instant: number, timezone: string): WallClock {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+}
+
+/**
+ * Convert a wall-clock time to an instant. Times inside a DST gap resolve to
+ * the same offset as just before the gap (so they fire right after the jump),
+ * repeated times during a DST overlap resolve to their first occurrence.
+ */
+function fromWallClock(wallClock: WallClock, timezone: string): number {
+  const offsetBefore = toWallClock(wallClock - 86_400_000, timezone) - (wallClock - 86_400_000);
+  const offsetAfter = toWallClock(wallClock + 86_400_000, timezone) - (wallClock + 86_400_000);
+
+  // Try the earlier offset first so overlapping times resolve to their first occurrence
+  for (const offset of [Math.max(offsetBefore, offsetAfter), Math.min(offsetBefore, offsetAfter)]) {
+    const instant = wallClock - offset;
+    if (toWallClock(instant, timezone) === wallClock) return instant;
+  }
+  return wallClock - offsetBefore;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Find the first wall-clock time at or after `start` that matches the schedule
+ */
+function nextMatchingWallClock(schedule: CronSchedule, start: WallClock): WallClock | null {
+  const date = new Date(start);
+  const limit = start + MAX_SEARCH_YEARS * 366 * 86_400_000;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    if (!schedule.seconds.has(date.getUTCSeconds())) {
+      date.setUTCSeconds(date.getUTCSeconds() + 1, 0);
+      continue;
+    }
+    return date.getTime();
+  }
+
+  return null;
+}
+
+function nextRunAfter(schedule: CronSchedule, after: number, timezone: string): number | null {
+  // Wall clocks have second precision, so this is the first whole second after `after`
+  let start = toWallClock(after, timezone) + 1000;
+
+  // Repeated wall-clock times (DST overlap) can map before `after`; keep searching past them
+  for (let attempt = 0; attempt < 4; attempt++) {
+    const wallClock = nextMatchingWallClock(schedule, start);
+    if (wallClock === null) return null;
+
+    const instant = fromWallClock(wallClock, timezone);
+    if (instant > after) return instant;
+    start = wallClock + 1000;
+  }
+
+  return null;
+}
+
+/**
+ * Throw if the expression or timezone is invalid
+ */
+export function validateCronSchedule(expression: string, timezone?: string): void {
+  parseCronExpression(expression);
+  if (timezone) {
+    try {
+      getFormatter(timezone);
+    } catch {
+      throw new Error(`Invalid timezone "${timezone}"`);
+    }
+  }
+}
+
+/**
+ * Get the next time the expression fires strictly after `after`
+ */
+export function getNextCronRun(expression: string, after: Date, timezone: string = "UTC"): Date | null {
+  validateCronSchedule(expression, timezone);
+  const next = nextRunAfter(parseCronExpression(expression), after.getTime(), timezone);
+  return next === null ? null : new Date(next);
+}
+
+/**
+ * Pick the runs to execute now, given the last run that was handled.
+ *
+ * Every scheduled time in (lastRun, now] is due. Runs within the grace period
+ * (plus jitter) are on time and always execute; older ones were missed while
+ * the scheduler was down and are handled by the catch-up policy:
+ * - none: skip missed runs
+ * - latest: execute only the most recent missed run
+ * - all: execute every missed run (bounded)
+ */
+export function getDueCronRuns(
+  expression: string,
+  lastRun: Date,
+  now: Date,
+  options: CronScheduleOptions = {}
+): { runs: Date[]; skipped: number } {
+  const timezone = options.timezone ?? "UTC";
+  const schedule = parseCronExpression(expression);
+  const graceMs = CRON_MISSED_RUN_GRACE_MS + (options.jitter ?? 0) * 1000;
+
+  const onTime: number[] = [];
+  const missed: number[] = [];
+  let skipped = 0;
+
+  let cursor = Math.max(lastRun.getTime(), now.getTime() - MAX_CATCH_UP_WINDOW_MS);
+  for (;;) {
+    const next = nextRunAfter(schedule, cursor, timezone);
+    if (next === null || next > now.getTime()) break;
+
+    if (now.getTime() - next <= graceMs) {
+      onTime.push(next);
+    } else {
+      missed.push(next);
+      if (missed.length > MAX_CATCH_UP_RUNS) {
+        missed.shift();
+        skipped++;
+      }
+    }
+    cursor = next;
+  }
+
+  let caughtUp: number[];
+  switch (options.catchUp ?? "none") {
+    case "all":
+      caughtUp = missed;
+      break;
+    case "latest":
+      caughtUp = onTime.length === 0 ? missed.slice(-1) : [];
+      break;
+    default:
+      caughtUp = [];
+  }
+  skipped += missed.length - caughtUp.length;
+
+  return { runs: [...caughtUp, ...onTime].map((time) => new Date(time)), skipped };
+}
+
+/**
+ * Random delay in milliseconds for a run, up to `jitter` seconds
+ */
+export function getCronJitterMs(jitter?: number): number {
+  return jitter && jitter > 0 ? Math.floor(Math.random() * jitter * 1000) : 0;
+}
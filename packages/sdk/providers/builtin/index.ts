@@ -7,7 +7,7 @@ import {
   WebhookTriggerArgs,
 } from "../../common";
 import { BaseProvider } from "../base";
-import { registerTrigger } from "../../userCode/providers";
+import { registerTrigger, getTriggerOptions } from "../../userCode/providers";
 
 export class Builtin extends BaseProvider {
   constructor(config?: any) {
@@ -21,13 +21,22 @@ export class Builtin extends BaseProvider {
       const trigger = {
         type: "cron",
         expression: args.expression,
+        timezone: args.timezone,
+        catchUp: args.catchUp,
+        jitter: args.jitter,
         handler: args.handler,
       } as CronTrigger;
       return registerTrigger(trigger, {
         type: this.providerType,
         alias: this.credentialName,
         triggerType: "onCron",
-        input: { expression: args.expression },
+        options: getTriggerOptions(args),
+        input: {
+          expression: args.expression,
+          timezone: args.timezone,
+          catchUp: args.catchUp,
+          jitter: args.jitter,
+        },
       });
     },
     onWebhook: <TBody = any>(
@@ -45,6 +54,7 @@ export class Builtin extends BaseProvider {
         type: this.providerType,
         alias: this.credentialName,
         triggerType: "onWebhook",
+        options: getTriggerOptions(args),
         input: { path: args.path, method: args.method || "POST" },
       });
     },
@@ -62,6 +72,7 @@ export class Builtin extends BaseProvider {
         type: this.providerType,
         alias: this.credentialName,
         triggerType: "onManual",
+        options: getTriggerOptions(args),
         input: {
           name: args.name,
           description: args.description,
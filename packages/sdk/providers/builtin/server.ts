@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { validateCronSchedule } from "./cron";
 import type {
   ProviderDefinition,
   TriggerDefinition,
@@ -25,10 +26,16 @@ const OnWebhookStateSchema = z.object({
 
 const OnCronInputSchema = z.object({
   expression: z.string(),
+  timezone: z.string().optional(),
+  catchUp: z.enum(["none", "latest", "all"]).optional(),
+  jitter: z.number().nonnegative().optional(),
 });
 
 const OnCronStateSchema = z.object({
   expression: z.string(),
+  timezone: z.string().optional(),
+  /** Scheduled time of the last handled run (ISO string), maintained by the scheduler */
+  lastScheduledTime: z.string().optional(),
 });
 
 const OnManualInputSchema = z.object({
@@ -85,8 +92,10 @@ const onCronTrigger: TriggerDefinition<OnCronInput, OnCronState> = {
   lifecycle: {
     async create(ctx) {
       // Store the cron expression - dashboard handles scheduling
+      validateCronSchedule(ctx.input.expression, ctx.input.timezone);
       return {
         expression: ctx.input.expression,
+        timezone: ctx.input.timezone,
       };
     },
     async destroy(_ctx) {
@@ -126,6 +135,11 @@ const onManualTrigger: TriggerDefinition<OnManualInput, OnManualState> = {
 // ============================================================================
 
 const webhookProcessor: WebhookProcessor = {
+  getIdempotencyKey(req: WebhookRequest): string | undefined {
+    // Senders opt in with the conventional Idempotency-Key header
+    return req.headers["idempotency-key"] || undefined;
+  },
+
   async processWebhook(
     req: WebhookRequest,
     triggers: TriggerInfo[],
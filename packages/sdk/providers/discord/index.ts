@@ -3,10 +3,11 @@ import {
   Handler,
   WebhookEvent,
   WebhookContext,
+  TriggerOptions,
 } from "../../common";
 import { BaseProvider, BaseProviderConfig } from "../base";
 import { DiscordApi } from "./api";
-import { registerTrigger } from "../../userCode/providers";
+import { registerTrigger, getTriggerOptions } from "../../userCode/providers";
 import type {
   DiscordMessage,
   DiscordChannel,
@@ -46,7 +47,7 @@ export type DiscordConfig = BaseProviderConfig;
 // Trigger Event Args Types
 // ============================================================================
 
-export type DiscordOnMessageArgs = {
+export type DiscordOnMessageArgs = TriggerOptions & {
   guildId?: string; // Optional: filter by specific guild (server)
   channelId?: string; // Optional: filter by specific channel
   userId?: string; // Optional: filter by specific user
@@ -55,7 +56,7 @@ export type DiscordOnMessageArgs = {
   handler: Handler<WebhookEvent<DiscordMessageEvent>, WebhookContext>;
 };
 
-export type DiscordOnReactionArgs = {
+export type DiscordOnReactionArgs = TriggerOptions & {
   guildId?: string; // Optional: filter by specific guild
   channelId?: string; // Optional: filter by specific channel
   emoji?: string; // Optional: filter by specific emoji name
@@ -63,17 +64,17 @@ export type DiscordOnReactionArgs = {
   handler: Handler<WebhookEvent<DiscordReactionEvent>, WebhookContext>;
 };
 
-export type DiscordOnMemberJoinArgs = {
+export type DiscordOnMemberJoinArgs = TriggerOptions & {
   guildId?: string; // Optional: filter by specific guild
   handler: Handler<WebhookEvent<DiscordMemberJoinEvent>, WebhookContext>;
 };
 
-export type DiscordOnMemberLeaveArgs = {
+export type DiscordOnMemberLeaveArgs = TriggerOptions & {
   guildId?: string; // Optional: filter by specific guild
   handler: Handler<WebhookEvent<DiscordMemberLeaveEvent>, WebhookContext>;
 };
 
-export type DiscordOnMemberUpdateArgs = {
+export type DiscordOnMemberUpdateArgs = TriggerOptions & {
   guildId?: string; // Optional: filter by specific guild
   trackRoles?: boolean; // Optional: track role changes (default: true)
   trackNickname?: boolean; // Optional: track nickname changes (default: true)
@@ -354,6 +355,7 @@ export class Discord extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onMessage",
+          options: getTriggerOptions(args),
           input: {
             guild_id: args.guildId,
             channel_id: args.channelId,
@@ -390,6 +392,7 @@ export class Discord extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onReaction",
+          options: getTriggerOptions(args),
           input: {
             guild_id: args.guildId,
             channel_id: args.channelId,
@@ -425,6 +428,7 @@ export class Discord extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onMemberJoin",
+          options: getTriggerOptions(args),
           input: {
             guild_id: args.guildId,
           },
@@ -454,6 +458,7 @@ export class Discord extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onMemberLeave",
+          options: getTriggerOptions(args),
           input: {
             guild_id: args.guildId,
           },
@@ -485,6 +490,7 @@ export class Discord extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onMemberUpdate",
+          options: getTriggerOptions(args),
           input: {
             guild_id: args.guildId,
             track_roles: args.trackRoles ?? true,
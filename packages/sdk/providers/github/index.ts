@@ -3,10 +3,11 @@ import {
   Handler,
   WebhookEvent,
   WebhookContext,
+  TriggerOptions,
 } from "../../common";
 import { BaseProvider, BaseProviderConfig } from "../base";
 import { GitHubApi } from "./api";
-import { registerTrigger } from "../../userCode/providers";
+import { registerTrigger, getTriggerOptions } from "../../userCode/providers";
 import type {
   GitHubRepository,
   GitHubIssue,
@@ -124,35 +125,35 @@ export type GitHubConfig = BaseProviderConfig & {
 // Trigger Event Args Types
 // ============================================================================
 
-export type GitHubOnPushArgs = {
+export type GitHubOnPushArgs = TriggerOptions & {
   owner: string;
   repository: string;
   branch?: string; // Optional: filter by specific branch
   handler: Handler<WebhookEvent<GitHubPushEvent>, WebhookContext>;
 };
 
-export type GitHubOnPullRequestArgs = {
+export type GitHubOnPullRequestArgs = TriggerOptions & {
   owner: string;
   repository: string;
   actions?: ('opened' | 'closed' | 'reopened' | 'synchronize' | 'edited' | 'assigned' | 'unassigned' | 'review_requested' | 'review_request_removed' | 'labeled' | 'unlabeled' | 'ready_for_review' | 'converted_to_draft' | 'locked' | 'unlocked')[]; // Optional: filter by specific PR actions
   handler: Handler<WebhookEvent<GitHubPullRequestEvent>, WebhookContext>;
 };
 
-export type GitHubOnIssueArgs = {
+export type GitHubOnIssueArgs = TriggerOptions & {
   owner: string;
   repository: string;
   actions?: ('opened' | 'edited' | 'deleted' | 'pinned' | 'unpinned' | 'closed' | 'reopened' | 'assigned' | 'unassigned' | 'labeled' | 'unlabeled' | 'locked' | 'unlocked' | 'transferred' | 'milestoned' | 'demilestoned')[]; // Optional: filter by specific issue actions
   handler: Handler<WebhookEvent<GitHubIssueEvent>, WebhookContext>;
 };
 
-export type GitHubOnIssueCommentArgs = {
+export type GitHubOnIssueCommentArgs = TriggerOptions & {
   owner: string;
   repository: string;
   actions?: ('created' | 'edited' | 'deleted')[]; // Optional: filter by comment actions
   handler: Handler<WebhookEvent<GitHubIssueCommentEvent>, WebhookContext>;
 };
 
-export type GitHubOnReleaseArgs = {
+export type GitHubOnReleaseArgs = TriggerOptions & {
   owner: string;
   repository: string;
   actions?: ('published' | 'unpublished' | 'created' | 'edited' | 'deleted' | 'prereleased' | 'released')[]; // Optional: filter by release actions
@@ -709,6 +710,7 @@ export class GitHub extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onPush",
+          options: getTriggerOptions(args),
           input: {
             owner: args.owner,
             repository: args.repository,
@@ -731,6 +733,7 @@ export class GitHub extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onPullRequest",
+          options: getTriggerOptions(args),
           input: {
             owner: args.owner,
             repository: args.repository,
@@ -753,6 +756,7 @@ export class GitHub extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onIssue",
+          options: getTriggerOptions(args),
           input: {
             owner: args.owner,
             repository: args.repository,
@@ -775,6 +779,7 @@ export class GitHub extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onIssueComment",
+          options: getTriggerOptions(args),
           input: {
             owner: args.owner,
             repository: args.repository,
@@ -797,6 +802,7 @@ export class GitHub extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onRelease",
+          options: getTriggerOptions(args),
           input: {
             owner: args.owner,
             repository: args.repository,
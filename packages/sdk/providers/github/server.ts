@@ -1,3 +1,4 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
 import { z } from "zod";
 import type {
   ProviderDefinition,
@@ -6,6 +7,7 @@ import type {
   WebhookRequest,
   TriggerInfo,
   WebhookMatch,
+  WebhookValidationResult,
   SetupStep,
 } from "../base";
 
@@ -16,6 +18,7 @@ import type {
 interface GitHubSecrets {
   access_token: string;
   server_url?: string;
+  webhook_secret?: string;
 }
 
 // ============================================================================
@@ -39,6 +42,13 @@ const setupSteps: SetupStep[] = [
     required: true,
     placeholder: "ghp_xxxxxxxxxxxxxxxxxxxx",
   },
+  {
+    type: "secret",
+    key: "webhook_secret",
+    label: "Webhook Secret",
+    description: "Secret of webhooks sent to the provider's own webhook URL",
+    required: false,
+  },
 ];
 
 // ============================================================================
@@ -53,6 +63,7 @@ const OnPushInputSchema = z.object({
 
 const OnPushStateSchema = z.object({
   webhookId: z.number(),
+  webhookSecret: z.string().optional(),
   owner: z.string(),
   repository: z.string(),
   branch: z.string().optional(),
@@ -66,6 +77,7 @@ const OnPullRequestInputSchema = z.object({
 
 const OnPullRequestStateSchema = z.object({
   webhookId: z.number(),
+  webhookSecret: z.string().optional(),
   owner: z.string(),
   repository: z.string(),
   actions: z.array(z.string()).optional(),
@@ -79,6 +91,7 @@ const OnIssueInputSchema = z.object({
 
 const OnIssueStateSchema = z.object({
   webhookId: z.number(),
+  webhookSecret: z.string().optional(),
   owner: z.string(),
   repository: z.string(),
   actions: z.array(z.string()).optional(),
@@ -92,6 +105,7 @@ const OnIssueCommentInputSchema = z.object({
 
 const OnIssueCommentStateSchema = z.object({
   webhookId: z.number(),
+  webhookSecret: z.string().optional(),
   owner: z.string(),
   repository: z.string(),
   actions: z.array(z.string()).optional(),
@@ -105,6 +119,7 @@ const OnReleaseInputSchema = z.object({
 
 const OnReleaseStateSchema = z.object({
   webhookId: z.number(),
+  webhookSecret: z.string().optional(),
   owner: z.string(),
   repository: z.string(),
   actions: z.array(z.string()).optional(),
@@ -130,12 +145,30 @@ function getServerUrl(secrets: GitHubSecrets): string {
   return secrets.server_url || "https://api.github.com";
 }
 
+function generateWebhookSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Check an X-Hub-Signature-256 header against the HMAC of the raw body
+ */
+function verifyGitHubSignature(secret: string, rawBody: string, signature: string): boolean {
+  const expected = `sha256=${createHmac("sha256", secret).update(rawBody).digest("hex")}`;
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature);
+  return (
+    expectedBuffer.length === signatureBuffer.length &&
+    timingSafeEqual(expectedBuffer, signatureBuffer)
+  );
+}
+
 async function createGitHubWebhook(
   secrets: GitHubSecrets,
   owner: string,
   repo: string,
   webhookUrl: string,
-  events: string[]
+  events: string[],
+  webhookSecret: string
 ): Promise<number> {
   const serverUrl = getServerUrl(secrets);
   const response = await fetch(
@@ -151,6 +184,7 @@ async function createGitHubWebhook(
         config: {
           url: webhookUrl,
           content_type: "json",
+          secret: webhookSecret,
           insecure_ssl: "0",
         },
         events,
@@ -213,6 +247,51 @@ async function verifyGitHubWebhook(
   return response.ok;
 }
 
+async function setGitHubWebhookSecret(
+  secrets: GitHubSecrets,
+  owner: string,
+  repo: string,
+  webhookId: number,
+  webhookSecret: string
+): Promise<void> {
+  const serverUrl = getServerUrl(secrets);
+  const response = await fetch(
+    `${serverUrl}/repos/${owner}/${repo}/hooks/${webhookId}/config`,
+    {
+      method: "PATCH",
+      headers: {
+        Authorization: `Bearer ${secrets.access_token}`,
+        Accept: "application/vnd.github.v3+json",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ secret: webhookSecret }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to set GitHub webhook secret: ${error}`);
+  }
+}
+
+/**
+ * Give a hook created before signing was introduced a secret, so its deliveries can be verified
+ */
+async function ensureGitHubWebhookSecret<
+  TState extends { owner: string; repository: string; webhookId: number; webhookSecret?: string },
+>(
+  secrets: GitHubSecrets,
+  state: TState
+): Promise<TState> {
+  if (state.webhookSecret) {
+    return state;
+  }
+
+  const webhookSecret = generateWebhookSecret();
+  await setGitHubWebhookSecret(secrets, state.owner, state.repository, state.webhookId, webhookSecret);
+  return { ...state, webhookSecret };
+}
+
 // ============================================================================
 // Trigger Definitions
 // ============================================================================
@@ -222,16 +301,19 @@ const onPushTrigger: TriggerDefinition<OnPushInput, OnPushState, GitHubSecrets>
   stateSchema: OnPushStateSchema,
   lifecycle: {
     async create(ctx) {
+      const webhookSecret = generateWebhookSecret();
       const webhookId = await createGitHubWebhook(
         ctx.secrets,
         ctx.input.owner,
         ctx.input.repository,
         ctx.webhookUrl,
-        ["push"]
+        ["push"],
+        webhookSecret
       );
 
       return {
         webhookId,
+        webhookSecret,
         owner: ctx.input.owner,
         repository: ctx.input.repository,
         branch: ctx.input.branch,
@@ -257,7 +339,7 @@ const onPushTrigger: TriggerDefinition<OnPushInput, OnPushState, GitHubSecrets>
         throw new Error("GitHub webhook no longer exists");
       }
 
-      return ctx.state;
+      return ensureGitHubWebhookSecret(ctx.secrets, ctx.state);
     },
   },
 };
@@ -267,16 +349,19 @@ const onPullRequestTrigger: TriggerDefinition<OnPullRequestInput, OnPullRequestS
   stateSchema: OnPullRequestStateSchema,
   lifecycle: {
     async create(ctx) {
+      const webhookSecret = generateWebhookSecret();
       const webhookId = await createGitHubWebhook(
         ctx.secrets,
         ctx.input.owner,
         ctx.input.repository,
         ctx.webhookUrl,
-        ["pull_request"]
+        ["pull_request"],
+        webhookSecret
       );
 
       return {
         webhookId,
+        webhookSecret,
         owner: ctx.input.owner,
         repository: ctx.input.repository,
         actions: ctx.input.actions,
@@ -302,7 +387,7 @@ const onPullRequestTrigger: TriggerDefinition<OnPullRequestInput, OnPullRequestS
         throw new Error("GitHub webhook no longer exists");
       }
 
-      return ctx.state;
+      return ensureGitHubWebhookSecret(ctx.secrets, ctx.state);
     },
   },
 };
@@ -312,16 +397,19 @@ const onIssueTrigger: TriggerDefinition<OnIssueInput, OnIssueState, GitHubSecret
   stateSchema: OnIssueStateSchema,
   lifecycle: {
     async create(ctx) {
+      const webhookSecret = generateWebhookSecret();
       const webhookId = await createGitHubWebhook(
         ctx.secrets,
         ctx.input.owner,
         ctx.input.repository,
         ctx.webhookUrl,
-        ["issues"]
+        ["issues"],
+        webhookSecret
       );
 
       return {
         webhookId,
+        webhookSecret,
         owner: ctx.input.owner,
         repository: ctx.input.repository,
         actions: ctx.input.actions,
@@ -347,7 +435,7 @@ const onIssueTrigger: TriggerDefinition<OnIssueInput, OnIssueState, GitHubSecret
         throw new Error("GitHub webhook no longer exists");
       }
 
-      return ctx.state;
+      return ensureGitHubWebhookSecret(ctx.secrets, ctx.state);
     },
   },
 };
@@ -357,16 +445,19 @@ const onIssueCommentTrigger: TriggerDefinition<OnIssueCommentInput, OnIssueComme
   stateSchema: OnIssueCommentStateSchema,
   lifecycle: {
     async create(ctx) {
+      const webhookSecret = generateWebhookSecret();
       const webhookId = await createGitHubWebhook(
         ctx.secrets,
         ctx.input.owner,
         ctx.input.repository,
         ctx.webhookUrl,
-        ["issue_comment"]
+        ["issue_comment"],
+        webhookSecret
       );
 
       return {
         webhookId,
+        webhookSecret,
         owner: ctx.input.owner,
         repository: ctx.input.repository,
         actions: ctx.input.actions,
@@ -392,7 +483,7 @@ const onIssueCommentTrigger: TriggerDefinition<OnIssueCommentInput, OnIssueComme
         throw new Error("GitHub webhook no longer exists");
       }
 
-      return ctx.state;
+      return ensureGitHubWebhookSecret(ctx.secrets, ctx.state);
     },
   },
 };
@@ -402,16 +493,19 @@ const onReleaseTrigger: TriggerDefinition<OnReleaseInput, OnReleaseState, GitHub
   stateSchema: OnReleaseStateSchema,
   lifecycle: {
     async create(ctx) {
+      const webhookSecret = generateWebhookSecret();
       const webhookId = await createGitHubWebhook(
         ctx.secrets,
         ctx.input.owner,
         ctx.input.repository,
         ctx.webhookUrl,
-        ["release"]
+        ["release"],
+        webhookSecret
       );
 
       return {
         webhookId,
+        webhookSecret,
         owner: ctx.input.owner,
         repository: ctx.input.repository,
         actions: ctx.input.actions,
@@ -437,7 +531,7 @@ const onReleaseTrigger: TriggerDefinition<OnReleaseInput, OnReleaseState, GitHub
         throw new Error("GitHub webhook no longer exists");
       }
 
-      return ctx.state;
+      return ensureGitHubWebhookSecret(ctx.secrets, ctx.state);
     },
   },
 };
@@ -456,6 +550,33 @@ const EVENT_TO_TRIGGER_MAP: Record<string, string> = {
 };
 
 const webhookProcessor: WebhookProcessor = {
+  async validateWebhook(
+    req: WebhookRequest,
+    secrets: Record<string, string>
+  ): Promise<WebhookValidationResult> {
+    // Trigger-owned hooks carry their own secret, the provider's webhook uses the configured one
+    const webhookSecret = req.trigger
+      ? (req.trigger.state.webhookSecret as string | undefined)
+      : secrets.webhook_secret;
+
+    // Hooks created before signing was introduced get a secret on their next refresh
+    if (!webhookSecret) {
+      return { valid: false };
+    }
+
+    const signature = req.headers["x-hub-signature-256"];
+    if (!signature || req.rawBody === undefined) {
+      return { valid: false };
+    }
+
+    return { valid: verifyGitHubSignature(webhookSecret, req.rawBody, signature) };
+  },
+
+  getIdempotencyKey(req: WebhookRequest): string | undefined {
+    // Same GUID on redeliveries from the hook's "Recent Deliveries" page
+    return req.headers["x-github-delivery"] || undefined;
+  },
+
   async processWebhook(
     req: WebhookRequest,
     triggers: TriggerInfo[],
@@ -3,11 +3,12 @@ import {
   Handler,
   WebhookEvent,
   WebhookContext,
+  TriggerOptions,
   WebhookSetupContext,
   WebhookTeardownContext,
 } from "../../common";
 import { BaseProvider, BaseProviderConfig } from "../base";
-import { registerTrigger } from "../../userCode/providers";
+import { registerTrigger, getTriggerOptions } from "../../userCode/providers";
 
 export type GitlabConfig = BaseProviderConfig & {
   baseUrl?: string; // Allow custom GitLab instance URL
@@ -125,7 +126,7 @@ export type GitLabMergeRequestEvent = {
   }[];
 };
 
-export type GitLabMergeRequestTriggerArgs = {
+export type GitLabMergeRequestTriggerArgs = TriggerOptions & {
   projectId?: string;
   groupId?: string;
   handler: Handler<WebhookEvent<GitLabMergeRequestEvent>, WebhookContext>;
@@ -167,6 +168,7 @@ export class Gitlab extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onMergeRequestComment",
+          options: getTriggerOptions(args),
           input: triggerInput,
         }
       );
@@ -1,6 +1,6 @@
-import { Handler, WebhookEvent, WebhookContext } from "../../common";
+import { Handler, TriggerOptions, WebhookEvent, WebhookContext } from "../../common";
 import { BaseProvider, BaseProviderConfig } from "../base";
-import { registerTrigger } from "../../userCode/providers";
+import { registerTrigger, getTriggerOptions } from "../../userCode/providers";
 
 export type GoogleCalendarConfig = BaseProviderConfig;
 
@@ -59,12 +59,12 @@ export interface CalendarEventUpdatedEvent {
 // Trigger Args Types
 // ============================================================================
 
-export type GoogleCalendarOnEventCreatedArgs = {
+export type GoogleCalendarOnEventCreatedArgs = TriggerOptions & {
   calendarId?: string; // Default: "primary"
   handler: Handler<WebhookEvent<CalendarEventCreatedEvent>, WebhookContext>;
 };
 
-export type GoogleCalendarOnEventUpdatedArgs = {
+export type GoogleCalendarOnEventUpdatedArgs = TriggerOptions & {
   calendarId?: string; // Default: "primary"
   handler: Handler<WebhookEvent<CalendarEventUpdatedEvent>, WebhookContext>;
 };
@@ -111,6 +111,7 @@ export class GoogleCalendar extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onEventCreated",
+          options: getTriggerOptions(args),
           input: {
             calendar_id: args.calendarId ?? "primary",
           },
@@ -128,6 +129,7 @@ export class GoogleCalendar extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onEventUpdated",
+          options: getTriggerOptions(args),
           input: {
             calendar_id: args.calendarId ?? "primary",
           },
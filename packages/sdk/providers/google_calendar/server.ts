@@ -2,8 +2,12 @@ import { z } from "zod";
 import type {
   ProviderDefinition,
   TriggerDefinition,
+  TriggerPollContext,
+  TriggerPollResult,
+  PolledEvent,
   SetupStep,
 } from "../base";
+import type { CalendarEvent } from "./index";
 
 // ============================================================================
 // Provider Secrets Type
@@ -39,6 +43,7 @@ const OnEventCreatedInputSchema = z.object({
 const OnEventCreatedStateSchema = z.object({
   calendar_id: z.string(),
   sync_token: z.string().nullable(),
+  synced_at: z.string().nullable().optional(),
 });
 
 const OnEventUpdatedInputSchema = z.object({
@@ -48,6 +53,7 @@ const OnEventUpdatedInputSchema = z.object({
 const OnEventUpdatedStateSchema = z.object({
   calendar_id: z.string(),
   sync_token: z.string().nullable(),
+  synced_at: z.string().nullable().optional(),
 });
 
 // Type aliases
@@ -56,6 +62,133 @@ type OnEventCreatedState = z.infer<typeof OnEventCreatedStateSchema>;
 type OnEventUpdatedInput = z.infer<typeof OnEventUpdatedInputSchema>;
 type OnEventUpdatedState = z.infer<typeof OnEventUpdatedStateSchema>;
 
+type CalendarSyncState = OnEventCreatedState | OnEventUpdatedState;
+
+// ============================================================================
+// Google Calendar API Helpers
+// ============================================================================
+
+const CALENDAR_API_URL = "https://www.googleapis.com/calendar/v3";
+const POLL_INTERVAL_SECONDS = 60;
+
+interface CalendarEventsPage {
+  items?: CalendarEvent[];
+  nextPageToken?: string;
+  nextSyncToken?: string;
+}
+
+/**
+ * Thrown when Google invalidates a sync token (HTTP 410) and a full sync is required
+ */
+class SyncTokenExpiredError extends Error {
+  constructor() {
+    super("Google Calendar sync token expired");
+  }
+}
+
+async function listCalendarEvents(
+  secrets: GoogleCalendarSecrets,
+  calendarId: string,
+  params: Record<string, string>
+): Promise<CalendarEventsPage> {
+  const query = new URLSearchParams(params);
+  const response = await fetch(
+    `${CALENDAR_API_URL}/calendars/${encodeURIComponent(calendarId)}/events?${query}`,
+    {
+      headers: {
+        Authorization: `Bearer ${secrets.access_token}`,
+        Accept: "application/json",
+      },
+    }
+  );
+
+  if (response.status === 410) {
+    throw new SyncTokenExpiredError();
+  }
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to list Google Calendar events: ${error}`);
+  }
+
+  return (await response.json()) as CalendarEventsPage;
+}
+
+/**
+ * Fetch all event changes since the given sync token.
+ * Without a token, performs a full sync that only establishes a new token.
+ */
+async function syncCalendarEvents(
+  secrets: GoogleCalendarSecrets,
+  calendarId: string,
+  syncToken: string | null
+): Promise<{ events: CalendarEvent[]; syncToken: string }> {
+  const events: CalendarEvent[] = [];
+  let pageToken: string | undefined;
+
+  for (;;) {
+    const params: Record<string, string> = syncToken
+      ? { syncToken, showDeleted: "true" }
+      : { maxResults: "2500", fields: "nextPageToken,nextSyncToken" };
+    if (pageToken) params.pageToken = pageToken;
+
+    const page = await listCalendarEvents(secrets, calendarId, params);
+    if (syncToken) events.push(...(page.items ?? []));
+
+    if (page.nextPageToken) {
+      pageToken = page.nextPageToken;
+      continue;
+    }
+    if (!page.nextSyncToken) {
+      throw new Error("Google Calendar did not return a sync token");
+    }
+    return { events, syncToken: page.nextSyncToken };
+  }
+}
+
+/**
+ * Poll a calendar for changes, returning the events selected by `toEvent`.
+ * Events are classified as created or updated by comparing their creation
+ * time with the previous sync.
+ */
+async function pollCalendar<TState extends CalendarSyncState>(
+  ctx: TriggerPollContext<{ calendar_id: string }, TState, GoogleCalendarSecrets>,
+  toEvent: (event: CalendarEvent, isNew: boolean) => PolledEvent | null
+): Promise<TriggerPollResult<TState>> {
+  const calendarId = ctx.state.calendar_id ?? ctx.input.calendar_id;
+  const syncedAt = new Date().toISOString();
+
+  let result: { events: CalendarEvent[]; syncToken: string };
+  try {
+    result = await syncCalendarEvents(ctx.secrets, calendarId, ctx.state.sync_token);
+  } catch (error) {
+    if (!(error instanceof SyncTokenExpiredError)) throw error;
+    // Start over from a fresh token; changes in between are not replayed
+    result = await syncCalendarEvents(ctx.secrets, calendarId, null);
+  }
+
+  const previousSync = ctx.state.synced_at ? Date.parse(ctx.state.synced_at) : null;
+  const events: PolledEvent[] = [];
+  if (previousSync !== null) {
+    for (const event of result.events) {
+      if (event.status === "cancelled") continue;
+      const isNew = !!event.created && Date.parse(event.created) >= previousSync;
+      const polled = toEvent(event, isNew);
+      if (polled) events.push(polled);
+    }
+  }
+
+  return {
+    events,
+    state: {
+      ...ctx.state,
+      calendar_id: calendarId,
+      sync_token: result.syncToken,
+      synced_at: syncedAt,
+    },
+  };
+}
+
 // ============================================================================
 // Trigger Definitions
 // ============================================================================
@@ -63,8 +196,9 @@ type OnEventUpdatedState = z.infer<typeof OnEventUpdatedStateSchema>;
 /**
  * Trigger for new Google Calendar events.
  *
- * Uses polling via recurring tasks since Google Calendar push notifications
- * require a verified domain and public HTTPS endpoint.
+ * Uses polling since Google Calendar push notifications require a verified
+ * domain and public HTTPS endpoint. The first poll only establishes a sync
+ * token; later polls report events created since the previous poll.
  */
 const onEventCreatedTrigger: TriggerDefinition<
   OnEventCreatedInput,
@@ -79,6 +213,7 @@ const onEventCreatedTrigger: TriggerDefinition<
       return {
         calendar_id: ctx.input.calendar_id,
         sync_token: null,
+        synced_at: null,
       };
     },
     async destroy(_ctx) {
@@ -88,12 +223,21 @@ const onEventCreatedTrigger: TriggerDefinition<
       return ctx.state;
     },
   },
+  pollIntervalSeconds: POLL_INTERVAL_SECONDS,
+  async poll(ctx) {
+    const calendarId = ctx.state.calendar_id ?? ctx.input.calendar_id;
+    return pollCalendar(ctx, (event, isNew) =>
+      isNew
+        ? { id: event.id, event: { type: "event_created", calendar_id: calendarId, event } }
+        : null
+    );
+  },
 };
 
 /**
  * Trigger for updated Google Calendar events.
  *
- * Uses polling via recurring tasks.
+ * Uses polling; every change to an existing event is reported once.
  */
 const onEventUpdatedTrigger: TriggerDefinition<
   OnEventUpdatedInput,
@@ -107,6 +251,7 @@ const onEventUpdatedTrigger: TriggerDefinition<
       return {
         calendar_id: ctx.input.calendar_id,
         sync_token: null,
+        synced_at: null,
       };
     },
     async destroy(_ctx) {
@@ -116,6 +261,19 @@ const onEventUpdatedTrigger: TriggerDefinition<
       return ctx.state;
     },
   },
+  pollIntervalSeconds: POLL_INTERVAL_SECONDS,
+  async poll(ctx) {
+    const calendarId = ctx.state.calendar_id ?? ctx.input.calendar_id;
+    return pollCalendar(ctx, (event, isNew) =>
+      isNew
+        ? null
+        : {
+            // Each revision of an event is a distinct update
+            id: `${event.id}:${event.updated ?? ""}`,
+            event: { type: "event_updated", calendar_id: calendarId, event },
+          }
+    );
+  },
 };
 
 // ============================================================================
@@ -3,6 +3,7 @@ import {
   Handler,
   WebhookEvent,
   WebhookContext,
+  TriggerOptions,
 } from "../../common";
 import { BaseProvider, BaseProviderConfig } from "../base";
 import {
@@ -16,7 +17,7 @@ import {
   UpdateIssueOptions,
   SearchIssuesOptions,
 } from "./api";
-import { registerTrigger } from "../../userCode/providers";
+import { registerTrigger, getTriggerOptions } from "../../userCode/providers";
 
 export type JiraConfig = BaseProviderConfig & {
   instance_url?: string; // e.g., "https://your-domain.atlassian.net"
@@ -66,19 +67,19 @@ export type JiraCommentEvent = {
   };
 };
 
-export type JiraOnIssueCreatedArgs = {
+export type JiraOnIssueCreatedArgs = TriggerOptions & {
   projectKey?: string; // Optional: filter by specific project
   issueType?: string; // Optional: filter by issue type (e.g., "Bug", "Task")
   handler: Handler<WebhookEvent<JiraIssueEvent>, WebhookContext>;
 };
 
-export type JiraOnIssueUpdatedArgs = {
+export type JiraOnIssueUpdatedArgs = TriggerOptions & {
   projectKey?: string;
   issueType?: string;
   handler: Handler<WebhookEvent<JiraIssueEvent>, WebhookContext>;
 };
 
-export type JiraOnCommentAddedArgs = {
+export type JiraOnCommentAddedArgs = TriggerOptions & {
   projectKey?: string;
   handler: Handler<WebhookEvent<JiraCommentEvent>, WebhookContext>;
 };
@@ -244,6 +245,7 @@ export class Jira extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onIssueCreated",
+          options: getTriggerOptions(args),
           input: {
             project_key: args.projectKey,
             issue_type: args.issueType,
@@ -265,6 +267,7 @@ export class Jira extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onIssueUpdated",
+          options: getTriggerOptions(args),
           input: {
             project_key: args.projectKey,
             issue_type: args.issueType,
@@ -286,6 +289,7 @@ export class Jira extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onCommentAdded",
+          options: getTriggerOptions(args),
           input: {
             project_key: args.projectKey,
           },
@@ -204,6 +204,10 @@ const EVENT_TO_TRIGGER_MAP: Record<string, string> = {
 };
 
 const webhookProcessor: WebhookProcessor = {
+  getIdempotencyKey(req: WebhookRequest): string | undefined {
+    return req.headers["x-atlassian-webhook-identifier"] || undefined;
+  },
+
   async processWebhook(
     req: WebhookRequest,
     triggers: TriggerInfo[],
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { KVStore } from "./index";
+import { KVLockError } from "../../kv/types";
+import { executionContextManager } from "../../cli/runtime/ExecutionContextManager";
+import { ExecutionContext } from "../../cli/runtime/ExecutionContext";
+
+function conflict(error: string) {
+  return new Response(JSON.stringify({ error }), { status: 409 });
+}
+
+describe("KVStore write conflicts", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+    executionContextManager.setContext(
+      new ExecutionContext({ backendUrl: "http://backend", authToken: "token" })
+    );
+  });
+
+  afterEach(() => {
+    executionContextManager.clearContext();
+    vi.unstubAllGlobals();
+  });
+
+  it("should return false when the version or absence check fails", async () => {
+    const kv = new KVStore("state");
+    fetchMock.mockResolvedValueOnce(conflict("Version mismatch"));
+    fetchMock.mockResolvedValueOnce(conflict("Key already exists"));
+
+    expect(await kv.setIfVersion("projects", "PROJ", "synced", 3, { fencingToken: 7 })).toBe(false);
+    expect(await kv.setIfAbsent("projects", "PROJ", "synced", { fencingToken: 7 })).toBe(false);
+  });
+
+  it("should throw KVLockError when the fencing token is stale", async () => {
+    const kv = new KVStore("state");
+    fetchMock.mockImplementation(async () => conflict("Stale fencing token"));
+
+    await expect(
+      kv.setIfVersion("projects", "PROJ", "synced", 3, { fencingToken: 7 })
+    ).rejects.toBeInstanceOf(KVLockError);
+    await expect(kv.set("projects", "PROJ", "synced", { fencingToken: 7 })).rejects.toBeInstanceOf(
+      KVLockError
+    );
+  });
+
+  it("should pass the fencing token of a delete in the query", async () => {
+    const kv = new KVStore("state");
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ success: true })));
+
+    await kv.delete("projects", "PROJ", { fencingToken: 7 });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "http://backend/api/kv/state/projects/PROJ?fencingToken=7",
+      expect.objectContaining({ method: "DELETE" })
+    );
+  });
+});
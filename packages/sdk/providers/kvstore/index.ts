@@ -1,24 +1,56 @@
+import type { ZodType } from "zod";
+import { BaseContext, Handler, TriggerOptions } from "../../common";
 import { BaseProvider, BaseProviderConfig } from "../base";
+import { registerTrigger, getTriggerOptions } from "../../userCode/providers";
 import { executionContextManager } from "../../cli/runtime/ExecutionContextManager";
 import type {
   KVItem,
+  KVEntry,
+  KVLease,
+  KVLockOptions,
+  KVSetOptions,
+  KVIncrementOptions,
+  KVDeleteOptions,
+  KVListOptions,
+  KVListPage,
+  KVTableOptions,
+  KVChangeEvent,
+  KVChangeOperation,
   Permission,
-  TableListResponse,
-  KeyListResponse,
-  KeysWithValuesResponse,
   GrantPermissionRequest,
 } from "../../kv/types";
-import { KVError } from "../../kv/types";
+import { KVError, KVLockError } from "../../kv/types";
+import { acquireLease, type KVLockBackend, type KVLockGrant } from "../../kv/lease";
+import { decodeEntry, tableSchema, validateValue, type KVTableSchema } from "../../kv/schema";
+import { isTestMode } from "../../testing/state";
+import { memoryKV } from "../../testing/kvStore";
 
 export type KVStoreConfig = BaseProviderConfig;
 
+export type KVOnChangeArgs<T = any> = TriggerOptions & {
+  table: string;
+  /** Only fire for keys starting with this prefix */
+  prefix?: string;
+  operations: KVChangeOperation[];
+  handler: Handler<KVChangeEvent<T>, BaseContext>;
+};
+
+// Write options of typed tables, which also record the schema version and
+// mark write-backs of migrated values, so they don't fire change triggers
+type KVWriteOptions = KVSetOptions & { schemaVersion?: number; migration?: boolean };
+
+// Backend error for a write whose lease's lock was acquired again
+const STALE_FENCING_TOKEN = "Stale fencing token";
+
 /**
  * Represents a typed table in the KV store
+ * Tables created with kv.table() validate values on read and write
  */
 export class KVTable<T = any> {
   constructor(
-    private client: KVClient,
-    private tableName: string
+    private client: KVBackend,
+    private tableName: string,
+    private tableSchema?: KVTableSchema<T>
   ) {}
 
   /**
@@ -26,25 +58,141 @@ export class KVTable<T = any> {
    * Returns undefined if the key doesn't exist
    */
   async get(key: string): Promise<T | undefined> {
+    if (this.tableSchema) {
+      return (await this.getEntry(key))?.value;
+    }
     return this.client.get<T>(this.tableName, key);
   }
 
   /**
-   * Set a value in the table
+   * Get a value with its version, for use with setIfVersion
+   * Returns undefined if the key doesn't exist
    */
-  async set(key: string, value: T): Promise<void> {
-    return this.client.set<T>(this.tableName, key, value);
+  async getEntry(key: string): Promise<KVEntry<T> | undefined> {
+    const entry = await this.client.getEntry<T>(this.tableName, key);
+    if (!entry || !this.tableSchema) {
+      return entry;
+    }
+    return this.decode(entry);
+  }
+
+  /**
+   * Set a value in the table, optionally expiring after ttlSeconds
+   */
+  async set(key: string, value: T, options?: KVSetOptions): Promise<void> {
+    return this.client.set<T>(this.tableName, key, this.encode(key, value), this.writeOptions(options));
+  }
+
+  /**
+   * Set a value only if the key doesn't exist (or has expired)
+   * Returns false if another write got there first
+   */
+  async setIfAbsent(key: string, value: T, options?: KVSetOptions): Promise<boolean> {
+    return this.client.setIfAbsent<T>(
+      this.tableName,
+      key,
+      this.encode(key, value),
+      this.writeOptions(options)
+    );
+  }
+
+  /**
+   * Set a value only if it is still at the version read with getEntry
+   * Returns false if it was changed (or deleted) in the meantime
+   */
+  async setIfVersion(
+    key: string,
+    value: T,
+    expectedVersion: number,
+    options?: KVSetOptions
+  ): Promise<boolean> {
+    return this.client.setIfVersion<T>(
+      this.tableName,
+      key,
+      this.encode(key, value),
+      expectedVersion,
+      this.writeOptions(options)
+    );
+  }
+
+  /**
+   * Atomically add to a numeric value, starting from 0 if the key doesn't exist
+   * Returns the new value
+   */
+  async increment(key: string, by: number = 1, options?: KVIncrementOptions): Promise<number> {
+    return this.client.increment(this.tableName, key, by, options);
   }
 
   /**
    * Delete a key from the table
    */
-  async delete(key: string): Promise<void> {
-    return this.client.delete(this.tableName, key);
+  async delete(key: string, options?: KVDeleteOptions): Promise<void> {
+    return this.client.delete(this.tableName, key, options);
+  }
+
+  /**
+   * List one page of items ordered by key, optionally only keys with a prefix
+   *
+   * @example
+   * ```typescript
+   * let cursor: string | undefined;
+   * do {
+   *   const page = await users.list({ prefix: 'org-1:', limit: 500, cursor });
+   *   // ...
+   *   cursor = page.nextCursor ?? undefined;
+   * } while (cursor);
+   * ```
+   */
+  async list(options?: KVListOptions): Promise<KVListPage<T>> {
+    const page = await this.client.list<T>(this.tableName, options);
+    if (!this.tableSchema) {
+      return page;
+    }
+
+    const items: KVEntry<T>[] = [];
+    for (const entry of page.items) {
+      items.push(await this.decode(entry));
+    }
+    return { items, nextCursor: page.nextCursor };
+  }
+
+  /**
+   * Get several values in one request (at most 1000 keys)
+   * Missing keys are left out of the result
+   */
+  async getMany(keys: string[]): Promise<Record<string, T>> {
+    if (!this.tableSchema) {
+      return this.client.getMany<T>(this.tableName, keys);
+    }
+
+    const values: Record<string, T> = {};
+    for (const entry of await this.client.getManyEntries<T>(this.tableName, keys)) {
+      values[entry.key] = (await this.decode(entry)).value;
+    }
+    return values;
+  }
+
+  /**
+   * Set several values in one request (at most 1000 entries)
+   */
+  async setMany(entries: Record<string, T>, options?: KVSetOptions): Promise<void> {
+    const encoded = Object.fromEntries(
+      Object.entries(entries).map(([key, value]) => [key, this.encode(key, value)])
+    );
+    return this.client.setMany<T>(this.tableName, encoded, this.writeOptions(options));
+  }
+
+  /**
+   * Delete several keys, or every key with a prefix, in one request
+   * Returns the number of deleted keys
+   */
+  async deleteMany(keys: string[] | { prefix: string }, options?: KVDeleteOptions): Promise<number> {
+    return this.client.deleteMany(this.tableName, keys, options);
   }
 
   /**
    * List all keys in the table
+   * Pages through the whole table; use list() for large tables
    */
   async listKeys(): Promise<string[]> {
     return this.client.listKeys(this.tableName);
@@ -52,9 +200,13 @@ export class KVTable<T = any> {
 
   /**
    * List all items in the table with their values
+   * Pages through the whole table; use list() for large tables
    */
   async listItems(): Promise<KVItem<T>[]> {
-    return this.client.listItems<T>(this.tableName);
+    const decode = this.tableSchema
+      ? async (entry: KVEntry<T>) => (await this.decode(entry)).value
+      : undefined;
+    return this.client.listItems<T>(this.tableName, decode);
   }
 
   /**
@@ -80,12 +232,59 @@ export class KVTable<T = any> {
   async revokePermission(workflowId: string): Promise<void> {
     return this.client.revokePermission(this.tableName, workflowId);
   }
+
+  private encode(key: string, value: T): T {
+    return this.tableSchema ? validateValue(this.tableSchema, this.tableName, key, value) : value;
+  }
+
+  private writeOptions(options?: KVSetOptions): KVWriteOptions | undefined {
+    return this.tableSchema ? { ...options, schemaVersion: this.tableSchema.version } : options;
+  }
+
+  // Validate a stored entry, migrating it first when it has an older schema version
+  private async decode(entry: KVEntry<T>): Promise<KVEntry<T>> {
+    const tableSchema = this.tableSchema!;
+    const { value, migrated } = await decodeEntry(tableSchema, this.tableName, entry);
+    if (!migrated) {
+      return { ...entry, value };
+    }
+
+    const written = await this.writeBack(entry, value);
+    return written
+      ? { ...entry, value, version: entry.version + 1, schemaVersion: tableSchema.version }
+      : { ...entry, value };
+  }
+
+  // Store a migrated value, unless the key was written since it was read.
+  // Best effort: if it fails, the next read migrates again.
+  private async writeBack(entry: KVEntry<T>, value: T): Promise<boolean> {
+    let ttlSeconds: number | undefined;
+    if (entry.expiresAt) {
+      ttlSeconds = Math.ceil((new Date(entry.expiresAt).getTime() - Date.now()) / 1000);
+      if (ttlSeconds <= 0) return false;
+    }
+
+    try {
+      return await this.client.setIfVersion<T>(this.tableName, entry.key, value, entry.version, {
+        ttlSeconds,
+        schemaVersion: this.tableSchema!.version,
+        migration: true,
+      });
+    } catch {
+      return false;
+    }
+  }
+}
+
+interface KVListResponse<T> {
+  results: Array<KVEntry<T> & { createdAt: string; updatedAt: string }>;
+  nextCursor: string | null;
 }
 
 /**
  * Internal client for making KV API requests
  */
-class KVClient {
+class KVClient implements KVLockBackend {
   constructor(
     private backendUrl: string,
     private providerCredential: string
@@ -116,8 +315,11 @@ class KVClient {
 
     if (!response.ok) {
       const errorData = (await response.json().catch(() => ({}))) as any;
+      if (response.status === 409 && errorData.error === STALE_FENCING_TOKEN) {
+        throw new KVLockError(`${STALE_FENCING_TOKEN}: the lock was acquired again`);
+      }
       throw new KVError(
-        errorData.detail || `KV store request failed: ${response.statusText}`,
+        errorData.error || errorData.detail || `KV store request failed: ${response.statusText}`,
         response.status,
         errorData
       );
@@ -128,29 +330,131 @@ class KVClient {
 
   // Table operations
   async listTables(): Promise<string[]> {
-    const result = await this.request<TableListResponse>("GET", `/kv/${this.providerCredential}`);
-    return result.tables;
+    const result = await this.request<{ results: string[] }>("GET", `/kv/${this.providerCredential}`);
+    return result.results;
   }
 
   // Key operations
+  async list<T = any>(table: string, options: KVListOptions = {}): Promise<KVListPage<T>> {
+    const result = await this.listPage<T>(table, options, true);
+    return {
+      items: result.results.map(({ key, value, version, schemaVersion, expiresAt }) => ({
+        key,
+        value,
+        version,
+        schemaVersion,
+        expiresAt,
+      })),
+      nextCursor: result.nextCursor,
+    };
+  }
+
   async listKeys(table: string): Promise<string[]> {
-    const result = await this.request<KeyListResponse>("GET", `/kv/${this.providerCredential}/${table}`);
-    return result.keys;
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.listPage(table, { limit: 1000, cursor }, false);
+      keys.push(...page.results.map((item) => item.key));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return keys;
   }
 
-  async listItems<T = any>(table: string): Promise<KVItem<T>[]> {
-    const result = await this.request<KeysWithValuesResponse<T>>(
+  async listItems<T = any>(
+    table: string,
+    decode?: (entry: KVEntry<T>) => Promise<T>
+  ): Promise<KVItem<T>[]> {
+    const items: KVItem<T>[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.listPage<T>(table, { limit: 1000, cursor }, true);
+      for (const item of page.results) {
+        items.push({
+          key: item.key,
+          value: decode ? await decode(item) : item.value,
+          created_at: item.createdAt,
+          updated_at: item.updatedAt,
+        });
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return items;
+  }
+
+  private async listPage<T>(
+    table: string,
+    options: KVListOptions,
+    includeValues: boolean
+  ): Promise<KVListResponse<T>> {
+    const params = new URLSearchParams();
+    if (options.prefix) params.set("prefix", options.prefix);
+    if (options.limit) params.set("limit", String(options.limit));
+    if (options.cursor) params.set("cursor", options.cursor);
+    if (!includeValues) params.set("values", "false");
+
+    const query = params.toString();
+    return this.request<KVListResponse<T>>(
       "GET",
-      `/kv/${this.providerCredential}/${table}?include_values=true`
+      `/kv/${this.providerCredential}/${table}${query ? `?${query}` : ""}`
+    );
+  }
+
+  // Batch operations
+  async getMany<T = any>(table: string, keys: string[]): Promise<Record<string, T>> {
+    const entries = await this.getManyEntries<T>(table, keys);
+    return Object.fromEntries(entries.map((item) => [item.key, item.value]));
+  }
+
+  async getManyEntries<T = any>(table: string, keys: string[]): Promise<KVEntry<T>[]> {
+    const result = await this.request<{ results: KVEntry<T>[] }>(
+      "POST",
+      `/kv/${this.providerCredential}/${table}/get-many`,
+      { keys }
+    );
+    return result.results;
+  }
+
+  async setMany<T = any>(
+    table: string,
+    entries: Record<string, T>,
+    options?: KVWriteOptions
+  ): Promise<void> {
+    await this.request("POST", `/kv/${this.providerCredential}/${table}/set-many`, {
+      entries: Object.entries(entries).map(([key, value]) => ({
+        key,
+        value,
+        ttlSeconds: options?.ttlSeconds,
+        schemaVersion: options?.schemaVersion,
+      })),
+      fencingToken: options?.fencingToken,
+    });
+  }
+
+  async deleteMany(
+    table: string,
+    keys: string[] | { prefix: string },
+    options?: KVDeleteOptions
+  ): Promise<number> {
+    const result = await this.request<{ deleted: number }>(
+      "POST",
+      `/kv/${this.providerCredential}/${table}/delete-many`,
+      {
+        ...(Array.isArray(keys) ? { keys } : { prefix: keys.prefix }),
+        fencingToken: options?.fencingToken,
+      }
     );
-    return result.items;
+    return result.deleted;
   }
 
   // Value operations
   async get<T = any>(table: string, key: string): Promise<T | undefined> {
+    const entry = await this.getEntry<T>(table, key);
+    return entry?.value;
+  }
+
+  async getEntry<T = any>(table: string, key: string): Promise<KVEntry<T> | undefined> {
     try {
-      const result = await this.request<KVItem<T>>("GET", `/kv/${this.providerCredential}/${table}/${key}`);
-      return result.value;
+      return await this.request<KVEntry<T>>("GET", `/kv/${this.providerCredential}/${table}/${key}`);
     } catch (error) {
       // Return undefined if key doesn't exist (404)
       if (error instanceof KVError && error.statusCode === 404) {
@@ -161,12 +465,118 @@ class KVClient {
     }
   }
 
-  async set<T = any>(table: string, key: string, value: T): Promise<void> {
-    await this.request("PUT", `/kv/${this.providerCredential}/${table}/${key}`, { value });
+  async set<T = any>(table: string, key: string, value: T, options?: KVWriteOptions): Promise<void> {
+    await this.request("PUT", `/kv/${this.providerCredential}/${table}/${key}`, {
+      value,
+      ttlSeconds: options?.ttlSeconds,
+      fencingToken: options?.fencingToken,
+      schemaVersion: options?.schemaVersion,
+    });
+  }
+
+  async setIfAbsent<T = any>(
+    table: string,
+    key: string,
+    value: T,
+    options?: KVWriteOptions
+  ): Promise<boolean> {
+    return this.conditionalSet(table, key, {
+      value,
+      ttlSeconds: options?.ttlSeconds,
+      fencingToken: options?.fencingToken,
+      schemaVersion: options?.schemaVersion,
+      ifAbsent: true,
+    });
+  }
+
+  async setIfVersion<T = any>(
+    table: string,
+    key: string,
+    value: T,
+    expectedVersion: number,
+    options?: KVWriteOptions
+  ): Promise<boolean> {
+    return this.conditionalSet(table, key, {
+      value,
+      ttlSeconds: options?.ttlSeconds,
+      fencingToken: options?.fencingToken,
+      schemaVersion: options?.schemaVersion,
+      migration: options?.migration,
+      ifVersion: expectedVersion,
+    });
+  }
+
+  async increment(
+    table: string,
+    key: string,
+    by: number,
+    options?: KVIncrementOptions
+  ): Promise<number> {
+    const result = await this.request<{ value: number }>(
+      "POST",
+      `/kv/${this.providerCredential}/${table}/${key}/increment`,
+      { by, ttlSeconds: options?.ttlSeconds, fencingToken: options?.fencingToken }
+    );
+    return result.value;
+  }
+
+  // The backend answers 409 when the condition doesn't hold. A stale fencing
+  // token is not a failed condition and still throws.
+  private async conditionalSet(table: string, key: string, body: object): Promise<boolean> {
+    try {
+      await this.request("PUT", `/kv/${this.providerCredential}/${table}/${key}`, body);
+      return true;
+    } catch (error) {
+      if (error instanceof KVError && !(error instanceof KVLockError) && error.statusCode === 409) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // DELETE has no body, so the fencing token goes in the query
+  async delete(table: string, key: string, options?: KVDeleteOptions): Promise<void> {
+    const query =
+      options?.fencingToken !== undefined ? `?fencingToken=${options.fencingToken}` : "";
+    await this.request("DELETE", `/kv/${this.providerCredential}/${table}/${key}${query}`);
+  }
+
+  // Lock operations
+  async acquireLock(name: string, ttlMs: number): Promise<KVLockGrant | { retryAfterMs: number }> {
+    try {
+      const result = await this.request<{ leaseId: string; fencingToken: number; expiresAt: string }>(
+        "POST",
+        `/kv/${this.providerCredential}/locks/${name}`,
+        { ttlMs }
+      );
+      return { ...result, expiresAt: new Date(result.expiresAt) };
+    } catch (error) {
+      // Held by another lease
+      if (error instanceof KVError && error.statusCode === 409) {
+        return { retryAfterMs: error.details?.retryAfterMs ?? 0 };
+      }
+      throw error;
+    }
+  }
+
+  async extendLock(name: string, leaseId: string, ttlMs: number): Promise<Date | null> {
+    try {
+      const result = await this.request<{ expiresAt: string }>(
+        "POST",
+        `/kv/${this.providerCredential}/locks/${name}/extend`,
+        { leaseId, ttlMs }
+      );
+      return new Date(result.expiresAt);
+    } catch (error) {
+      if (error instanceof KVError && error.statusCode === 409) {
+        return null;
+      }
+      throw error;
+    }
   }
 
-  async delete(table: string, key: string): Promise<void> {
-    await this.request("DELETE", `/kv/${this.providerCredential}/${table}/${key}`);
+  async releaseLock(name: string, leaseId: string): Promise<void> {
+    await this.request("POST", `/kv/${this.providerCredential}/locks/${name}/release`, { leaseId });
   }
 
   // Permission operations
@@ -192,6 +602,12 @@ class KVClient {
   }
 }
 
+/**
+ * Where a KVStore keeps its data: the backend's /kv routes, or memory under
+ * floww/testing
+ */
+export type KVBackend = Pick<KVClient, keyof KVClient>;
+
 /**
  * KVStore provider for key-value storage.
  * Each provider instance represents a namespace for KV data.
@@ -222,6 +638,14 @@ class KVClient {
  * // List all keys in table
  * const keys = await users.listKeys();
  *
+ * // Rate limit: at most 10 calls per user per minute
+ * const calls = kv.getTable<number>('rate-limits');
+ * if ((await calls.increment('user-123', 1, { ttlSeconds: 60 })) > 10) return;
+ *
+ * // Process each event once, even with concurrent executions
+ * const processed = kv.getTable<boolean>('processed');
+ * if (!(await processed.setIfAbsent(eventId, true, { ttlSeconds: 86400 }))) return;
+ *
  * // List tables
  * const tables = await kv.listTables();
  * ```
@@ -256,7 +680,40 @@ export class KVStore extends BaseProvider {
     return new KVTable<T>(this.getClient(), tableName);
   }
 
-  private getClient(): KVClient {
+  /**
+   * Get a table whose values are validated against a Zod schema on read and
+   * write. Bump the version when the shape changes; values written at an older
+   * version are upgraded by migrate when read, and the result is written back.
+   *
+   * @example
+   * ```typescript
+   * const UserSchema = z.object({
+   *   name: z.string(),
+   *   email: z.string().email(),
+   *   plan: z.enum(['free', 'pro']),
+   * });
+   *
+   * const users = kv.table('users', UserSchema, {
+   *   version: 2,
+   *   // v1 users had no plan
+   *   migrate: (old, fromVersion) => (fromVersion < 2 ? { ...old, plan: 'free' } : old),
+   * });
+   *
+   * const user = await users.get('user-123'); // Type: { name, email, plan } | undefined
+   * ```
+   *
+   * @throws KVValidationError when a value doesn't match the schema
+   */
+  table<T>(tableName: string, schema: ZodType<T>, options?: KVTableOptions<T>): KVTable<T> {
+    return new KVTable<T>(this.getClient(), tableName, tableSchema(schema, options));
+  }
+
+  private getClient(): KVBackend {
+    // floww/testing keeps data and leases in memory
+    if (isTestMode()) {
+      return memoryKV.forStore(this.credentialName);
+    }
+
     if (!this.client) {
       // Check if execution context is available
       if (!executionContextManager.hasContext()) {
@@ -292,8 +749,44 @@ export class KVStore extends BaseProvider {
     return this.client;
   }
 
-  // No triggers for now
-  triggers = {};
+  triggers = {
+    /**
+     * Run a handler when keys of a table are set or deleted through the KV store.
+     * Writes made by this workflow don't fire it, so the handler can write to the
+     * table it watches.
+     *
+     * @example
+     * ```typescript
+     * kv.triggers.onChange<Order>({
+     *   table: 'orders',
+     *   prefix: 'eu-',
+     *   operations: ['set'],
+     *   handler: async (ctx, event) => {
+     *     console.log(event.key, event.oldValue, '->', event.newValue);
+     *   },
+     * });
+     * ```
+     */
+    onChange: <T = any>(args: KVOnChangeArgs<T>) => {
+      return registerTrigger(
+        {
+          type: "kv_change",
+          handler: args.handler,
+        },
+        {
+          type: this.providerType,
+          alias: this.credentialName,
+          triggerType: "onChange",
+          options: getTriggerOptions(args),
+          input: {
+            table: args.table,
+            prefix: args.prefix,
+            operations: args.operations,
+          },
+        }
+      );
+    },
+  };
 
   // KV actions exposed as methods
   /**
@@ -303,6 +796,44 @@ export class KVStore extends BaseProvider {
     return this.getClient().listTables();
   }
 
+  /**
+   * List one page of items in a table ordered by key, optionally only keys with a prefix
+   */
+  async list<T = any>(table: string, options?: KVListOptions): Promise<KVListPage<T>> {
+    return this.getClient().list<T>(table, options);
+  }
+
+  /**
+   * Get several values from a table in one request (at most 1000 keys)
+   * Missing keys are left out of the result
+   */
+  async getMany<T = any>(table: string, keys: string[]): Promise<Record<string, T>> {
+    return this.getClient().getMany<T>(table, keys);
+  }
+
+  /**
+   * Set several values in a table in one request (at most 1000 entries)
+   */
+  async setMany<T = any>(
+    table: string,
+    entries: Record<string, T>,
+    options?: KVSetOptions
+  ): Promise<void> {
+    return this.getClient().setMany<T>(table, entries, options);
+  }
+
+  /**
+   * Delete several keys, or every key with a prefix, from a table in one request
+   * Returns the number of deleted keys
+   */
+  async deleteMany(
+    table: string,
+    keys: string[] | { prefix: string },
+    options?: KVDeleteOptions
+  ): Promise<number> {
+    return this.getClient().deleteMany(table, keys, options);
+  }
+
   /**
    * List all keys in a table
    */
@@ -326,17 +857,87 @@ export class KVStore extends BaseProvider {
   }
 
   /**
-   * Set a value in the KV store
+   * Get a value with its version, for use with setIfVersion
+   * Returns undefined if the key doesn't exist
+   */
+  async getEntry<T = any>(table: string, key: string): Promise<KVEntry<T> | undefined> {
+    return this.getClient().getEntry<T>(table, key);
+  }
+
+  /**
+   * Set a value in the KV store, optionally expiring after ttlSeconds
    */
-  async set<T = any>(table: string, key: string, value: T): Promise<void> {
-    return this.getClient().set<T>(table, key, value);
+  async set<T = any>(table: string, key: string, value: T, options?: KVSetOptions): Promise<void> {
+    return this.getClient().set<T>(table, key, value, options);
+  }
+
+  /**
+   * Set a value only if the key doesn't exist (or has expired)
+   * Returns false if another write got there first
+   */
+  async setIfAbsent<T = any>(
+    table: string,
+    key: string,
+    value: T,
+    options?: KVSetOptions
+  ): Promise<boolean> {
+    return this.getClient().setIfAbsent<T>(table, key, value, options);
+  }
+
+  /**
+   * Set a value only if it is still at the version read with getEntry
+   * Returns false if it was changed (or deleted) in the meantime
+   */
+  async setIfVersion<T = any>(
+    table: string,
+    key: string,
+    value: T,
+    expectedVersion: number,
+    options?: KVSetOptions
+  ): Promise<boolean> {
+    return this.getClient().setIfVersion<T>(table, key, value, expectedVersion, options);
+  }
+
+  /**
+   * Atomically add to a numeric value, starting from 0 if the key doesn't exist
+   * Returns the new value
+   */
+  async increment(
+    table: string,
+    key: string,
+    by: number = 1,
+    options?: KVIncrementOptions
+  ): Promise<number> {
+    return this.getClient().increment(table, key, by, options);
   }
 
   /**
    * Delete a key from the KV store
    */
-  async delete(table: string, key: string): Promise<void> {
-    return this.getClient().delete(table, key);
+  async delete(table: string, key: string, options?: KVDeleteOptions): Promise<void> {
+    return this.getClient().delete(table, key, options);
+  }
+
+  /**
+   * Acquire a lock shared by all executions using this KV store, e.g. so only
+   * one execution at a time syncs a Jira project. Pass the lease's
+   * fencingToken to the writes it guards, so they throw KVLockError if the
+   * lease ran out and another execution took over.
+   *
+   * @example
+   * ```typescript
+   * const lease = await kv.lock(`sync:${projectKey}`, { ttlMs: 60_000, waitMs: 5_000 });
+   * try {
+   *   await state.set(projectKey, result, { fencingToken: lease.fencingToken });
+   * } finally {
+   *   await lease.release();
+   * }
+   * ```
+   *
+   * @throws KVLockError if the lock is still held after waitMs
+   */
+  async lock(name: string, options?: KVLockOptions): Promise<KVLease> {
+    return acquireLease(this.getClient(), name, options);
   }
 
   /**
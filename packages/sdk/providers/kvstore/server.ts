@@ -1,7 +1,57 @@
-import type { ProviderDefinition } from "../base";
+import { z } from "zod";
+import type { ProviderDefinition, TriggerDefinition } from "../base";
+
+// ============================================================================
+// Input and State Schemas
+// ============================================================================
+
+const OnChangeInputSchema = z.object({
+  table: z.string().min(1),
+  prefix: z.string().optional(),
+  operations: z.array(z.enum(["set", "delete"])).min(1),
+});
+
+const OnChangeStateSchema = OnChangeInputSchema;
+
+type OnChangeInput = z.infer<typeof OnChangeInputSchema>;
+type OnChangeState = z.infer<typeof OnChangeStateSchema>;
+
+// ============================================================================
+// Trigger Definitions
+// ============================================================================
+
+/**
+ * Trigger for writes to a KV table. The backend's /kv routes run matching
+ * triggers when they write, so there is nothing to register or poll.
+ */
+const onChangeTrigger: TriggerDefinition<OnChangeInput, OnChangeState> = {
+  inputSchema: OnChangeInputSchema,
+  stateSchema: OnChangeStateSchema,
+  lifecycle: {
+    async create(ctx) {
+      return {
+        table: ctx.input.table,
+        prefix: ctx.input.prefix,
+        operations: ctx.input.operations,
+      };
+    },
+    async destroy(_ctx) {
+      // No external cleanup needed
+    },
+    async refresh(ctx) {
+      return ctx.state;
+    },
+  },
+};
+
+// ============================================================================
+// Provider Definition
+// ============================================================================
 
 export const KVStoreServerProvider: ProviderDefinition = {
   providerType: "kvstore",
   setupSteps: [], // No config required - just a namespace identifier
-  triggerDefinitions: {}, // No triggers
+  triggerDefinitions: {
+    onChange: onChangeTrigger,
+  },
 };
@@ -14,6 +14,9 @@ export type {
   TriggerDestroyContext,
   TriggerRefreshContext,
   TriggerLifecycle,
+  TriggerPollContext,
+  TriggerPollResult,
+  PolledEvent,
   WebhookRequest,
   WebhookValidationResult,
   TriggerInfo,
@@ -30,6 +33,10 @@ export {
   getProviderTypes,
 } from "./registry";
 
+// Cron schedule calculation (shared with the dev-mode scheduler)
+export { getNextCronRun, getDueCronRuns, getCronJitterMs, validateCronSchedule } from "../builtin/cron";
+export type { CronScheduleOptions } from "../builtin/cron";
+
 // Export individual server providers
 export { BuiltinServerProvider } from "../builtin/server";
 export { GitHubServerProvider } from "../github/server";
@@ -3,10 +3,11 @@ import {
   Handler,
   WebhookEvent,
   WebhookContext,
+  TriggerOptions,
 } from "../../common";
 import { BaseProvider, BaseProviderConfig } from "../base";
 import { SlackApi } from "./api";
-import { registerTrigger } from "../../userCode/providers";
+import { registerTrigger, getTriggerOptions } from "../../userCode/providers";
 
 export type SlackConfig = BaseProviderConfig & {
   workspace_url?: string;
@@ -40,7 +41,7 @@ export type SlackMessageEvent = {
   event_time: number;
 };
 
-export type SlackOnMessageArgs = {
+export type SlackOnMessageArgs = TriggerOptions & {
   channelId?: string; // Optional: filter by specific channel
   userId?: string; // Optional: filter by specific user
   handler: Handler<WebhookEvent<SlackMessageEvent>, WebhookContext>;
@@ -66,7 +67,7 @@ export type SlackReactionEvent = {
   event_time: number;
 };
 
-export type SlackOnReactionArgs = {
+export type SlackOnReactionArgs = TriggerOptions & {
   channelId?: string; // Optional: filter by specific channel
   userId?: string; // Optional: filter by specific user (who added the reaction)
   reaction?: string; // Optional: filter by specific reaction emoji name
@@ -221,6 +222,7 @@ export class Slack extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onMessage",
+          options: getTriggerOptions(args),
           input: {
             channel_id: args.channelId,
             user_id: args.userId,
@@ -242,6 +244,7 @@ export class Slack extends BaseProvider {
           type: this.providerType,
           alias: this.credentialName,
           triggerType: "onReaction",
+          options: getTriggerOptions(args),
           input: {
             channel_id: args.channelId,
             user_id: args.userId,
@@ -162,6 +162,12 @@ const webhookProcessor: WebhookProcessor = {
     return { valid: true };
   },
 
+  getIdempotencyKey(req: WebhookRequest): string | undefined {
+    // Slack retries unacknowledged events with the same event_id
+    const payload = req.body as Record<string, unknown>;
+    return typeof payload.event_id === "string" ? payload.event_id : undefined;
+  },
+
   async processWebhook(
     req: WebhookRequest,
     triggers: TriggerInfo[],
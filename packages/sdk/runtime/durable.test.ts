@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from "vitest";
+import { createDurableContext, parseDuration, ExecutionSuspendedError } from "./durable";
+
+describe("parseDuration", () => {
+  it("should accept milliseconds and unit strings", () => {
+    expect(parseDuration(1500)).toBe(1500);
+    expect(parseDuration("30s")).toBe(30_000);
+    expect(parseDuration("5 minutes")).toBe(300_000);
+    expect(parseDuration("1 day")).toBe(86_400_000);
+    expect(parseDuration("1.5h")).toBe(5_400_000);
+  });
+
+  it("should reject unknown units and negative numbers", () => {
+    expect(() => parseDuration("3 fortnights")).toThrow('Invalid duration "3 fortnights"');
+    expect(() => parseDuration(-1)).toThrow("Invalid duration: -1");
+  });
+});
+
+describe("createDurableContext", () => {
+  it("should skip steps completed by an earlier run", async () => {
+    const recordStep = vi.fn(async () => {});
+    const ctx = createDurableContext({
+      steps: { "create-issue": { result: { key: "OPS-1" } } },
+      recordStep,
+    });
+    const createIssue = vi.fn(async () => ({ key: "OPS-2" }));
+    const notify = vi.fn(async () => "sent");
+
+    expect(await ctx.step("create-issue", createIssue)).toEqual({ key: "OPS-1" });
+    expect(await ctx.step("notify", notify)).toBe("sent");
+
+    expect(createIssue).not.toHaveBeenCalled();
+    expect(recordStep).toHaveBeenCalledTimes(1);
+    expect(recordStep).toHaveBeenCalledWith("notify", "sent");
+  });
+
+  it("should run steps named like Object.prototype members", async () => {
+    const ctx = createDurableContext({ steps: { "create-issue": { result: "done" } } });
+
+    expect(await ctx.step("constructor", async () => "ran")).toBe("ran");
+    expect(await ctx.step("toString", async () => 42)).toBe(42);
+    expect(await ctx.step("__proto__", async () => "safe")).toBe("safe");
+
+    // Completed once, they are skipped like any other step
+    expect(await ctx.step("constructor", async () => "again")).toBe("ran");
+    await expect(ctx.sleep("hasOwnProperty", "1s")).rejects.toBeInstanceOf(ExecutionSuspendedError);
+  });
+
+  it("should not record a step whose function throws", async () => {
+    const recordStep = vi.fn(async () => {});
+    const ctx = createDurableContext({ recordStep });
+
+    await expect(
+      ctx.step("flaky", () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    expect(recordStep).not.toHaveBeenCalled();
+  });
+
+  it("should suspend on a sleep that hasn't happened yet", async () => {
+    const ctx = createDurableContext();
+    const before = Date.now();
+
+    const error = await ctx.sleep("wait-1d", "1 day").catch((e) => e);
+
+    expect(error).toBeInstanceOf(ExecutionSuspendedError);
+    expect(error.stepName).toBe("wait-1d");
+    expect(error.wakeAt.getTime()).toBeGreaterThanOrEqual(before + 86_400_000);
+  });
+
+  it("should continue past a sleep that is over", async () => {
+    const ctx = createDurableContext({ steps: { "wait-1d": {} } });
+
+    await expect(ctx.sleep("wait-1d", "1 day")).resolves.toBeUndefined();
+  });
+
+  it("should wait in-process when given a local sleep", async () => {
+    const sleep = vi.fn(async () => {});
+    const ctx = createDurableContext({ sleep });
+
+    await ctx.sleep("cooldown", "2s");
+
+    expect(sleep).toHaveBeenCalledWith("cooldown", 2000);
+  });
+
+  it("should suspend with an approval request until decided", async () => {
+    const ctx = createDurableContext();
+
+    const error = await ctx
+      .waitForApproval({ message: "Deploy to prod?", approvers: ["ops@acme.com"], timeout: "1h" })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ExecutionSuspendedError);
+    expect(error.stepName).toBe("approval-1");
+    expect(error.approval).toMatchObject({
+      name: "approval-1",
+      message: "Deploy to prod?",
+      approvers: ["ops@acme.com"],
+    });
+    expect(error.approval.timeoutAt).toBe(error.wakeAt.toISOString());
+  });
+
+  it("should return the recorded decision of an approval", async () => {
+    const decision = {
+      approved: false,
+      status: "rejected" as const,
+      decidedBy: "ops@acme.com",
+      comment: "Not on a Friday",
+      decidedAt: "2026-01-02T00:00:00.000Z",
+    };
+    const ctx = createDurableContext({ steps: { "prod-deploy": { result: decision } } });
+
+    await expect(
+      ctx.waitForApproval({ name: "prod-deploy", message: "Deploy to prod?" })
+    ).resolves.toEqual(decision);
+  });
+});
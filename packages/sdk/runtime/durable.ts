@@ -0,0 +1,173 @@
+/**
+ * Durable execution helpers
+ *
+ * Builds the `ctx.step()` / `ctx.sleep()` / `ctx.waitForApproval()` handler
+ * context. On the backend each completed step is recorded against the
+ * execution, so retries, replays and resumed executions skip steps that
+ * already ran. Locally (dev mode, tests) steps are only memoized for the
+ * duration of a single invocation.
+ */
+
+import type { ApprovalDecision, ApprovalOptions, BaseContext, Duration } from "../common";
+
+/**
+ * Results of steps completed by earlier runs of an execution, keyed by step name
+ */
+export type StepResults = Record<string, { result?: unknown }>;
+
+/**
+ * Approval request sent to the backend when `ctx.waitForApproval()` suspends
+ */
+export interface ApprovalRequest {
+  name: string;
+  message: string;
+  approvers: string[];
+  timeoutAt: string | null;
+  notify?: ApprovalOptions["notify"];
+}
+
+/**
+ * Thrown by `ctx.sleep()` and `ctx.waitForApproval()` to stop the handler
+ * until the backend resumes it
+ */
+export class ExecutionSuspendedError extends Error {
+  constructor(
+    public stepName: string,
+    public wakeAt: Date | null,
+    public approval?: ApprovalRequest
+  ) {
+    super(
+      approval
+        ? `Execution suspended waiting for approval "${stepName}"`
+        : `Execution suspended by sleep "${stepName}" until ${wakeAt?.toISOString()}`
+    );
+    this.name = "ExecutionSuspendedError";
+  }
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  millisecond: "ms",
+  milliseconds: "ms",
+  sec: "s",
+  secs: "s",
+  second: "s",
+  seconds: "s",
+  min: "m",
+  mins: "m",
+  minute: "m",
+  minutes: "m",
+  hr: "h",
+  hrs: "h",
+  hour: "h",
+  hours: "h",
+  day: "d",
+  days: "d",
+  week: "w",
+  weeks: "w",
+};
+
+/**
+ * Convert a duration ("30s", "5 minutes", "1 day" or milliseconds) to milliseconds
+ */
+export function parseDuration(duration: Duration): number {
+  if (typeof duration === "number") {
+    if (!Number.isFinite(duration) || duration < 0) {
+      throw new Error(`Invalid duration: ${duration}`);
+    }
+    return duration;
+  }
+
+  const match = duration.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([a-z]+)$/);
+  const unit = match && (UNIT_ALIASES[match[2]] ?? match[2]);
+  if (!match || !unit || !(unit in DURATION_UNITS)) {
+    throw new Error(
+      `Invalid duration "${duration}" (expected e.g. "30s", "5 minutes" or "1 day")`
+    );
+  }
+
+  return Math.round(parseFloat(match[1]) * DURATION_UNITS[unit]);
+}
+
+export interface DurableContextOptions {
+  // Steps completed by earlier runs of this execution
+  steps?: StepResults;
+  // Persist a completed step so later runs can skip it
+  recordStep?: (name: string, result: unknown) => Promise<void>;
+  // Wait in-process instead of suspending the execution (dev mode, tests)
+  sleep?: (name: string, ms: number) => Promise<void>;
+  // Decide approvals in-process instead of suspending the execution (dev mode, tests)
+  approve?: (name: string, options: ApprovalOptions) => Promise<ApprovalDecision>;
+}
+
+/**
+ * Create the durable-execution part of a handler context
+ */
+export function createDurableContext(options: DurableContextOptions = {}): BaseContext {
+  // A Map, so step names like "constructor" or "__proto__" are never taken for completed steps
+  const steps = new Map(Object.entries(options.steps ?? {}));
+  let approvalCount = 0;
+
+  return {
+    async step<T>(name: string, fn: () => T | Promise<T>): Promise<T> {
+      const completed = steps.get(name);
+      if (completed) {
+        return completed.result as T;
+      }
+
+      const result = await fn();
+      steps.set(name, { result });
+      await options.recordStep?.(name, result ?? null);
+      return result;
+    },
+
+    async sleep(name: string, duration: Duration): Promise<void> {
+      if (steps.has(name)) {
+        return;
+      }
+
+      const ms = parseDuration(duration);
+      if (!options.sleep) {
+        throw new ExecutionSuspendedError(name, new Date(Date.now() + ms));
+      }
+
+      await options.sleep(name, ms);
+      steps.set(name, {});
+    },
+
+    async waitForApproval(approval: ApprovalOptions): Promise<ApprovalDecision> {
+      const name = approval.name ?? `approval-${++approvalCount}`;
+      const decided = steps.get(name);
+      if (decided) {
+        return decided.result as ApprovalDecision;
+      }
+
+      if (options.approve) {
+        const decision = await options.approve(name, approval);
+        steps.set(name, { result: decision });
+        return decision;
+      }
+
+      const timeoutAt =
+        approval.timeout !== undefined
+          ? new Date(Date.now() + parseDuration(approval.timeout))
+          : null;
+
+      throw new ExecutionSuspendedError(name, timeoutAt, {
+        name,
+        message: approval.message,
+        approvers: approval.approvers ?? [],
+        timeoutAt: timeoutAt?.toISOString() ?? null,
+        notify: approval.notify,
+      });
+    },
+  };
+}
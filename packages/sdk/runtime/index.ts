@@ -8,6 +8,20 @@
 import { getMatchingTriggers } from "../userCode/utils";
 import { executeUserProject } from "../codeExecution";
 import { LogCapture, StructuredLogEntry } from "./logCapture";
+import {
+  createDurableContext,
+  ExecutionSuspendedError,
+  type ApprovalRequest,
+  type StepResults,
+} from "./durable";
+
+export {
+  createDurableContext,
+  parseDuration,
+  ExecutionSuspendedError,
+  type ApprovalRequest,
+  type StepResults,
+} from "./durable";
 
 /**
  * Create wrapped project with auto-registration support
@@ -79,6 +93,9 @@ export async function reportExecutionStatus(
   executionId: string,
   authToken: string,
   options?: {
+    status?: "suspended";
+    sleep?: { name: string; until: string };
+    approval?: ApprovalRequest;
     error?: { message: string };
     logs?: StructuredLogEntry[];
     duration_ms?: number;
@@ -86,10 +103,22 @@ export async function reportExecutionStatus(
 ) {
   try {
     const body: {
+      status?: "suspended";
+      sleep?: { name: string; until: string };
+      approval?: ApprovalRequest;
       error?: { message: string };
       logs?: StructuredLogEntry[];
       duration_ms?: number;
     } = {};
+    if (options?.status) {
+      body.status = options.status;
+    }
+    if (options?.sleep) {
+      body.sleep = options.sleep;
+    }
+    if (options?.approval) {
+      body.approval = options.approval;
+    }
     if (options?.error) {
       body.error = options.error;
     }
@@ -122,6 +151,48 @@ export async function reportExecutionStatus(
   }
 }
 
+/**
+ * Record a completed `ctx.step()` with the backend
+ *
+ * Retries, replays and resumed sleeps of the execution receive the recorded
+ * result instead of running the step again.
+ *
+ * @param backendUrl - The backend URL to report to
+ * @param executionId - The execution ID
+ * @param authToken - Authentication token for the backend
+ * @param name - The step name
+ * @param result - The (JSON-serializable) step result
+ */
+export async function reportExecutionStep(
+  backendUrl: string,
+  executionId: string,
+  authToken: string,
+  name: string,
+  result: unknown
+) {
+  try {
+    const response = await fetch(
+      `${backendUrl}/api/executions/${executionId}/steps`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name, result }),
+      }
+    );
+
+    if (!response.ok) {
+      console.error(
+        `Failed to record step "${name}": ${response.status} ${response.statusText}`
+      );
+    }
+  } catch (err) {
+    console.error(`Error recording step "${name}":`, err);
+  }
+}
+
 /**
  * Base event interface with type discriminator
  */
@@ -167,6 +238,10 @@ export interface InvokeTriggerEvent extends BaseEvent {
   // used for passing the event data to the trigger handler
   data: any;
 
+  // Results of ctx.step() calls completed by earlier runs of this execution
+  // (retries, replays and resumed sleeps), keyed by step name
+  steps?: StepResults;
+
   // Provider configurations
   // Decrypted provider configs injected into user code execution context
   // Format: "providerType:alias" -> config object
@@ -184,6 +259,12 @@ export interface InvokeTriggerResult {
   success: boolean;
   triggersProcessed: number;
   triggersExecuted: number;
+  // Set when the handler suspended itself with ctx.sleep() or ctx.waitForApproval()
+  suspended?: {
+    step: string;
+    // null for approvals without a timeout
+    until: string | null;
+  };
   error?: {
     message: string;
     stack?: string;
@@ -294,6 +375,7 @@ export async function handleGetDefinitions(
       },
       triggerType: trigger._providerMeta.triggerType,
       input: trigger._providerMeta.input,
+      options: trigger._providerMeta.options,
     }));
 
     // Convert providers to standardized format
@@ -404,6 +486,16 @@ export async function invokeTrigger(
       );
     }
 
+    const { backendUrl, executionId, authToken } = event;
+    const ctx = createDurableContext({
+      steps: event.steps,
+      recordStep:
+        backendUrl && executionId && authToken
+          ? (name, result) =>
+              reportExecutionStep(backendUrl, executionId, authToken, name, result)
+          : undefined,
+    });
+
     // Execute all matching triggers
     // Start log capture and timing just before user code execution
     let executedCount = 0;
@@ -417,7 +509,7 @@ export async function invokeTrigger(
       logCapture.start();
 
       // Pass event data directly to handler
-      await trigger.handler({}, event.data);
+      await trigger.handler(ctx, event.data);
 
       logCapture.stop();
       durationMs = Date.now() - startTime;
@@ -442,6 +534,35 @@ export async function invokeTrigger(
       triggersExecuted: executedCount,
     };
   } catch (error: any) {
+    if (error instanceof ExecutionSuspendedError) {
+      logCapture.stop();
+      const sleep = error.approval
+        ? undefined
+        : { name: error.stepName, until: error.wakeAt!.toISOString() };
+      console.log(`💤 ${error.message}`);
+
+      if (event.backendUrl && event.executionId && event.authToken) {
+        await reportExecutionStatus(
+          event.backendUrl,
+          event.executionId,
+          event.authToken,
+          {
+            status: "suspended",
+            sleep,
+            approval: error.approval,
+            logs: logCapture.getStructuredLogs(),
+          }
+        );
+      }
+
+      return {
+        success: true,
+        triggersProcessed: 0,
+        triggersExecuted: 0,
+        suspended: { step: error.stepName, until: error.wakeAt?.toISOString() ?? null },
+      };
+    }
+
     console.error("❌ Trigger execution failed:", error);
 
     // Stop capturing if still active
@@ -20,3 +20,5 @@ if (typeof beforeEach === "function") {
 }
 
 export { resetAll };
+export { memoryKVLocks, InMemoryKVLocks } from "./kvLocks";
+export { memoryKV, InMemoryKVStore } from "./kvStore";
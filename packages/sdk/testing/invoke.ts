@@ -1,7 +1,11 @@
 import { getRegisteredTriggers } from "../userCode/providers";
 import type { WebhookEvent, CronEvent, ManualEvent, RealtimeEvent } from "../common";
+import type { KVChangeEvent } from "../kv/types";
+import { createDurableContext } from "../runtime/durable";
 
 type InvokeResult = { success: boolean; error?: Error };
+// Decision returned by every ctx.waitForApproval() in the handler (default: approve)
+type InvokeOptions = { approve?: boolean };
 
 function buildWebhookEvent(partial: any): WebhookEvent {
   return {
@@ -39,7 +43,19 @@ function buildRealtimeEvent(partial: any): RealtimeEvent {
   };
 }
 
-function buildEvent(triggerType: string, partial: any) {
+function buildKVChangeEvent(partial: any, input: any): KVChangeEvent {
+  return {
+    table: partial.table ?? input?.table ?? "test-table",
+    key: partial.key ?? "test-key",
+    operation: partial.operation ?? input?.operations?.[0] ?? "set",
+    oldValue: partial.oldValue ?? null,
+    newValue: partial.newValue ?? null,
+    workflowId: partial.workflowId ?? null,
+    changedAt: partial.changedAt ?? new Date().toISOString(),
+  };
+}
+
+function buildEvent(triggerType: string, partial: any, input?: any) {
   switch (triggerType) {
     case "webhook":
       return buildWebhookEvent(partial);
@@ -49,6 +65,8 @@ function buildEvent(triggerType: string, partial: any) {
       return buildManualEvent(partial);
     case "realtime":
       return buildRealtimeEvent(partial);
+    case "kv_change":
+      return buildKVChangeEvent(partial, input);
     default:
       return partial;
   }
@@ -65,7 +83,10 @@ export function augmentTriggersWithInvoke(
       return factory(...args);
     };
 
-    wrapper.invoke = async (partialEvent: any = {}): Promise<InvokeResult> => {
+    wrapper.invoke = async (
+      partialEvent: any = {},
+      options: InvokeOptions = {}
+    ): Promise<InvokeResult> => {
       const allTriggers = getRegisteredTriggers();
 
       const matching = allTriggers.filter((t: any) => {
@@ -81,10 +102,23 @@ export function augmentTriggersWithInvoke(
         return { success: true };
       }
 
+      const approved = options.approve ?? true;
+
       try {
         for (const trigger of matching) {
-          const event = buildEvent(trigger.type, partialEvent);
-          await trigger.handler({}, event);
+          const event = buildEvent(trigger.type, partialEvent, trigger._providerMeta.input);
+          // Sleeps and approvals return immediately so tests run the whole handler
+          const ctx = createDurableContext({
+            sleep: async () => {},
+            approve: async () => ({
+              approved,
+              status: approved ? "approved" : "rejected",
+              decidedBy: "test-user",
+              comment: null,
+              decidedAt: new Date().toISOString(),
+            }),
+          });
+          await trigger.handler(ctx, event);
         }
         return { success: true };
       } catch (error) {
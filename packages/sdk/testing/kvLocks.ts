@@ -0,0 +1,92 @@
+import { randomUUID } from "crypto";
+import type { KVLockBackend, KVLockGrant } from "../kv/lease";
+
+interface HeldLock {
+  leaseId: string | null;
+  fencingToken: number;
+  expiresAt: number;
+}
+
+/**
+ * In-memory locks used by `kv.lock()` in test mode. Behaves like the backend:
+ * leases expire after their TTL, and fencing tokens come from one counter
+ * shared by all locks, so they never repeat until reset.
+ */
+export class InMemoryKVLocks {
+  // Keyed by KV store credential and lock name
+  private locks = new Map<string, HeldLock>();
+  private lastFencingToken = 0;
+
+  /**
+   * Lock backend for one KV store; stores don't share lock names
+   */
+  forStore(store: string): KVLockBackend {
+    return {
+      acquireLock: async (name, ttlMs) => this.acquire(`${store}/${name}`, ttlMs),
+      extendLock: async (name, leaseId, ttlMs) => this.extend(`${store}/${name}`, leaseId, ttlMs),
+      releaseLock: async (name, leaseId) => this.release(`${store}/${name}`, leaseId),
+    };
+  }
+
+  /**
+   * Whether a lease currently holds a lock of a KV store
+   */
+  isHeld(store: string, name: string): boolean {
+    const lock = this.locks.get(`${store}/${name}`);
+    return !!lock?.leaseId && lock.expiresAt > Date.now();
+  }
+
+  /**
+   * Whether a fencing token is the latest of some lock of a KV store, i.e.
+   * writes guarded by it are still accepted. Released leases keep their token
+   * until the lock is acquired again.
+   */
+  isLatestFencingToken(store: string, fencingToken: number): boolean {
+    for (const [key, lock] of this.locks) {
+      if (key.startsWith(`${store}/`) && lock.fencingToken === fencingToken) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  reset(): void {
+    this.locks.clear();
+    this.lastFencingToken = 0;
+  }
+
+  private acquire(key: string, ttlMs: number): KVLockGrant | { retryAfterMs: number } {
+    const now = Date.now();
+    const current = this.locks.get(key);
+
+    if (current?.leaseId && current.expiresAt > now) {
+      return { retryAfterMs: current.expiresAt - now };
+    }
+
+    const leaseId = randomUUID();
+    const fencingToken = ++this.lastFencingToken;
+    this.locks.set(key, { leaseId, fencingToken, expiresAt: now + ttlMs });
+
+    return { leaseId, fencingToken, expiresAt: new Date(now + ttlMs) };
+  }
+
+  private extend(key: string, leaseId: string, ttlMs: number): Date | null {
+    const lock = this.locks.get(key);
+    const now = Date.now();
+    if (!lock || lock.leaseId !== leaseId || lock.expiresAt <= now) {
+      return null;
+    }
+
+    lock.expiresAt = now + ttlMs;
+    return new Date(lock.expiresAt);
+  }
+
+  private release(key: string, leaseId: string): void {
+    const lock = this.locks.get(key);
+    if (lock?.leaseId === leaseId) {
+      lock.leaseId = null;
+    }
+  }
+}
+
+export const memoryKVLocks = new InMemoryKVLocks();
@@ -0,0 +1,266 @@
+import type { KVBackend } from "../providers/kvstore";
+import type { KVEntry, KVItem, KVListOptions, KVListPage, Permission } from "../kv/types";
+import { KVError, KVLockError } from "../kv/types";
+import { memoryKVLocks } from "./kvLocks";
+
+interface StoredItem {
+  value: unknown;
+  version: number;
+  schemaVersion: number | null;
+  expiresAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface WriteOptions {
+  ttlSeconds?: number;
+  fencingToken?: number;
+  schemaVersion?: number;
+}
+
+// Values go through JSON like they do on the way to the backend
+function copy<T>(value: T): T {
+  return value === undefined ? (null as T) : JSON.parse(JSON.stringify(value));
+}
+
+function toEntry<T>(key: string, item: StoredItem): KVEntry<T> {
+  return {
+    key,
+    value: copy(item.value) as T,
+    version: item.version,
+    schemaVersion: item.schemaVersion,
+    expiresAt: item.expiresAt === null ? null : new Date(item.expiresAt).toISOString(),
+  };
+}
+
+/**
+ * In-memory KV data used by `KVStore` in test mode. Behaves like the backend:
+ * values expire after their TTL, versions increase on every write, and writes
+ * with a fencing token are rejected once the token's lock was acquired again.
+ */
+export class InMemoryKVStore {
+  // Keyed by KV store credential, then table and key
+  private stores = new Map<string, Map<string, Map<string, StoredItem>>>();
+  private permissions = new Map<string, Map<string, Permission>>();
+
+  /**
+   * KV backend for one KV store; locks are kept in memoryKVLocks
+   */
+  forStore(store: string): KVBackend {
+    const locks = memoryKVLocks.forStore(store);
+    const table = (name: string) => this.stores.get(store)?.get(name) ?? new Map<string, StoredItem>();
+    const fence = (fencingToken: number | undefined) => this.checkFencingToken(store, fencingToken);
+
+    const backend: KVBackend = {
+      listTables: async () => [...(this.stores.get(store)?.keys() ?? [])].sort(),
+
+      list: async <T = any>(name: string, options: KVListOptions = {}): Promise<KVListPage<T>> => {
+        const items = table(name);
+        const limit = Math.min(Math.max(options.limit ?? 100, 1), 1000);
+        const keys = this.liveKeys(items).filter(
+          (key) => (!options.prefix || key.startsWith(options.prefix)) && (!options.cursor || key > options.cursor)
+        );
+        const page = keys.slice(0, limit);
+        return {
+          items: page.map((key) => toEntry<T>(key, items.get(key)!)),
+          nextCursor: keys.length > limit ? page[page.length - 1] : null,
+        };
+      },
+
+      listKeys: async (name) => this.liveKeys(table(name)),
+
+      listItems: async <T = any>(
+        name: string,
+        decode?: (entry: KVEntry<T>) => Promise<T>
+      ): Promise<KVItem<T>[]> => {
+        const items = table(name);
+        const result: KVItem<T>[] = [];
+        for (const key of this.liveKeys(items)) {
+          const item = items.get(key)!;
+          const entry = toEntry<T>(key, item);
+          result.push({
+            key,
+            value: decode ? await decode(entry) : entry.value,
+            created_at: new Date(item.createdAt).toISOString(),
+            updated_at: new Date(item.updatedAt).toISOString(),
+          });
+        }
+        return result;
+      },
+
+      getMany: async <T = any>(name: string, keys: string[]): Promise<Record<string, T>> => {
+        const entries = await backend.getManyEntries<T>(name, keys);
+        return Object.fromEntries(entries.map((entry) => [entry.key, entry.value]));
+      },
+
+      getManyEntries: async <T = any>(name: string, keys: string[]): Promise<KVEntry<T>[]> => {
+        const items = table(name);
+        return [...new Set(keys)].flatMap((key) => {
+          const item = this.liveItem(items, key);
+          return item ? [toEntry<T>(key, item)] : [];
+        });
+      },
+
+      setMany: async <T = any>(
+        name: string,
+        entries: Record<string, T>,
+        options?: WriteOptions
+      ): Promise<void> => {
+        fence(options?.fencingToken);
+        const items = this.createTable(store, name);
+        for (const [key, value] of Object.entries(entries)) {
+          this.write(items, key, value, options);
+        }
+      },
+
+      deleteMany: async (name, keys, options) => {
+        fence(options?.fencingToken);
+        const items = table(name);
+        const matches = Array.isArray(keys)
+          ? keys.filter((key) => items.has(key))
+          : [...items.keys()].filter((key) => key.startsWith(keys.prefix));
+        for (const key of matches) {
+          items.delete(key);
+        }
+        return matches.length;
+      },
+
+      get: async <T = any>(name: string, key: string): Promise<T | undefined> =>
+        (await backend.getEntry<T>(name, key))?.value,
+
+      getEntry: async <T = any>(name: string, key: string): Promise<KVEntry<T> | undefined> => {
+        const item = this.liveItem(table(name), key);
+        return item ? toEntry<T>(key, item) : undefined;
+      },
+
+      set: async <T = any>(name: string, key: string, value: T, options?: WriteOptions) => {
+        fence(options?.fencingToken);
+        this.write(this.createTable(store, name), key, value, options);
+      },
+
+      setIfAbsent: async <T = any>(name: string, key: string, value: T, options?: WriteOptions) => {
+        fence(options?.fencingToken);
+        const items = this.createTable(store, name);
+        if (this.liveItem(items, key)) {
+          return false;
+        }
+        this.write(items, key, value, options);
+        return true;
+      },
+
+      setIfVersion: async <T = any>(
+        name: string,
+        key: string,
+        value: T,
+        expectedVersion: number,
+        options?: WriteOptions
+      ) => {
+        fence(options?.fencingToken);
+        const items = this.createTable(store, name);
+        if (this.liveItem(items, key)?.version !== expectedVersion) {
+          return false;
+        }
+        this.write(items, key, value, options);
+        return true;
+      },
+
+      increment: async (name, key, by, options) => {
+        fence(options?.fencingToken);
+        const items = this.createTable(store, name);
+        const current = this.liveItem(items, key);
+        if (!current) {
+          this.write(items, key, by, { ttlSeconds: options?.ttlSeconds });
+          return by;
+        }
+        if (typeof current.value !== "number") {
+          throw new KVError("Value is not a number", 409);
+        }
+        // The TTL only applies when the counter is (re)created
+        current.value += by;
+        current.version += 1;
+        current.updatedAt = Date.now();
+        return current.value as number;
+      },
+
+      delete: async (name, key, options) => {
+        fence(options?.fencingToken);
+        table(name).delete(key);
+      },
+
+      acquireLock: locks.acquireLock,
+      extendLock: locks.extendLock,
+      releaseLock: locks.releaseLock,
+
+      listPermissions: async (name) => [...(this.permissions.get(`${store}/${name}`)?.values() ?? [])],
+
+      grantPermission: async (name, workflowId, options = {}) => {
+        const key = `${store}/${name}`;
+        const permission: Permission = {
+          workflow_id: workflowId,
+          can_read: options.read ?? true,
+          can_write: options.write ?? false,
+          created_at: new Date().toISOString(),
+        };
+        this.permissions.set(key, (this.permissions.get(key) ?? new Map()).set(workflowId, permission));
+        return permission;
+      },
+
+      revokePermission: async (name, workflowId) => {
+        this.permissions.get(`${store}/${name}`)?.delete(workflowId);
+      },
+    };
+
+    return backend;
+  }
+
+  reset(): void {
+    this.stores.clear();
+    this.permissions.clear();
+  }
+
+  // Tables are created by their first write
+  private createTable(store: string, name: string): Map<string, StoredItem> {
+    let tables = this.stores.get(store);
+    if (!tables) {
+      tables = new Map();
+      this.stores.set(store, tables);
+    }
+    let items = tables.get(name);
+    if (!items) {
+      items = new Map();
+      tables.set(name, items);
+    }
+    return items;
+  }
+
+  private liveItem(items: Map<string, StoredItem>, key: string): StoredItem | undefined {
+    const item = items.get(key);
+    return item && (item.expiresAt === null || item.expiresAt > Date.now()) ? item : undefined;
+  }
+
+  private liveKeys(items: Map<string, StoredItem>): string[] {
+    return [...items.keys()].filter((key) => this.liveItem(items, key)).sort();
+  }
+
+  // Untyped writes clear the schema version, like the backend
+  private write(items: Map<string, StoredItem>, key: string, value: unknown, options?: WriteOptions): void {
+    const now = Date.now();
+    const existing = items.get(key);
+    items.set(key, {
+      value: copy(value),
+      version: (existing?.version ?? 0) + 1,
+      schemaVersion: options?.schemaVersion ?? null,
+      expiresAt: options?.ttlSeconds ? now + options.ttlSeconds * 1000 : null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+  }
+
+  private checkFencingToken(store: string, fencingToken: number | undefined): void {
+    if (fencingToken !== undefined && !memoryKVLocks.isLatestFencingToken(store, fencingToken)) {
+      throw new KVLockError("Stale fencing token: the lock was acquired again");
+    }
+  }
+}
+
+export const memoryKV = new InMemoryKVStore();
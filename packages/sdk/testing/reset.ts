@@ -1,4 +1,6 @@
 import { getProviderInstances } from "./state";
+import { memoryKVLocks } from "./kvLocks";
+import { memoryKV } from "./kvStore";
 
 function resetProvider(provider: any): void {
   if (provider.actions) {
@@ -16,4 +18,8 @@ export function resetAll(...providers: any[]): void {
   for (const provider of targets) {
     resetProvider(provider);
   }
+  if (providers.length === 0) {
+    memoryKVLocks.reset();
+    memoryKV.reset();
+  }
 }
@@ -2,11 +2,15 @@ import "./index";
 import { describe, it, expect, beforeEach } from "vitest";
 import { GitHub } from "../providers/github";
 import { Slack } from "../providers/slack";
+import { KVStore } from "../providers/kvstore";
+import { KVLockError } from "../kv/types";
+import { memoryKVLocks } from "./kvLocks";
 import { resetAll } from "./reset";
 import { clearRegisteredTriggers } from "../userCode/providers";
 
 const github = new GitHub("test-github");
 const slack = new Slack("test-slack");
+const kv = new KVStore("test-kv");
 
 beforeEach(() => {
   resetAll();
@@ -187,6 +191,28 @@ describe("Trigger .invoke()", () => {
     expect(slack.actions.sendMessage.calls).toEqual([]);
   });
 
+  it("fills KV change event defaults from the trigger input", async () => {
+    let receivedEvent: any;
+    kv.triggers.onChange({
+      table: "orders",
+      operations: ["delete"],
+      handler: async (_ctx, event) => {
+        receivedEvent = event;
+      },
+    });
+
+    await kv.triggers.onChange.invoke({ key: "o-1", oldValue: { total: 5 } });
+
+    expect(receivedEvent).toMatchObject({
+      table: "orders",
+      key: "o-1",
+      operation: "delete",
+      oldValue: { total: 5 },
+      newValue: null,
+      workflowId: null,
+    });
+  });
+
   it("works on non-onPush trigger types", async () => {
     let receivedEvent: any;
     github.triggers.onPullRequest({
@@ -238,6 +264,88 @@ describe("resetAll()", () => {
   });
 });
 
+describe("KV locks", () => {
+  it("allows one lease at a time", async () => {
+    const lease = await kv.lock("sync:PROJ");
+
+    await expect(kv.lock("sync:PROJ")).rejects.toBeInstanceOf(KVLockError);
+    expect(memoryKVLocks.isHeld("test-kv", "sync:PROJ")).toBe(true);
+
+    await lease.release();
+    expect(memoryKVLocks.isHeld("test-kv", "sync:PROJ")).toBe(false);
+  });
+
+  it("increases the fencing token on every acquire", async () => {
+    const first = await kv.lock("sync:PROJ");
+    await first.release();
+    const second = await kv.lock("sync:PROJ");
+
+    expect(second.fencingToken).toBeGreaterThan(first.fencingToken);
+  });
+
+  it("waits for an expiring lease", async () => {
+    await kv.lock("sync:PROJ", { ttlMs: 50 });
+
+    const lease = await kv.lock("sync:PROJ", { waitMs: 1000 });
+    expect(lease.fencingToken).toBe(2);
+  });
+
+  it("rejects extending an expired lease", async () => {
+    const lease = await kv.lock("sync:PROJ", { ttlMs: 10 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await expect(lease.extend()).rejects.toBeInstanceOf(KVLockError);
+  });
+
+  it("is released by resetAll()", async () => {
+    await kv.lock("sync:PROJ");
+
+    resetAll();
+
+    expect(memoryKVLocks.isHeld("test-kv", "sync:PROJ")).toBe(false);
+  });
+});
+
+describe("KV store", () => {
+  it("keeps values in memory", async () => {
+    const projects = kv.getTable<{ synced: boolean }>("projects");
+
+    await projects.set("PROJ", { synced: true });
+
+    expect(await projects.get("PROJ")).toEqual({ synced: true });
+    expect(await kv.increment("counters", "runs", 2)).toBe(2);
+    expect(await kv.increment("counters", "runs")).toBe(3);
+  });
+
+  it("rejects writes with a stale fencing token", async () => {
+    const projects = kv.getTable<string>("projects");
+    const stale = await kv.lock("sync:PROJ");
+    await stale.release();
+    const current = await kv.lock("sync:PROJ");
+    const other = await kv.lock("sync:OTHER");
+
+    await expect(
+      projects.set("PROJ", "stale", { fencingToken: stale.fencingToken })
+    ).rejects.toBeInstanceOf(KVLockError);
+    await expect(
+      projects.delete("PROJ", { fencingToken: stale.fencingToken })
+    ).rejects.toBeInstanceOf(KVLockError);
+    expect(await projects.get("PROJ")).toBeUndefined();
+
+    await projects.set("PROJ", "current", { fencingToken: current.fencingToken });
+    await projects.set("OTHER", "other", { fencingToken: other.fencingToken });
+    expect(await projects.getMany(["PROJ", "OTHER"])).toEqual({ PROJ: "current", OTHER: "other" });
+  });
+
+  it("is cleared by resetAll()", async () => {
+    await kv.set("projects", "PROJ", "synced");
+
+    resetAll();
+
+    expect(await kv.get("projects", "PROJ")).toBeUndefined();
+  });
+});
+
 describe("End-to-end workflow test", () => {
   it("conditional slack notification based on issue state", async () => {
     github.actions.getIssue.returns({ state: "open" });
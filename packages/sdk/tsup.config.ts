@@ -27,7 +27,6 @@ export default defineConfig([
       'tsx',
       'commander',
       'fastify',
-      'node-cron',
       'chokidar',
       'pino-pretty',
       'node-fetch',
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { compileEventKey, getTriggerOptions } from "./providers";
+
+describe("compileEventKey", () => {
+  it("should turn an event path into a template", () => {
+    expect(compileEventKey("body.repository.full_name", "concurrency.key")).toBe(
+      "{{body.repository.full_name}}"
+    );
+    expect(compileEventKey("{{body.owner}}/{{body.repo}}", "concurrency.key")).toBe(
+      "{{body.owner}}/{{body.repo}}"
+    );
+  });
+
+  it("should record the event fields a key function reads", () => {
+    expect(compileEventKey((event) => event.body.repository.full_name, "concurrency.key")).toBe(
+      "{{body.repository.full_name}}"
+    );
+    expect(
+      compileEventKey((event) => `${event.body.owner}/${event.headers["x-repo"]}`, "concurrency.key")
+    ).toBe("{{body.owner}}/{{headers.x-repo}}");
+  });
+
+  it("should reject key functions that do more than read fields", () => {
+    expect(() =>
+      compileEventKey((event) => event.body.repository.full_name.toLowerCase(), "concurrency.key")
+    ).toThrow("concurrency.key can only read event fields");
+  });
+});
+
+describe("getTriggerOptions", () => {
+  it("should only keep execution options", () => {
+    expect(getTriggerOptions({})).toBeUndefined();
+    expect(
+      getTriggerOptions({
+        retry: { attempts: 3 },
+        concurrency: { limit: 1, key: (event) => event.body.repository.full_name },
+      })
+    ).toEqual({
+      retry: { attempts: 3 },
+      concurrency: { limit: 1, key: "{{body.repository.full_name}}" },
+    });
+  });
+
+  it("should compile the idempotency key and window", () => {
+    expect(
+      getTriggerOptions({
+        idempotencyKey: (event) => event.headers["x-delivery-id"],
+        idempotencyWindow: "1 hour",
+      })
+    ).toEqual({
+      idempotencyKey: "{{headers.x-delivery-id}}",
+      idempotencyWindow: 3600000,
+    });
+  });
+});
@@ -1,4 +1,5 @@
-import { SecretDefinition } from "../common";
+import { SecretDefinition, TriggerOptions } from "../common";
+import { parseDuration } from "../runtime/durable";
 
 type TrackedProvider = {
   type: string;
@@ -16,6 +17,8 @@ export type ProviderMetadata = {
   alias: string;
   triggerType: string;
   input: Record<string, any>;
+  // Execution options; kept out of `input` so changing them doesn't recreate the trigger
+  options?: TriggerOptions;
 };
 
 export function trackProviderUsage(
@@ -46,6 +49,68 @@ export function getProviderConfig(
   return _providerConfigs.get(key);
 }
 
+/**
+ * Pick the execution options out of a trigger factory's args
+ */
+export function getTriggerOptions(args: TriggerOptions): TriggerOptions | undefined {
+  const options: TriggerOptions = {};
+  if (args.retry) {
+    options.retry = args.retry;
+  }
+  if (args.concurrency) {
+    options.concurrency = {
+      limit: args.concurrency.limit,
+      key:
+        args.concurrency.key !== undefined
+          ? compileEventKey(args.concurrency.key, "concurrency.key")
+          : undefined,
+    };
+  }
+  if (args.idempotencyKey !== undefined) {
+    options.idempotencyKey = compileEventKey(args.idempotencyKey, "idempotencyKey");
+  }
+  if (args.idempotencyWindow !== undefined) {
+    // Sent as milliseconds so the backend doesn't need to parse durations
+    options.idempotencyWindow = parseDuration(args.idempotencyWindow);
+  }
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+/**
+ * Turn an event key (concurrency.key, idempotencyKey) into a template the
+ * backend resolves against each event, e.g. "{{body.owner}}/{{body.repo}}".
+ * Key functions are run once against a recording event, so they may only
+ * read event fields.
+ */
+export function compileEventKey(
+  key: NonNullable<TriggerOptions["idempotencyKey"]>,
+  optionName: string
+): string {
+  if (typeof key === "string") {
+    return key.includes("{{") ? key : `{{${key}}}`;
+  }
+
+  const recordEventPath = (path: string[]): unknown =>
+    new Proxy(function () {}, {
+      get(_target, prop) {
+        if (prop === Symbol.toPrimitive || prop === "toString" || prop === "valueOf") {
+          return () => `{{${path.join(".")}}}`;
+        }
+        if (typeof prop === "symbol") {
+          return undefined;
+        }
+        return recordEventPath([...path, prop]);
+      },
+      apply() {
+        throw new Error(
+          `${optionName} can only read event fields; use a path such as "body.repository.full_name"`
+        );
+      },
+    });
+
+  return String(key(recordEventPath([])));
+}
+
 export function registerTrigger(trigger: any, providerMeta?: ProviderMetadata) {
   const enrichedTrigger = providerMeta
     ? { ...trigger, _providerMeta: providerMeta }
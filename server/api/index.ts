@@ -27,6 +27,7 @@ import './routes/whoami';
 import './routes/organizations';
 import './routes/workflows';
 import './routes/executions';
+import './routes/approvals';
 import './routes/providers';
 import './routes/triggers';
 import './routes/runtimes';
@@ -0,0 +1,276 @@
+/**
+ * Approval Routes
+ *
+ * Decisions on executions waiting in ctx.waitForApproval().
+ *
+ * GET /api/approvals?namespaceId= - List pending approvals (dashboard inbox)
+ * POST /api/approvals/:approvalId/decision - Approve or reject as the current user
+ * GET /api/approvals/:approvalId/callback - Confirmation page for a signed callback URL (HTML)
+ * POST /api/approvals/:approvalId/callback - Decide through a signed callback URL
+ */
+
+import { get, post, json, errorResponse, parseBody } from '~/server/api/router';
+import * as approvalService from '~/server/services/execution-approval-service';
+import { hasNamespaceAccess, hasWorkflowAccess } from '~/server/services/access-service';
+import { authenticateRequest } from '~/server/services/auth';
+import { decideApprovalSchema } from '~/server/api/schemas';
+
+function serializeApproval(approval: approvalService.ApprovalInfo) {
+  return {
+    id: approval.id,
+    executionId: approval.executionId,
+    workflowId: approval.workflowId,
+    stepName: approval.stepName,
+    message: approval.message,
+    approvers: approval.approvers,
+    status: approval.status.toLowerCase(),
+    expiresAt: approval.expiresAt?.toISOString() ?? null,
+    decidedAt: approval.decidedAt?.toISOString() ?? null,
+    decidedByUserId: approval.decidedByUserId,
+    comment: approval.comment,
+    createdAt: approval.createdAt.toISOString(),
+  };
+}
+
+// List pending approvals in a namespace
+get('/approvals', async ({ user, query }) => {
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const namespaceId = query.get('namespaceId');
+  if (!namespaceId) {
+    return errorResponse('namespaceId is required', 400);
+  }
+
+  const hasAccess = await hasNamespaceAccess(user.id, namespaceId);
+  if (!hasAccess && !user.isAdmin) {
+    return errorResponse('Access denied', 403);
+  }
+
+  const approvals = await approvalService.listPendingApprovals(namespaceId);
+  const results = await Promise.all(
+    approvals.map(async (approval) => ({
+      ...serializeApproval(approval),
+      workflowName: approval.workflowName,
+      canDecide: await approvalService.canDecideApproval(approval, user.id),
+    }))
+  );
+
+  return json({ results });
+});
+
+// Approve or reject as the current user
+post('/approvals/:approvalId/decision', async ({ user, params, request }) => {
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const approval = await approvalService.getApproval(params.approvalId);
+  if (!approval) {
+    return errorResponse('Approval not found', 404);
+  }
+
+  const hasAccess = await hasWorkflowAccess(user.id, approval.workflowId);
+  if (!hasAccess && !user.isAdmin) {
+    return errorResponse('Access denied', 403);
+  }
+
+  if (!(await approvalService.canDecideApproval(approval, user.id))) {
+    return errorResponse('You are not an approver of this request', 403);
+  }
+
+  const parsed = await parseBody(request, decideApprovalSchema);
+  if ('error' in parsed) return parsed.error;
+
+  try {
+    const decided = await approvalService.decideApproval(approval.id, {
+      status: parsed.data.approved ? 'APPROVED' : 'REJECTED',
+      decidedByUserId: user.id,
+      comment: parsed.data.comment,
+    });
+    return json(serializeApproval(decided));
+  } catch (error) {
+    return errorResponse(error instanceof Error ? error.message : String(error), 409);
+  }
+});
+
+/**
+ * Check who decides through a callback URL. A signed link is enough when the
+ * request has no approvers list; otherwise the link may have been forwarded,
+ * so the decider must be signed in to the dashboard as one of the approvers.
+ * Returns the deciding user's ID, or the page to show instead.
+ */
+async function getCallbackDecider(
+  approval: approvalService.ApprovalInfo,
+  request: Request
+): Promise<{ userId?: string } | { response: Response }> {
+  if (approval.approvers.length === 0) {
+    return {};
+  }
+
+  const user = await authenticateRequest(
+    request.headers.get('cookie'),
+    request.headers.get('authorization')
+  );
+  if (!user) {
+    return {
+      response: htmlResponse(
+        getResultPage(
+          'Sign in required',
+          'Only the approvers of this request can decide it. Sign in to Floww and open the link again.'
+        ),
+        401
+      ),
+    };
+  }
+
+  const hasAccess = await hasWorkflowAccess(user.id, approval.workflowId);
+  if ((!hasAccess && !user.isAdmin) || !(await approvalService.canDecideApproval(approval, user.id))) {
+    return {
+      response: htmlResponse(
+        getResultPage('Not an approver', 'You are not an approver of this request.'),
+        403
+      ),
+    };
+  }
+
+  return { userId: user.id };
+}
+
+// Confirmation page for a signed callback URL. Deciding only happens on POST
+// so link previews (Slack unfurling, mail scanners) can't decide by accident.
+get('/approvals/:approvalId/callback', async ({ params, query, request }) => {
+  const decision = query.get('decision');
+  const signature = query.get('signature') ?? '';
+
+  if (
+    (decision !== 'approve' && decision !== 'reject') ||
+    !approvalService.verifyApprovalCallback(params.approvalId, decision, signature)
+  ) {
+    return htmlResponse(getResultPage('Invalid link', 'This approval link is invalid.'), 403);
+  }
+
+  const approval = await approvalService.getApproval(params.approvalId);
+  if (!approval) {
+    return htmlResponse(getResultPage('Not found', 'This approval request no longer exists.'), 404);
+  }
+
+  if (approval.status !== 'PENDING') {
+    return htmlResponse(
+      getResultPage('Already decided', `This request was already ${describeStatus(approval.status)}.`)
+    );
+  }
+
+  const decider = await getCallbackDecider(approval, request);
+  if ('response' in decider) return decider.response;
+
+  return htmlResponse(getConfirmPage(approval, decision, signature));
+}, false);
+
+// Decide through a signed callback URL
+post('/approvals/:approvalId/callback', async ({ params, query, request }) => {
+  const formData = await request.formData().catch(() => null);
+  const decision = (formData?.get('decision') as string | null) ?? query.get('decision');
+  const signature = (formData?.get('signature') as string | null) ?? query.get('signature') ?? '';
+  const comment = (formData?.get('comment') as string | null)?.trim() || undefined;
+
+  if (
+    (decision !== 'approve' && decision !== 'reject') ||
+    !approvalService.verifyApprovalCallback(params.approvalId, decision, signature)
+  ) {
+    return htmlResponse(getResultPage('Invalid link', 'This approval link is invalid.'), 403);
+  }
+
+  const approval = await approvalService.getApproval(params.approvalId);
+  if (!approval) {
+    return htmlResponse(getResultPage('Not found', 'This approval request no longer exists.'), 404);
+  }
+
+  const decider = await getCallbackDecider(approval, request);
+  if ('response' in decider) return decider.response;
+
+  try {
+    const decided = await approvalService.decideApproval(approval.id, {
+      status: decision === 'approve' ? 'APPROVED' : 'REJECTED',
+      decidedByUserId: decider.userId,
+      comment,
+    });
+    return htmlResponse(
+      getResultPage('Thanks!', `The request was ${describeStatus(decided.status)}. You can close this window.`)
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return htmlResponse(getResultPage('Could not decide', message), 409);
+  }
+}, false);
+
+function htmlResponse(html: string, status: number = 200): Response {
+  return new Response(html, {
+    status,
+    headers: { 'Content-Type': 'text/html' },
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function describeStatus(status: approvalService.ApprovalStatus): string {
+  return status === 'TIMED_OUT' ? 'timed out' : status.toLowerCase();
+}
+
+function getConfirmPage(
+  approval: approvalService.ApprovalInfo,
+  decision: 'approve' | 'reject',
+  signature: string
+): string {
+  const label = decision === 'approve' ? 'Approve' : 'Reject';
+  const color = decision === 'approve' ? '#28a745' : '#dc3545';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Floww - ${label} Request</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 400px; margin: 50px auto; padding: 20px; }
+    h1 { text-align: center; }
+    blockquote { margin: 0 0 20px; padding: 10px 15px; background: #f5f5f5; white-space: pre-wrap; }
+    textarea { width: 100%; padding: 8px; margin: 5px 0 15px; box-sizing: border-box; }
+    button { width: 100%; padding: 10px; background: ${color}; color: white; border: none; cursor: pointer; }
+  </style>
+</head>
+<body>
+  <h1>${label} Request</h1>
+  <blockquote>${escapeHtml(approval.message)}</blockquote>
+  <form action="/api/approvals/${approval.id}/callback" method="POST">
+    <input type="hidden" name="decision" value="${decision}">
+    <input type="hidden" name="signature" value="${escapeHtml(signature)}">
+    <label>Comment (optional)</label>
+    <textarea name="comment" rows="3"></textarea>
+    <button type="submit">${label}</button>
+  </form>
+</body>
+</html>`;
+}
+
+function getResultPage(title: string, message: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Floww - ${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 400px; margin: 50px auto; padding: 20px; text-align: center; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${escapeHtml(message)}</p>
+</body>
+</html>`;
+}
@@ -5,15 +5,111 @@
  * GET /api/executions/:id - Get execution
  * GET /api/executions/:id/logs - Get execution logs
  * POST /api/executions/:id/complete - Runtime completion callback
+ * POST /api/executions/:id/steps - Runtime callback recording a completed ctx.step()
+ * POST /api/executions/:id/replay - Replay an execution with its original payload
+ * POST /api/executions/:id/cancel - Cancel a queued or suspended execution
  * GET /api/executions/workflows/:workflowId - List executions for workflow
  * GET /api/executions/workflows/:workflowId/logs - Get logs for workflow
+ * GET /api/executions/workflows/:workflowId/dead-letters - List failed executions awaiting replay
+ * POST /api/executions/workflows/:workflowId/replay - Replay dead-lettered executions by filter
  */
 
 import { get, post, json, errorResponse, parseBody } from '~/server/api/router';
 import * as executionService from '~/server/services/execution-service';
+import * as executionStepService from '~/server/services/execution-step-service';
+import * as executionApprovalService from '~/server/services/execution-approval-service';
 import { hasWorkflowAccess } from '~/server/services/access-service';
 import { verifyInvocationToken } from '~/server/services/workflow-auth-service';
-import { completeExecutionSchema } from '~/server/api/schemas';
+import { scheduleRetry, releaseConcurrency } from '~/server/services/trigger-execution-service';
+import { centrifugoService } from '~/server/services/centrifugo-service';
+import { logger } from '~/server/utils/logger';
+import {
+  completeExecutionSchema,
+  recordExecutionStepSchema,
+  replayExecutionSchema,
+  bulkReplayExecutionsSchema,
+  executionStatusValues,
+  logLevelSchema,
+} from '~/server/api/schemas';
+
+// Query param parsers: bad values are a 400, not a database error
+
+/**
+ * Parse an optional date query param, e.g. ?since=2025-01-31T00:00:00Z
+ */
+function parseDateParam(
+  query: URLSearchParams,
+  name: string
+): { value?: Date } | { error: Response } {
+  const raw = query.get(name);
+  if (!raw) return { value: undefined };
+
+  const value = new Date(raw);
+  if (isNaN(value.getTime())) {
+    return { error: errorResponse(`Invalid ${name} date "${raw}"`, 400) };
+  }
+  return { value };
+}
+
+/**
+ * Parse an optional status or comma-separated list of statuses, in any case
+ */
+function parseStatusesParam(
+  query: URLSearchParams
+): { value?: executionService.ExecutionStatus[] } | { error: Response } {
+  const raw = query.get('status');
+  if (!raw) return { value: undefined };
+
+  const statuses = raw.split(',').map((status) => status.trim().toLowerCase());
+  const unknown = statuses.filter(
+    (status) => !(executionStatusValues as readonly string[]).includes(status)
+  );
+  if (unknown.length > 0) {
+    return {
+      error: errorResponse(
+        `Unknown status "${unknown.join(',')}" (expected ${executionStatusValues.join(', ')})`,
+        400
+      ),
+    };
+  }
+  return { value: statuses.map((status) => status.toUpperCase() as executionService.ExecutionStatus) };
+}
+
+/**
+ * Parse an optional single status, in any case
+ */
+function parseStatusParam(
+  query: URLSearchParams
+): { value?: executionService.ExecutionStatus } | { error: Response } {
+  const statuses = parseStatusesParam(query);
+  if ('error' in statuses) return statuses;
+  if (statuses.value && statuses.value.length > 1) {
+    return { error: errorResponse('Only one status can be filtered on', 400) };
+  }
+  return { value: statuses.value?.[0] };
+}
+
+/**
+ * Parse an optional log level or comma-separated list of levels, in any case
+ */
+function parseLogLevelsParam(
+  query: URLSearchParams
+): { value?: executionService.LogLevel[] } | { error: Response } {
+  const raw = query.get('level');
+  if (!raw) return { value: undefined };
+
+  const levels = raw.split(',').map((level) => level.trim().toLowerCase());
+  const unknown = levels.filter((level) => !logLevelSchema.safeParse(level).success);
+  if (unknown.length > 0) {
+    return {
+      error: errorResponse(
+        `Unknown log level "${unknown.join(',')}" (expected ${logLevelSchema.options.join(', ')})`,
+        400
+      ),
+    };
+  }
+  return { value: levels.map((level) => level.toUpperCase() as executionService.LogLevel) };
+}
 
 // List executions for a workflow
 get('/executions', async (ctx) => {
@@ -23,7 +119,13 @@ get('/executions', async (ctx) => {
   const workflowId = query.get('workflowId');
   const limit = parseInt(query.get('limit') ?? '50', 10);
   const offset = parseInt(query.get('offset') ?? '0', 10);
-  const status = query.get('status') as executionService.ExecutionStatus | null;
+
+  const status = parseStatusParam(query);
+  if ('error' in status) return status.error;
+  const since = parseDateParam(query, 'since');
+  if ('error' in since) return since.error;
+  const until = parseDateParam(query, 'until');
+  if ('error' in until) return until.error;
 
   if (!workflowId) {
     // Return recent executions across all accessible workflows
@@ -46,7 +148,10 @@ get('/executions', async (ctx) => {
   const result = await executionService.listExecutions(workflowId, {
     limit,
     offset,
-    status: status ?? undefined,
+    status: status.value,
+    triggerId: query.get('triggerId') ?? undefined,
+    since: since.value,
+    until: until.value,
   });
 
   return json({
@@ -71,7 +176,27 @@ get('/executions/:executionId', async (ctx) => {
     return errorResponse('Access denied', 403);
   }
 
-  return json(executionService.serializeExecution(execution));
+  const attempts = await executionService.getExecutionAttempts(execution);
+  const steps = await executionStepService.listExecutionSteps(execution.id);
+
+  return json({
+    ...executionService.serializeExecution(execution),
+    attempts: attempts.map((attempt) => ({
+      id: attempt.id,
+      attempt: attempt.attempt,
+      status: attempt.status,
+      receivedAt: attempt.receivedAt.toISOString(),
+      completedAt: attempt.completedAt?.toISOString() ?? null,
+      errorMessage: attempt.errorMessage,
+    })),
+    steps: steps.map((step) => ({
+      name: step.name,
+      kind: step.kind,
+      result: step.result,
+      wakeAt: step.wakeAt?.toISOString() ?? null,
+      completedAt: step.completedAt?.toISOString() ?? null,
+    })),
+  });
 });
 
 // Get execution logs
@@ -128,7 +253,7 @@ post('/executions/:executionId/complete', async ({ params, request }) => {
   const parsed = await parseBody(request, completeExecutionSchema);
   if ('error' in parsed) return parsed.error;
 
-  const { status: rawStatus, logs, error: rawError, duration_ms } = parsed.data;
+  const { status: rawStatus, sleep, approval, logs, error: rawError, duration_ms } = parsed.data;
 
   // Normalize error to a string
   const errorMessage = rawError
@@ -139,7 +264,34 @@ post('/executions/:executionId/complete', async ({ params, request }) => {
   const status = rawStatus ?? (errorMessage ? 'failed' : 'completed');
 
   // Update execution based on status
-  if (status === 'completed') {
+  if (status === 'suspended') {
+    if (!sleep && !approval) {
+      return errorResponse(
+        'A suspended execution must include the sleep or approval it is waiting on',
+        400
+      );
+    }
+    try {
+      if (approval) {
+        await executionApprovalService.requestApproval(params.executionId, approval, {
+          logs: logs ?? [],
+          durationMs: duration_ms,
+        });
+      } else if (sleep) {
+        await executionStepService.suspendExecution(
+          params.executionId,
+          { name: sleep.name, until: new Date(sleep.until) },
+          { logs: logs ?? [], durationMs: duration_ms }
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await executionService.updateExecutionFailed(params.executionId, message, {
+        logs: logs ?? [],
+        durationMs: duration_ms,
+      });
+    }
+  } else if (status === 'completed') {
     await executionService.updateExecutionCompleted(params.executionId, {
       logs: logs ?? [],
       durationMs: duration_ms,
@@ -150,11 +302,134 @@ post('/executions/:executionId/complete', async ({ params, request }) => {
       errorMessage ?? 'Unknown error',
       { logs: logs ?? [], durationMs: duration_ms }
     );
+    await scheduleRetry(params.executionId, errorMessage ?? 'Unknown error');
+  }
+
+  // Stream the new log lines to `floww logs --follow` and other subscribers
+  if (logs && logs.length > 0) {
+    try {
+      await centrifugoService.publishExecutionLogs(execution.workflowId, params.executionId, logs);
+    } catch (error) {
+      logger.error('Failed to publish execution logs', {
+        executionId: params.executionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Finished and suspended executions free their concurrency slot
+  await releaseConcurrency(params.executionId);
+
+  return json({ success: true });
+}, false); // No user auth - uses workflow token
+
+// Record a completed ctx.step() - called by runtime (uses workflow auth token, not user auth)
+post('/executions/:executionId/steps', async ({ params, request }) => {
+  // Extract auth token from header
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return errorResponse('Missing authorization token', 401);
+  }
+
+  const token = authHeader.slice(7);
+
+  // Verify the invocation token
+  const tokenWorkflowId = await verifyInvocationToken(token);
+  if (!tokenWorkflowId) {
+    return errorResponse('Invalid or expired token', 401);
+  }
+
+  // Get the execution
+  const execution = await executionService.getExecution(params.executionId);
+  if (!execution) {
+    return errorResponse('Execution not found', 404);
+  }
+
+  if (execution.workflowId !== tokenWorkflowId) {
+    return errorResponse('Access denied', 403);
   }
 
+  // Parse body
+  const parsed = await parseBody(request, recordExecutionStepSchema);
+  if ('error' in parsed) return parsed.error;
+
+  await executionStepService.recordExecutionStep(
+    params.executionId,
+    parsed.data.name,
+    parsed.data.result
+  );
+
   return json({ success: true });
 }, false); // No user auth - uses workflow token
 
+// Replay an execution with its original trigger payload
+post('/executions/:executionId/replay', async (ctx) => {
+  const { user, params, request } = ctx;
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const execution = await executionService.getExecution(params.executionId);
+  if (!execution) {
+    return errorResponse('Execution not found', 404);
+  }
+
+  // Check access
+  const hasAccess = await hasWorkflowAccess(user.id, execution.workflowId);
+  if (!hasAccess && !user.isAdmin) {
+    return errorResponse('Access denied', 403);
+  }
+
+  const parsed = await parseBody(request, replayExecutionSchema);
+  if ('error' in parsed) return parsed.error;
+
+  const { replayExecution } = await import('~/server/services/execution-replay-service');
+
+  try {
+    const { execution: replay, result } = await replayExecution(execution.id, {
+      target: parsed.data.target,
+      triggeredByUserId: user.id,
+    });
+
+    return json({
+      executionId: replay.id,
+      status: result.status,
+    }, 201);
+  } catch (error) {
+    return errorResponse(error instanceof Error ? error.message : String(error), 400);
+  }
+});
+
+// Cancel an execution that is queued or suspended
+post('/executions/:executionId/cancel', async (ctx) => {
+  const { user, params } = ctx;
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const execution = await executionService.getExecution(params.executionId);
+  if (!execution) {
+    return errorResponse('Execution not found', 404);
+  }
+
+  // Check access
+  const hasAccess = await hasWorkflowAccess(user.id, execution.workflowId);
+  if (!hasAccess && !user.isAdmin) {
+    return errorResponse('Access denied', 403);
+  }
+
+  const cancelled = await executionService.cancelExecution(execution.id);
+  if (!cancelled) {
+    return errorResponse(
+      `Only queued, sleeping or waiting executions can be cancelled (status: ${execution.status})`,
+      409
+    );
+  }
+
+  await executionApprovalService.cancelPendingApprovals(execution.id);
+
+  // A queued execution gives up its place; let the next one in line run
+  await releaseConcurrency(execution.id);
+
+  return json(executionService.serializeExecution(cancelled));
+});
+
 // List executions for a specific workflow (alternative route)
 get('/executions/workflows/:workflowId', async (ctx) => {
   const { user, params, query } = ctx;
@@ -163,7 +438,13 @@ get('/executions/workflows/:workflowId', async (ctx) => {
   const { workflowId } = params;
   const limit = parseInt(query.get('limit') ?? '50', 10);
   const offset = parseInt(query.get('offset') ?? '0', 10);
-  const status = query.get('status') as executionService.ExecutionStatus | null;
+
+  const status = parseStatusParam(query);
+  if ('error' in status) return status.error;
+  const since = parseDateParam(query, 'since');
+  if ('error' in since) return since.error;
+  const until = parseDateParam(query, 'until');
+  if ('error' in until) return until.error;
 
   // Check access
   const hasAccess = await hasWorkflowAccess(user.id, workflowId);
@@ -174,7 +455,10 @@ get('/executions/workflows/:workflowId', async (ctx) => {
   const result = await executionService.listExecutions(workflowId, {
     limit,
     offset,
-    status: status ?? undefined,
+    status: status.value,
+    triggerId: query.get('triggerId') ?? undefined,
+    since: since.value,
+    until: until.value,
   });
 
   return json({
@@ -192,7 +476,12 @@ get('/executions/workflows/:workflowId/logs', async (ctx) => {
   const limit = parseInt(query.get('limit') ?? '100', 10);
   const offset = parseInt(query.get('offset') ?? '0', 10);
   const searchQuery = query.get('q') ?? undefined;
-  const level = query.get('level') as executionService.LogLevel | undefined;
+
+  // One level or a comma-separated list, e.g. "WARN,ERROR"
+  const levels = parseLogLevelsParam(query);
+  if ('error' in levels) return levels.error;
+  const since = parseDateParam(query, 'since');
+  if ('error' in since) return since.error;
 
   // Check access
   const hasAccess = await hasWorkflowAccess(user.id, workflowId);
@@ -202,7 +491,9 @@ get('/executions/workflows/:workflowId/logs', async (ctx) => {
 
   const logs = await executionService.searchExecutionLogs(workflowId, {
     searchQuery,
-    level: level || undefined,
+    levels: levels.value,
+    executionId: query.get('executionId') ?? undefined,
+    since: since.value,
     limit,
     offset,
   });
@@ -217,3 +508,77 @@ get('/executions/workflows/:workflowId/logs', async (ctx) => {
     })),
   });
 });
+
+// List failed executions that won't be retried and haven't been replayed
+get('/executions/workflows/:workflowId/dead-letters', async (ctx) => {
+  const { user, params, query } = ctx;
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const { workflowId } = params;
+  const limit = parseInt(query.get('limit') ?? '50', 10);
+  const offset = parseInt(query.get('offset') ?? '0', 10);
+
+  const statuses = parseStatusesParam(query);
+  if ('error' in statuses) return statuses.error;
+  const since = parseDateParam(query, 'since');
+  if ('error' in since) return since.error;
+  const until = parseDateParam(query, 'until');
+  if ('error' in until) return until.error;
+
+  // Check access
+  const hasAccess = await hasWorkflowAccess(user.id, workflowId);
+  if (!hasAccess && !user.isAdmin) {
+    return errorResponse('Access denied', 403);
+  }
+
+  const result = await executionService.listDeadLetterExecutions(workflowId, {
+    limit,
+    offset,
+    statuses: statuses.value,
+    triggerId: query.get('triggerId') ?? undefined,
+    since: since.value,
+    until: until.value,
+  });
+
+  return json({
+    executions: result.executions.map(executionService.serializeExecution),
+    total: result.total,
+  });
+});
+
+// Replay dead-lettered executions matching a filter
+post('/executions/workflows/:workflowId/replay', async (ctx) => {
+  const { user, params, request } = ctx;
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const { workflowId } = params;
+
+  // Check access
+  const hasAccess = await hasWorkflowAccess(user.id, workflowId);
+  if (!hasAccess && !user.isAdmin) {
+    return errorResponse('Access denied', 403);
+  }
+
+  const parsed = await parseBody(request, bulkReplayExecutionsSchema);
+  if ('error' in parsed) return parsed.error;
+
+  const { status, triggerId, since, until, target, limit } = parsed.data;
+  const { replayExecutions } = await import('~/server/services/execution-replay-service');
+
+  const result = await replayExecutions(
+    workflowId,
+    {
+      statuses: status,
+      triggerId,
+      since: since ? new Date(since) : undefined,
+      until: until ? new Date(until) : undefined,
+    },
+    { target, triggeredByUserId: user.id, limit }
+  );
+
+  return json({
+    executionIds: result.executions.map((execution) => execution.id),
+    queued: result.executions.length,
+    skipped: result.skipped,
+  }, 202);
+});
@@ -4,21 +4,64 @@
  * Key-Value store operations for workflow state storage.
  *
  * GET /kv/:provider - List tables
- * GET /kv/:provider/:table - List KV pairs
+ * GET /kv/:provider/:table - List KV pairs (prefix, limit and cursor pagination)
+ * POST /kv/:provider/:table/get-many - Get several values
+ * POST /kv/:provider/:table/set-many - Set several values
+ * POST /kv/:provider/:table/delete-many - Delete several keys, or all keys with a prefix
  * GET /kv/:provider/:table/:key - Get value
- * PUT /kv/:provider/:table/:key - Set value
+ * PUT /kv/:provider/:table/:key - Set value (optional ttlSeconds, ifVersion, ifAbsent)
+ * POST /kv/:provider/:table/:key/increment - Atomically increment a numeric value
  * DELETE /kv/:provider/:table/:key - Delete value
  * GET /kv/:provider/permissions/:table - Get permissions
  * POST /kv/:provider/permissions/:table - Set permissions
  * DELETE /kv/:provider/permissions/:table/:workflowId - Remove permissions
+ * POST /kv/:provider/locks/:name - Acquire a lock lease
+ * POST /kv/:provider/locks/:name/extend - Extend a lease
+ * POST /kv/:provider/locks/:name/release - Release a lease
+ *
+ * Writes run the provider's onChange triggers watching the table, except
+ * those of the writing workflow (known from its invocation token).
  */
 
-import { eq, and } from 'drizzle-orm';
+import { eq, and, or, gt, gte, lte, isNull, inArray, asc, sql, type SQL } from 'drizzle-orm';
 import { get, post, put, del, json, errorResponse, parseBody } from '~/server/api/router';
-import { getDb } from '~/server/db';
-import { kvTables, kvItems, kvTablePermissions, providers, namespaces, organizationMembers } from '~/server/db/schema';
+import { getDb, type Database } from '~/server/db';
+import {
+  kvTables,
+  kvItems,
+  kvTablePermissions,
+  providers,
+  namespaces,
+  organizationMembers,
+  workflows,
+} from '~/server/db/schema';
 import { generateUlidUuid } from '~/server/utils/uuid';
-import { setKvValueSchema, setKvPermissionsSchema } from '~/server/api/schemas';
+import {
+  setKvValueSchema,
+  incrementKvValueSchema,
+  getManyKvValuesSchema,
+  setManyKvValuesSchema,
+  deleteManyKvValuesSchema,
+  acquireKvLockSchema,
+  extendKvLockSchema,
+  releaseKvLockSchema,
+  setKvPermissionsSchema,
+} from '~/server/api/schemas';
+import {
+  acquireLock,
+  extendLock,
+  releaseLock,
+  isLatestFencingToken,
+} from '~/server/services/kv-lock-service';
+import { verifyInvocationToken } from '~/server/services/workflow-auth-service';
+import {
+  getChangeTriggers,
+  dispatchKvChanges,
+  type KvChange,
+  type KvChangeTrigger,
+} from '~/server/services/kv-change-service';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 // Helper to check KV provider access
 async function checkKvAccess(userId: string, providerAlias: string): Promise<string | null> {
@@ -35,7 +78,7 @@ async function checkKvAccess(userId: string, providerAlias: string): Promise<str
         eq(organizationMembers.userId, userId)
       )
     )
-    .where(and(eq(providers.alias, providerAlias), eq(providers.type, 'kv')))
+    .where(and(eq(providers.alias, providerAlias), inArray(providers.type, ['kv', 'kvstore'])))
     .limit(1);
 
   return result.length > 0 ? result[0].providerId : null;
@@ -69,6 +112,109 @@ async function getOrCreateTable(providerId: string, tableName: string): Promise<
   return newTable[0].id;
 }
 
+// Helper to get a table's ID without creating it
+async function findTableId(providerId: string, tableName: string): Promise<string | null> {
+  const db = getDb();
+
+  const result = await db
+    .select({ id: kvTables.id })
+    .from(kvTables)
+    .where(and(eq(kvTables.providerId, providerId), eq(kvTables.name, tableName)))
+    .limit(1);
+
+  return result.length > 0 ? result[0].id : null;
+}
+
+// Keys starting with prefix. The lower bound lets Postgres seek in the
+// (table_id, key) index instead of scanning the table.
+function hasPrefix(prefix: string): SQL | undefined {
+  return and(gte(kvItems.key, prefix), sql`starts_with(${kvItems.key}, ${prefix})`);
+}
+
+// Items past their TTL read as absent until the cleanup job deletes them
+function isLive(now: Date): SQL | undefined {
+  return or(isNull(kvItems.expiresAt), gt(kvItems.expiresAt, now));
+}
+
+function isExpired(now: Date): SQL {
+  return sql`(${kvItems.expiresAt} IS NOT NULL AND ${lte(kvItems.expiresAt, now)})`;
+}
+
+function expiresAtFor(now: Date, ttlSeconds?: number): Date | null {
+  return ttlSeconds ? new Date(now.getTime() + ttlSeconds * 1000) : null;
+}
+
+// Live values of keys before a write. Run in the write's transaction: the rows
+// stay locked until it commits, so the old values can't change in between.
+async function lockLiveValues(
+  tx: Pick<Database, 'select'>,
+  tableId: string,
+  keys: string[],
+  now: Date
+): Promise<Map<string, unknown>> {
+  const rows = await tx
+    .select({ key: kvItems.key, value: kvItems.value })
+    .from(kvItems)
+    .where(and(eq(kvItems.tableId, tableId), inArray(kvItems.key, keys), isLive(now)))
+    .for('update');
+
+  return new Map(rows.map((row) => [row.key, row.value]));
+}
+
+// Workflow making the request, from the invocation token it authenticates
+// with. Only trusted for workflows in the KV provider's namespace.
+async function getWriterWorkflowId(request: Request, providerId: string): Promise<string | null> {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return null;
+  }
+
+  let workflowId: string;
+  try {
+    workflowId = await verifyInvocationToken(token);
+  } catch {
+    // Not an invocation token, e.g. a user's session
+    return null;
+  }
+  if (!UUID_REGEX.test(workflowId)) {
+    return null;
+  }
+
+  const db = getDb();
+  const result = await db
+    .select({ id: workflows.id })
+    .from(workflows)
+    .innerJoin(providers, eq(providers.namespaceId, workflows.namespaceId))
+    .where(and(eq(workflows.id, workflowId), eq(providers.id, providerId)))
+    .limit(1);
+
+  return result.length > 0 ? result[0].id : null;
+}
+
+// Deleting an expired item is not a change: it already read as absent
+function deletedChanges(
+  table: string,
+  deleted: Array<{ key: string; value: unknown; expiresAt: Date | null }>,
+  now: Date
+): KvChange[] {
+  return deleted
+    .filter((item) => !item.expiresAt || item.expiresAt > now)
+    .map((item) => ({ table, key: item.key, operation: 'delete', oldValue: item.value, newValue: null }));
+}
+
+// Run the onChange triggers matching the changes a request made
+async function emitChanges(
+  request: Request,
+  providerId: string,
+  changeTriggers: KvChangeTrigger[],
+  changes: KvChange[]
+): Promise<void> {
+  if (changeTriggers.length === 0 || changes.length === 0) {
+    return;
+  }
+  await dispatchKvChanges(changeTriggers, changes, await getWriterWorkflowId(request, providerId));
+}
+
 // List tables for a KV provider
 get('/kv/:provider', async ({ user, params }) => {
   if (!user) return errorResponse('Unauthorized', 401);
@@ -91,7 +237,8 @@ get('/kv/:provider', async ({ user, params }) => {
   });
 });
 
-// List KV pairs in a table
+// List KV pairs in a table, ordered by key. Pass the returned nextCursor as
+// cursor to get the next page.
 get('/kv/:provider/:table', async ({ user, params, query }) => {
   if (!user) return errorResponse('Unauthorized', 401);
 
@@ -101,42 +248,224 @@ get('/kv/:provider/:table', async ({ user, params, query }) => {
   }
 
   const db = getDb();
-  const limit = parseInt(query.get('limit') ?? '100', 10);
-  const offset = parseInt(query.get('offset') ?? '0', 10);
-
-  // Get table ID
-  const tableResult = await db
-    .select({ id: kvTables.id })
-    .from(kvTables)
-    .where(and(eq(kvTables.providerId, providerId), eq(kvTables.name, params.table)))
-    .limit(1);
-
-  if (tableResult.length === 0) {
-    return json({ results: [] });
+  const limit = Math.min(Math.max(parseInt(query.get('limit') ?? '100', 10) || 100, 1), 1000);
+  const prefix = query.get('prefix');
+  const cursor = query.get('cursor');
+  const includeValues = query.get('values') !== 'false';
+
+  const tableId = await findTableId(providerId, params.table);
+  if (!tableId) {
+    return json({ results: [], nextCursor: null });
   }
 
-  const tableId = tableResult[0].id;
+  const conditions = [eq(kvItems.tableId, tableId), isLive(new Date())];
+  if (prefix) conditions.push(hasPrefix(prefix));
+  if (cursor) conditions.push(gt(kvItems.key, cursor));
 
+  // Fetch one extra row to know whether there is a next page
   const pairs = await db
     .select({
       key: kvItems.key,
-      value: kvItems.value,
+      value: includeValues ? kvItems.value : sql<null>`null`,
+      version: kvItems.version,
+      schemaVersion: kvItems.schemaVersion,
+      expiresAt: kvItems.expiresAt,
       createdAt: kvItems.createdAt,
       updatedAt: kvItems.updatedAt,
     })
     .from(kvItems)
-    .where(eq(kvItems.tableId, tableId))
-    .limit(limit)
-    .offset(offset);
+    .where(and(...conditions))
+    .orderBy(asc(kvItems.key))
+    .limit(limit + 1);
+
+  const page = pairs.slice(0, limit);
 
   return json({
-    results: pairs.map((p) => ({
+    results: page.map((p) => ({
       key: p.key,
-      value: p.value,
+      ...(includeValues && { value: p.value }),
+      version: p.version,
+      schemaVersion: p.schemaVersion,
+      expiresAt: p.expiresAt?.toISOString() ?? null,
       createdAt: p.createdAt?.toISOString(),
       updatedAt: p.updatedAt?.toISOString(),
     })),
+    nextCursor: pairs.length > limit ? page[page.length - 1].key : null,
+  });
+});
+
+// Get several values in one request; missing and expired keys are left out
+post('/kv/:provider/:table/get-many', async ({ user, params, request }) => {
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const providerId = await checkKvAccess(user.id, params.provider);
+  if (!providerId) {
+    return errorResponse('KV provider not found', 404);
+  }
+
+  const parsed = await parseBody(request, getManyKvValuesSchema);
+  if ('error' in parsed) return parsed.error;
+
+  const tableId = await findTableId(providerId, params.table);
+  if (!tableId) {
+    return json({ results: [] });
+  }
+
+  const db = getDb();
+  const items = await db
+    .select({
+      key: kvItems.key,
+      value: kvItems.value,
+      version: kvItems.version,
+      schemaVersion: kvItems.schemaVersion,
+      expiresAt: kvItems.expiresAt,
+    })
+    .from(kvItems)
+    .where(
+      and(eq(kvItems.tableId, tableId), inArray(kvItems.key, parsed.data.keys), isLive(new Date()))
+    );
+
+  return json({
+    results: items.map((item) => ({
+      key: item.key,
+      value: item.value,
+      version: item.version,
+      schemaVersion: item.schemaVersion,
+      expiresAt: item.expiresAt?.toISOString() ?? null,
+    })),
+  });
+});
+
+// Set several values in one statement
+post('/kv/:provider/:table/set-many', async ({ user, params, request }) => {
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const providerId = await checkKvAccess(user.id, params.provider);
+  if (!providerId) {
+    return errorResponse('KV provider not found', 404);
+  }
+
+  const parsed = await parseBody(request, setManyKvValuesSchema);
+  if ('error' in parsed) return parsed.error;
+
+  const db = getDb();
+  const tableId = await getOrCreateTable(providerId, params.table);
+  const now = new Date();
+
+  // Postgres rejects an upsert that touches the same row twice, so the last
+  // entry for a key wins
+  const entries = new Map(parsed.data.entries.map((entry) => [entry.key, entry]));
+  const changeTriggers = await getChangeTriggers(providerId, params.table);
+
+  const { fencingToken } = parsed.data;
+  const { before, staleToken } = await db.transaction(async (tx) => {
+    if (fencingToken !== undefined && !(await isLatestFencingToken(tx, providerId, fencingToken))) {
+      return { before: new Map<string, unknown>(), staleToken: true };
+    }
+
+    const oldValues =
+      changeTriggers.length > 0
+        ? await lockLiveValues(tx, tableId, [...entries.keys()], now)
+        : new Map<string, unknown>();
+
+    await tx
+      .insert(kvItems)
+      .values(
+        [...entries.values()].map((entry) => ({
+          id: generateUlidUuid(),
+          tableId,
+          key: entry.key,
+          value: entry.value,
+          expiresAt: expiresAtFor(now, entry.ttlSeconds),
+          schemaVersion: entry.schemaVersion ?? null,
+        }))
+      )
+      .onConflictDoUpdate({
+        target: [kvItems.tableId, kvItems.key],
+        set: {
+          value: sql`excluded.value`,
+          version: sql`${kvItems.version} + 1`,
+          expiresAt: sql`excluded.expires_at`,
+          schemaVersion: sql`excluded.schema_version`,
+          updatedAt: now,
+        },
+      });
+
+    return { before: oldValues, staleToken: false };
+  });
+
+  if (staleToken) {
+    return errorResponse('Stale fencing token', 409);
+  }
+
+  await emitChanges(
+    request,
+    providerId,
+    changeTriggers,
+    [...entries.values()].map((entry) => ({
+      table: params.table,
+      key: entry.key,
+      operation: 'set',
+      oldValue: before.get(entry.key) ?? null,
+      newValue: entry.value,
+    }))
+  );
+
+  return json({ success: true, count: entries.size });
+});
+
+// Delete several keys, or every key with a prefix
+post('/kv/:provider/:table/delete-many', async ({ user, params, request }) => {
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const providerId = await checkKvAccess(user.id, params.provider);
+  if (!providerId) {
+    return errorResponse('KV provider not found', 404);
+  }
+
+  const parsed = await parseBody(request, deleteManyKvValuesSchema);
+  if ('error' in parsed) return parsed.error;
+
+  const tableId = await findTableId(providerId, params.table);
+  if (!tableId) {
+    return json({ success: true, deleted: 0 });
+  }
+
+  const { keys, prefix, fencingToken } = parsed.data;
+  const db = getDb();
+  const changeTriggers = await getChangeTriggers(providerId, params.table);
+  const now = new Date();
+
+  const deleted = await db.transaction(async (tx) => {
+    if (fencingToken !== undefined && !(await isLatestFencingToken(tx, providerId, fencingToken))) {
+      return null;
+    }
+
+    return tx
+      .delete(kvItems)
+      .where(
+        and(eq(kvItems.tableId, tableId), keys ? inArray(kvItems.key, keys) : hasPrefix(prefix!))
+      )
+      .returning({
+        key: kvItems.key,
+        // Old values are only needed for change triggers
+        value: changeTriggers.length > 0 ? kvItems.value : sql<null>`null`,
+        expiresAt: kvItems.expiresAt,
+      });
   });
+
+  if (!deleted) {
+    return errorResponse('Stale fencing token', 409);
+  }
+
+  await emitChanges(
+    request,
+    providerId,
+    changeTriggers,
+    deletedChanges(params.table, deleted, now)
+  );
+
+  return json({ success: true, deleted: deleted.length });
 });
 
 // Get single value
@@ -164,9 +493,15 @@ get('/kv/:provider/:table/:key', async ({ user, params }) => {
   const tableId = tableResult[0].id;
 
   const result = await db
-    .select({ value: kvItems.value, updatedAt: kvItems.updatedAt })
+    .select({
+      value: kvItems.value,
+      version: kvItems.version,
+      schemaVersion: kvItems.schemaVersion,
+      expiresAt: kvItems.expiresAt,
+      updatedAt: kvItems.updatedAt,
+    })
     .from(kvItems)
-    .where(and(eq(kvItems.tableId, tableId), eq(kvItems.key, params.key)))
+    .where(and(eq(kvItems.tableId, tableId), eq(kvItems.key, params.key), isLive(new Date())))
     .limit(1);
 
   if (result.length === 0) {
@@ -176,6 +511,9 @@ get('/kv/:provider/:table/:key', async ({ user, params }) => {
   return json({
     key: params.key,
     value: result[0].value,
+    version: result[0].version,
+    schemaVersion: result[0].schemaVersion,
+    expiresAt: result[0].expiresAt?.toISOString() ?? null,
     updatedAt: result[0].updatedAt?.toISOString(),
   });
 });
@@ -192,40 +530,157 @@ put('/kv/:provider/:table/:key', async ({ user, params, request }) => {
   const parsed = await parseBody(request, setKvValueSchema);
   if ('error' in parsed) return parsed.error;
 
-  const { value } = parsed.data;
+  const { value, ttlSeconds, ifVersion, ifAbsent, fencingToken, schemaVersion, migration } =
+    parsed.data;
   const db = getDb();
 
   // Get or create table
   const tableId = await getOrCreateTable(providerId, params.table);
 
-  // Check if key exists
-  const existing = await db
-    .select({ id: kvItems.id })
-    .from(kvItems)
-    .where(and(eq(kvItems.tableId, tableId), eq(kvItems.key, params.key)))
-    .limit(1);
+  const now = new Date();
+  const expiresAt = expiresAtFor(now, ttlSeconds);
+  // Untyped writes clear the schema version so typed tables validate the value again
+  const stored = { value, expiresAt, schemaVersion: schemaVersion ?? null };
+
+  const changeTriggers = migration ? [] : await getChangeTriggers(providerId, params.table);
+
+  const { written, oldValue, staleToken } = await db.transaction(async (tx) => {
+    // Writes guarded by a lock are rejected once the lock was acquired again
+    if (fencingToken !== undefined && !(await isLatestFencingToken(tx, providerId, fencingToken))) {
+      return { written: undefined, oldValue: null, staleToken: true };
+    }
+
+    const before =
+      changeTriggers.length > 0
+        ? await lockLiveValues(tx, tableId, [params.key], now)
+        : new Map<string, unknown>();
+
+    // Compare-and-swap: only overwrite the version the caller read
+    if (ifVersion !== undefined) {
+      const updated = await tx
+        .update(kvItems)
+        .set({ ...stored, version: sql`${kvItems.version} + 1`, updatedAt: now })
+        .where(
+          and(
+            eq(kvItems.tableId, tableId),
+            eq(kvItems.key, params.key),
+            eq(kvItems.version, ifVersion),
+            isLive(now)
+          )
+        )
+        .returning({ version: kvItems.version });
+
+      return { written: updated[0], oldValue: before.get(params.key) ?? null, staleToken: false };
+    }
+
+    // Single upsert so concurrent writers can't both insert. With ifAbsent, an
+    // existing item is only replaced when it has expired.
+    const upserted = await tx
+      .insert(kvItems)
+      .values({
+        id: generateUlidUuid(),
+        tableId,
+        key: params.key,
+        ...stored,
+      })
+      .onConflictDoUpdate({
+        target: [kvItems.tableId, kvItems.key],
+        set: { ...stored, version: sql`${kvItems.version} + 1`, updatedAt: now },
+        setWhere: ifAbsent ? isExpired(now) : undefined,
+      })
+      .returning({ version: kvItems.version });
+
+    return { written: upserted[0], oldValue: before.get(params.key) ?? null, staleToken: false };
+  });
 
-  if (existing.length > 0) {
-    // Update
-    await db
-      .update(kvItems)
-      .set({ value, updatedAt: new Date() })
-      .where(eq(kvItems.id, existing[0].id));
-  } else {
-    // Insert
-    await db.insert(kvItems).values({
-      id: generateUlidUuid(),
-      tableId,
-      key: params.key,
-      value,
-    });
+  if (staleToken) {
+    return errorResponse('Stale fencing token', 409);
+  }
+  if (!written) {
+    return errorResponse(ifVersion !== undefined ? 'Version mismatch' : 'Key already exists', 409);
   }
 
-  return json({ success: true });
+  await emitChanges(request, providerId, changeTriggers, [
+    { table: params.table, key: params.key, operation: 'set', oldValue, newValue: value },
+  ]);
+
+  return json({ success: true, version: written.version });
+});
+
+// Increment a numeric value, creating it when missing or expired
+post('/kv/:provider/:table/:key/increment', async ({ user, params, request }) => {
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const providerId = await checkKvAccess(user.id, params.provider);
+  if (!providerId) {
+    return errorResponse('KV provider not found', 404);
+  }
+
+  const parsed = await parseBody(request, incrementKvValueSchema);
+  if ('error' in parsed) return parsed.error;
+
+  const { by, ttlSeconds, fencingToken } = parsed.data;
+  const db = getDb();
+
+  const tableId = await getOrCreateTable(providerId, params.table);
+
+  const now = new Date();
+  const expired = isExpired(now);
+
+  const changeTriggers = await getChangeTriggers(providerId, params.table);
+
+  const { result, oldValue, staleToken } = await db.transaction(async (tx) => {
+    if (fencingToken !== undefined && !(await isLatestFencingToken(tx, providerId, fencingToken))) {
+      return { result: undefined, oldValue: null, staleToken: true };
+    }
+
+    const before =
+      changeTriggers.length > 0
+        ? await lockLiveValues(tx, tableId, [params.key], now)
+        : new Map<string, unknown>();
+
+    // The TTL only applies when the counter is (re)created, so a rate-limit
+    // window doesn't slide on every increment
+    const incremented = await tx
+      .insert(kvItems)
+      .values({
+        id: generateUlidUuid(),
+        tableId,
+        key: params.key,
+        value: by,
+        expiresAt: expiresAtFor(now, ttlSeconds),
+      })
+      .onConflictDoUpdate({
+        target: [kvItems.tableId, kvItems.key],
+        set: {
+          value: sql`CASE WHEN ${expired} THEN excluded.value ELSE to_jsonb((${kvItems.value} #>> '{}')::numeric + ${by}::numeric) END`,
+          version: sql`${kvItems.version} + 1`,
+          expiresAt: sql`CASE WHEN ${expired} THEN excluded.expires_at ELSE ${kvItems.expiresAt} END`,
+          updatedAt: now,
+        },
+        setWhere: sql`${expired} OR jsonb_typeof(${kvItems.value}) = 'number'`,
+      })
+      .returning({ value: kvItems.value, version: kvItems.version });
+
+    return { result: incremented[0], oldValue: before.get(params.key) ?? null, staleToken: false };
+  });
+
+  if (staleToken) {
+    return errorResponse('Stale fencing token', 409);
+  }
+  if (!result) {
+    return errorResponse('Value is not a number', 409);
+  }
+
+  await emitChanges(request, providerId, changeTriggers, [
+    { table: params.table, key: params.key, operation: 'set', oldValue, newValue: result.value },
+  ]);
+
+  return json({ key: params.key, value: result.value, version: result.version });
 });
 
-// Delete value
-del('/kv/:provider/:table/:key', async ({ user, params }) => {
+// Delete value. A lock's fencing token comes in the query, as DELETE has no body
+del('/kv/:provider/:table/:key', async ({ user, params, query, request }) => {
   if (!user) return errorResponse('Unauthorized', 401);
 
   const providerId = await checkKvAccess(user.id, params.provider);
@@ -233,6 +688,12 @@ del('/kv/:provider/:table/:key', async ({ user, params }) => {
     return errorResponse('KV provider not found', 404);
   }
 
+  const fencingTokenParam = query.get('fencingToken');
+  const fencingToken = fencingTokenParam === null ? undefined : Number(fencingTokenParam);
+  if (fencingToken !== undefined && !(Number.isInteger(fencingToken) && fencingToken > 0)) {
+    return errorResponse('fencingToken must be a positive integer', 400);
+  }
+
   const db = getDb();
 
   // Get table ID
@@ -247,10 +708,29 @@ del('/kv/:provider/:table/:key', async ({ user, params }) => {
   }
 
   const tableId = tableResult[0].id;
+  const changeTriggers = await getChangeTriggers(providerId, params.table);
 
-  await db
-    .delete(kvItems)
-    .where(and(eq(kvItems.tableId, tableId), eq(kvItems.key, params.key)));
+  const deleted = await db.transaction(async (tx) => {
+    if (fencingToken !== undefined && !(await isLatestFencingToken(tx, providerId, fencingToken))) {
+      return null;
+    }
+
+    return tx
+      .delete(kvItems)
+      .where(and(eq(kvItems.tableId, tableId), eq(kvItems.key, params.key)))
+      .returning({ key: kvItems.key, value: kvItems.value, expiresAt: kvItems.expiresAt });
+  });
+
+  if (!deleted) {
+    return errorResponse('Stale fencing token', 409);
+  }
+
+  await emitChanges(
+    request,
+    providerId,
+    changeTriggers,
+    deletedChanges(params.table, deleted, new Date())
+  );
 
   return json({ success: true });
 });
@@ -373,3 +853,70 @@ del('/kv/:provider/permissions/:table/:workflowId', async ({ user, params }) =>
 
   return json({ success: true });
 });
+
+// Acquire a lock lease. Answers 409 with retryAfterMs while another lease holds it.
+post('/kv/:provider/locks/:name', async ({ user, params, request }) => {
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const providerId = await checkKvAccess(user.id, params.provider);
+  if (!providerId) {
+    return errorResponse('KV provider not found', 404);
+  }
+
+  const parsed = await parseBody(request, acquireKvLockSchema);
+  if ('error' in parsed) return parsed.error;
+
+  const result = await acquireLock(providerId, params.name, parsed.data.ttlMs);
+  if (!result.acquired) {
+    return json({ error: 'Lock is held', retryAfterMs: result.retryAfterMs }, 409);
+  }
+
+  return json({
+    name: params.name,
+    leaseId: result.leaseId,
+    fencingToken: result.fencingToken,
+    expiresAt: result.expiresAt.toISOString(),
+  });
+});
+
+// Extend a lease that is still held
+post('/kv/:provider/locks/:name/extend', async ({ user, params, request }) => {
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const providerId = await checkKvAccess(user.id, params.provider);
+  if (!providerId) {
+    return errorResponse('KV provider not found', 404);
+  }
+
+  const parsed = await parseBody(request, extendKvLockSchema);
+  if ('error' in parsed) return parsed.error;
+
+  const expiresAt = await extendLock(
+    providerId,
+    params.name,
+    parsed.data.leaseId,
+    parsed.data.ttlMs
+  );
+  if (!expiresAt) {
+    return errorResponse('Lease expired or was released', 409);
+  }
+
+  return json({ expiresAt: expiresAt.toISOString() });
+});
+
+// Release a lease; releasing a lease that already expired is not an error
+post('/kv/:provider/locks/:name/release', async ({ user, params, request }) => {
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const providerId = await checkKvAccess(user.id, params.provider);
+  if (!providerId) {
+    return errorResponse('KV provider not found', 404);
+  }
+
+  const parsed = await parseBody(request, releaseKvLockSchema);
+  if ('error' in parsed) return parsed.error;
+
+  const released = await releaseLock(providerId, params.name, parsed.data.leaseId);
+
+  return json({ released });
+});
@@ -2,13 +2,14 @@
  * Runtime Routes
  *
  * GET /api/runtimes - List runtimes
+ * GET /api/runtimes/default?sdkVersion= - Whether a default runtime can serve an SDK version
  * GET /api/runtimes/:id - Get runtime
  * POST /api/runtimes - Create runtime
  */
 
 import { get, post, json, errorResponse, parseBody } from '~/server/api/router';
 import * as runtimeService from '~/server/services/runtime-service';
-import { getDefaultRuntimeId } from '~/server/services/default-runtime';
+import { getDefaultRuntimeId, getDefaultRuntimeVersionStatus } from '~/server/services/default-runtime';
 import { createRuntimeSchema } from '~/server/api/schemas';
 
 // List runtimes
@@ -41,6 +42,19 @@ get('/runtimes', async (ctx) => {
   });
 });
 
+// Default runtime status for an SDK version (registered before /runtimes/:runtimeId)
+get('/runtimes/default', async (ctx) => {
+  const { user, query } = ctx;
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const sdkVersion = query.get('sdkVersion');
+  if (!sdkVersion) {
+    return errorResponse('sdkVersion is required', 400);
+  }
+
+  return json(await getDefaultRuntimeVersionStatus(sdkVersion));
+});
+
 // Get runtime
 get('/runtimes/:runtimeId', async (ctx) => {
   const { user, params } = ctx;
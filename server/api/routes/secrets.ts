@@ -2,6 +2,7 @@
  * Secret Routes
  *
  * GET /api/secrets - List secrets (names only, no values)
+ * GET /api/secrets/:secretId - Get a secret's keys (value with ?reveal=true)
  * POST /api/secrets - Create/update secret
  * DELETE /api/secrets/:name - Delete secret
  */
@@ -11,9 +12,36 @@ import { get, post, del, json, errorResponse, parseBody } from '~/server/api/rou
 import { getDb } from '~/server/db';
 import { secrets, namespaces, organizationMembers } from '~/server/db/schema';
 import { generateUlidUuid } from '~/server/utils/uuid';
-import { encryptSecret } from '~/server/utils/encryption';
+import { encryptSecret, decryptSecret } from '~/server/utils/encryption';
 import { createSecretSchema } from '~/server/api/schemas';
 
+/**
+ * Parse a secret value that holds a JSON object of keys (as stored for
+ * `Secret` providers), or null for plain string values
+ */
+function parseSecretObject(value: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Merge keys into a secret object; keys set to null are removed
+ */
+function mergeSecretObject(
+  current: Record<string, unknown>,
+  updates: Record<string, unknown>
+): Record<string, unknown> {
+  const merged = { ...current, ...updates };
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === null) delete merged[key];
+  }
+  return merged;
+}
+
 // List secrets (names only)
 get('/secrets', async (ctx) => {
   const { user, query } = ctx;
@@ -41,6 +69,12 @@ get('/secrets', async (ctx) => {
     return errorResponse('Access denied', 403);
   }
 
+  const conditions = [eq(secrets.namespaceId, namespaceId)];
+  const provider = query.get('provider');
+  if (provider) conditions.push(eq(secrets.provider, provider));
+  const name = query.get('name');
+  if (name) conditions.push(eq(secrets.name, name));
+
   const result = await db
     .select({
       id: secrets.id,
@@ -50,7 +84,7 @@ get('/secrets', async (ctx) => {
       updatedAt: secrets.updatedAt,
     })
     .from(secrets)
-    .where(eq(secrets.namespaceId, namespaceId));
+    .where(and(...conditions));
 
   return json({
     results: result.map((s) => ({
@@ -63,6 +97,61 @@ get('/secrets', async (ctx) => {
   });
 });
 
+// Get a secret's keys; the value itself only with ?reveal=true for organization owners and admins
+get('/secrets/:secretId', async (ctx) => {
+  const { user, params, query } = ctx;
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const db = getDb();
+
+  const [secret] = await db
+    .select()
+    .from(secrets)
+    .where(eq(secrets.id, params.secretId))
+    .limit(1);
+
+  if (!secret) {
+    return errorResponse('Secret not found', 404);
+  }
+
+  // Check access, keeping the member's role for the reveal check
+  const [membership] = await db
+    .select({ role: organizationMembers.role })
+    .from(namespaces)
+    .innerJoin(
+      organizationMembers,
+      eq(namespaces.organizationOwnerId, organizationMembers.organizationId)
+    )
+    .where(
+      and(eq(namespaces.id, secret.namespaceId), eq(organizationMembers.userId, user.id))
+    )
+    .limit(1);
+
+  if (!membership && !user.isAdmin) {
+    return errorResponse('Access denied', 403);
+  }
+
+  const reveal = query.get('reveal') === 'true';
+  const canReveal = user.isAdmin || membership?.role === 'OWNER' || membership?.role === 'ADMIN';
+  if (reveal && !canReveal) {
+    return errorResponse('Revealing secret values requires the owner or admin role', 403);
+  }
+
+  const value = decryptSecret(secret.encryptedValue);
+  const secretObject = parseSecretObject(value);
+
+  return json({
+    id: secret.id,
+    namespaceId: secret.namespaceId,
+    name: secret.name,
+    provider: secret.provider,
+    keys: secretObject ? Object.keys(secretObject) : null,
+    createdAt: secret.createdAt.toISOString(),
+    updatedAt: secret.updatedAt.toISOString(),
+    ...(reveal ? { value } : {}),
+  });
+});
+
 // Create or update secret
 post('/secrets', async (ctx) => {
   const { user, request } = ctx;
@@ -71,7 +160,7 @@ post('/secrets', async (ctx) => {
   const parsed = await parseBody(request, createSecretSchema);
   if ('error' in parsed) return parsed.error;
 
-  const { namespaceId, name, value, provider } = parsed.data;
+  const { namespaceId, name, value, provider = 'custom', merge } = parsed.data;
 
   const db = getDb();
 
@@ -90,21 +179,39 @@ post('/secrets', async (ctx) => {
     return errorResponse('Access denied', 403);
   }
 
-  const encryptedValue = encryptSecret(value);
+  // With merge, the value is a JSON object of keys to add to the stored object
+  const updates = merge ? parseSecretObject(value) : null;
+  if (merge && !updates) {
+    return errorResponse('merge requires a JSON object value', 400);
+  }
 
   // Try to update existing secret
   const [existing] = await db
     .select()
     .from(secrets)
-    .where(and(eq(secrets.namespaceId, namespaceId), eq(secrets.name, name)))
+    .where(
+      and(
+        eq(secrets.namespaceId, namespaceId),
+        eq(secrets.provider, provider),
+        eq(secrets.name, name)
+      )
+    )
     .limit(1);
 
   if (existing) {
+    let storedValue = value;
+    if (updates) {
+      const current = parseSecretObject(decryptSecret(existing.encryptedValue));
+      if (!current) {
+        return errorResponse('merge requires the stored secret to be a JSON object', 400);
+      }
+      storedValue = JSON.stringify(mergeSecretObject(current, updates));
+    }
+
     await db
       .update(secrets)
       .set({
-        encryptedValue,
-        provider: provider ?? existing.provider,
+        encryptedValue: encryptSecret(storedValue),
         updatedAt: new Date(),
       })
       .where(eq(secrets.id, existing.id));
@@ -112,11 +219,15 @@ post('/secrets', async (ctx) => {
     return json({
       id: existing.id,
       name: existing.name,
-      provider: provider ?? existing.provider,
+      provider: existing.provider,
       updated: true,
     });
   }
 
+  const encryptedValue = encryptSecret(
+    updates ? JSON.stringify(mergeSecretObject({}, updates)) : value
+  );
+
   // Create new secret
   const [secret] = await db
     .insert(secrets)
@@ -124,7 +235,7 @@ post('/secrets', async (ctx) => {
       id: generateUlidUuid(),
       namespaceId,
       name,
-      provider: provider ?? 'custom',
+      provider,
       encryptedValue,
     })
     .returning();
@@ -18,20 +18,32 @@ import {
   workflows,
   namespaces,
 } from '~/server/db/schema';
-import { createExecution } from '~/server/services/execution-service';
 import { executeWebhookTrigger } from '~/server/services/trigger-execution-service';
+import { getTriggerLifecycleState } from '~/server/services/trigger-service';
+import {
+  createWebhookExecution,
+  parseIdempotencyPolicy,
+  resolveIdempotencyKey,
+} from '~/server/services/webhook-idempotency-service';
 import { checkExecutionLimit } from '~/server/services/billing-service';
 import { centrifugoService } from '~/server/services/centrifugo-service';
 import { generateInvocationToken } from '~/server/services/workflow-auth-service';
 import { logger } from '~/server/utils/logger';
 import { decryptSecret } from '~/server/utils/encryption';
-import { getProviderDefinition, type TriggerInfo as SdkTriggerInfo } from 'floww/providers/server';
+import {
+  getProviderDefinition,
+  type TriggerInfo as SdkTriggerInfo,
+  type WebhookProcessor,
+  type WebhookRequest,
+} from 'floww/providers/server';
 
 interface WebhookData {
   path: string;
   method: string;
   headers: Record<string, string>;
   body: unknown;
+  /** Unparsed body, kept for signature verification */
+  rawBody: string;
   query: Record<string, string>;
 }
 
@@ -65,23 +77,22 @@ export async function handleWebhook(request: Request, path: string): Promise<Res
 
   const { webhook, trigger, provider, workflow } = webhookResults[0];
 
+  // Read the raw body once: signatures are computed over the exact bytes sent,
+  // so they can't be checked against re-serialized JSON
+  const rawBody = await request.text().catch(() => '');
+
   // Parse request body
   let webhookBody: unknown = {};
   const contentType = request.headers.get('content-type') ?? '';
 
   if (contentType.includes('application/json')) {
     try {
-      webhookBody = await request.json();
+      webhookBody = JSON.parse(rawBody);
     } catch {
       webhookBody = {};
     }
   } else if (contentType.includes('application/x-www-form-urlencoded')) {
-    try {
-      const formData = await request.formData();
-      webhookBody = Object.fromEntries(formData.entries());
-    } catch {
-      webhookBody = {};
-    }
+    webhookBody = Object.fromEntries(new URLSearchParams(rawBody).entries());
   }
 
   // Build webhook data
@@ -90,6 +101,7 @@ export async function handleWebhook(request: Request, path: string): Promise<Res
     method,
     headers: Object.fromEntries(request.headers.entries()),
     body: webhookBody,
+    rawBody,
     query: Object.fromEntries(new URL(request.url).searchParams.entries()),
   };
 
@@ -118,6 +130,23 @@ function getProviderSecrets(encryptedConfig: string): Record<string, string> {
   }
 }
 
+/**
+ * Delivery ID of a webhook as extracted by the provider (e.g., X-GitHub-Delivery)
+ */
+function getDeliveryId(
+  webhookProcessor: WebhookProcessor | undefined,
+  req: WebhookRequest
+): string | undefined {
+  try {
+    return webhookProcessor?.getIdempotencyKey?.(req) || undefined;
+  } catch (error) {
+    logger.warn('Failed to extract webhook delivery ID', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
 async function handleProviderWebhook(
   webhook: typeof incomingWebhooks.$inferSelect,
   provider: typeof providers.$inferSelect,
@@ -144,6 +173,7 @@ async function handleProviderWebhook(
           body: webhookData.body,
           method: webhookData.method,
           path: webhookData.path,
+          rawBody: webhookData.rawBody,
         },
         secrets
       );
@@ -154,11 +184,22 @@ async function handleProviderWebhook(
         });
         return json(validationResult.response, validationResult.statusCode ?? 200);
       }
+
+      if (!validationResult.valid) {
+        logger.warn('Rejected webhook with invalid signature', {
+          webhookId: webhook.id,
+          providerType: provider.type,
+        });
+        return json({ error: 'Invalid webhook signature' }, 401);
+      }
     } catch (error) {
+      // A delivery that can't be verified is rejected, not processed unverified
       logger.error('Webhook validation failed', {
+        webhookId: webhook.id,
         providerType: provider.type,
         error: error instanceof Error ? error.message : String(error),
       });
+      return json({ error: 'Invalid webhook signature' }, 401);
     }
   }
 
@@ -184,6 +225,7 @@ async function handleProviderWebhook(
   // Use SDK webhook processor to filter matching triggers
   let matchedTriggerIds: Set<string>;
   let eventPayloads: Map<string, Record<string, unknown>>;
+  let matchDeliveryIds = new Map<string, string>();
 
   if (providerDef?.webhookProcessor?.processWebhook) {
     // Convert triggers to SDK format
@@ -191,7 +233,7 @@ async function handleProviderWebhook(
       id: trigger.id,
       triggerType: trigger.triggerType,
       input: (trigger.input as Record<string, unknown>) ?? {},
-      state: (trigger.state as Record<string, unknown>) ?? {},
+      state: getTriggerLifecycleState(trigger),
     }));
 
     try {
@@ -201,6 +243,7 @@ async function handleProviderWebhook(
           body: webhookData.body,
           method: webhookData.method,
           path: webhookData.path,
+          rawBody: webhookData.rawBody,
         },
         sdkTriggers,
         secrets
@@ -208,6 +251,9 @@ async function handleProviderWebhook(
 
       matchedTriggerIds = new Set(matches.map((m) => m.triggerId));
       eventPayloads = new Map(matches.map((m) => [m.triggerId, m.event]));
+      matchDeliveryIds = new Map(
+        matches.flatMap((m) => (m.idempotencyKey ? [[m.triggerId, m.idempotencyKey] as const] : []))
+      );
 
       logger.info('SDK webhook processor matched triggers', {
         providerType: provider.type,
@@ -233,8 +279,21 @@ async function handleProviderWebhook(
     return json({ message: 'No matching triggers for this event' }, 200);
   }
 
+  const deliveryId = getDeliveryId(providerDef?.webhookProcessor, {
+    headers: webhookData.headers,
+    body: webhookData.body,
+    method: webhookData.method,
+    path: webhookData.path,
+    rawBody: webhookData.rawBody,
+  });
+
   // Execute matched triggers
-  const results: Array<{ triggerId: string; executionId: string; status: string }> = [];
+  const results: Array<{
+    triggerId: string;
+    executionId: string;
+    status: string;
+    duplicateOfExecutionId?: string;
+  }> = [];
 
   for (const { trigger, workflow } of triggerResults) {
     // Skip triggers that didn't match
@@ -258,31 +317,45 @@ async function handleProviderWebhook(
         }
       }
 
-      // Create execution record
-      const execution = await createExecution({
+      // Use normalized event from SDK processor if available
+      const eventData = eventPayloads.get(trigger.id) ?? webhookData.body;
+      const event = {
+        path: webhookData.path,
+        method: webhookData.method,
+        headers: webhookData.headers,
+        body: eventData,
+        query: webhookData.query,
+      };
+
+      // Create execution record (recorded as DUPLICATE for a repeated delivery)
+      const idempotencyPolicy = parseIdempotencyPolicy(trigger.options);
+      const execution = await createWebhookExecution({
         workflowId: workflow.id,
         triggerId: trigger.id,
+        idempotencyKey: resolveIdempotencyKey(
+          idempotencyPolicy,
+          event,
+          matchDeliveryIds.get(trigger.id) ?? deliveryId
+        ),
+        windowMs: idempotencyPolicy.windowMs,
       });
 
-      // Use normalized event from SDK processor if available
-      const eventData = eventPayloads.get(trigger.id) ?? webhookData.body;
+      if (execution.duplicateOfExecutionId) {
+        results.push({
+          triggerId: trigger.id,
+          executionId: execution.executionId,
+          status: 'duplicate',
+          duplicateOfExecutionId: execution.duplicateOfExecutionId,
+        });
+        continue;
+      }
 
       // Execute the trigger
-      const result = await executeWebhookTrigger(
-        trigger.id,
-        {
-          path: webhookData.path,
-          method: webhookData.method,
-          headers: webhookData.headers,
-          body: eventData,
-          query: webhookData.query,
-        },
-        execution.id
-      );
+      const result = await executeWebhookTrigger(trigger.id, event, execution.executionId);
 
       results.push({
         triggerId: trigger.id,
-        executionId: execution.id,
+        executionId: execution.executionId,
         status: result ? 'executed' : 'NO_DEPLOYMENT',
       });
     } catch (error) {
@@ -298,6 +371,49 @@ async function handleProviderWebhook(
   });
 }
 
+/**
+ * Run the provider's webhook validation for a trigger-owned webhook.
+ * Providers that sign their deliveries (GitHub, GitLab) keep the per-hook secret in the trigger's
+ * lifecycle state, stored encrypted.
+ */
+async function validateTriggerWebhook(
+  trigger: typeof triggers.$inferSelect,
+  provider: typeof providers.$inferSelect,
+  webhookData: WebhookData
+): Promise<boolean> {
+  const webhookProcessor = provider ? getProviderDefinition(provider.type)?.webhookProcessor : undefined;
+  if (!webhookProcessor?.validateWebhook) {
+    return true;
+  }
+
+  try {
+    const validationResult = await webhookProcessor.validateWebhook(
+      {
+        headers: webhookData.headers,
+        body: webhookData.body,
+        method: webhookData.method,
+        path: webhookData.path,
+        rawBody: webhookData.rawBody,
+        trigger: {
+          id: trigger.id,
+          triggerType: trigger.triggerType,
+          input: (trigger.input as Record<string, unknown>) ?? {},
+          state: getTriggerLifecycleState(trigger),
+        },
+      },
+      getProviderSecrets(provider.encryptedConfig)
+    );
+    return validationResult.valid;
+  } catch (error) {
+    logger.error('Webhook validation failed', {
+      triggerId: trigger.id,
+      providerType: provider.type,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
 async function handleTriggerWebhook(
   webhook: typeof incomingWebhooks.$inferSelect,
   trigger: typeof triggers.$inferSelect,
@@ -312,6 +428,20 @@ async function handleTriggerWebhook(
     workflowId: workflow.id,
   });
 
+  const [provider] = await db
+    .select()
+    .from(providers)
+    .where(eq(providers.id, trigger.providerId))
+    .limit(1);
+
+  if (!(await validateTriggerWebhook(trigger, provider, webhookData))) {
+    logger.warn('Rejected webhook with invalid signature', {
+      webhookId: webhook.id,
+      triggerId: trigger.id,
+    });
+    return json({ error: 'Invalid webhook signature' }, 401);
+  }
+
   // Check execution limit
   const namespaceResult = await db
     .select({ organizationId: namespaces.organizationOwnerId })
@@ -333,12 +463,44 @@ async function handleTriggerWebhook(
     }
   }
 
-  // Create execution record
-  const execution = await createExecution({
+  const event = {
+    path: webhookData.path,
+    method: webhookData.method,
+    headers: webhookData.headers,
+    body: webhookData.body,
+    query: webhookData.query,
+  };
+
+  // Create execution record (recorded as DUPLICATE for a repeated delivery)
+  const idempotencyPolicy = parseIdempotencyPolicy(trigger.options);
+  const deliveryId = getDeliveryId(
+    provider ? getProviderDefinition(provider.type)?.webhookProcessor : undefined,
+    {
+      headers: webhookData.headers,
+      body: webhookData.body,
+      method: webhookData.method,
+      path: webhookData.path,
+      rawBody: webhookData.rawBody,
+    }
+  );
+  const execution = await createWebhookExecution({
     workflowId: workflow.id,
     triggerId: trigger.id,
+    idempotencyKey: resolveIdempotencyKey(idempotencyPolicy, event, deliveryId),
+    windowMs: idempotencyPolicy.windowMs,
   });
 
+  // Acknowledge duplicates so the sender stops redelivering, without running them again
+  if (execution.duplicateOfExecutionId) {
+    return json({
+      message: 'Duplicate delivery, not executed.',
+      webhookId: webhook.id,
+      executionId: execution.executionId,
+      status: 'duplicate',
+      duplicateOfExecutionId: execution.duplicateOfExecutionId,
+    });
+  }
+
   // Publish to dev channel for local development
   try {
     const authToken = await generateInvocationToken(workflow.id, workflow.namespaceId, undefined);
@@ -360,23 +522,13 @@ async function handleTriggerWebhook(
   }
 
   // Execute the trigger
-  const result = await executeWebhookTrigger(
-    trigger.id,
-    {
-      path: webhookData.path,
-      method: webhookData.method,
-      headers: webhookData.headers,
-      body: webhookData.body,
-      query: webhookData.query,
-    },
-    execution.id
-  );
+  const result = await executeWebhookTrigger(trigger.id, event, execution.executionId);
 
   if (!result) {
     return json({
       message: 'No active deployment found, only sent to dev mode.',
       webhookId: webhook.id,
-      executionId: execution.id,
+      executionId: execution.executionId,
     });
   }
 
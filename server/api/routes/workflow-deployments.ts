@@ -6,6 +6,7 @@
  *
  * GET /api/workflow-deployments - List deployments (with optional workflowId filter)
  * POST /api/workflow-deployments - Create deployment
+ * POST /api/workflow-deployments/plan - Preview the trigger changes of a deployment
  * GET /api/workflow-deployments/:deploymentId - Get deployment
  * PATCH /api/workflow-deployments/:deploymentId - Update deployment
  * DELETE /api/workflow-deployments/:deploymentId - Delete deployment
@@ -17,8 +18,13 @@ import { hasWorkflowAccess } from '~/server/services/access-service';
 import * as workflowService from '~/server/services/workflow-service';
 import { getDefaultRuntimeId, getOrCreateDefaultRuntimeForVersion } from '~/server/services/default-runtime';
 import * as runtimeService from '~/server/services/runtime-service';
-import { syncTriggers, type TriggerMetadata, type WebhookInfo } from '~/server/services/trigger-service';
-import { getRuntime } from '~/server/packages/runtimes';
+import {
+  syncTriggers,
+  planTriggerSync,
+  getTriggersMetadataFromDefinitions,
+  type WebhookInfo,
+} from '~/server/services/trigger-service';
+import { getRuntime, type DefinitionsResult } from '~/server/packages/runtimes';
 import { getDb } from '~/server/db';
 import { providers } from '~/server/db/schema';
 import { eq } from 'drizzle-orm';
@@ -48,10 +54,20 @@ const createWorkflowDeploymentSchema = z.object({
         providerAlias: z.string().optional(),
         triggerType: z.string().optional(),
         input: z.record(z.string(), z.unknown()).optional(),
+        options: z.record(z.string(), z.unknown()).optional(),
       })
     )
     .optional(),
   providerMappings: z.record(z.string(), z.record(z.string(), z.string())).optional(),
+  // floww.yaml environment the deployment targets
+  environment: z.string().max(64).optional(),
+  // Workflow-wide concurrency limit from floww.yaml
+  concurrency: z
+    .object({
+      limit: z.number().int().min(1),
+      key: z.string().max(255).optional(),
+    })
+    .optional(),
 });
 
 const updateWorkflowDeploymentSchema = z.object({
@@ -149,6 +165,111 @@ async function getProviderConfigsByMapping(
   return providerConfigs;
 }
 
+/**
+ * Resolve the runtime of a deployment (requested runtime, versioned default or
+ * default) and run the user code in it to read its trigger and provider
+ * definitions. Returns an error response when either step fails.
+ */
+async function extractDefinitions(params: {
+  workflowId: string;
+  namespaceId: string;
+  requestedRuntimeId?: string;
+  sdkVersion?: string;
+  code: { files: Record<string, string>; entrypoint: string };
+  providerMappings?: Record<string, Record<string, string>>;
+}): Promise<{ runtimeId: string; runtimeDefinitions: DefinitionsResult } | { error: Response }> {
+  const { workflowId, namespaceId, requestedRuntimeId, sdkVersion, code, providerMappings } = params;
+
+  // Resolve runtime_id: use provided value, sdkVersion lookup, or fall back to default
+  let runtimeId = requestedRuntimeId;
+  if (!runtimeId && sdkVersion) {
+    runtimeId = (await getOrCreateDefaultRuntimeForVersion(sdkVersion)) ?? undefined;
+    if (!runtimeId) {
+      return { error: errorResponse(`No default runtime available for SDK version ${sdkVersion}`, 400) };
+    }
+    logger.info('Using versioned default runtime', { runtimeId, sdkVersion });
+  }
+  if (!runtimeId) {
+    runtimeId = (await getDefaultRuntimeId()) ?? undefined;
+    if (!runtimeId) {
+      return { error: errorResponse('No runtime_id provided and no default runtime configured', 400) };
+    }
+    logger.info('Using default runtime', { runtimeId });
+  }
+
+  // Verify runtime exists and user has access
+  const runtime = await runtimeService.getRuntime(runtimeId);
+  if (!runtime) {
+    return { error: errorResponse('Runtime not found', 400) };
+  }
+
+  // Get provider configs: use ID-based mapping if available, fall back to namespace-wide lookup
+  const providerConfigs = providerMappings && Object.keys(providerMappings).length > 0
+    ? await getProviderConfigsByMapping(providerMappings)
+    : await getProviderConfigs(namespaceId);
+
+  // Get definitions from runtime
+  const runtimeImpl = getRuntime();
+  const runtimeConfig = {
+    runtimeId: runtime.id,
+    imageDigest: (runtime.config as Record<string, string>)?.image_uri ??
+                 (runtime.config as Record<string, string>)?.image_hash ?? '',
+  };
+
+  const userCode = {
+    files: code.files,
+    entrypoint: code.entrypoint,
+  };
+
+  let runtimeDefinitions;
+  try {
+    runtimeDefinitions = await runtimeImpl.getDefinitions(runtimeConfig, userCode, providerConfigs);
+  } catch (error) {
+    logger.error('Failed to get definitions from runtime', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      error: errorResponse(
+        `Failed to validate deployment: ${error instanceof Error ? error.message : String(error)}`,
+        400
+      ),
+    };
+  }
+
+  // Validate definitions were successfully extracted
+  const validation = validateDefinitions(runtimeDefinitions);
+  if (!validation.isValid) {
+    logger.error('Definition validation failed', {
+      workflowId,
+      error: validation.errorMessage,
+    });
+    return { error: errorResponse(`Deployment validation failed: ${validation.errorMessage}`, 400) };
+  }
+
+  return { runtimeId, runtimeDefinitions };
+}
+
+/**
+ * Provider aliases whose mapped provider ID differs between two floww.yaml mappings
+ */
+function diffProviderMappings(
+  current: Record<string, Record<string, string>>,
+  next: Record<string, Record<string, string>>
+): Array<{ providerType: string; providerAlias: string; from: string | null; to: string | null }> {
+  const changes = [];
+  for (const providerType of new Set([...Object.keys(current), ...Object.keys(next)])) {
+    const aliases = new Set([...Object.keys(current[providerType] ?? {}), ...Object.keys(next[providerType] ?? {})]);
+    for (const providerAlias of aliases) {
+      const from = current[providerType]?.[providerAlias] ?? null;
+      const to = next[providerType]?.[providerAlias] ?? null;
+      if (from !== to) {
+        changes.push({ providerType, providerAlias, from, to });
+      }
+    }
+  }
+  return changes;
+}
+
 // List deployments
 get('/workflow-deployments', async (ctx) => {
   const { user, query } = ctx;
@@ -174,7 +295,9 @@ get('/workflow-deployments', async (ctx) => {
         status: d.status,
         deployedAt: d.deployedAt instanceof Date ? d.deployedAt.toISOString() : d.deployedAt,
         note: d.note,
+        environment: d.environment,
         providerMappings: d.providerMappings,
+        concurrency: d.concurrency,
       })),
     });
   }
@@ -192,7 +315,8 @@ post('/workflow-deployments', async (ctx) => {
   const parsed = await parseBody(request, createWorkflowDeploymentSchema);
   if ('error' in parsed) return parsed.error;
 
-  const { workflowId, runtimeId: requestedRuntimeId, sdkVersion, code, providerMappings } = parsed.data;
+  const { workflowId, runtimeId: requestedRuntimeId, sdkVersion, code, providerMappings, concurrency, environment } =
+    parsed.data;
 
   // Verify user has access to the workflow
   const workflow = await workflowService.getWorkflow(workflowId);
@@ -205,69 +329,17 @@ post('/workflow-deployments', async (ctx) => {
     return errorResponse('Access denied', 403);
   }
 
-  // Resolve runtime_id: use provided value, sdkVersion lookup, or fall back to default
-  let runtimeId = requestedRuntimeId;
-  if (!runtimeId && sdkVersion) {
-    runtimeId = (await getOrCreateDefaultRuntimeForVersion(sdkVersion)) ?? undefined;
-    if (!runtimeId) {
-      return errorResponse(`No default runtime available for SDK version ${sdkVersion}`, 400);
-    }
-    logger.info('Using versioned default runtime', { runtimeId, sdkVersion });
-  }
-  if (!runtimeId) {
-    runtimeId = (await getDefaultRuntimeId()) ?? undefined;
-    if (!runtimeId) {
-      return errorResponse('No runtime_id provided and no default runtime configured', 400);
-    }
-    logger.info('Using default runtime', { runtimeId });
-  }
-
-  // Verify runtime exists and user has access
-  const runtime = await runtimeService.getRuntime(runtimeId);
-  if (!runtime) {
-    return errorResponse('Runtime not found', 400);
-  }
-
-  // Get provider configs: use ID-based mapping if available, fall back to namespace-wide lookup
-  const providerConfigs = providerMappings && Object.keys(providerMappings).length > 0
-    ? await getProviderConfigsByMapping(providerMappings)
-    : await getProviderConfigs(workflow.namespaceId);
-
-  // Get definitions from runtime
-  const runtimeImpl = getRuntime();
-  const runtimeConfig = {
-    runtimeId: runtime.id,
-    imageDigest: (runtime.config as Record<string, string>)?.image_uri ?? 
-                 (runtime.config as Record<string, string>)?.image_hash ?? '',
-  };
+  const extracted = await extractDefinitions({
+    workflowId,
+    namespaceId: workflow.namespaceId,
+    requestedRuntimeId,
+    sdkVersion,
+    code,
+    providerMappings,
+  });
+  if ('error' in extracted) return extracted.error;
 
-  const userCode = {
-    files: code.files,
-    entrypoint: code.entrypoint,
-  };
-
-  let runtimeDefinitions;
-  try {
-    runtimeDefinitions = await runtimeImpl.getDefinitions(runtimeConfig, userCode, providerConfigs);
-  } catch (error) {
-    logger.error('Failed to get definitions from runtime', {
-      error: error instanceof Error ? error.message : String(error),
-    });
-    return errorResponse(
-      `Failed to validate deployment: ${error instanceof Error ? error.message : String(error)}`,
-      400
-    );
-  }
-
-  // Validate definitions were successfully extracted
-  const validation = validateDefinitions(runtimeDefinitions);
-  if (!validation.isValid) {
-    logger.error('Definition validation failed', {
-      workflowId,
-      error: validation.errorMessage,
-    });
-    return errorResponse(`Deployment validation failed: ${validation.errorMessage}`, 400);
-  }
+  const { runtimeId, runtimeDefinitions } = extracted;
 
   // Validate policy rules: check that each provider isn't fully blocked
   if (providerMappings && Object.keys(providerMappings).length > 0) {
@@ -312,6 +384,8 @@ post('/workflow-deployments', async (ctx) => {
     providerDefinitions: runtimeDefinitions.providers ?? [],
     triggerDefinitions: runtimeDefinitions.triggers ?? [],
     providerMappings: providerMappings ?? undefined,
+    concurrency: concurrency ?? undefined,
+    environment,
   });
 
   logger.info('Deployment definitions validated successfully', {
@@ -321,13 +395,7 @@ post('/workflow-deployments', async (ctx) => {
   });
 
   // Convert runtime trigger definitions to format expected by TriggerService
-  const runtimeTriggers = runtimeDefinitions.triggers ?? [];
-  const triggersMetadata: TriggerMetadata[] = runtimeTriggers.map((triggerDef) => ({
-    providerType: triggerDef.provider.type,
-    providerAlias: triggerDef.provider.alias,
-    triggerType: triggerDef.triggerType,
-    input: triggerDef.input ?? {},
-  }));
+  const triggersMetadata = getTriggersMetadataFromDefinitions(runtimeDefinitions.triggers);
 
   // Sync triggers using TriggerService (pass provider mappings for ID-based resolution)
   let webhooksInfo: WebhookInfo[] = [];
@@ -360,6 +428,7 @@ post('/workflow-deployments', async (ctx) => {
       status: deployment.status,
       deployedAt: deployment.deployedAt instanceof Date ? deployment.deployedAt.toISOString() : deployment.deployedAt,
       note: deployment.note,
+      environment: deployment.environment,
       webhooks: webhooksInfo.map((wh) => ({
         id: wh.id,
         url: wh.url,
@@ -375,6 +444,64 @@ post('/workflow-deployments', async (ctx) => {
   );
 });
 
+// Plan deployment: what creating it would change, without creating it
+post('/workflow-deployments/plan', async (ctx) => {
+  const { user, request } = ctx;
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const parsed = await parseBody(request, createWorkflowDeploymentSchema);
+  if ('error' in parsed) return parsed.error;
+
+  const { workflowId, runtimeId: requestedRuntimeId, sdkVersion, code, providerMappings } = parsed.data;
+
+  const workflow = await workflowService.getWorkflow(workflowId);
+  if (!workflow) {
+    return errorResponse('Workflow not found', 400);
+  }
+
+  const hasAccess = await hasWorkflowAccess(user.id, workflowId);
+  if (!hasAccess && !user.isAdmin) {
+    return errorResponse('Access denied', 403);
+  }
+
+  const extracted = await extractDefinitions({
+    workflowId,
+    namespaceId: workflow.namespaceId,
+    requestedRuntimeId,
+    sdkVersion,
+    code,
+    providerMappings,
+  });
+  if ('error' in extracted) return extracted.error;
+
+  const { runtimeId, runtimeDefinitions } = extracted;
+  const active = await workflowService.getActiveDeployment(workflowId);
+
+  const plan = await planTriggerSync(
+    workflow.namespaceId,
+    active?.triggerDefinitions ?? [],
+    getTriggersMetadataFromDefinitions(runtimeDefinitions.triggers),
+    providerMappings,
+    runtimeDefinitions.providers ?? []
+  );
+
+  return json({
+    workflowId,
+    runtimeId,
+    activeDeploymentId: active?.id ?? null,
+    triggers: {
+      create: plan.create,
+      destroy: plan.destroy,
+      keep: plan.keep,
+    },
+    unresolvedProviders: plan.unresolvedProviders,
+    providerMappingChanges: diffProviderMappings(
+      (active?.providerMappings as Record<string, Record<string, string>> | null) ?? {},
+      providerMappings ?? {}
+    ),
+  });
+});
+
 // Get deployment
 get('/workflow-deployments/:deploymentId', async (ctx) => {
   const { user, params } = ctx;
@@ -401,7 +528,10 @@ get('/workflow-deployments/:deploymentId', async (ctx) => {
       status: deployment.status,
       deployedAt: deployment.deployedAt instanceof Date ? deployment.deployedAt.toISOString() : deployment.deployedAt,
       note: deployment.note,
+      environment: deployment.environment,
       providerMappings: deployment.providerMappings,
+      concurrency: deployment.concurrency,
+      triggerDefinitions: deployment.triggerDefinitions,
     });
   } catch (error) {
     // Database errors (e.g., invalid UUID format) should return 404
@@ -8,6 +8,7 @@
  * DELETE /api/workflows/:id - Delete workflow
  * GET /api/workflows/:id/deployments - List deployments
  * POST /api/workflows/:id/deployments - Create deployment
+ * POST /api/workflows/:id/rollback - Reactivate a previous deployment
  */
 
 import { eq } from 'drizzle-orm';
@@ -15,12 +16,14 @@ import { get, post, patch, del, json, errorResponse, parseBody } from '~/server/
 import * as workflowService from '~/server/services/workflow-service';
 import { hasWorkflowAccess } from '~/server/services/access-service';
 import { checkWorkflowLimit } from '~/server/services/billing-service';
+import { syncTriggers, getTriggersMetadataFromDefinitions, type WebhookInfo } from '~/server/services/trigger-service';
 import { getDb } from '~/server/db';
 import { namespaces } from '~/server/db/schema';
 import {
   createWorkflowSchema,
   updateWorkflowSchema,
   createDeploymentSchema,
+  rollbackWorkflowSchema,
   createFolderSchema,
   importN8nWorkflowSchema,
 } from '~/server/api/schemas';
@@ -224,6 +227,7 @@ get('/workflows/:workflowId/deployments', async (ctx) => {
       status: d.status,
       deployedAt: d.deployedAt.toISOString(),
       note: d.note,
+      environment: d.environment,
     })),
   });
 });
@@ -262,6 +266,90 @@ post('/workflows/:workflowId/deployments', async (ctx) => {
   }, 201);
 });
 
+// Roll back to a previous deployment
+post('/workflows/:workflowId/rollback', async (ctx) => {
+  const { user, params, request } = ctx;
+  if (!user) return errorResponse('Unauthorized', 401);
+
+  const workflow = await workflowService.getWorkflow(params.workflowId);
+  if (!workflow) {
+    return errorResponse('Workflow not found', 404);
+  }
+
+  const hasAccess = await hasWorkflowAccess(user.id, params.workflowId);
+  if (!hasAccess && !user.isAdmin) {
+    return errorResponse('Access denied', 403);
+  }
+
+  const parsed = await parseBody(request, rollbackWorkflowSchema);
+  if ('error' in parsed) return parsed.error;
+
+  const target = parsed.data.deploymentId
+    ? await workflowService.getDeployment(parsed.data.deploymentId)
+    : await workflowService.getRollbackTarget(params.workflowId);
+
+  if (!target || target.workflowId !== params.workflowId) {
+    return errorResponse(
+      parsed.data.deploymentId ? 'Deployment not found' : 'No previous deployment to roll back to',
+      404
+    );
+  }
+  if (target.status === 'ACTIVE') {
+    return errorResponse('Deployment is already active', 409);
+  }
+  if (target.status === 'FAILED') {
+    return errorResponse('Cannot roll back to a failed deployment', 400);
+  }
+
+  const previous = await workflowService.getActiveDeployment(params.workflowId);
+  const deployment = await workflowService.activateDeployment(params.workflowId, target.id);
+  if (!deployment) {
+    return errorResponse('Deployment not found', 404);
+  }
+
+  // Triggers follow the code: recreate the ones the reactivated deployment defines
+  let webhooksInfo: WebhookInfo[] = [];
+  try {
+    webhooksInfo = await syncTriggers(
+      params.workflowId,
+      workflow.namespaceId,
+      getTriggersMetadataFromDefinitions(deployment.triggerDefinitions),
+      (deployment.providerMappings as Record<string, Record<string, string>> | null) ?? undefined
+    );
+  } catch (error) {
+    logger.error('Failed to sync triggers after rollback', {
+      error: error instanceof Error ? error.message : String(error),
+      deploymentId: deployment.id,
+    });
+  }
+
+  logger.info('Rolled back workflow deployment', {
+    workflowId: params.workflowId,
+    deploymentId: deployment.id,
+    previousDeploymentId: previous?.id ?? null,
+    rolledBackBy: user.id,
+  });
+
+  return json({
+    id: deployment.id,
+    workflowId: deployment.workflowId,
+    runtimeId: deployment.runtimeId,
+    status: deployment.status,
+    deployedAt: deployment.deployedAt.toISOString(),
+    previousDeploymentId: previous?.id ?? null,
+    webhooks: webhooksInfo.map((wh) => ({
+      id: wh.id,
+      url: wh.url,
+      path: wh.path,
+      method: wh.method,
+      triggerId: wh.triggerId,
+      triggerType: wh.triggerType,
+      providerType: wh.providerType,
+      providerAlias: wh.providerAlias,
+    })),
+  });
+});
+
 // Get folders
 get('/folders', async (ctx) => {
   const { user, query } = ctx;
@@ -398,6 +486,7 @@ get('/workflows/:workflowId/deployments/:deploymentId', async (ctx) => {
     status: deployment.status,
     deployedAt: deployment.deployedAt.toISOString(),
     note: deployment.note,
+    environment: deployment.environment,
   });
 });
 
@@ -465,7 +554,7 @@ post('/workflows/import/n8n', async (ctx) => {
   }
 
   try {
-    const workflow = await workflowService.importFromN8n({
+    const { workflow, deployment, report } = await workflowService.importFromN8n({
       namespaceId,
       n8nWorkflow: n8nWorkflow as Record<string, unknown>,
       name,
@@ -477,6 +566,8 @@ post('/workflows/import/n8n', async (ctx) => {
       name: workflow.name,
       namespaceId: workflow.namespaceId,
       createdAt: workflow.createdAt.toISOString(),
+      deploymentId: deployment?.id ?? null,
+      report,
     }, 201);
   } catch (error) {
     logger.error('n8n import error', { error: error instanceof Error ? error.message : String(error) });
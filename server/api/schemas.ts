@@ -22,7 +22,7 @@ export {
 } from '@floww/api-contract';
 
 // Deployment schemas
-export { createDeploymentSchema } from '@floww/api-contract';
+export { createDeploymentSchema, rollbackWorkflowSchema } from '@floww/api-contract';
 
 // Trigger schemas
 export { syncTriggersSchema, executeTriggerSchema } from '@floww/api-contract';
@@ -37,7 +37,15 @@ export { subscribeSchema, createPortalSessionSchema } from '@floww/api-contract'
 export { createRuntimeSchema } from '@floww/api-contract';
 
 // Execution schemas
-export { completeExecutionSchema } from '@floww/api-contract';
+export {
+  completeExecutionSchema,
+  recordExecutionStepSchema,
+  decideApprovalSchema,
+  replayExecutionSchema,
+  bulkReplayExecutionsSchema,
+  executionStatusValues,
+  logLevelSchema,
+} from '@floww/api-contract';
 
 // Access Control schemas
 export {
@@ -60,7 +68,17 @@ export {
 } from '@floww/api-contract';
 
 // KV Store schemas
-export { setKvValueSchema, setKvPermissionsSchema } from '@floww/api-contract';
+export {
+  setKvValueSchema,
+  incrementKvValueSchema,
+  getManyKvValuesSchema,
+  setManyKvValuesSchema,
+  deleteManyKvValuesSchema,
+  acquireKvLockSchema,
+  extendKvLockSchema,
+  releaseKvLockSchema,
+  setKvPermissionsSchema,
+} from '@floww/api-contract';
 
 // Centrifugo schemas
 export { centrifugoConnectSchema, centrifugoSubscribeSchema } from '@floww/api-contract';
@@ -84,6 +102,7 @@ export type {
   CreateWorkflowInput,
   UpdateWorkflowInput,
   CreateDeploymentInput,
+  RollbackWorkflowInput,
   CreateProviderInput,
   UpdateProviderInput,
   SubscribeInput,
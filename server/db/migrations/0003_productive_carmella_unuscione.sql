@@ -0,0 +1,6 @@
+ALTER TABLE "execution_history" ADD COLUMN "attempt" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "execution_history" ADD COLUMN "original_execution_id" uuid;--> statement-breakpoint
+ALTER TABLE "execution_history" ADD COLUMN "trigger_payload" jsonb;--> statement-breakpoint
+ALTER TABLE "triggers" ADD COLUMN "options" jsonb;--> statement-breakpoint
+ALTER TABLE "execution_history" ADD CONSTRAINT "execution_history_original_execution_id_execution_history_id_fk" FOREIGN KEY ("original_execution_id") REFERENCES "public"."execution_history"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_execution_history_original" ON "execution_history" USING btree ("original_execution_id");
\ No newline at end of file
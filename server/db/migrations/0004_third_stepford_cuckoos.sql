@@ -0,0 +1,3 @@
+ALTER TABLE "execution_history" ADD COLUMN "replay_of_execution_id" uuid;--> statement-breakpoint
+ALTER TABLE "execution_history" ADD CONSTRAINT "execution_history_replay_of_execution_id_execution_history_id_fk" FOREIGN KEY ("replay_of_execution_id") REFERENCES "public"."execution_history"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_execution_history_replay_of" ON "execution_history" USING btree ("replay_of_execution_id");
\ No newline at end of file
@@ -0,0 +1,15 @@
+ALTER TYPE "public"."executionstatus" ADD VALUE 'SLEEPING';--> statement-breakpoint
+CREATE TABLE "execution_steps" (
+	"id" uuid PRIMARY KEY NOT NULL,
+	"execution_history_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"kind" varchar(16) NOT NULL,
+	"result" jsonb,
+	"wake_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "execution_steps" ADD CONSTRAINT "execution_steps_execution_history_id_execution_history_id_fk" FOREIGN KEY ("execution_history_id") REFERENCES "public"."execution_history"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_execution_step_name" ON "execution_steps" USING btree ("execution_history_id","name");--> statement-breakpoint
+CREATE INDEX "idx_execution_steps_execution_id" ON "execution_steps" USING btree ("execution_history_id");
\ No newline at end of file
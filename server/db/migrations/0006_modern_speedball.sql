@@ -0,0 +1,22 @@
+CREATE TYPE "public"."approvalstatus" AS ENUM('PENDING', 'APPROVED', 'REJECTED', 'TIMED_OUT');--> statement-breakpoint
+ALTER TYPE "public"."executionstatus" ADD VALUE 'WAITING';--> statement-breakpoint
+CREATE TABLE "execution_approvals" (
+	"id" uuid PRIMARY KEY NOT NULL,
+	"execution_history_id" uuid NOT NULL,
+	"workflow_id" uuid NOT NULL,
+	"step_name" varchar(255) NOT NULL,
+	"message" text NOT NULL,
+	"approvers" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" "approvalstatus" DEFAULT 'PENDING' NOT NULL,
+	"expires_at" timestamp with time zone,
+	"decided_at" timestamp with time zone,
+	"decided_by_user_id" uuid,
+	"comment" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "execution_approvals" ADD CONSTRAINT "execution_approvals_execution_history_id_execution_history_id_fk" FOREIGN KEY ("execution_history_id") REFERENCES "public"."execution_history"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "execution_approvals" ADD CONSTRAINT "execution_approvals_workflow_id_workflows_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflows"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "execution_approvals" ADD CONSTRAINT "execution_approvals_decided_by_user_id_users_id_fk" FOREIGN KEY ("decided_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_execution_approval_step" ON "execution_approvals" USING btree ("execution_history_id","step_name");--> statement-breakpoint
+CREATE INDEX "idx_execution_approvals_workflow_status" ON "execution_approvals" USING btree ("workflow_id","status");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "execution_history" ADD COLUMN "concurrency_key" text;--> statement-breakpoint
+ALTER TABLE "execution_history" ADD COLUMN "workflow_concurrency_key" text;--> statement-breakpoint
+ALTER TABLE "workflow_deployments" ADD COLUMN "concurrency" jsonb;--> statement-breakpoint
+CREATE INDEX "idx_execution_history_trigger_status" ON "execution_history" USING btree ("trigger_id","status");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TYPE "public"."executionstatus" ADD VALUE 'DUPLICATE';--> statement-breakpoint
+ALTER TABLE "execution_history" ADD COLUMN "idempotency_key" text;--> statement-breakpoint
+ALTER TABLE "execution_history" ADD COLUMN "duplicate_of_execution_id" uuid;--> statement-breakpoint
+ALTER TABLE "execution_history" ADD CONSTRAINT "execution_history_duplicate_of_execution_id_execution_history_id_fk" FOREIGN KEY ("duplicate_of_execution_id") REFERENCES "public"."execution_history"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_execution_history_trigger_idempotency" ON "execution_history" USING btree ("trigger_id","idempotency_key");
\ No newline at end of file
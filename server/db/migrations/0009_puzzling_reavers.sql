@@ -0,0 +1,2 @@
+ALTER TYPE "public"."approvalstatus" ADD VALUE 'CANCELLED';--> statement-breakpoint
+ALTER TYPE "public"."executionstatus" ADD VALUE 'CANCELLED';
\ No newline at end of file
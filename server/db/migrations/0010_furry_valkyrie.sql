@@ -0,0 +1 @@
+ALTER TABLE "workflow_deployments" ADD COLUMN "environment" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP INDEX "uq_namespace_secret";--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_namespace_secret" ON "secrets" USING btree ("namespace_id","provider","name");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "kv_items" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "kv_items" ADD COLUMN "expires_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "idx_kv_items_expires_at" ON "kv_items" USING btree ("expires_at");
\ No newline at end of file
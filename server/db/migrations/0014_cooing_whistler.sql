@@ -0,0 +1 @@
+ALTER TABLE "kv_items" ADD COLUMN "schema_version" integer;
\ No newline at end of file
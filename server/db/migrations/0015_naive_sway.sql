@@ -0,0 +1 @@
+ALTER TABLE "triggers" ADD COLUMN "encrypted_secrets" text;
\ No newline at end of file
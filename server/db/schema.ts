@@ -14,10 +14,12 @@ import {
   boolean,
   jsonb,
   integer,
+  bigint,
   pgEnum,
   index,
   uniqueIndex,
   check,
+  pgSequence,
 } from 'drizzle-orm/pg-core';
 import { relations, sql } from 'drizzle-orm';
 import { generateUlidUuid } from '../utils/uuid';
@@ -48,6 +50,18 @@ export const executionStatusEnum = pgEnum('executionstatus', [
   'FAILED',
   'TIMEOUT',
   'NO_DEPLOYMENT',
+  'SLEEPING',
+  'WAITING',
+  'DUPLICATE',
+  'CANCELLED',
+]);
+
+export const approvalStatusEnum = pgEnum('approvalstatus', [
+  'PENDING',
+  'APPROVED',
+  'REJECTED',
+  'TIMED_OUT',
+  'CANCELLED',
 ]);
 
 export const logLevelEnum = pgEnum('loglevel', ['DEBUG', 'INFO', 'WARN', 'ERROR', 'LOG']);
@@ -348,6 +362,8 @@ export const workflowDeployments = pgTable(
     status: workflowDeploymentStatusEnum('status').notNull(),
     note: text('note'),
     providerMappings: jsonb('provider_mappings'),
+    concurrency: jsonb('concurrency'),
+    environment: text('environment'),
   },
   (table) => [
     index('idx_workflow_deployments_workflow').on(table.workflowId),
@@ -383,6 +399,9 @@ export const triggers = pgTable('triggers', {
   triggerType: text('trigger_type').notNull(),
   input: jsonb('input').notNull(),
   state: jsonb('state'),
+  // Secrets from the lifecycle state (webhook signing secrets), kept out of state
+  encryptedSecrets: text('encrypted_secrets'),
+  options: jsonb('options'),
 });
 
 // Incoming Webhooks table
@@ -432,7 +451,7 @@ export const secrets = pgTable(
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
   },
   (table) => [
-    uniqueIndex('uq_namespace_secret').on(table.namespaceId, table.name),
+    uniqueIndex('uq_namespace_secret').on(table.namespaceId, table.provider, table.name),
     index('idx_secrets_namespace').on(table.namespaceId),
   ]
 );
@@ -493,6 +512,12 @@ export const kvItems = pgTable(
       .references(() => kvTables.id, { onDelete: 'cascade' }),
     key: text('key').notNull(),
     value: jsonb('value').notNull(),
+    // Bumped on every write, for setIfVersion compare-and-swap
+    version: integer('version').notNull().default(1),
+    // Set by TTL writes; expired items read as absent until the cleanup job deletes them
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+    // Schema version of a typed table's value; null when written without a schema
+    schemaVersion: integer('schema_version'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
   },
@@ -500,9 +525,37 @@ export const kvItems = pgTable(
     uniqueIndex('uq_table_key').on(table.tableId, table.key),
     index('idx_kv_items_table').on(table.tableId),
     index('idx_kv_items_table_key').on(table.tableId, table.key),
+    index('idx_kv_items_expires_at').on(table.expiresAt),
   ]
 );
 
+// Fencing tokens of KV lock leases. Shared by all locks, so a token identifies
+// one lease and never repeats.
+export const kvLockFencingTokens = pgSequence('kv_lock_fencing_tokens');
+
+// Key Value Locks table (leases on a name within a KV provider)
+export const kvLocks = pgTable(
+  'kv_locks',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .$defaultFn(() => generateUlidUuid()),
+    providerId: uuid('provider_id')
+      .notNull()
+      .references(() => providers.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    // Current holder; null once released
+    leaseId: uuid('lease_id'),
+    // Token of the latest lease, from kv_lock_fencing_tokens. Rows are kept after
+    // release, so a lease's writes are fenced off once the lock is acquired again.
+    fencingToken: bigint('fencing_token', { mode: 'number' }).notNull().default(0),
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex('uq_provider_lock_name').on(table.providerId, table.name)]
+);
+
 // Execution History table
 export const executionHistory = pgTable(
   'execution_history',
@@ -526,15 +579,35 @@ export const executionHistory = pgTable(
     completedAt: timestamp('completed_at', { withTimezone: true }),
     durationMs: integer('duration_ms'),
     errorMessage: text('error_message'),
+    attempt: integer('attempt').notNull().default(1),
+    originalExecutionId: uuid('original_execution_id').references((): any => executionHistory.id, {
+      onDelete: 'set null',
+    }),
+    triggerPayload: jsonb('trigger_payload'),
+    replayOfExecutionId: uuid('replay_of_execution_id').references((): any => executionHistory.id, {
+      onDelete: 'set null',
+    }),
+    // Resolved keys of the trigger and workflow concurrency limits ('' = one shared limit)
+    concurrencyKey: text('concurrency_key'),
+    workflowConcurrencyKey: text('workflow_concurrency_key'),
+    // Delivery ID of the webhook event; repeats within the trigger's window are DUPLICATE
+    idempotencyKey: text('idempotency_key'),
+    duplicateOfExecutionId: uuid('duplicate_of_execution_id').references((): any => executionHistory.id, {
+      onDelete: 'set null',
+    }),
   },
   (table) => [
     index('idx_execution_history_workflow').on(table.workflowId),
+    index('idx_execution_history_original').on(table.originalExecutionId),
+    index('idx_execution_history_replay_of').on(table.replayOfExecutionId),
     index('idx_execution_history_trigger').on(table.triggerId),
     index('idx_execution_history_deployment').on(table.deploymentId),
     index('idx_execution_history_status').on(table.status),
     index('idx_execution_history_received_at').on(table.receivedAt),
     index('idx_execution_history_workflow_status').on(table.workflowId, table.status),
     index('idx_execution_history_workflow_received').on(table.workflowId, table.receivedAt),
+    index('idx_execution_history_trigger_status').on(table.triggerId, table.status),
+    index('idx_execution_history_trigger_idempotency').on(table.triggerId, table.idempotencyKey),
   ]
 );
 
@@ -559,6 +632,60 @@ export const executionLogs = pgTable(
   ]
 );
 
+// Execution Steps table (checkpoints of ctx.step / ctx.sleep)
+export const executionSteps = pgTable(
+  'execution_steps',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .$defaultFn(() => generateUlidUuid()),
+    executionHistoryId: uuid('execution_history_id')
+      .notNull()
+      .references(() => executionHistory.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 255 }).notNull(),
+    kind: varchar('kind', { length: 16 }).notNull(),
+    result: jsonb('result'),
+    wakeAt: timestamp('wake_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+  },
+  (table) => [
+    uniqueIndex('uq_execution_step_name').on(table.executionHistoryId, table.name),
+    index('idx_execution_steps_execution_id').on(table.executionHistoryId),
+  ]
+);
+
+// Execution Approvals table (pending and decided ctx.waitForApproval calls)
+export const executionApprovals = pgTable(
+  'execution_approvals',
+  {
+    id: uuid('id')
+      .primaryKey()
+      .$defaultFn(() => generateUlidUuid()),
+    executionHistoryId: uuid('execution_history_id')
+      .notNull()
+      .references(() => executionHistory.id, { onDelete: 'cascade' }),
+    workflowId: uuid('workflow_id')
+      .notNull()
+      .references(() => workflows.id, { onDelete: 'cascade' }),
+    stepName: varchar('step_name', { length: 255 }).notNull(),
+    message: text('message').notNull(),
+    approvers: jsonb('approvers').notNull().default([]),
+    status: approvalStatusEnum('status').notNull().default('PENDING'),
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+    decidedAt: timestamp('decided_at', { withTimezone: true }),
+    decidedByUserId: uuid('decided_by_user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    comment: text('comment'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('uq_execution_approval_step').on(table.executionHistoryId, table.stepName),
+    index('idx_execution_approvals_workflow_status').on(table.workflowId, table.status),
+  ]
+);
+
 // Configuration table
 export const configurations = pgTable('configurations', {
   key: varchar('key', { length: 255 }).primaryKey(),
@@ -713,6 +840,7 @@ export const providersRelations = relations(providers, ({ one, many }) => ({
   triggers: many(triggers),
   incomingWebhooks: many(incomingWebhooks),
   kvTables: many(kvTables),
+  kvLocks: many(kvLocks),
 }));
 
 export const triggersRelations = relations(triggers, ({ one, many }) => ({
@@ -780,6 +908,13 @@ export const kvItemsRelations = relations(kvItems, ({ one }) => ({
   }),
 }));
 
+export const kvLocksRelations = relations(kvLocks, ({ one }) => ({
+  provider: one(providers, {
+    fields: [kvLocks.providerId],
+    references: [providers.id],
+  }),
+}));
+
 export const executionHistoryRelations = relations(executionHistory, ({ one, many }) => ({
   workflow: one(workflows, {
     fields: [executionHistory.workflowId],
@@ -798,6 +933,8 @@ export const executionHistoryRelations = relations(executionHistory, ({ one, man
     references: [users.id],
   }),
   logEntries: many(executionLogs),
+  steps: many(executionSteps),
+  approvals: many(executionApprovals),
 }));
 
 export const executionLogsRelations = relations(executionLogs, ({ one }) => ({
@@ -807,6 +944,28 @@ export const executionLogsRelations = relations(executionLogs, ({ one }) => ({
   }),
 }));
 
+export const executionStepsRelations = relations(executionSteps, ({ one }) => ({
+  execution: one(executionHistory, {
+    fields: [executionSteps.executionHistoryId],
+    references: [executionHistory.id],
+  }),
+}));
+
+export const executionApprovalsRelations = relations(executionApprovals, ({ one }) => ({
+  execution: one(executionHistory, {
+    fields: [executionApprovals.executionHistoryId],
+    references: [executionHistory.id],
+  }),
+  workflow: one(workflows, {
+    fields: [executionApprovals.workflowId],
+    references: [workflows.id],
+  }),
+  decidedByUser: one(users, {
+    fields: [executionApprovals.decidedByUserId],
+    references: [users.id],
+  }),
+}));
+
 export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
   user: one(users, {
     fields: [apiKeys.userId],
@@ -884,12 +1043,21 @@ export type NewKvTablePermission = typeof kvTablePermissions.$inferInsert;
 export type KvItem = typeof kvItems.$inferSelect;
 export type NewKvItem = typeof kvItems.$inferInsert;
 
+export type KvLock = typeof kvLocks.$inferSelect;
+export type NewKvLock = typeof kvLocks.$inferInsert;
+
 export type ExecutionHistoryRecord = typeof executionHistory.$inferSelect;
 export type NewExecutionHistoryRecord = typeof executionHistory.$inferInsert;
 
 export type ExecutionLog = typeof executionLogs.$inferSelect;
 export type NewExecutionLog = typeof executionLogs.$inferInsert;
 
+export type ExecutionStep = typeof executionSteps.$inferSelect;
+export type NewExecutionStep = typeof executionSteps.$inferInsert;
+
+export type ExecutionApproval = typeof executionApprovals.$inferSelect;
+export type NewExecutionApproval = typeof executionApprovals.$inferInsert;
+
 export type Configuration = typeof configurations.$inferSelect;
 export type NewConfiguration = typeof configurations.$inferInsert;
 
@@ -15,9 +15,10 @@ export interface CronJob {
 import { getDb } from '../db';
 import { cleanupExpiredDeviceCodes } from '../services/device-code-service';
 import { cleanupRevokedTokens } from '../services/refresh-token-service';
-import { eq, lt, and } from 'drizzle-orm';
-import { runtimes, executionLogs } from '../db/schema';
+import { eq, lt, lte, and } from 'drizzle-orm';
+import { runtimes, executionLogs, kvItems } from '../db/schema';
 import { logger } from '~/server/utils/logger';
+import type { KvChangeDelivery } from '../services/kv-change-service';
 
 /**
  * Job task definitions
@@ -46,6 +47,18 @@ export const cleanupExecutionLogs: Task = async (_payload, _helpers) => {
   logger.info('Cleaned up old execution logs', { count: result.length });
 };
 
+// Cleanup KV items past their TTL - runs every 15 minutes
+export const cleanupExpiredKvItems: Task = async (_payload, _helpers) => {
+  const db = getDb();
+
+  const result = await db
+    .delete(kvItems)
+    .where(lte(kvItems.expiresAt, new Date()))
+    .returning({ id: kvItems.id });
+
+  logger.info('Cleaned up expired KV items', { count: result.length });
+};
+
 // Cleanup unused runtimes - runs every 6 hours
 export const cleanupUnusedRuntimes: Task = async (_payload, _helpers) => {
   const db = getDb();
@@ -161,19 +174,163 @@ export const syncWorkflowTriggers: Task = async (payload, _helpers) => {
   await syncTriggers(workflowId, namespaceId, triggersMetadata);
 };
 
-// Execute scheduled trigger (cron)
-export const executeScheduledTrigger: Task = async (payload, _helpers) => {
-  const { triggerId, cronExpression, scheduledTime, executionId } = payload as {
+// Execute scheduled trigger (cron) and schedule its next run
+export const executeScheduledTrigger: Task = async (payload) => {
+  const { triggerId, scheduledTime } = payload as {
     triggerId: string;
-    cronExpression: string;
     scheduledTime: string;
+  };
+
+  logger.info('Executing scheduled trigger', { triggerId, scheduledTime });
+
+  const { runCronTrigger, scheduleCronRun } = await import('../services/trigger-cron-service');
+
+  let result: Awaited<ReturnType<typeof runCronTrigger>>;
+  try {
+    result = await runCronTrigger(triggerId, new Date(scheduledTime));
+  } catch (error) {
+    // Unexpected failure (e.g. database error) - retry the same run in a minute
+    logger.error('Scheduled trigger failed', { triggerId, error: String(error) });
+    await scheduleCronRun(triggerId, new Date(scheduledTime), new Date(Date.now() + 60_000));
+    return;
+  }
+
+  if (result.nextScheduledTime && result.nextRunAt) {
+    await scheduleCronRun(triggerId, result.nextScheduledTime, result.nextRunAt);
+  }
+};
+
+// Poll a trigger for new events and schedule the next poll
+export const pollTrigger: Task = async (payload) => {
+  const { triggerId } = payload as { triggerId: string };
+
+  const { pollTrigger: poll, schedulePoll } = await import('../services/trigger-polling-service');
+
+  let nextPollInSeconds: number | null = null;
+  try {
+    const result = await poll(triggerId);
+    nextPollInSeconds = result.nextPollInSeconds;
+  } catch (error) {
+    // Unexpected failure (e.g. database error) - keep polling at the default interval
+    logger.error('Polling trigger failed', { triggerId, error: String(error) });
+    nextPollInSeconds = 60;
+  }
+
+  if (nextPollInSeconds !== null) {
+    await schedulePoll(triggerId, nextPollInSeconds);
+  }
+};
+
+// Execute kvstore onChange triggers for writes made through the /kv routes
+export const executeKvChangeTriggers: Task = async (payload) => {
+  const { deliveries } = payload as { deliveries: KvChangeDelivery[] };
+
+  const { runKvChangeTriggers } = await import('../services/kv-change-service');
+  const executed = await runKvChangeTriggers(deliveries);
+
+  logger.info('Executed KV change triggers', { count: executed });
+};
+
+// Re-invoke a failed execution with its original event
+export const retryExecution: Task = async (payload) => {
+  const { executionId } = payload as { executionId: string };
+
+  const { runExecutionRetry } = await import('../services/execution-retry-service');
+  const { updateExecutionFailed } = await import('../services/execution-service');
+
+  try {
+    await runExecutionRetry(executionId);
+  } catch (error) {
+    // Mark the attempt as failed instead of leaving it in RECEIVED
+    logger.error('Execution retry failed', { executionId, error: String(error) });
+    await updateExecutionFailed(executionId, `Retry failed: ${String(error)}`);
+  }
+};
+
+// Run a replay queued by a bulk replay of failed executions
+export const replayExecution: Task = async (payload) => {
+  const { executionId, deploymentId } = payload as {
     executionId: string;
+    deploymentId: string | null;
   };
 
-  logger.info('Executing scheduled trigger', { triggerId, cronExpression, executionId });
+  const { runQueuedReplay } = await import('../services/execution-replay-service');
+  const { updateExecutionFailed } = await import('../services/execution-service');
+
+  try {
+    await runQueuedReplay(executionId, deploymentId ?? undefined);
+  } catch (error) {
+    logger.error('Execution replay failed', { executionId, error: String(error) });
+    await updateExecutionFailed(executionId, `Replay failed: ${String(error)}`);
+  }
+};
+
+// Resume an execution once its ctx.sleep() is over or its approval is decided
+export const resumeExecution: Task = async (payload) => {
+  const { executionId, stepName } = payload as { executionId: string; stepName: string };
+
+  const { resumeExecution: resume } = await import('../services/execution-step-service');
+  const { updateExecutionFailed } = await import('../services/execution-service');
+
+  try {
+    await resume(executionId, stepName);
+  } catch (error) {
+    // Mark the execution as failed instead of leaving it asleep forever
+    logger.error('Execution resume failed', { executionId, stepName, error: String(error) });
+    await updateExecutionFailed(executionId, `Resume failed: ${String(error)}`);
+  }
+};
+
+// Run an execution that was waiting for a concurrency slot
+export const runQueuedExecution: Task = async (payload) => {
+  const { executionId } = payload as { executionId: string };
 
-  const { executeCronTrigger } = await import('../services/trigger-execution-service');
-  await executeCronTrigger(triggerId, cronExpression, new Date(scheduledTime), executionId);
+  const { runQueuedExecution: run, releaseConcurrencySlot } = await import(
+    '../services/execution-concurrency-service'
+  );
+  const { updateExecutionFailed } = await import('../services/execution-service');
+
+  try {
+    await run(executionId);
+  } catch (error) {
+    // Fail it instead of holding up the executions queued behind it
+    logger.error('Queued execution failed', { executionId, error: String(error) });
+    await updateExecutionFailed(executionId, `Queued execution failed: ${String(error)}`);
+    await releaseConcurrencySlot(executionId);
+  }
+};
+
+// Time out executions whose runtime never reported back - runs every 5 minutes.
+// Unlike the cleanups it schedules its own next run, as it keeps concurrency
+// queues moving.
+export const timeoutStaleExecutions: Task = async (_payload, helpers) => {
+  const { timeoutStaleExecutions: timeout } = await import(
+    '../services/execution-concurrency-service'
+  );
+
+  try {
+    const count = await timeout();
+    logger.info('Timed out stale executions', { count });
+  } finally {
+    await helpers.addJob(
+      'timeoutStaleExecutions',
+      {},
+      { jobKey: 'cron:timeoutStaleExecutions', runAt: new Date(Date.now() + 5 * 60_000) }
+    );
+  }
+};
+
+// Time out an approval nobody decided on and resume its execution
+export const expireApproval: Task = async (payload) => {
+  const { approvalId } = payload as { approvalId: string };
+
+  const { expireApproval: expire } = await import('../services/execution-approval-service');
+
+  try {
+    await expire(approvalId);
+  } catch (error) {
+    logger.error('Approval timeout failed', { approvalId, error: String(error) });
+  }
 };
 
 /**
@@ -183,11 +340,20 @@ export const taskList: Record<string, Task> = {
   cleanupDeviceCodes,
   cleanupRefreshTokens,
   cleanupExecutionLogs,
+  cleanupExpiredKvItems,
   cleanupUnusedRuntimes,
   webhookRetry,
   processBillingEvent,
   syncWorkflowTriggers,
   executeScheduledTrigger,
+  pollTrigger,
+  executeKvChangeTriggers,
+  retryExecution,
+  replayExecution,
+  resumeExecution,
+  expireApproval,
+  runQueuedExecution,
+  timeoutStaleExecutions,
 };
 
 /**
@@ -206,10 +372,18 @@ export const cronJobs: CronJob[] = [
     task: 'cleanupExecutionLogs',
     pattern: '0 3 * * *', // Daily at 3 AM
   },
+  {
+    task: 'cleanupExpiredKvItems',
+    pattern: '*/15 * * * *', // Every 15 minutes
+  },
   {
     task: 'cleanupUnusedRuntimes',
     pattern: '0 */6 * * *', // Every 6 hours
   },
+  {
+    task: 'timeoutStaleExecutions',
+    pattern: '*/5 * * * *', // Every 5 minutes
+  },
 ];
 
 /**
@@ -226,16 +400,3 @@ export async function scheduleJob(
     maxAttempts: options?.maxAttempts ?? 3,
   });
 }
-
-/**
- * Schedule a recurring cron trigger job
- */
-export async function scheduleCronTrigger(
-  utils: WorkerUtils,
-  triggerId: string,
-  cronExpression: string
-): Promise<void> {
-  // Graphile Worker handles cron via crontab file or programmatic API
-  // For dynamic crons, we'd use their cron functionality
-  await utils.addJob('executeScheduledTrigger', { triggerId, cronExpression });
-}
@@ -70,6 +70,23 @@ export async function startWorker(): Promise<Runner> {
   // Set up cron jobs
   await setupCronJobs();
 
+  // Make sure every polling trigger has a pending poll (jobs survive restarts,
+  // this only fills gaps)
+  try {
+    const { schedulePollingTriggers } = await import('~/server/services/trigger-polling-service');
+    await schedulePollingTriggers();
+  } catch (error) {
+    logger.error('Failed to schedule polling triggers', { error: String(error) });
+  }
+
+  // Same for cron triggers; overdue ones run right away and apply their catch-up policy
+  try {
+    const { scheduleCronTriggers } = await import('~/server/services/trigger-cron-service');
+    await scheduleCronTriggers();
+  } catch (error) {
+    logger.error('Failed to schedule cron triggers', { error: String(error) });
+  }
+
   logger.info('Graphile Worker started');
 
   return workerInstance;
@@ -121,6 +138,7 @@ export async function addJob(
     runAt?: Date;
     maxAttempts?: number;
     jobKey?: string;
+    jobKeyMode?: 'replace' | 'preserve_run_at';
     priority?: number;
   }
 ): Promise<void> {
@@ -129,6 +147,7 @@ export async function addJob(
     runAt: options?.runAt,
     maxAttempts: options?.maxAttempts ?? 3,
     jobKey: options?.jobKey,
+    jobKeyMode: options?.jobKeyMode,
     priority: options?.priority,
   });
 }
@@ -34,6 +34,7 @@ export interface RuntimePayload {
   executionId: string;
   providerConfigs: Record<string, Record<string, unknown>>;
   policyRules?: Record<string, unknown>;
+  steps?: Record<string, { result?: unknown }>;
 }
 
 export interface UserCode {
@@ -47,6 +48,7 @@ export interface DefinitionsResult {
     provider: { type: string; alias: string };
     triggerType: string;
     input: Record<string, unknown>;
+    options?: Record<string, unknown>;
   }>;
   providers?: Array<{
     type: string;
@@ -338,6 +338,57 @@ export async function getOrCreateDefaultRuntimeForVersion(sdkVersion: string): P
   return runtime.id;
 }
 
+export interface DefaultRuntimeVersionStatus {
+  sdkVersion: string;
+  available: boolean;
+  runtimeId: string | null;
+  creationStatus: string | null;
+  reason: string | null;
+}
+
+/**
+ * Check whether getOrCreateDefaultRuntimeForVersion can serve an SDK version,
+ * without creating anything. A version without a runtime record yet counts as
+ * available: the first deploy creates it from the pre-built image.
+ */
+export async function getDefaultRuntimeVersionStatus(
+  sdkVersion: string
+): Promise<DefaultRuntimeVersionStatus> {
+  const registryUrl = settings.runtime.REGISTRY_URL_RUNTIME;
+  if (!registryUrl) {
+    return {
+      sdkVersion,
+      available: false,
+      runtimeId: null,
+      creationStatus: null,
+      reason: 'REGISTRY_URL_RUNTIME is not configured, so versioned default runtimes are unavailable',
+    };
+  }
+
+  const configHash = generateConfigHashFromUri(`${registryUrl}:default-v${sdkVersion}`);
+
+  const db = getDb();
+
+  const [existingRuntime] = await db
+    .select()
+    .from(runtimes)
+    .where(eq(runtimes.configHash, configHash))
+    .limit(1);
+
+  if (!existingRuntime) {
+    return { sdkVersion, available: true, runtimeId: null, creationStatus: null, reason: null };
+  }
+
+  const failed = existingRuntime.creationStatus === 'FAILED';
+  return {
+    sdkVersion,
+    available: !failed,
+    runtimeId: existingRuntime.id,
+    creationStatus: existingRuntime.creationStatus,
+    reason: failed ? `Creating the default runtime for SDK version ${sdkVersion} failed` : null,
+  };
+}
+
 /**
  * Mark default runtime as failed
  */
@@ -0,0 +1,500 @@
+/**
+ * Execution Approval Service
+ *
+ * Human-in-the-loop approvals for `ctx.waitForApproval()`. A handler that
+ * asks for approval suspends its execution in the WAITING status; the request
+ * shows up in the dashboard inbox and can be posted to Slack with
+ * Approve/Reject buttons that link to signed callback URLs. Once decided (or
+ * timed out) the decision is stored as the result of the approval step and the
+ * execution is resumed on the deployment it started on.
+ */
+
+import crypto from 'crypto';
+import { eq, and, desc } from 'drizzle-orm';
+import { getDb } from '~/server/db';
+import {
+  executionApprovals,
+  executionHistory,
+  executionSteps,
+  providers,
+  users,
+  workflowDeployments,
+  workflows,
+} from '~/server/db/schema';
+import {
+  updateExecutionSuspended,
+  type StructuredLogEntry,
+} from '~/server/services/execution-service';
+import { MAX_SLEEP_MS } from '~/server/services/execution-step-service';
+import { decryptSecret } from '~/server/utils/encryption';
+import { logger } from '~/server/utils/logger';
+import { settings } from '~/server/settings';
+
+export type ApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'TIMED_OUT' | 'CANCELLED';
+export type CallbackDecision = 'approve' | 'reject';
+
+export interface ApprovalRequest {
+  name: string;
+  message: string;
+  approvers: string[];
+  timeoutAt?: string | null;
+  notify?: {
+    slack?: {
+      channel: string;
+      provider?: string;
+    };
+  };
+}
+
+export interface ApprovalInfo {
+  id: string;
+  executionId: string;
+  workflowId: string;
+  stepName: string;
+  message: string;
+  approvers: string[];
+  status: ApprovalStatus;
+  expiresAt: Date | null;
+  decidedAt: Date | null;
+  decidedByUserId: string | null;
+  comment: string | null;
+  createdAt: Date;
+}
+
+/** Decision passed back to the handler as the result of `ctx.waitForApproval()` */
+export interface ApprovalDecision {
+  approved: boolean;
+  status: 'approved' | 'rejected' | 'timed_out';
+  decidedBy: string | null;
+  comment: string | null;
+  decidedAt: string;
+}
+
+function toApprovalInfo(approval: typeof executionApprovals.$inferSelect): ApprovalInfo {
+  return {
+    id: approval.id,
+    executionId: approval.executionHistoryId,
+    workflowId: approval.workflowId,
+    stepName: approval.stepName,
+    message: approval.message,
+    approvers: (approval.approvers as string[] | null) ?? [],
+    status: approval.status,
+    expiresAt: approval.expiresAt,
+    decidedAt: approval.decidedAt,
+    decidedByUserId: approval.decidedByUserId,
+    comment: approval.comment,
+    createdAt: approval.createdAt,
+  };
+}
+
+/**
+ * Sign an approval decision for use in a callback URL
+ */
+export function signApprovalCallback(approvalId: string, decision: CallbackDecision): string {
+  return crypto
+    .createHmac('sha256', settings.database.SESSION_SECRET_KEY)
+    .update(`approval:${approvalId}:${decision}`)
+    .digest('hex');
+}
+
+/**
+ * Verify the signature of an approval callback URL
+ */
+export function verifyApprovalCallback(
+  approvalId: string,
+  decision: CallbackDecision,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signApprovalCallback(approvalId, decision), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+
+  if (expected.length !== actual.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Get the signed approve/reject callback URLs of an approval
+ */
+export function getApprovalCallbackUrls(approvalId: string): Record<CallbackDecision, string> {
+  const publicApiUrl = settings.general.PUBLIC_API_URL ?? 'http://localhost:3000';
+  const url = (decision: CallbackDecision) =>
+    `${publicApiUrl}/api/approvals/${approvalId}/callback?decision=${decision}&signature=${signApprovalCallback(approvalId, decision)}`;
+
+  return { approve: url('approve'), reject: url('reject') };
+}
+
+/**
+ * Check whether a user may decide an approval. Without an approvers list
+ * anyone with access to the workflow may decide.
+ */
+export async function canDecideApproval(
+  approval: Pick<ApprovalInfo, 'approvers'>,
+  userId: string
+): Promise<boolean> {
+  if (approval.approvers.length === 0) {
+    return true;
+  }
+
+  const db = getDb();
+  const [user] = await db
+    .select({ email: users.email, username: users.username })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user) {
+    return false;
+  }
+
+  const identities = [user.email, user.username]
+    .filter((identity): identity is string => !!identity)
+    .map((identity) => identity.toLowerCase());
+
+  return approval.approvers.some((approver) => identities.includes(approver.toLowerCase()));
+}
+
+/**
+ * Get an approval by ID
+ */
+export async function getApproval(approvalId: string): Promise<ApprovalInfo | null> {
+  const db = getDb();
+
+  const [approval] = await db
+    .select()
+    .from(executionApprovals)
+    .where(eq(executionApprovals.id, approvalId))
+    .limit(1);
+
+  return approval ? toApprovalInfo(approval) : null;
+}
+
+/**
+ * List the pending approvals of all workflows in a namespace, newest first
+ */
+export async function listPendingApprovals(
+  namespaceId: string
+): Promise<Array<ApprovalInfo & { workflowName: string }>> {
+  const db = getDb();
+
+  const result = await db
+    .select({ approval: executionApprovals, workflowName: workflows.name })
+    .from(executionApprovals)
+    .innerJoin(workflows, eq(executionApprovals.workflowId, workflows.id))
+    .where(and(eq(workflows.namespaceId, namespaceId), eq(executionApprovals.status, 'PENDING')))
+    .orderBy(desc(executionApprovals.createdAt));
+
+  return result.map((row) => ({ ...toApprovalInfo(row.approval), workflowName: row.workflowName }));
+}
+
+/**
+ * Put an execution on hold after its handler called `ctx.waitForApproval()`,
+ * notify the approvers and schedule the timeout
+ */
+export async function requestApproval(
+  executionId: string,
+  request: ApprovalRequest,
+  options: { logs?: StructuredLogEntry[]; durationMs?: number } = {}
+): Promise<ApprovalInfo> {
+  const db = getDb();
+
+  const expiresAt = request.timeoutAt ? new Date(request.timeoutAt) : null;
+  if (expiresAt && expiresAt.getTime() > Date.now() + MAX_SLEEP_MS) {
+    throw new Error(`Approval "${request.name}" timeout exceeds the maximum of 365 days`);
+  }
+
+  const [execution] = await db
+    .select()
+    .from(executionHistory)
+    .where(eq(executionHistory.id, executionId))
+    .limit(1);
+
+  if (!execution) {
+    throw new Error(`Execution ${executionId} not found`);
+  }
+
+  await db
+    .insert(executionSteps)
+    .values({
+      executionHistoryId: executionId,
+      name: request.name,
+      kind: 'approval',
+      wakeAt: expiresAt,
+    })
+    .onConflictDoNothing();
+
+  await db
+    .insert(executionApprovals)
+    .values({
+      executionHistoryId: executionId,
+      workflowId: execution.workflowId,
+      stepName: request.name,
+      message: request.message,
+      approvers: request.approvers,
+      expiresAt,
+    })
+    .onConflictDoNothing();
+
+  const [approval] = await db
+    .select()
+    .from(executionApprovals)
+    .where(
+      and(
+        eq(executionApprovals.executionHistoryId, executionId),
+        eq(executionApprovals.stepName, request.name)
+      )
+    )
+    .limit(1);
+
+  await updateExecutionSuspended(executionId, 'WAITING', options);
+
+  if (expiresAt) {
+    const { addJob } = await import('~/server/jobs/worker');
+    await addJob(
+      'expireApproval',
+      { approvalId: approval.id },
+      {
+        runAt: expiresAt,
+        maxAttempts: 1,
+        jobKey: `approval-timeout:${approval.id}`,
+      }
+    );
+  }
+
+  if (request.notify?.slack) {
+    try {
+      await postSlackApproval(
+        approval.id,
+        execution.deploymentId,
+        execution.workflowId,
+        request.message,
+        request.notify.slack
+      );
+    } catch (error) {
+      logger.warn('Failed to post approval request to Slack', {
+        approvalId: approval.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  logger.info('Execution waiting for approval', {
+    executionId,
+    approvalId: approval.id,
+    stepName: request.name,
+    expiresAt: expiresAt?.toISOString(),
+  });
+
+  return toApprovalInfo(approval);
+}
+
+/**
+ * Decide a pending approval and resume its execution
+ */
+export async function decideApproval(
+  approvalId: string,
+  decision: {
+    status: Exclude<ApprovalStatus, 'PENDING' | 'CANCELLED'>;
+    decidedByUserId?: string;
+    comment?: string;
+  }
+): Promise<ApprovalInfo> {
+  const db = getDb();
+  const decidedAt = new Date();
+
+  const [approval] = await db
+    .update(executionApprovals)
+    .set({
+      status: decision.status,
+      decidedAt,
+      decidedByUserId: decision.decidedByUserId ?? null,
+      comment: decision.comment ?? null,
+    })
+    .where(and(eq(executionApprovals.id, approvalId), eq(executionApprovals.status, 'PENDING')))
+    .returning();
+
+  if (!approval) {
+    const existing = await getApproval(approvalId);
+    throw new Error(existing ? 'Approval has already been decided' : 'Approval not found');
+  }
+
+  let decidedBy: string | null = null;
+  if (decision.decidedByUserId) {
+    const [user] = await db
+      .select({ email: users.email, username: users.username })
+      .from(users)
+      .where(eq(users.id, decision.decidedByUserId))
+      .limit(1);
+    decidedBy = user?.email ?? user?.username ?? null;
+  }
+
+  const result: ApprovalDecision = {
+    approved: decision.status === 'APPROVED',
+    status: decision.status.toLowerCase() as ApprovalDecision['status'],
+    decidedBy,
+    comment: decision.comment ?? null,
+    decidedAt: decidedAt.toISOString(),
+  };
+
+  await db
+    .update(executionSteps)
+    .set({ result, completedAt: decidedAt })
+    .where(
+      and(
+        eq(executionSteps.executionHistoryId, approval.executionHistoryId),
+        eq(executionSteps.name, approval.stepName)
+      )
+    );
+
+  const { addJob } = await import('~/server/jobs/worker');
+  await addJob(
+    'resumeExecution',
+    { executionId: approval.executionHistoryId, stepName: approval.stepName },
+    {
+      maxAttempts: 1,
+      jobKey: `resume:${approval.executionHistoryId}:${approval.stepName}`,
+    }
+  );
+
+  logger.info('Approval decided', {
+    approvalId,
+    executionId: approval.executionHistoryId,
+    status: decision.status,
+    decidedByUserId: decision.decidedByUserId,
+  });
+
+  return toApprovalInfo(approval);
+}
+
+/**
+ * Time out an approval that is still pending once its timeout passed
+ */
+export async function expireApproval(approvalId: string): Promise<ApprovalInfo | null> {
+  const approval = await getApproval(approvalId);
+  if (!approval || approval.status !== 'PENDING') {
+    logger.debug('Approval is no longer pending, not expiring', { approvalId });
+    return null;
+  }
+
+  return decideApproval(approvalId, { status: 'TIMED_OUT' });
+}
+
+/**
+ * Withdraw the pending approvals of a cancelled execution, so they leave the
+ * inbox and can no longer be decided
+ */
+export async function cancelPendingApprovals(executionId: string): Promise<void> {
+  const db = getDb();
+
+  await db
+    .update(executionApprovals)
+    .set({ status: 'CANCELLED', decidedAt: new Date() })
+    .where(
+      and(
+        eq(executionApprovals.executionHistoryId, executionId),
+        eq(executionApprovals.status, 'PENDING')
+      )
+    );
+}
+
+/**
+ * Post an approval request to Slack with Approve/Reject link buttons
+ */
+async function postSlackApproval(
+  approvalId: string,
+  deploymentId: string | null,
+  workflowId: string,
+  message: string,
+  slack: { channel: string; provider?: string }
+): Promise<void> {
+  const botToken = await resolveSlackBotToken(deploymentId, workflowId, slack.provider ?? 'default');
+  if (!botToken) {
+    throw new Error(`Slack provider "${slack.provider ?? 'default'}" not found`);
+  }
+
+  const urls = getApprovalCallbackUrls(approvalId);
+  const response = await fetch('https://slack.com/api/chat.postMessage', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      Authorization: `Bearer ${botToken}`,
+    },
+    body: JSON.stringify({
+      channel: slack.channel,
+      text: `Approval requested: ${message}`,
+      blocks: [
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: `*Approval requested*\n${message}` },
+        },
+        {
+          type: 'actions',
+          elements: [
+            {
+              type: 'button',
+              text: { type: 'plain_text', text: 'Approve' },
+              style: 'primary',
+              url: urls.approve,
+              action_id: 'floww_approve',
+            },
+            {
+              type: 'button',
+              text: { type: 'plain_text', text: 'Reject' },
+              style: 'danger',
+              url: urls.reject,
+              action_id: 'floww_reject',
+            },
+          ],
+        },
+      ],
+    }),
+  });
+
+  const data = (await response.json()) as { ok: boolean; error?: string };
+  if (!data.ok) {
+    throw new Error(data.error ?? `Slack API returned ${response.status}`);
+  }
+}
+
+/**
+ * Find the bot token of a Slack provider by its code alias, preferring the
+ * deployment's provider mappings over the namespace aliases
+ */
+async function resolveSlackBotToken(
+  deploymentId: string | null,
+  workflowId: string,
+  alias: string
+): Promise<string | null> {
+  const db = getDb();
+
+  let providerId: string | undefined;
+  if (deploymentId) {
+    const [deployment] = await db
+      .select({ providerMappings: workflowDeployments.providerMappings })
+      .from(workflowDeployments)
+      .where(eq(workflowDeployments.id, deploymentId))
+      .limit(1);
+    const mappings = deployment?.providerMappings as Record<string, Record<string, string>> | null;
+    providerId = mappings?.slack?.[alias];
+  }
+
+  const [provider] = providerId
+    ? await db.select().from(providers).where(eq(providers.id, providerId)).limit(1)
+    : await db
+        .select({ provider: providers })
+        .from(providers)
+        .innerJoin(workflows, eq(workflows.namespaceId, providers.namespaceId))
+        .where(
+          and(eq(workflows.id, workflowId), eq(providers.type, 'slack'), eq(providers.alias, alias))
+        )
+        .limit(1)
+        .then((rows) => rows.map((row) => row.provider));
+
+  if (!provider) {
+    return null;
+  }
+
+  const config = JSON.parse(decryptSecret(provider.encryptedConfig)) as Record<string, unknown>;
+  return typeof config.bot_token === 'string' ? config.bot_token : null;
+}
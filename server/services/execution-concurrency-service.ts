@@ -0,0 +1,315 @@
+/**
+ * Execution Concurrency Service
+ *
+ * Enforces the `concurrency` limits of triggers (trigger option) and workflows
+ * (floww.yaml, stored on the deployment). An execution over a limit stays in
+ * the RECEIVED status with its resolved concurrency keys; whenever a running
+ * execution finishes or suspends, the oldest queued execution sharing one of
+ * its keys is released through a `runQueuedExecution` job on the Graphile
+ * worker, so executions with the same key run one batch at a time, in order.
+ * Executions whose runtime never reports back are timed out after a while so
+ * they don't hold their slot forever.
+ */
+
+import { eq, and, or, asc, lt, ne, count, isNull, sql, type SQL } from 'drizzle-orm';
+import { getDb } from '~/server/db';
+import { executionHistory } from '~/server/db/schema';
+import { executeTrigger, type ExecutionResult } from '~/server/services/trigger-execution-service';
+import { updateExecutionTimeout } from '~/server/services/execution-service';
+import { logger } from '~/server/utils/logger';
+import { resolveEventTemplate } from '~/server/utils/event-template';
+
+export interface ConcurrencyPolicy {
+  limit: number;
+  // Template such as "{{body.repository.full_name}}"; without one all executions share the limit
+  key?: string;
+}
+
+export interface ConcurrencyRequest {
+  executionId: string;
+  workflowId: string;
+  triggerId: string;
+  // Deployment the execution is pinned to (replays, resumes); kept while it is queued
+  deploymentId?: string;
+  triggerPolicy?: ConcurrencyPolicy | null;
+  workflowPolicy?: ConcurrencyPolicy | null;
+  eventData: Record<string, unknown>;
+}
+
+// How long an execution may stay STARTED before its runtime is assumed lost
+// (crashed, or its completion never arrived); well over the 15 minute Lambda limit
+export const STALE_EXECUTION_TIMEOUT_MS = 30 * 60 * 1000;
+
+function triggerLockKey(triggerId: string, key: string): string {
+  return `concurrency:trigger:${triggerId}:${key}`;
+}
+
+function workflowLockKey(workflowId: string, key: string): string {
+  return `concurrency:workflow:${workflowId}:${key}`;
+}
+
+/**
+ * Resolve a concurrency key template against an event. Without a template
+ * all executions share one key.
+ */
+export function resolveConcurrencyKey(
+  template: string | undefined,
+  eventData: Record<string, unknown>
+): string {
+  return template ? resolveEventTemplate(template, eventData) : '';
+}
+
+/**
+ * Read a concurrency policy out of trigger options or a deployment
+ */
+export function parseConcurrencyPolicy(value: unknown): ConcurrencyPolicy | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { limit, key } = value as { limit?: unknown; key?: unknown };
+  if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1) {
+    return null;
+  }
+
+  return { limit, key: typeof key === 'string' ? key : undefined };
+}
+
+/**
+ * Claim a slot for an execution under the trigger and workflow limits.
+ * Returns false when the execution has to wait; it is then left in the
+ * RECEIVED status until a slot is released.
+ */
+export async function acquireConcurrencySlot(request: ConcurrencyRequest): Promise<boolean> {
+  const { executionId, workflowId, triggerId, triggerPolicy, workflowPolicy, eventData } = request;
+  if (!triggerPolicy && !workflowPolicy) {
+    return true;
+  }
+
+  const db = getDb();
+  const concurrencyKey = triggerPolicy ? resolveConcurrencyKey(triggerPolicy.key, eventData) : null;
+  const workflowConcurrencyKey = workflowPolicy
+    ? resolveConcurrencyKey(workflowPolicy.key, eventData)
+    : null;
+
+  return db.transaction(async (tx) => {
+    // Serialize slot accounting per key; always lock in the same order to avoid deadlocks
+    const lockKeys = [
+      concurrencyKey !== null ? triggerLockKey(triggerId, concurrencyKey) : null,
+      workflowConcurrencyKey !== null ? workflowLockKey(workflowId, workflowConcurrencyKey) : null,
+    ].filter((lockKey): lockKey is string => lockKey !== null);
+    for (const lockKey of lockKeys) {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`);
+    }
+
+    const [execution] = await tx
+      .select({ receivedAt: executionHistory.receivedAt })
+      .from(executionHistory)
+      .where(eq(executionHistory.id, executionId))
+      .limit(1);
+
+    if (!execution) {
+      return false;
+    }
+
+    // An execution may start while its scope has room and nothing older is queued in it
+    const hasRoom = async (scope: SQL | undefined, limit: number) => {
+      const [{ running }] = await tx
+        .select({ running: count() })
+        .from(executionHistory)
+        .where(
+          and(scope, eq(executionHistory.status, 'STARTED'), ne(executionHistory.id, executionId))
+        );
+      if (running >= limit) {
+        return false;
+      }
+
+      const [{ queued }] = await tx
+        .select({ queued: count() })
+        .from(executionHistory)
+        .where(
+          and(
+            scope,
+            eq(executionHistory.status, 'RECEIVED'),
+            lt(executionHistory.receivedAt, execution.receivedAt)
+          )
+        );
+      return queued === 0;
+    };
+
+    const acquired =
+      (!triggerPolicy ||
+        (await hasRoom(
+          and(
+            eq(executionHistory.triggerId, triggerId),
+            eq(executionHistory.concurrencyKey, concurrencyKey!)
+          ),
+          triggerPolicy.limit
+        ))) &&
+      (!workflowPolicy ||
+        (await hasRoom(
+          and(
+            eq(executionHistory.workflowId, workflowId),
+            eq(executionHistory.workflowConcurrencyKey, workflowConcurrencyKey!)
+          ),
+          workflowPolicy.limit
+        )));
+
+    await tx
+      .update(executionHistory)
+      .set({
+        status: acquired ? 'STARTED' : 'RECEIVED',
+        concurrencyKey,
+        workflowConcurrencyKey,
+        ...(request.deploymentId ? { deploymentId: request.deploymentId } : {}),
+      })
+      .where(eq(executionHistory.id, executionId));
+
+    if (!acquired) {
+      logger.info('Execution queued by concurrency limit', {
+        executionId,
+        triggerId,
+        concurrencyKey,
+        workflowConcurrencyKey,
+      });
+    }
+
+    return acquired;
+  });
+}
+
+/**
+ * Release the slot held by an execution that finished or suspended: queue the
+ * oldest execution waiting on the same trigger key and workflow key
+ */
+export async function releaseConcurrencySlot(executionId: string): Promise<void> {
+  const db = getDb();
+
+  const [execution] = await db
+    .select()
+    .from(executionHistory)
+    .where(eq(executionHistory.id, executionId))
+    .limit(1);
+
+  if (!execution || (execution.concurrencyKey === null && execution.workflowConcurrencyKey === null)) {
+    return;
+  }
+
+  const scopes: Array<{ lockKey: string; where: SQL | undefined }> = [];
+  if (execution.triggerId && execution.concurrencyKey !== null) {
+    scopes.push({
+      lockKey: triggerLockKey(execution.triggerId, execution.concurrencyKey),
+      where: and(
+        eq(executionHistory.triggerId, execution.triggerId),
+        eq(executionHistory.concurrencyKey, execution.concurrencyKey)
+      ),
+    });
+  }
+  if (execution.workflowConcurrencyKey !== null) {
+    scopes.push({
+      lockKey: workflowLockKey(execution.workflowId, execution.workflowConcurrencyKey),
+      where: and(
+        eq(executionHistory.workflowId, execution.workflowId),
+        eq(executionHistory.workflowConcurrencyKey, execution.workflowConcurrencyKey)
+      ),
+    });
+  }
+
+  const { addJob } = await import('~/server/jobs/worker');
+  for (const scope of scopes) {
+    // Taking the lock waits for executions that are being queued right now
+    const next = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${scope.lockKey}))`);
+
+      const [queued] = await tx
+        .select({ id: executionHistory.id })
+        .from(executionHistory)
+        .where(
+          and(scope.where, eq(executionHistory.status, 'RECEIVED'), ne(executionHistory.id, executionId))
+        )
+        .orderBy(asc(executionHistory.receivedAt))
+        .limit(1);
+      return queued;
+    });
+
+    if (next) {
+      await addJob(
+        'runQueuedExecution',
+        { executionId: next.id },
+        { maxAttempts: 1, jobKey: `concurrency:${next.id}` }
+      );
+    }
+  }
+}
+
+/**
+ * Time out executions that have been STARTED for longer than
+ * STALE_EXECUTION_TIMEOUT_MS and release their slots. Returns how many were
+ * timed out.
+ */
+export async function timeoutStaleExecutions(now: Date = new Date()): Promise<number> {
+  const db = getDb();
+  const cutoff = new Date(now.getTime() - STALE_EXECUTION_TIMEOUT_MS);
+
+  // Executions that took their slot but never got invoked have no startedAt
+  const stale = await db
+    .select({ id: executionHistory.id })
+    .from(executionHistory)
+    .where(
+      and(
+        eq(executionHistory.status, 'STARTED'),
+        or(
+          lt(executionHistory.startedAt, cutoff),
+          and(isNull(executionHistory.startedAt), lt(executionHistory.receivedAt, cutoff))
+        )
+      )
+    );
+
+  let timedOut = 0;
+  for (const { id } of stale) {
+    const execution = await updateExecutionTimeout(
+      id,
+      `Execution did not finish within ${STALE_EXECUTION_TIMEOUT_MS / 60_000} minutes`
+    );
+    if (!execution) {
+      // Finished while we were looking
+      continue;
+    }
+
+    logger.warn('Timed out stale execution', { executionId: id, startedAt: execution.startedAt });
+    await releaseConcurrencySlot(id);
+    timedOut++;
+  }
+
+  return timedOut;
+}
+
+/**
+ * Run an execution that was queued by a concurrency limit. It is queued again
+ * if its slot was taken in the meantime.
+ */
+export async function runQueuedExecution(executionId: string): Promise<ExecutionResult | null> {
+  const db = getDb();
+
+  const [execution] = await db
+    .select()
+    .from(executionHistory)
+    .where(eq(executionHistory.id, executionId))
+    .limit(1);
+
+  if (!execution || execution.status !== 'RECEIVED') {
+    logger.debug('Execution is no longer queued, not running', { executionId });
+    return null;
+  }
+
+  const triggerPayload = execution.triggerPayload as Record<string, unknown> | null;
+  if (!execution.triggerId || !triggerPayload) {
+    logger.warn('Queued execution can no longer be run', { executionId });
+    return null;
+  }
+
+  // Resumed executions keep running on the deployment they started on
+  return executeTrigger(execution.triggerId, triggerPayload, executionId, {
+    deploymentId: execution.deploymentId ?? undefined,
+  });
+}
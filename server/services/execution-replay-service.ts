@@ -0,0 +1,169 @@
+/**
+ * Execution Replay Service
+ *
+ * Re-runs failed executions with their stored trigger payload, either against
+ * the workflow's active deployment or the deployment that originally ran them.
+ * A replay is a new execution linked to its source through `replayOfExecutionId`;
+ * replayed executions drop out of the dead-letter queue.
+ */
+
+import {
+  createExecution,
+  getExecution,
+  getExecutionTriggerPayload,
+  listDeadLetterExecutions,
+  type ExecutionInfo,
+  type ExecutionStatus,
+} from '~/server/services/execution-service';
+import { copyExecutionSteps } from '~/server/services/execution-step-service';
+import { executeTrigger, type ExecutionResult } from '~/server/services/trigger-execution-service';
+import { logger } from '~/server/utils/logger';
+
+export type ReplayTarget = 'active' | 'original';
+
+export interface ReplayFilter {
+  statuses?: ExecutionStatus[];
+  triggerId?: string;
+  since?: Date;
+  until?: Date;
+}
+
+/** Upper bound on executions replayed by a single bulk replay */
+export const MAX_BULK_REPLAY = 500;
+
+/**
+ * Work out which deployment a replay should run on.
+ * Returns undefined for the active deployment.
+ */
+export function resolveReplayDeployment(
+  source: Pick<ExecutionInfo, 'id' | 'deploymentId'>,
+  target: ReplayTarget
+): string | undefined {
+  if (target === 'active') {
+    return undefined;
+  }
+  if (!source.deploymentId) {
+    throw new Error(`Execution ${source.id} has no original deployment to replay on`);
+  }
+  return source.deploymentId;
+}
+
+/**
+ * Create the execution record for a replay of `source`
+ */
+async function createReplay(
+  source: ExecutionInfo,
+  triggeredByUserId?: string
+): Promise<{ execution: ExecutionInfo; triggerPayload: Record<string, unknown> }> {
+  if (!source.triggerId) {
+    throw new Error(`Execution ${source.id} has no trigger to replay`);
+  }
+
+  const triggerPayload = await getExecutionTriggerPayload(source.id);
+  if (!triggerPayload) {
+    throw new Error(`Execution ${source.id} has no stored trigger payload`);
+  }
+
+  const execution = await createExecution({
+    workflowId: source.workflowId,
+    triggerId: source.triggerId,
+    triggeredByUserId,
+    replayOfExecutionId: source.id,
+    triggerPayload,
+  });
+
+  // Completed ctx.step() calls are not repeated by the replay
+  await copyExecutionSteps(source.id, execution.id);
+
+  return { execution, triggerPayload };
+}
+
+/**
+ * Replay a single execution right away
+ */
+export async function replayExecution(
+  executionId: string,
+  options: { target?: ReplayTarget; triggeredByUserId?: string } = {}
+): Promise<{ execution: ExecutionInfo; result: ExecutionResult }> {
+  const source = await getExecution(executionId);
+  if (!source) {
+    throw new Error(`Execution ${executionId} not found`);
+  }
+
+  const deploymentId = resolveReplayDeployment(source, options.target ?? 'active');
+  const { execution, triggerPayload } = await createReplay(source, options.triggeredByUserId);
+
+  logger.info('Replaying execution', {
+    executionId,
+    replayExecutionId: execution.id,
+    target: options.target ?? 'active',
+    deploymentId,
+  });
+
+  const result = await executeTrigger(source.triggerId!, triggerPayload, execution.id, { deploymentId });
+  return { execution, result };
+}
+
+/**
+ * Queue replays for every dead-lettered execution of a workflow that matches the filter
+ */
+export async function replayExecutions(
+  workflowId: string,
+  filter: ReplayFilter,
+  options: { target?: ReplayTarget; triggeredByUserId?: string; limit?: number } = {}
+): Promise<{ executions: ExecutionInfo[]; skipped: Array<{ executionId: string; reason: string }> }> {
+  const target = options.target ?? 'active';
+  const limit = Math.min(options.limit ?? MAX_BULK_REPLAY, MAX_BULK_REPLAY);
+
+  const { executions: sources } = await listDeadLetterExecutions(workflowId, { ...filter, limit });
+
+  const { addJob } = await import('~/server/jobs/worker');
+  const executions: ExecutionInfo[] = [];
+  const skipped: Array<{ executionId: string; reason: string }> = [];
+
+  for (const source of sources) {
+    try {
+      const deploymentId = resolveReplayDeployment(source, target);
+      const { execution } = await createReplay(source, options.triggeredByUserId);
+
+      await addJob(
+        'replayExecution',
+        { executionId: execution.id, deploymentId: deploymentId ?? null },
+        { maxAttempts: 1, jobKey: `replay:${execution.id}` }
+      );
+      executions.push(execution);
+    } catch (error) {
+      skipped.push({
+        executionId: source.id,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  logger.info('Queued execution replays', {
+    workflowId,
+    target,
+    queued: executions.length,
+    skipped: skipped.length,
+  });
+
+  return { executions, skipped };
+}
+
+/**
+ * Run a queued replay (created by `replayExecutions`)
+ */
+export async function runQueuedReplay(
+  executionId: string,
+  deploymentId?: string
+): Promise<ExecutionResult | null> {
+  const execution = await getExecution(executionId);
+  const triggerPayload = execution && (await getExecutionTriggerPayload(executionId));
+
+  if (!execution?.triggerId || !triggerPayload) {
+    logger.warn('Queued replay can no longer run', { executionId });
+    return null;
+  }
+
+  return executeTrigger(execution.triggerId, triggerPayload, executionId, { deploymentId });
+}
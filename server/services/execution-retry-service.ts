@@ -0,0 +1,176 @@
+/**
+ * Execution Retry Service
+ *
+ * Retries failed executions according to the trigger's `retry` option. Each
+ * retry is a new execution_history row linked to the first attempt, which is
+ * invoked by a `retryExecution` job on the Graphile worker with the event
+ * payload of the original execution.
+ */
+
+import { eq } from 'drizzle-orm';
+import { getDb } from '~/server/db';
+import { executionHistory, triggers } from '~/server/db/schema';
+import type { RetryOptions, TriggerOptions } from 'floww/common';
+import {
+  createExecution,
+  getExecutionTriggerPayload,
+  updateExecutionFailed,
+  type ExecutionInfo,
+} from '~/server/services/execution-service';
+import { copyExecutionSteps } from '~/server/services/execution-step-service';
+import { executeTrigger, type ExecutionResult } from '~/server/services/trigger-execution-service';
+import { logger } from '~/server/utils/logger';
+
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** Upper bound on attempts, regardless of what the workflow asks for */
+export const MAX_RETRY_ATTEMPTS = 10;
+
+/**
+ * Delay before the given retry (1 for the first retry)
+ */
+export function getRetryDelayMs(retry: RetryOptions, retryNumber: number): number {
+  const initialDelayMs = Math.max(retry.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS, 0);
+  const maxDelayMs = retry.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  const delayMs =
+    (retry.backoff ?? 'exponential') === 'fixed'
+      ? initialDelayMs
+      : initialDelayMs * Math.pow(2, retryNumber - 1);
+
+  return Math.min(delayMs, maxDelayMs);
+}
+
+/**
+ * Check whether an execution that failed on `attempt` should be retried
+ */
+export function shouldRetry(retry: RetryOptions, attempt: number, errorMessage: string): boolean {
+  const attempts = Math.min(retry.attempts, MAX_RETRY_ATTEMPTS);
+  if (attempt >= attempts) {
+    return false;
+  }
+
+  if (!retry.retryOn || retry.retryOn.length === 0) {
+    return true;
+  }
+
+  // Runtime errors are reported as "<name>: <message>", so this matches either
+  return retry.retryOn.some((pattern) => errorMessage.includes(pattern));
+}
+
+/**
+ * Read the retry policy from a trigger's options
+ */
+export function getRetryOptions(options: unknown): RetryOptions | null {
+  const retry = (options as TriggerOptions | null)?.retry;
+  if (!retry || typeof retry.attempts !== 'number' || retry.attempts <= 1) {
+    return null;
+  }
+  return retry;
+}
+
+/**
+ * Schedule the next attempt of a failed execution if its trigger has a retry policy.
+ * Returns the execution created for the retry, or null if it won't be retried.
+ */
+export async function scheduleExecutionRetry(
+  executionId: string,
+  errorMessage: string
+): Promise<ExecutionInfo | null> {
+  const db = getDb();
+
+  const [row] = await db
+    .select({ execution: executionHistory, triggerOptions: triggers.options })
+    .from(executionHistory)
+    .innerJoin(triggers, eq(executionHistory.triggerId, triggers.id))
+    .where(eq(executionHistory.id, executionId))
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  const { execution, triggerOptions } = row;
+  const retry = getRetryOptions(triggerOptions);
+  if (!retry || !shouldRetry(retry, execution.attempt, errorMessage)) {
+    return null;
+  }
+
+  const triggerPayload = execution.triggerPayload as Record<string, unknown> | null;
+  if (!triggerPayload) {
+    logger.warn('Execution has no stored trigger payload, not retrying', { executionId });
+    return null;
+  }
+
+  const retryExecution = await createExecution({
+    workflowId: execution.workflowId,
+    triggerId: execution.triggerId ?? undefined,
+    triggeredByUserId: execution.triggeredByUserId ?? undefined,
+    attempt: execution.attempt + 1,
+    originalExecutionId: execution.originalExecutionId ?? execution.id,
+    triggerPayload,
+  });
+
+  // Completed ctx.step() calls are not repeated by the retry
+  await copyExecutionSteps(execution.id, retryExecution.id);
+
+  const delayMs = getRetryDelayMs(retry, execution.attempt);
+
+  const { addJob } = await import('~/server/jobs/worker');
+  await addJob(
+    'retryExecution',
+    { executionId: retryExecution.id },
+    {
+      runAt: new Date(Date.now() + delayMs),
+      maxAttempts: 1,
+      jobKey: `retry:${retryExecution.id}`,
+    }
+  );
+
+  logger.info('Scheduled execution retry', {
+    executionId,
+    retryExecutionId: retryExecution.id,
+    attempt: retryExecution.attempt,
+    delayMs,
+  });
+
+  return retryExecution;
+}
+
+/**
+ * Run a scheduled retry with the payload of the execution it retries
+ */
+export async function runExecutionRetry(executionId: string): Promise<ExecutionResult | null> {
+  const db = getDb();
+
+  const [execution] = await db
+    .select()
+    .from(executionHistory)
+    .where(eq(executionHistory.id, executionId))
+    .limit(1);
+
+  if (!execution) {
+    logger.debug('Retry execution no longer exists', { executionId });
+    return null;
+  }
+
+  if (!execution.triggerId) {
+    await updateExecutionFailed(executionId, 'Trigger was removed before the retry could run');
+    return null;
+  }
+
+  const triggerPayload = await getExecutionTriggerPayload(executionId);
+  if (!triggerPayload) {
+    await updateExecutionFailed(executionId, 'Execution has no trigger payload to retry with');
+    return null;
+  }
+
+  logger.info('Retrying execution', {
+    executionId,
+    originalExecutionId: execution.originalExecutionId,
+    attempt: execution.attempt,
+  });
+
+  return executeTrigger(execution.triggerId, triggerPayload, executionId);
+}
@@ -5,7 +5,23 @@
  * Creates execution records when triggers fire and updates status as execution progresses.
  */
 
-import { eq, and, desc, ne, sql, ilike } from 'drizzle-orm';
+import {
+  eq,
+  and,
+  or,
+  asc,
+  desc,
+  ne,
+  gt,
+  gte,
+  lte,
+  sql,
+  ilike,
+  inArray,
+  isNotNull,
+  notExists,
+} from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
 import { getDb } from '~/server/db';
 import {
   executionHistory,
@@ -24,7 +40,11 @@ export type ExecutionStatus =
   | 'COMPLETED'
   | 'FAILED'
   | 'TIMEOUT'
-  | 'NO_DEPLOYMENT';
+  | 'NO_DEPLOYMENT'
+  | 'SLEEPING'
+  | 'WAITING'
+  | 'DUPLICATE'
+  | 'CANCELLED';
 export type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'LOG';
 
 export interface ExecutionInfo {
@@ -39,6 +59,14 @@ export interface ExecutionInfo {
   completedAt: Date | null;
   durationMs: number | null;
   errorMessage: string | null;
+  /** 1 for the first run, incremented for each retry */
+  attempt: number;
+  /** First attempt of the retry chain this execution belongs to */
+  originalExecutionId: string | null;
+  /** Execution this one was manually replayed from */
+  replayOfExecutionId: string | null;
+  /** Earlier execution of the same webhook delivery, for DUPLICATE executions */
+  duplicateOfExecutionId: string | null;
 }
 
 export interface ExecutionLogInfo {
@@ -69,6 +97,10 @@ export async function createExecution(params: {
   workflowId: string;
   triggerId?: string;
   triggeredByUserId?: string;
+  attempt?: number;
+  originalExecutionId?: string;
+  replayOfExecutionId?: string;
+  triggerPayload?: Record<string, unknown>;
 }): Promise<ExecutionInfo> {
   const db = getDb();
 
@@ -80,6 +112,10 @@ export async function createExecution(params: {
       triggerId: params.triggerId ?? null,
       triggeredByUserId: params.triggeredByUserId ?? null,
       status: 'RECEIVED',
+      attempt: params.attempt ?? 1,
+      originalExecutionId: params.originalExecutionId ?? null,
+      replayOfExecutionId: params.replayOfExecutionId ?? null,
+      triggerPayload: params.triggerPayload ?? null,
     })
     .returning();
 
@@ -95,9 +131,45 @@ export async function createExecution(params: {
     completedAt: execution.completedAt,
     durationMs: execution.durationMs,
     errorMessage: execution.errorMessage,
+    attempt: execution.attempt,
+    originalExecutionId: execution.originalExecutionId,
+    replayOfExecutionId: execution.replayOfExecutionId,
+    duplicateOfExecutionId: execution.duplicateOfExecutionId,
   };
 }
 
+/**
+ * Store the event an execution was triggered with, so it can be retried
+ */
+export async function saveExecutionTriggerPayload(
+  executionId: string,
+  triggerPayload: Record<string, unknown>
+): Promise<void> {
+  const db = getDb();
+
+  await db
+    .update(executionHistory)
+    .set({ triggerPayload })
+    .where(eq(executionHistory.id, executionId));
+}
+
+/**
+ * Get the stored trigger event of an execution
+ */
+export async function getExecutionTriggerPayload(
+  executionId: string
+): Promise<Record<string, unknown> | null> {
+  const db = getDb();
+
+  const [execution] = await db
+    .select({ triggerPayload: executionHistory.triggerPayload })
+    .from(executionHistory)
+    .where(eq(executionHistory.id, executionId))
+    .limit(1);
+
+  return (execution?.triggerPayload as Record<string, unknown> | null) ?? null;
+}
+
 /**
  * Mark execution as started when runtime is invoked
  */
@@ -129,6 +201,10 @@ export async function updateExecutionStarted(
     completedAt: execution.completedAt,
     durationMs: execution.durationMs,
     errorMessage: execution.errorMessage,
+    attempt: execution.attempt,
+    originalExecutionId: execution.originalExecutionId,
+    replayOfExecutionId: execution.replayOfExecutionId,
+    duplicateOfExecutionId: execution.duplicateOfExecutionId,
   };
 }
 
@@ -170,6 +246,10 @@ export async function updateExecutionCompleted(
     completedAt: execution.completedAt,
     durationMs: execution.durationMs,
     errorMessage: execution.errorMessage,
+    attempt: execution.attempt,
+    originalExecutionId: execution.originalExecutionId,
+    replayOfExecutionId: execution.replayOfExecutionId,
+    duplicateOfExecutionId: execution.duplicateOfExecutionId,
   };
 }
 
@@ -213,6 +293,100 @@ export async function updateExecutionFailed(
     completedAt: execution.completedAt,
     durationMs: execution.durationMs,
     errorMessage: execution.errorMessage,
+    attempt: execution.attempt,
+    originalExecutionId: execution.originalExecutionId,
+    replayOfExecutionId: execution.replayOfExecutionId,
+    duplicateOfExecutionId: execution.duplicateOfExecutionId,
+  };
+}
+
+/**
+ * Mark execution as suspended: sleeping until a `ctx.sleep()` is over, or
+ * waiting for the decision on a `ctx.waitForApproval()`
+ */
+export async function updateExecutionSuspended(
+  executionId: string,
+  status: 'SLEEPING' | 'WAITING',
+  options: {
+    logs?: string | StructuredLogEntry[];
+    durationMs?: number;
+  } = {}
+): Promise<ExecutionInfo> {
+  const db = getDb();
+
+  const [execution] = await db
+    .update(executionHistory)
+    .set({
+      status,
+      durationMs: options.durationMs ?? null,
+    })
+    .where(eq(executionHistory.id, executionId))
+    .returning();
+
+  if (options.logs) {
+    await processLogs(executionId, options.logs);
+  }
+
+  return {
+    id: execution.id,
+    workflowId: execution.workflowId,
+    triggerId: execution.triggerId,
+    deploymentId: execution.deploymentId,
+    triggeredByUserId: execution.triggeredByUserId,
+    status: execution.status,
+    receivedAt: execution.receivedAt,
+    startedAt: execution.startedAt,
+    completedAt: execution.completedAt,
+    durationMs: execution.durationMs,
+    errorMessage: execution.errorMessage,
+    attempt: execution.attempt,
+    originalExecutionId: execution.originalExecutionId,
+    replayOfExecutionId: execution.replayOfExecutionId,
+    duplicateOfExecutionId: execution.duplicateOfExecutionId,
+  };
+}
+
+/** Statuses of executions that can be cancelled: queued or suspended, not running */
+export const CANCELLABLE_STATUSES: ExecutionStatus[] = ['RECEIVED', 'SLEEPING', 'WAITING'];
+
+/**
+ * Cancel an execution that is queued or suspended. Returns null when the
+ * execution is not in a cancellable status (anymore).
+ */
+export async function cancelExecution(executionId: string): Promise<ExecutionInfo | null> {
+  const db = getDb();
+
+  const [execution] = await db
+    .update(executionHistory)
+    .set({
+      status: 'CANCELLED',
+      completedAt: new Date(),
+    })
+    .where(
+      and(eq(executionHistory.id, executionId), inArray(executionHistory.status, CANCELLABLE_STATUSES))
+    )
+    .returning();
+
+  if (!execution) {
+    return null;
+  }
+
+  return {
+    id: execution.id,
+    workflowId: execution.workflowId,
+    triggerId: execution.triggerId,
+    deploymentId: execution.deploymentId,
+    triggeredByUserId: execution.triggeredByUserId,
+    status: execution.status,
+    receivedAt: execution.receivedAt,
+    startedAt: execution.startedAt,
+    completedAt: execution.completedAt,
+    durationMs: execution.durationMs,
+    errorMessage: execution.errorMessage,
+    attempt: execution.attempt,
+    originalExecutionId: execution.originalExecutionId,
+    replayOfExecutionId: execution.replayOfExecutionId,
+    duplicateOfExecutionId: execution.duplicateOfExecutionId,
   };
 }
 
@@ -243,13 +417,21 @@ export async function updateExecutionNoDeployment(executionId: string): Promise<
     completedAt: execution.completedAt,
     durationMs: execution.durationMs,
     errorMessage: execution.errorMessage,
+    attempt: execution.attempt,
+    originalExecutionId: execution.originalExecutionId,
+    replayOfExecutionId: execution.replayOfExecutionId,
+    duplicateOfExecutionId: execution.duplicateOfExecutionId,
   };
 }
 
 /**
- * Mark execution as timed out
+ * Mark a running execution as timed out. Returns null when it is no longer
+ * running, e.g. because it completed in the meantime.
  */
-export async function updateExecutionTimeout(executionId: string): Promise<ExecutionInfo> {
+export async function updateExecutionTimeout(
+  executionId: string,
+  errorMessage?: string
+): Promise<ExecutionInfo | null> {
   const db = getDb();
 
   const [execution] = await db
@@ -257,10 +439,15 @@ export async function updateExecutionTimeout(executionId: string): Promise<Execu
     .set({
       status: 'TIMEOUT',
       completedAt: new Date(),
+      errorMessage,
     })
-    .where(eq(executionHistory.id, executionId))
+    .where(and(eq(executionHistory.id, executionId), eq(executionHistory.status, 'STARTED')))
     .returning();
 
+  if (!execution) {
+    return null;
+  }
+
   return {
     id: execution.id,
     workflowId: execution.workflowId,
@@ -273,6 +460,10 @@ export async function updateExecutionTimeout(executionId: string): Promise<Execu
     completedAt: execution.completedAt,
     durationMs: execution.durationMs,
     errorMessage: execution.errorMessage,
+    attempt: execution.attempt,
+    originalExecutionId: execution.originalExecutionId,
+    replayOfExecutionId: execution.replayOfExecutionId,
+    duplicateOfExecutionId: execution.duplicateOfExecutionId,
   };
 }
 
@@ -321,6 +512,10 @@ export async function getExecution(executionId: string): Promise<ExecutionWithDe
     completedAt: execution.completedAt,
     durationMs: execution.durationMs,
     errorMessage: execution.errorMessage,
+    attempt: execution.attempt,
+    originalExecutionId: execution.originalExecutionId,
+    replayOfExecutionId: execution.replayOfExecutionId,
+    duplicateOfExecutionId: execution.duplicateOfExecutionId,
     triggerType,
     webhookPath,
     webhookMethod,
@@ -334,6 +529,40 @@ export async function getExecution(executionId: string): Promise<ExecutionWithDe
   };
 }
 
+/**
+ * Get all attempts of the retry chain an execution belongs to, oldest first
+ */
+export async function getExecutionAttempts(execution: ExecutionInfo): Promise<ExecutionInfo[]> {
+  const db = getDb();
+  const originalId = execution.originalExecutionId ?? execution.id;
+
+  const result = await db
+    .select()
+    .from(executionHistory)
+    .where(
+      or(eq(executionHistory.id, originalId), eq(executionHistory.originalExecutionId, originalId))
+    )
+    .orderBy(asc(executionHistory.attempt));
+
+  return result.map((execution) => ({
+    id: execution.id,
+    workflowId: execution.workflowId,
+    triggerId: execution.triggerId,
+    deploymentId: execution.deploymentId,
+    triggeredByUserId: execution.triggeredByUserId,
+    status: execution.status,
+    receivedAt: execution.receivedAt,
+    startedAt: execution.startedAt,
+    completedAt: execution.completedAt,
+    durationMs: execution.durationMs,
+    errorMessage: execution.errorMessage,
+    attempt: execution.attempt,
+    originalExecutionId: execution.originalExecutionId,
+    replayOfExecutionId: execution.replayOfExecutionId,
+    duplicateOfExecutionId: execution.duplicateOfExecutionId,
+  }));
+}
+
 /**
  * List executions for a workflow with pagination and filtering
  */
@@ -343,15 +572,18 @@ export async function listExecutions(
     limit?: number;
     offset?: number;
     status?: ExecutionStatus;
+    triggerId?: string;
+    since?: Date;
+    until?: Date;
     excludeNoDeployment?: boolean;
   } = {}
 ): Promise<{ executions: ExecutionWithDetails[]; total: number }> {
   const db = getDb();
-  const { limit = 50, offset = 0, status, excludeNoDeployment = true } = options;
+  const { limit = 50, offset = 0, status, triggerId, since, until, excludeNoDeployment = true } = options;
 
   const conditions = [eq(executionHistory.workflowId, workflowId)];
 
-  if (excludeNoDeployment) {
+  if (excludeNoDeployment && status !== 'NO_DEPLOYMENT') {
     conditions.push(ne(executionHistory.status, 'NO_DEPLOYMENT'));
   }
 
@@ -359,6 +591,18 @@ export async function listExecutions(
     conditions.push(eq(executionHistory.status, status));
   }
 
+  if (triggerId) {
+    conditions.push(eq(executionHistory.triggerId, triggerId));
+  }
+
+  if (since) {
+    conditions.push(gte(executionHistory.receivedAt, since));
+  }
+
+  if (until) {
+    conditions.push(lte(executionHistory.receivedAt, until));
+  }
+
   // Get total count
   const [{ count: total }] = await db
     .select({ count: sql<number>`count(*)::int` })
@@ -394,6 +638,117 @@ export async function listExecutions(
       completedAt: execution.completedAt,
       durationMs: execution.durationMs,
       errorMessage: execution.errorMessage,
+      attempt: execution.attempt,
+      originalExecutionId: execution.originalExecutionId,
+      replayOfExecutionId: execution.replayOfExecutionId,
+      duplicateOfExecutionId: execution.duplicateOfExecutionId,
+      triggerType,
+      webhookPath,
+      webhookMethod,
+    })),
+    total,
+  };
+}
+
+/**
+ * List dead-lettered executions: failures that won't be retried and haven't been replayed yet.
+ * Only executions with a stored trigger payload are included, since others can't be replayed.
+ */
+export async function listDeadLetterExecutions(
+  workflowId: string,
+  options: {
+    limit?: number;
+    offset?: number;
+    statuses?: ExecutionStatus[];
+    triggerId?: string;
+    since?: Date;
+    until?: Date;
+  } = {}
+): Promise<{ executions: ExecutionWithDetails[]; total: number }> {
+  const db = getDb();
+  const { limit = 50, offset = 0, statuses = ['FAILED', 'TIMEOUT'], triggerId, since, until } = options;
+
+  const laterAttempt = alias(executionHistory, 'later_attempt');
+  const replay = alias(executionHistory, 'replay');
+
+  const conditions = [
+    eq(executionHistory.workflowId, workflowId),
+    inArray(executionHistory.status, statuses),
+    isNotNull(executionHistory.triggerPayload),
+    // Superseded by a retry
+    notExists(
+      db
+        .select({ id: laterAttempt.id })
+        .from(laterAttempt)
+        .where(
+          and(
+            eq(
+              laterAttempt.originalExecutionId,
+              sql`coalesce(${executionHistory.originalExecutionId}, ${executionHistory.id})`
+            ),
+            gt(laterAttempt.attempt, executionHistory.attempt)
+          )
+        )
+    ),
+    // Already replayed
+    notExists(
+      db
+        .select({ id: replay.id })
+        .from(replay)
+        .where(eq(replay.replayOfExecutionId, executionHistory.id))
+    ),
+  ];
+
+  if (triggerId) {
+    conditions.push(eq(executionHistory.triggerId, triggerId));
+  }
+
+  if (since) {
+    conditions.push(gte(executionHistory.receivedAt, since));
+  }
+
+  if (until) {
+    conditions.push(lte(executionHistory.receivedAt, until));
+  }
+
+  // Get total count
+  const [{ count: total }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(executionHistory)
+    .where(and(...conditions));
+
+  const result = await db
+    .select({
+      execution: executionHistory,
+      triggerType: triggers.triggerType,
+      webhookPath: incomingWebhooks.path,
+      webhookMethod: incomingWebhooks.method,
+    })
+    .from(executionHistory)
+    .leftJoin(triggers, eq(executionHistory.triggerId, triggers.id))
+    .leftJoin(incomingWebhooks, eq(triggers.id, incomingWebhooks.triggerId))
+    .where(and(...conditions))
+    .orderBy(desc(executionHistory.receivedAt))
+    .limit(limit)
+    .offset(offset);
+
+  return {
+    executions: result.map(({ execution, triggerType, webhookPath, webhookMethod }) => ({
+      id: execution.id,
+      workflowId: execution.workflowId,
+      triggerId: execution.triggerId,
+      deploymentId: execution.deploymentId,
+      triggeredByUserId: execution.triggeredByUserId,
+      status: execution.status,
+      receivedAt: execution.receivedAt,
+      startedAt: execution.startedAt,
+      completedAt: execution.completedAt,
+      durationMs: execution.durationMs,
+      errorMessage: execution.errorMessage,
+      attempt: execution.attempt,
+      originalExecutionId: execution.originalExecutionId,
+      replayOfExecutionId: execution.replayOfExecutionId,
+      duplicateOfExecutionId: execution.duplicateOfExecutionId,
       triggerType,
       webhookPath,
       webhookMethod,
@@ -448,6 +803,10 @@ export async function listRecentExecutions(
     completedAt: execution.completedAt,
     durationMs: execution.durationMs,
     errorMessage: execution.errorMessage,
+    attempt: execution.attempt,
+    originalExecutionId: execution.originalExecutionId,
+    replayOfExecutionId: execution.replayOfExecutionId,
+    duplicateOfExecutionId: execution.duplicateOfExecutionId,
     triggerType,
     webhookPath,
     webhookMethod,
@@ -482,18 +841,28 @@ export async function searchExecutionLogs(
   workflowId: string,
   options: {
     searchQuery?: string;
-    level?: LogLevel;
+    levels?: LogLevel[];
+    executionId?: string;
+    since?: Date;
     limit?: number;
     offset?: number;
   } = {}
 ): Promise<ExecutionLogInfo[]> {
   const db = getDb();
-  const { searchQuery, level, limit = 100, offset = 0 } = options;
+  const { searchQuery, levels, executionId, since, limit = 100, offset = 0 } = options;
 
   const conditions = [eq(executionHistory.workflowId, workflowId)];
 
-  if (level) {
-    conditions.push(eq(executionLogs.logLevel, level));
+  if (levels && levels.length > 0) {
+    conditions.push(inArray(executionLogs.logLevel, levels));
+  }
+
+  if (executionId) {
+    conditions.push(eq(executionLogs.executionHistoryId, executionId));
+  }
+
+  if (since) {
+    conditions.push(gte(executionLogs.timestamp, since));
   }
 
   if (searchQuery) {
@@ -626,6 +995,10 @@ export function serializeExecution(execution: ExecutionWithDetails): Record<stri
     completedAt: execution.completedAt?.toISOString() ?? null,
     durationMs: durationMs,
     errorMessage: execution.errorMessage,
+    attempt: execution.attempt,
+    originalExecutionId: execution.originalExecutionId,
+    replayOfExecutionId: execution.replayOfExecutionId,
+    duplicateOfExecutionId: execution.duplicateOfExecutionId,
     triggerType: execution.triggerType ?? null,
     webhookPath: execution.webhookPath ?? null,
     webhookMethod: execution.webhookMethod ?? null,
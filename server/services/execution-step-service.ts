@@ -0,0 +1,235 @@
+/**
+ * Execution Step Service
+ *
+ * Stores the checkpoints of durable handlers: results of `ctx.step()` calls,
+ * pending `ctx.sleep()` calls and `ctx.waitForApproval()` decisions. Completed steps are sent to the runtime on
+ * every run of an execution so they are skipped, and are copied onto retries
+ * and replays. A suspended execution is resumed by a `resumeExecution` job on
+ * the Graphile worker once its sleep is over or its approval is decided.
+ */
+
+import { eq, and, asc, isNotNull, isNull } from 'drizzle-orm';
+import { getDb } from '~/server/db';
+import { executionHistory, executionSteps } from '~/server/db/schema';
+import {
+  updateExecutionSuspended,
+  type StructuredLogEntry,
+} from '~/server/services/execution-service';
+import { executeTrigger, type ExecutionResult } from '~/server/services/trigger-execution-service';
+import { logger } from '~/server/utils/logger';
+
+export type ExecutionStepKind = 'step' | 'sleep' | 'approval';
+
+export interface ExecutionStepInfo {
+  id: string;
+  executionId: string;
+  name: string;
+  kind: ExecutionStepKind;
+  result: unknown;
+  wakeAt: Date | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+/** Longest sleep a handler can ask for */
+export const MAX_SLEEP_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * List all steps of an execution, oldest first
+ */
+export async function listExecutionSteps(executionId: string): Promise<ExecutionStepInfo[]> {
+  const db = getDb();
+
+  const result = await db
+    .select()
+    .from(executionSteps)
+    .where(eq(executionSteps.executionHistoryId, executionId))
+    .orderBy(asc(executionSteps.createdAt));
+
+  return result.map((step) => ({
+    id: step.id,
+    executionId: step.executionHistoryId,
+    name: step.name,
+    kind: step.kind as ExecutionStepKind,
+    result: step.result,
+    wakeAt: step.wakeAt,
+    createdAt: step.createdAt,
+    completedAt: step.completedAt,
+  }));
+}
+
+/**
+ * Get the results of completed steps, in the shape the runtime expects
+ */
+export async function getCompletedSteps(
+  executionId: string
+): Promise<Record<string, { result?: unknown }>> {
+  const db = getDb();
+
+  const result = await db
+    .select({ name: executionSteps.name, kind: executionSteps.kind, result: executionSteps.result })
+    .from(executionSteps)
+    .where(
+      and(eq(executionSteps.executionHistoryId, executionId), isNotNull(executionSteps.completedAt))
+    );
+
+  const steps: Record<string, { result?: unknown }> = {};
+  for (const step of result) {
+    steps[step.name] = step.kind === 'sleep' ? {} : { result: step.result };
+  }
+  return steps;
+}
+
+/**
+ * Record a completed `ctx.step()`. The first recorded result wins.
+ */
+export async function recordExecutionStep(
+  executionId: string,
+  name: string,
+  result: unknown
+): Promise<void> {
+  const db = getDb();
+
+  await db
+    .insert(executionSteps)
+    .values({
+      executionHistoryId: executionId,
+      name,
+      kind: 'step',
+      result: result ?? null,
+      completedAt: new Date(),
+    })
+    .onConflictDoNothing();
+}
+
+/**
+ * Copy the completed steps of one execution onto another (retries and replays)
+ */
+export async function copyExecutionSteps(
+  fromExecutionId: string,
+  toExecutionId: string
+): Promise<void> {
+  const db = getDb();
+
+  const completed = await db
+    .select()
+    .from(executionSteps)
+    .where(
+      and(
+        eq(executionSteps.executionHistoryId, fromExecutionId),
+        isNotNull(executionSteps.completedAt)
+      )
+    );
+
+  if (completed.length === 0) {
+    return;
+  }
+
+  await db
+    .insert(executionSteps)
+    .values(
+      completed.map((step) => ({
+        executionHistoryId: toExecutionId,
+        name: step.name,
+        kind: step.kind,
+        result: step.result,
+        wakeAt: step.wakeAt,
+        createdAt: step.createdAt,
+        completedAt: step.completedAt,
+      }))
+    )
+    .onConflictDoNothing();
+}
+
+/**
+ * Put an execution to sleep after its handler called `ctx.sleep()` and
+ * schedule the job that resumes it
+ */
+export async function suspendExecution(
+  executionId: string,
+  sleep: { name: string; until: Date },
+  options: { logs?: StructuredLogEntry[]; durationMs?: number } = {}
+): Promise<void> {
+  const db = getDb();
+
+  const maxWakeAt = new Date(Date.now() + MAX_SLEEP_MS);
+  if (sleep.until > maxWakeAt) {
+    throw new Error(`Sleep "${sleep.name}" exceeds the maximum of 365 days`);
+  }
+
+  await db
+    .insert(executionSteps)
+    .values({
+      executionHistoryId: executionId,
+      name: sleep.name,
+      kind: 'sleep',
+      wakeAt: sleep.until,
+    })
+    .onConflictDoUpdate({
+      target: [executionSteps.executionHistoryId, executionSteps.name],
+      set: { wakeAt: sleep.until },
+    });
+
+  await updateExecutionSuspended(executionId, 'SLEEPING', options);
+
+  const { addJob } = await import('~/server/jobs/worker');
+  await addJob(
+    'resumeExecution',
+    { executionId, stepName: sleep.name },
+    {
+      runAt: sleep.until,
+      maxAttempts: 1,
+      jobKey: `resume:${executionId}:${sleep.name}`,
+    }
+  );
+
+  logger.info('Execution suspended', {
+    executionId,
+    stepName: sleep.name,
+    wakeAt: sleep.until.toISOString(),
+  });
+}
+
+/**
+ * Resume a sleeping or waiting execution on the deployment it started on
+ */
+export async function resumeExecution(
+  executionId: string,
+  stepName: string
+): Promise<ExecutionResult | null> {
+  const db = getDb();
+
+  const [execution] = await db
+    .select()
+    .from(executionHistory)
+    .where(eq(executionHistory.id, executionId))
+    .limit(1);
+
+  if (!execution || (execution.status !== 'SLEEPING' && execution.status !== 'WAITING')) {
+    logger.debug('Execution is no longer suspended, not resuming', { executionId, stepName });
+    return null;
+  }
+
+  const triggerPayload = execution.triggerPayload as Record<string, unknown> | null;
+  if (!execution.triggerId || !triggerPayload) {
+    logger.warn('Suspended execution can no longer be resumed', { executionId, stepName });
+    return null;
+  }
+
+  await db
+    .update(executionSteps)
+    .set({ completedAt: new Date() })
+    .where(
+      and(
+        eq(executionSteps.executionHistoryId, executionId),
+        eq(executionSteps.name, stepName),
+        isNull(executionSteps.completedAt)
+      )
+    );
+
+  logger.info('Resuming execution', { executionId, stepName });
+
+  return executeTrigger(execution.triggerId, triggerPayload, executionId, {
+    deploymentId: execution.deploymentId ?? undefined,
+  });
+}
@@ -0,0 +1,206 @@
+/**
+ * KV Change Service
+ *
+ * Runs kvstore onChange triggers for writes made through the /kv routes. The
+ * routes report what they changed; matching triggers are executed from a
+ * background job so writes don't wait for workflows to start. A workflow's own
+ * writes don't run its triggers, so a handler that writes to the table it
+ * watches doesn't loop.
+ */
+
+import { eq, and, inArray, sql } from 'drizzle-orm';
+import { getDb } from '~/server/db';
+import { triggers, workflows, namespaces } from '~/server/db/schema';
+import { createExecution, updateExecutionFailed } from '~/server/services/execution-service';
+import {
+  buildKvChangeEventData,
+  executeKvChangeTrigger,
+  type KvChangeEventData,
+} from '~/server/services/trigger-execution-service';
+import { checkExecutionLimit } from '~/server/services/billing-service';
+import { logger } from '~/server/utils/logger';
+
+export const KV_CHANGE_TRIGGER_TYPE = 'onChange';
+
+export type KvChangeOperation = KvChangeEventData['operation'];
+
+export interface KvChange {
+  table: string;
+  key: string;
+  operation: KvChangeOperation;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface KvChangeTrigger {
+  id: string;
+  workflowId: string;
+  input: {
+    table: string;
+    prefix?: string;
+    operations: KvChangeOperation[];
+  };
+}
+
+export interface KvChangeDelivery {
+  triggerId: string;
+  event: KvChangeEventData;
+}
+
+/**
+ * Check whether a trigger is run by writes to a KV store instead of a webhook
+ */
+export function isKvChangeTrigger(providerType: string, triggerType: string): boolean {
+  return providerType === 'kvstore' && triggerType === KV_CHANGE_TRIGGER_TYPE;
+}
+
+/**
+ * Get the onChange triggers watching a table of a KV provider
+ */
+export async function getChangeTriggers(
+  providerId: string,
+  table: string
+): Promise<KvChangeTrigger[]> {
+  const db = getDb();
+
+  const rows = await db
+    .select({ id: triggers.id, workflowId: triggers.workflowId, input: triggers.input })
+    .from(triggers)
+    .where(
+      and(
+        eq(triggers.providerId, providerId),
+        eq(triggers.triggerType, KV_CHANGE_TRIGGER_TYPE),
+        sql`${triggers.input}->>'table' = ${table}`
+      )
+    );
+
+  return rows as KvChangeTrigger[];
+}
+
+/**
+ * Check whether a trigger fires for a change. Writes by the trigger's own
+ * workflow never fire it.
+ */
+export function matchesChange(
+  trigger: KvChangeTrigger,
+  change: KvChange,
+  writerWorkflowId: string | null
+): boolean {
+  const { table, prefix, operations } = trigger.input;
+  return (
+    trigger.workflowId !== writerWorkflowId &&
+    table === change.table &&
+    (!prefix || change.key.startsWith(prefix)) &&
+    operations.includes(change.operation)
+  );
+}
+
+/**
+ * Queue executions of the triggers matching a request's changes
+ * Returns the number of queued executions
+ */
+export async function dispatchKvChanges(
+  changeTriggers: KvChangeTrigger[],
+  changes: KvChange[],
+  writerWorkflowId: string | null
+): Promise<number> {
+  const changedAt = new Date();
+  const deliveries: KvChangeDelivery[] = [];
+
+  for (const change of changes) {
+    for (const trigger of changeTriggers) {
+      if (matchesChange(trigger, change, writerWorkflowId)) {
+        deliveries.push({
+          triggerId: trigger.id,
+          event: buildKvChangeEventData({ ...change, workflowId: writerWorkflowId }, changedAt),
+        });
+      }
+    }
+  }
+
+  if (deliveries.length === 0) {
+    return 0;
+  }
+
+  // The write already happened, so a failure to queue is logged, not returned
+  try {
+    const { addJob } = await import('~/server/jobs/worker');
+    // One attempt: a retried job would run the executions it already started again
+    await addJob('executeKvChangeTriggers', { deliveries }, { maxAttempts: 1 });
+  } catch (error) {
+    logger.error('Failed to queue KV change triggers', {
+      triggerIds: [...new Set(deliveries.map((delivery) => delivery.triggerId))],
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return 0;
+  }
+
+  return deliveries.length;
+}
+
+/**
+ * Execute queued KV change deliveries, in the order the changes were made. A
+ * failed delivery is recorded on its execution and the rest still run, since
+ * the job isn't retried.
+ * Returns the number of executed deliveries
+ */
+export async function runKvChangeTriggers(deliveries: KvChangeDelivery[]): Promise<number> {
+  const db = getDb();
+  const triggerIds = [...new Set(deliveries.map((delivery) => delivery.triggerId))];
+
+  const rows = await db
+    .select({
+      triggerId: triggers.id,
+      workflowId: triggers.workflowId,
+      organizationId: namespaces.organizationOwnerId,
+    })
+    .from(triggers)
+    .innerJoin(workflows, eq(triggers.workflowId, workflows.id))
+    .innerJoin(namespaces, eq(workflows.namespaceId, namespaces.id))
+    .where(inArray(triggers.id, triggerIds));
+
+  const targets = new Map(rows.map((row) => [row.triggerId, row]));
+
+  let executed = 0;
+  for (const delivery of deliveries) {
+    // Trigger removed by a deploy since the write
+    const target = targets.get(delivery.triggerId);
+    if (!target) continue;
+
+    if (target.organizationId) {
+      const limitCheck = await checkExecutionLimit(target.organizationId);
+      if (!limitCheck.allowed) {
+        logger.warn('Execution limit reached, dropping KV change event', {
+          triggerId: delivery.triggerId,
+          workflowId: target.workflowId,
+          table: delivery.event.table,
+          key: delivery.event.key,
+        });
+        continue;
+      }
+    }
+
+    let executionId: string | undefined;
+    try {
+      const execution = await createExecution({
+        workflowId: target.workflowId,
+        triggerId: delivery.triggerId,
+      });
+      executionId = execution.id;
+      await executeKvChangeTrigger(delivery.triggerId, delivery.event, execution.id);
+      executed++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to run KV change trigger', {
+        triggerId: delivery.triggerId,
+        executionId,
+        error: message,
+      });
+      if (executionId) {
+        await updateExecutionFailed(executionId, message);
+      }
+    }
+  }
+
+  return executed;
+}
@@ -0,0 +1,165 @@
+/**
+ * KV Lock Service
+ *
+ * Leases on a name within a KV provider, so only one execution at a time runs
+ * a guarded section. A lease expires after its TTL unless it is extended, and
+ * every acquire gets a new fencing token from a sequence shared by all locks.
+ * Writes to the KV store that pass the token are rejected once the lock has
+ * been acquired again, so a holder whose lease ran out mid-execution can't
+ * overwrite the new holder's work.
+ */
+
+import { eq, and, gt, lte, or, isNull, sql } from 'drizzle-orm';
+import { getDb, type Database } from '~/server/db';
+import { kvLocks, kvLockFencingTokens } from '~/server/db/schema';
+import { generateUlidUuid } from '~/server/utils/uuid';
+
+export interface LockLease {
+  leaseId: string;
+  fencingToken: number;
+  expiresAt: Date;
+}
+
+export type AcquireLockResult =
+  | ({ acquired: true } & LockLease)
+  // How long until the current lease expires, for callers that wait
+  | { acquired: false; retryAfterMs: number };
+
+/**
+ * Acquire a lock when it is free, released or expired
+ */
+export async function acquireLock(
+  providerId: string,
+  name: string,
+  ttlMs: number
+): Promise<AcquireLockResult> {
+  const db = getDb();
+  const now = new Date();
+
+  // Single upsert so two executions can't both take a free lock
+  const acquired = await db
+    .insert(kvLocks)
+    .values({
+      id: generateUlidUuid(),
+      providerId,
+      name,
+      leaseId: generateUlidUuid(),
+      fencingToken: sql`nextval(${kvLockFencingTokens.seqName})`,
+      expiresAt: new Date(now.getTime() + ttlMs),
+    })
+    .onConflictDoUpdate({
+      target: [kvLocks.providerId, kvLocks.name],
+      set: {
+        leaseId: sql`excluded.lease_id`,
+        fencingToken: sql`excluded.fencing_token`,
+        expiresAt: sql`excluded.expires_at`,
+        updatedAt: now,
+      },
+      setWhere: or(isNull(kvLocks.leaseId), lte(kvLocks.expiresAt, now)),
+    })
+    .returning({
+      leaseId: kvLocks.leaseId,
+      fencingToken: kvLocks.fencingToken,
+      expiresAt: kvLocks.expiresAt,
+    });
+
+  if (acquired.length > 0) {
+    const lease = acquired[0];
+    return {
+      acquired: true,
+      leaseId: lease.leaseId!,
+      fencingToken: lease.fencingToken,
+      expiresAt: lease.expiresAt!,
+    };
+  }
+
+  const current = await db
+    .select({ expiresAt: kvLocks.expiresAt })
+    .from(kvLocks)
+    .where(and(eq(kvLocks.providerId, providerId), eq(kvLocks.name, name)))
+    .limit(1);
+
+  const expiresAt = current[0]?.expiresAt;
+  return {
+    acquired: false,
+    retryAfterMs: expiresAt ? Math.max(expiresAt.getTime() - now.getTime(), 0) : 0,
+  };
+}
+
+/**
+ * Push back the expiry of a lease that is still held
+ * Returns null when the lease expired or was released
+ */
+export async function extendLock(
+  providerId: string,
+  name: string,
+  leaseId: string,
+  ttlMs: number
+): Promise<Date | null> {
+  const db = getDb();
+  const now = new Date();
+
+  const updated = await db
+    .update(kvLocks)
+    .set({ expiresAt: new Date(now.getTime() + ttlMs), updatedAt: now })
+    .where(
+      and(
+        eq(kvLocks.providerId, providerId),
+        eq(kvLocks.name, name),
+        eq(kvLocks.leaseId, leaseId),
+        gt(kvLocks.expiresAt, now)
+      )
+    )
+    .returning({ expiresAt: kvLocks.expiresAt });
+
+  return updated.length > 0 ? updated[0].expiresAt : null;
+}
+
+/**
+ * Check that a fencing token is still the latest of its lock, i.e. the lock
+ * wasn't acquired again since. Run in the write's transaction: the lock row
+ * stays share-locked until it commits, so the lock can't be acquired in between.
+ */
+export async function isLatestFencingToken(
+  tx: Pick<Database, 'select'>,
+  providerId: string,
+  fencingToken: number
+): Promise<boolean> {
+  const rows = await tx
+    .select({ id: kvLocks.id })
+    .from(kvLocks)
+    .where(and(eq(kvLocks.providerId, providerId), eq(kvLocks.fencingToken, fencingToken)))
+    .limit(1)
+    .for('share');
+
+  return rows.length > 0;
+}
+
+/**
+ * Release a lease. The row is kept so a released lease's token stays the
+ * latest of its lock until the next acquire.
+ * Returns false when the lease was not held anymore
+ */
+export async function releaseLock(
+  providerId: string,
+  name: string,
+  leaseId: string
+): Promise<boolean> {
+  const db = getDb();
+  const now = new Date();
+
+  const released = await db
+    .update(kvLocks)
+    .set({ leaseId: null, expiresAt: null, updatedAt: now })
+    .where(
+      and(
+        eq(kvLocks.providerId, providerId),
+        eq(kvLocks.name, name),
+        eq(kvLocks.leaseId, leaseId),
+        gt(kvLocks.expiresAt, now)
+      )
+    )
+    .returning({ id: kvLocks.id });
+
+  return released.length > 0;
+}
@@ -0,0 +1,1118 @@
+/**
+ * n8n Converter
+ *
+ * Converts an n8n workflow export into Floww user code (main.ts + floww.yaml).
+ * Supported nodes are mapped onto Builtin/Slack/GitHub triggers and actions;
+ * everything else becomes a clearly marked TODO stub that passes data through
+ * unchanged so the generated code still compiles.
+ */
+
+export type N8nNodeConversionStatus = 'converted' | 'partial' | 'unsupported' | 'skipped';
+
+export interface N8nNodeReport {
+  nodeId: string | null;
+  name: string;
+  type: string;
+  status: N8nNodeConversionStatus;
+  notes: string[];
+}
+
+export interface N8nConversionReport {
+  nodes: N8nNodeReport[];
+  summary: Record<N8nNodeConversionStatus, number> & { total: number };
+}
+
+export interface N8nConversionResult {
+  code: string;
+  report: N8nConversionReport;
+}
+
+/** Node parameters are free-form JSON whose shape depends on node type and version */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type N8nParameters = Record<string, any>;
+
+interface N8nNode {
+  id?: string;
+  name: string;
+  type: string;
+  typeVersion?: number;
+  disabled?: boolean;
+  parameters: N8nParameters;
+}
+
+interface N8nConnection {
+  node: string;
+  type: string;
+  index: number;
+}
+
+type N8nConnections = Record<string, Record<string, (N8nConnection[] | null)[]>>;
+
+type ProviderName = 'builtin' | 'slack' | 'github';
+
+interface TriggerSpec {
+  provider: ProviderName;
+  method: string;
+  args: string[];
+  input: string;
+}
+
+export const N8N_ENTRYPOINT = 'main.ts';
+
+const PROVIDER_CLASSES: Record<ProviderName, string> = {
+  builtin: 'Builtin',
+  github: 'GitHub',
+  slack: 'Slack',
+};
+
+const STATUS_RANK: Record<N8nNodeConversionStatus, number> = {
+  skipped: 0,
+  converted: 1,
+  partial: 2,
+  unsupported: 3,
+};
+
+const RESERVED_IDENTIFIERS = new Set([
+  'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+  'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function',
+  'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null',
+  'package', 'private', 'protected', 'public', 'return', 'static', 'super', 'switch', 'this',
+  'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield',
+  'ctx', 'event', 'input', 'builtin', 'slack', 'github', 'fetch', 'console',
+]);
+
+const WEBHOOK_METHODS = ['GET', 'POST', 'PUT', 'DELETE'];
+
+const GITHUB_TRIGGER_EVENTS: Record<string, string> = {
+  push: 'onPush',
+  pull_request: 'onPullRequest',
+  issues: 'onIssue',
+  issue_comment: 'onIssueComment',
+  release: 'onRelease',
+};
+
+// ============================================================================
+// Code writer
+// ============================================================================
+
+class CodeWriter {
+  private lines: string[] = [];
+  private depth = 0;
+
+  line(text = ''): void {
+    this.lines.push(text ? `${'  '.repeat(this.depth)}${text}` : '');
+  }
+
+  /** Blank line between statements, but not directly after an opening brace */
+  gap(): void {
+    const last = this.lines[this.lines.length - 1];
+    if (last !== undefined && last !== '' && !last.trimEnd().endsWith('{')) {
+      this.lines.push('');
+    }
+  }
+
+  comment(text: string): void {
+    for (const part of text.split('\n')) {
+      this.line(`// ${part}`.trimEnd());
+    }
+  }
+
+  block(open: string, body: () => void, close = '}'): void {
+    this.line(open);
+    this.depth++;
+    body();
+    this.depth--;
+    this.line(close);
+  }
+
+  indent(body: () => void): void {
+    this.depth++;
+    body();
+    this.depth--;
+  }
+
+  toString(): string {
+    return this.lines.join('\n');
+  }
+}
+
+// ============================================================================
+// Value helpers
+// ============================================================================
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r/g, '\\r').replace(/\n/g, '\\n')}'`;
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
+
+function literal(value: unknown): string {
+  if (typeof value === 'string') return quote(value);
+  if (value === undefined) return 'undefined';
+  return JSON.stringify(value);
+}
+
+/** Strip comment terminators so arbitrary text can be embedded in a block comment */
+function commentSafe(text: string): string {
+  return text.replace(/\*\//g, '* /').replace(/\s+/g, ' ').trim();
+}
+
+/** Unwrap n8n resource locator values ({ __rl: true, value, mode }) */
+function unwrapResourceLocator(value: unknown): unknown {
+  if (value && typeof value === 'object' && '__rl' in value) {
+    return (value as { value?: unknown }).value ?? '';
+  }
+  return value;
+}
+
+function toIdentifier(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  let identifier = words
+    .map((word, i) => (i === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join('');
+  if (!identifier) identifier = 'node';
+  if (/^[0-9]/.test(identifier)) identifier = `node${identifier}`;
+  return identifier;
+}
+
+// ============================================================================
+// Converter
+// ============================================================================
+
+class N8nConverter {
+  private nodes = new Map<string, N8nNode>();
+  private connections: N8nConnections;
+  private reports = new Map<string, N8nNodeReport>();
+  private identifiers = new Map<string, string>();
+  private usedIdentifiers = new Set<string>();
+  private resultExpressions = new Map<string, string>();
+  private providers = new Set<ProviderName>();
+
+  constructor(private workflow: Record<string, unknown>) {
+    if (!Array.isArray(workflow.nodes)) {
+      throw new Error('Invalid n8n workflow: missing "nodes" array');
+    }
+
+    for (const raw of workflow.nodes as unknown[]) {
+      if (!raw || typeof raw !== 'object') continue;
+      const node = raw as Partial<N8nNode>;
+      if (typeof node.name !== 'string' || typeof node.type !== 'string') {
+        throw new Error('Invalid n8n workflow: every node needs a "name" and a "type"');
+      }
+      this.nodes.set(node.name, {
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        typeVersion: node.typeVersion,
+        disabled: node.disabled,
+        parameters: node.parameters ?? {},
+      });
+      this.reports.set(node.name, {
+        nodeId: node.id ?? null,
+        name: node.name,
+        type: node.type,
+        status: 'skipped',
+        notes: [],
+      });
+    }
+
+    this.connections = (workflow.connections as N8nConnections | undefined) ?? {};
+  }
+
+  convert(): N8nConversionResult {
+    const triggers: string[] = [];
+
+    const rootNodes = [...this.nodes.values()].filter((node) => !node.disabled && this.isTriggerNode(node));
+    if (rootNodes.length === 0) {
+      // No trigger in the export: start from nodes without incoming connections
+      const targets = new Set<string>();
+      for (const outputs of Object.values(this.connections)) {
+        for (const connection of (outputs.main ?? []).flat()) {
+          if (connection) targets.add(connection.node);
+        }
+      }
+      const starts = [...this.nodes.values()].filter(
+        (node) => !targets.has(node.name) && node.type !== 'n8n-nodes-base.stickyNote'
+      );
+      if (starts.length > 0) {
+        triggers.push(this.renderManualEntry(starts));
+      }
+    }
+
+    for (const node of rootNodes) {
+      for (const spec of this.triggerSpecs(node)) {
+        triggers.push(this.renderTrigger(node, spec));
+      }
+    }
+
+    for (const node of this.nodes.values()) {
+      const report = this.reports.get(node.name)!;
+      if (node.type === 'n8n-nodes-base.stickyNote') {
+        report.notes.push('Sticky notes are not converted');
+      } else if (node.disabled) {
+        this.mark(node, 'skipped', 'Node was disabled in n8n');
+      } else if (!this.resultExpressions.has(node.name) && report.status === 'skipped') {
+        this.mark(node, 'unsupported', 'Not connected to a trigger; no code was generated');
+      }
+    }
+
+    const w = new CodeWriter();
+    const name = typeof this.workflow.name === 'string' ? this.workflow.name : 'n8n workflow';
+    w.comment(`Imported from n8n workflow ${JSON.stringify(name)}.`);
+    w.comment('Search for TODO to find nodes that need manual attention before deploying.');
+
+    const providers = (Object.keys(PROVIDER_CLASSES) as ProviderName[]).filter((p) => this.providers.has(p));
+    if (providers.length > 0) {
+      w.line(`import { ${providers.map((p) => PROVIDER_CLASSES[p]).join(', ')} } from 'floww';`);
+      w.line();
+      for (const provider of providers) {
+        w.line(`const ${provider} = new ${PROVIDER_CLASSES[provider]}();`);
+      }
+    }
+    w.line();
+    if (triggers.length === 0) {
+      w.comment('TODO: the n8n workflow did not contain any nodes that could be converted.');
+      w.line('export default [];');
+    } else {
+      w.line('export default [');
+      for (const trigger of triggers) {
+        w.line(trigger);
+      }
+      w.line('];');
+    }
+
+    return { code: `${w.toString()}\n`, report: this.buildReport() };
+  }
+
+  // --------------------------------------------------------------------------
+  // Report bookkeeping
+  // --------------------------------------------------------------------------
+
+  private mark(node: N8nNode, status: N8nNodeConversionStatus, note?: string): void {
+    const report = this.reports.get(node.name)!;
+    if (STATUS_RANK[status] > STATUS_RANK[report.status]) {
+      report.status = status;
+    }
+    if (note && !report.notes.includes(note)) {
+      report.notes.push(note);
+    }
+  }
+
+  private buildReport(): N8nConversionReport {
+    const nodes = [...this.reports.values()];
+    const summary = { total: nodes.length, converted: 0, partial: 0, unsupported: 0, skipped: 0 };
+    for (const node of nodes) {
+      summary[node.status]++;
+    }
+    return { nodes, summary };
+  }
+
+  private identifierFor(name: string, suffix = ''): string {
+    const key = `${name}\u0000${suffix}`;
+    const existing = this.identifiers.get(key);
+    if (existing) return existing;
+
+    const base = toIdentifier(name) + suffix;
+    let identifier = RESERVED_IDENTIFIERS.has(base) ? `${base}Node` : base;
+    for (let i = 2; this.usedIdentifiers.has(identifier); i++) {
+      identifier = `${base}${i}`;
+    }
+    this.usedIdentifiers.add(identifier);
+    this.identifiers.set(key, identifier);
+    return identifier;
+  }
+
+  // --------------------------------------------------------------------------
+  // Expressions
+  // --------------------------------------------------------------------------
+
+  /**
+   * Translate an n8n parameter value into a TypeScript expression.
+   * Values prefixed with "=" are n8n expressions; `{{ }}` segments are rewritten
+   * against the current item and upstream node results where possible.
+   */
+  private value(raw: unknown, node: N8nNode, data: string, scope: Set<string>): string {
+    const value = unwrapResourceLocator(raw);
+    if (typeof value !== 'string' || !value.startsWith('=')) {
+      return literal(value);
+    }
+
+    const source = value.slice(1);
+    const segments = [...source.matchAll(/\{\{([\s\S]*?)\}\}/g)];
+    if (segments.length === 0) {
+      return quote(source);
+    }
+
+    const translated: string[] = [];
+    for (const segment of segments) {
+      const expression = this.translateExpression(segment[1].trim(), data, scope);
+      if (expression === null) {
+        this.mark(node, 'partial', `Could not translate expression ${segment[0].trim()}`);
+        return `undefined /* TODO: translate n8n expression ${commentSafe(source)} */`;
+      }
+      translated.push(expression);
+    }
+
+    if (segments.length === 1 && segments[0][0] === source.trim()) {
+      return translated[0];
+    }
+
+    let template = '';
+    let last = 0;
+    segments.forEach((segment, i) => {
+      template += source.slice(last, segment.index).replace(/[`\\]/g, '\\$&').replace(/\$\{/g, '\\${');
+      template += `\${${translated[i]}}`;
+      last = segment.index! + segment[0].length;
+    });
+    template += source.slice(last).replace(/[`\\]/g, '\\$&').replace(/\$\{/g, '\\${');
+    return `\`${template}\``;
+  }
+
+  private translateExpression(expression: string, data: string, scope: Set<string>): string | null {
+    let unresolved = false;
+    const reference = (name: string): string => {
+      const result = scope.has(name) ? this.resultExpressions.get(name) : undefined;
+      if (!result) {
+        unresolved = true;
+        return 'undefined';
+      }
+      return result;
+    };
+
+    const translated = expression
+      .replace(/\$\(\s*(['"])(.+?)\1\s*\)\s*\.\s*(?:item|first\(\)|last\(\))\s*\.\s*json\b/g, (_, __, name) => reference(name))
+      .replace(/\$node\s*\[\s*(['"])(.+?)\1\s*\]\s*\.\s*json\b/g, (_, __, name) => reference(name))
+      .replace(/\$json\b/g, data)
+      .replace(/\$now\b/g, 'new Date()');
+
+    if (unresolved || /\$[A-Za-z_({[]/.test(translated)) {
+      return null;
+    }
+    return translated;
+  }
+
+  // --------------------------------------------------------------------------
+  // Triggers
+  // --------------------------------------------------------------------------
+
+  private isTriggerNode(node: N8nNode): boolean {
+    return (
+      /trigger$/i.test(node.type) ||
+      ['n8n-nodes-base.cron', 'n8n-nodes-base.webhook', 'n8n-nodes-base.interval'].includes(node.type)
+    );
+  }
+
+  private triggerSpecs(node: N8nNode): TriggerSpec[] {
+    const p = node.parameters;
+    const cron = (expressions: string[]): TriggerSpec[] =>
+      expressions.map((expression) => ({
+        provider: 'builtin' as const,
+        method: 'onCron',
+        args: [`expression: ${quote(expression)},`],
+        input: 'event',
+      }));
+
+    switch (node.type) {
+      case 'n8n-nodes-base.cron': {
+        const items: N8nParameters[] = p.triggerTimes?.item ?? [];
+        const expressions = items.map((item) => this.cronFromTriggerTime(item)).filter((e): e is string => !!e);
+        if (expressions.length === 0) {
+          return this.fallbackTrigger(node, 'No usable trigger times found');
+        }
+        if (expressions.length < items.length) {
+          this.mark(node, 'partial', 'Some trigger times could not be converted');
+        }
+        this.mark(node, 'converted');
+        return cron(expressions);
+      }
+
+      case 'n8n-nodes-base.scheduleTrigger': {
+        const rules: N8nParameters[] = p.rule?.interval ?? [{}];
+        const expressions = rules.map((rule) => this.cronFromScheduleRule(node, rule)).filter((e): e is string => !!e);
+        if (expressions.length === 0) {
+          return this.fallbackTrigger(node, 'No usable schedule rules found');
+        }
+        this.mark(node, 'converted');
+        return cron(expressions);
+      }
+
+      case 'n8n-nodes-base.interval': {
+        const interval = Number(p.interval ?? 1);
+        const unit = p.unit ?? 'seconds';
+        const expression =
+          unit === 'seconds' ? `*/${interval} * * * * *` :
+          unit === 'minutes' ? `*/${interval} * * * *` :
+          `0 */${interval} * * *`;
+        this.mark(node, 'converted');
+        return cron([expression]);
+      }
+
+      case 'n8n-nodes-base.webhook': {
+        const args: string[] = [];
+        if (p.path) {
+          args.push(`path: ${quote(`/${String(p.path).replace(/^\/+/, '')}`)},`);
+        }
+        const method = String(p.httpMethod ?? 'GET').toUpperCase();
+        if (WEBHOOK_METHODS.includes(method)) {
+          args.push(`method: ${quote(method)},`);
+          this.mark(node, 'converted');
+        } else {
+          this.mark(node, 'partial', `HTTP method ${method} is not supported by Floww webhooks; using the default`);
+        }
+        if (p.responseMode === 'responseNode' || p.responseMode === 'lastNode') {
+          this.mark(node, 'partial', 'Custom webhook responses are not supported; Floww responds immediately');
+        }
+        if (p.authentication && p.authentication !== 'none') {
+          this.mark(node, 'partial', 'Webhook authentication was not migrated');
+        }
+        return [{ provider: 'builtin', method: 'onWebhook', args, input: 'event' }];
+      }
+
+      case 'n8n-nodes-base.manualTrigger': {
+        this.mark(node, 'converted');
+        return [{ provider: 'builtin', method: 'onManual', args: [`name: ${quote(node.name)},`], input: 'event.input_data' }];
+      }
+
+      case 'n8n-nodes-base.slackTrigger': {
+        const events: string[] = Array.isArray(p.trigger) ? p.trigger : [p.trigger ?? 'message'];
+        const channel = unwrapResourceLocator(p.channelId);
+        const args = channel && !p.watchWorkspace ? [`channelId: ${literal(channel)},`] : [];
+        const methods = new Set<string>();
+        for (const eventName of events) {
+          if (eventName === 'reaction_added') {
+            methods.add('onReaction');
+          } else if (['message', 'app_mention', 'any_event'].includes(eventName)) {
+            methods.add('onMessage');
+            if (eventName !== 'message') {
+              this.mark(node, 'partial', `Slack event "${eventName}" was mapped to onMessage`);
+            }
+          } else {
+            this.mark(node, 'partial', `Slack event "${eventName}" is not supported`);
+          }
+        }
+        if (methods.size === 0) {
+          return this.fallbackTrigger(node, 'None of the Slack events are supported');
+        }
+        this.mark(node, 'converted');
+        return [...methods].map((method) => ({ provider: 'slack' as const, method, args, input: 'event.body.event' }));
+      }
+
+      case 'n8n-nodes-base.githubTrigger': {
+        const events: string[] = p.events ?? [];
+        const args = [
+          `owner: ${literal(unwrapResourceLocator(p.owner) ?? '')},`,
+          `repository: ${literal(unwrapResourceLocator(p.repository) ?? '')},`,
+        ];
+        const specs: TriggerSpec[] = [];
+        for (const eventName of events) {
+          const method = GITHUB_TRIGGER_EVENTS[eventName];
+          if (method) {
+            specs.push({ provider: 'github', method, args, input: 'event' });
+          } else {
+            this.mark(node, 'partial', `GitHub event "${eventName}" is not supported`);
+          }
+        }
+        if (specs.length === 0) {
+          return this.fallbackTrigger(node, 'None of the GitHub events are supported');
+        }
+        this.mark(node, 'converted');
+        return specs;
+      }
+
+      default:
+        return this.fallbackTrigger(node, 'Trigger type is not supported');
+    }
+  }
+
+  private fallbackTrigger(node: N8nNode, reason: string): TriggerSpec[] {
+    this.mark(node, 'unsupported', `${reason}; replaced with a manual trigger`);
+    return [{
+      provider: 'builtin',
+      method: 'onManual',
+      args: [
+        `// TODO: n8n trigger ${JSON.stringify(node.name)} (${node.type}) could not be converted.`,
+        `name: ${quote(node.name)},`,
+      ],
+      input: 'event.input_data',
+    }];
+  }
+
+  private cronFromTriggerTime(item: N8nParameters): string | null {
+    const minute = item.minute ?? 0;
+    const hour = item.hour ?? 14;
+    switch (item.mode) {
+      case 'everyMinute':
+        return '* * * * *';
+      case 'everyHour':
+        return `${minute} * * * *`;
+      case 'everyDay':
+        return `${minute} ${hour} * * *`;
+      case 'everyWeek':
+        return `${minute} ${hour} * * ${item.weekday ?? 1}`;
+      case 'everyMonth':
+        return `${minute} ${hour} ${item.dayOfMonth ?? 1} * *`;
+      case 'everyX':
+        return item.unit === 'hours' ? `0 */${item.value ?? 1} * * *` : `*/${item.value ?? 1} * * * *`;
+      case 'custom':
+        return typeof item.cronExpression === 'string' ? item.cronExpression : null;
+      default:
+        return null;
+    }
+  }
+
+  private cronFromScheduleRule(node: N8nNode, rule: N8nParameters): string | null {
+    const minute = rule.triggerAtMinute ?? 0;
+    const hour = rule.triggerAtHour ?? 0;
+    const every = (n: unknown) => (Number(n ?? 1) > 1 ? `*/${n}` : '*');
+    switch (rule.field ?? 'days') {
+      case 'seconds':
+        return `*/${rule.secondsInterval ?? 30} * * * * *`;
+      case 'minutes':
+        return `*/${rule.minutesInterval ?? 5} * * * *`;
+      case 'hours':
+        return `${minute} ${every(rule.hoursInterval)} * * *`;
+      case 'days':
+        return `${minute} ${hour} ${every(rule.daysInterval)} * *`;
+      case 'weeks': {
+        if (Number(rule.weeksInterval ?? 1) > 1) {
+          this.mark(node, 'partial', 'Multi-week intervals were converted to weekly');
+        }
+        const days: unknown[] = rule.triggerAtDay?.length ? rule.triggerAtDay : [0];
+        return `${minute} ${hour} * * ${days.join(',')}`;
+      }
+      case 'months':
+        return `${minute} ${hour} ${rule.triggerAtDayOfMonth ?? 1} ${every(rule.monthsInterval)} *`;
+      case 'cronExpression':
+        return typeof rule.expression === 'string' ? rule.expression : null;
+      default:
+        this.mark(node, 'partial', `Schedule rule "${rule.field}" is not supported`);
+        return null;
+    }
+  }
+
+  private renderTrigger(node: N8nNode, spec: TriggerSpec): string {
+    this.providers.add(spec.provider);
+    this.resultExpressions.set(node.name, 'input');
+
+    const w = new CodeWriter();
+    w.indent(() => {
+      w.block(`${spec.provider}.triggers.${spec.method}({`, () => {
+        for (const arg of spec.args) {
+          w.line(arg);
+        }
+        w.block('handler: async (ctx, event) => {', () => {
+          w.line(`const input: any = ${spec.input};`);
+          this.emitOutput(w, node, 0, 'input', new Set([node.name]));
+        }, '},');
+      }, '}),');
+    });
+    return w.toString();
+  }
+
+  private renderManualEntry(starts: N8nNode[]): string {
+    this.providers.add('builtin');
+    const name = typeof this.workflow.name === 'string' ? this.workflow.name : 'Run workflow';
+
+    const w = new CodeWriter();
+    w.indent(() => {
+      w.comment('TODO: the n8n workflow has no trigger node; added a manual trigger as the entry point.');
+      w.block('builtin.triggers.onManual({', () => {
+        w.line(`name: ${quote(name)},`);
+        w.block('handler: async (ctx, event) => {', () => {
+          w.line('const input: any = event.input_data;');
+          this.emitTargets(w, starts.map((node) => node.name), 'input', new Set());
+        }, '},');
+      }, '}),');
+    });
+    return w.toString();
+  }
+
+  // --------------------------------------------------------------------------
+  // Graph traversal
+  // --------------------------------------------------------------------------
+
+  private emitOutput(w: CodeWriter, node: N8nNode, output: number, data: string, scope: Set<string>): void {
+    const targets = (this.connections[node.name]?.main?.[output] ?? [])
+      .filter((connection): connection is N8nConnection => !!connection)
+      .map((connection) => connection.node);
+    this.emitTargets(w, targets, data, scope);
+  }
+
+  private emitTargets(w: CodeWriter, targets: string[], data: string, scope: Set<string>): void {
+    // Parallel branches get their own block so repeated downstream nodes don't clash
+    const wrap = targets.length > 1;
+    for (const target of targets) {
+      const next = this.nodes.get(target);
+      if (!next) continue;
+      if (scope.has(target)) {
+        w.comment(`TODO: n8n loops back to ${JSON.stringify(target)} here; loops are not converted.`);
+        this.mark(next, 'partial', 'Loop connections are not converted');
+        continue;
+      }
+      if (wrap) {
+        w.block('{', () => this.emitNode(w, next, data, scope));
+      } else {
+        this.emitNode(w, next, data, scope);
+      }
+    }
+  }
+
+  private emitNode(w: CodeWriter, node: N8nNode, data: string, parentScope: Set<string>): void {
+    const scope = new Set(parentScope).add(node.name);
+    w.gap();
+    w.comment(`n8n: ${JSON.stringify(node.name)} (${node.type})`);
+
+    if (node.disabled) {
+      this.mark(node, 'skipped', 'Node was disabled in n8n');
+      this.resultExpressions.set(node.name, data);
+      this.emitOutput(w, node, 0, data, scope);
+      return;
+    }
+
+    switch (node.type) {
+      case 'n8n-nodes-base.if':
+        return this.emitIf(w, node, data, scope);
+      case 'n8n-nodes-base.switch':
+        return this.emitSwitch(w, node, data, scope);
+      case 'n8n-nodes-base.noOp':
+        this.mark(node, 'converted');
+        this.resultExpressions.set(node.name, data);
+        return this.emitOutput(w, node, 0, data, scope);
+    }
+
+    const result = this.emitAction(w, node, data, scope);
+    this.resultExpressions.set(node.name, result);
+    this.emitOutput(w, node, 0, result, scope);
+  }
+
+  // --------------------------------------------------------------------------
+  // Actions
+  // --------------------------------------------------------------------------
+
+  /** Emit the statements for a single action node and return its result variable */
+  private emitAction(w: CodeWriter, node: N8nNode, data: string, scope: Set<string>): string {
+    switch (node.type) {
+      case 'n8n-nodes-base.httpRequest':
+        return this.emitHttpRequest(w, node, data, scope);
+      case 'n8n-nodes-base.set':
+        return this.emitSet(w, node, data, scope);
+      case 'n8n-nodes-base.slack':
+        return this.emitSlack(w, node, data, scope);
+      case 'n8n-nodes-base.github':
+        return this.emitGitHub(w, node, data, scope);
+      default:
+        return this.emitStub(w, node, data, 'Node type is not supported by the importer');
+    }
+  }
+
+  private emitStub(w: CodeWriter, node: N8nNode, data: string, reason: string): string {
+    this.mark(node, 'unsupported', reason);
+    const variable = this.identifierFor(node.name);
+    w.comment(`TODO: ${reason}. Original parameters:`);
+    for (const line of JSON.stringify(node.parameters, null, 2).split('\n')) {
+      w.comment(`  ${line}`);
+    }
+    w.line(`const ${variable}: any = ${data};`);
+    return variable;
+  }
+
+  private emitHttpRequest(w: CodeWriter, node: N8nNode, data: string, scope: Set<string>): string {
+    const p = node.parameters;
+    const v = (raw: unknown) => this.value(raw, node, data, scope);
+    const legacy = (node.typeVersion ?? 1) < 3;
+
+    const variable = this.identifierFor(node.name);
+    const method = String((legacy ? p.requestMethod : p.method) ?? 'GET').toUpperCase();
+    const pairs = (list: unknown): { name: string; value: unknown }[] =>
+      Array.isArray(list) ? list.filter((item) => item && typeof item.name === 'string') : [];
+
+    const query = legacy ? pairs(p.queryParametersUi?.parameter) : p.sendQuery ? pairs(p.queryParameters?.parameters) : [];
+    const headers = legacy ? pairs(p.headerParametersUi?.parameter) : p.sendHeaders ? pairs(p.headerParameters?.parameters) : [];
+
+    let body: string | null = null;
+    let isJson = true;
+    if (legacy) {
+      if (p.jsonParameters) {
+        body = p.bodyParametersJson ? this.jsonBody(p.bodyParametersJson, node, data, scope) : null;
+      } else if (pairs(p.bodyParametersUi?.parameter).length > 0) {
+        body = this.objectLiteral(pairs(p.bodyParametersUi.parameter).map((item) => [item.name, v(item.value)]));
+        body = `JSON.stringify(${body})`;
+      }
+    } else if (p.sendBody) {
+      const contentType = p.contentType ?? 'json';
+      if (contentType !== 'json') {
+        isJson = false;
+        this.mark(node, 'partial', `Body content type "${contentType}" was converted to a raw body`);
+      }
+      if (p.specifyBody === 'json') {
+        body = this.jsonBody(p.jsonBody ?? '{}', node, data, scope);
+      } else if (contentType === 'raw') {
+        body = v(p.body ?? '');
+      } else {
+        body = `JSON.stringify(${this.objectLiteral(pairs(p.bodyParameters?.parameters).map((item) => [item.name, v(item.value)]))})`;
+      }
+    }
+
+    if (p.authentication && p.authentication !== 'none') {
+      this.mark(node, 'partial', 'Credentials were not migrated; add authentication headers manually');
+      w.comment('TODO: n8n used stored credentials for this request; add authentication headers.');
+    }
+
+    let url = v(p.url ?? '');
+    if (query.length > 0) {
+      const urlVariable = this.identifierFor(node.name, 'Url');
+      w.line(`const ${urlVariable} = new URL(${url});`);
+      for (const item of query) {
+        const value = v(item.value);
+        w.line(`${urlVariable}.searchParams.set(${quote(item.name)}, ${typeof item.value === 'string' && !item.value.startsWith('=') ? value : `String(${value})`});`);
+      }
+      url = urlVariable;
+    }
+
+    const responseVariable = this.identifierFor(node.name, 'Response');
+    w.block(`const ${responseVariable} = await fetch(${url}, {`, () => {
+      w.line(`method: ${quote(method)},`);
+      const headerEntries = headers.map((item) => [item.name, v(item.value)] as [string, string]);
+      if (body && isJson && !headers.some((item) => item.name.toLowerCase() === 'content-type')) {
+        headerEntries.unshift(['Content-Type', quote('application/json')]);
+      }
+      if (headerEntries.length > 0) {
+        w.line(`headers: ${this.objectLiteral(headerEntries)},`);
+      }
+      if (body) {
+        w.line(`body: ${body},`);
+      }
+    }, '});');
+    w.block(`if (!${responseVariable}.ok) {`, () => {
+      w.line(`throw new Error(\`${node.name.replace(/[`\\$]/g, '\\$&')} failed with status \${${responseVariable}.status}\`);`);
+    });
+
+    const format = p.options?.response?.response?.responseFormat ?? p.responseFormat;
+    const reader = format === 'text' || format === 'string' ? 'text' : 'json';
+    w.line(`const ${variable} = await ${responseVariable}.${reader}();`);
+
+    this.mark(node, 'converted');
+    return variable;
+  }
+
+  /** Render a JSON body parameter: literal JSON is re-serialized, expressions are used as-is */
+  private jsonBody(raw: unknown, node: N8nNode, data: string, scope: Set<string>): string {
+    if (typeof raw === 'string' && !raw.startsWith('=')) {
+      try {
+        return `JSON.stringify(${JSON.stringify(JSON.parse(raw))})`;
+      } catch {
+        this.mark(node, 'partial', 'JSON body could not be parsed; sent as a raw string');
+        return quote(raw);
+      }
+    }
+    if (typeof raw === 'string') {
+      return this.value(raw, node, data, scope);
+    }
+    return `JSON.stringify(${JSON.stringify(raw)})`;
+  }
+
+  private objectLiteral(entries: [string, string][]): string {
+    if (entries.length === 0) return '{}';
+    return `{ ${entries.map(([key, value]) => `${propertyKey(key)}: ${value}`).join(', ')} }`;
+  }
+
+  private emitSet(w: CodeWriter, node: N8nNode, data: string, scope: Set<string>): string {
+    const p = node.parameters;
+    const version = node.typeVersion ?? 1;
+    const v = (raw: unknown) => this.value(raw, node, data, scope);
+    const variable = this.identifierFor(node.name);
+
+    if (p.mode === 'raw') {
+      const raw = p.jsonOutput ?? '{}';
+      const value = typeof raw === 'string' && !raw.startsWith('=')
+        ? (() => {
+            try {
+              return JSON.stringify(JSON.parse(raw));
+            } catch {
+              this.mark(node, 'partial', 'JSON output could not be parsed');
+              return '{}';
+            }
+          })()
+        : `JSON.parse(${v(raw)})`;
+      w.line(`const ${variable}: any = ${value};`);
+      this.mark(node, 'converted');
+      return variable;
+    }
+
+    const entries: [string, string][] = [];
+    if (p.assignments?.assignments) {
+      for (const assignment of p.assignments.assignments) {
+        entries.push([assignment.name, v(assignment.value)]);
+      }
+    } else if (p.fields?.values) {
+      for (const field of p.fields.values) {
+        const value = field[`${field.type ?? 'string'}Value`] ?? field.stringValue;
+        entries.push([field.name, v(value)]);
+      }
+    } else if (p.values) {
+      for (const group of Object.values(p.values as Record<string, { name: string; value: unknown }[]>)) {
+        for (const item of group ?? []) {
+          entries.push([item.name, v(item.value)]);
+        }
+      }
+    }
+
+    if (entries.some(([key]) => key.includes('.'))) {
+      this.mark(node, 'partial', 'Dot-notation field names were kept as flat keys');
+    }
+
+    const keepInput = version < 3
+      ? !p.keepOnlySet
+      : p.includeOtherFields === true || (version < 3.3 && (p.include ?? 'all') === 'all');
+
+    const fields = entries.map(([key, value]) => `${propertyKey(key)}: ${value}`);
+    if (keepInput) fields.unshift(`...${data}`);
+    w.line(`const ${variable}: any = ${fields.length > 0 ? `{ ${fields.join(', ')} }` : '{}'};`);
+    this.mark(node, 'converted');
+    return variable;
+  }
+
+  private emitSlack(w: CodeWriter, node: N8nNode, data: string, scope: Set<string>): string {
+    const p = node.parameters;
+    const v = (raw: unknown) => this.value(raw, node, data, scope);
+    const resource = p.resource ?? 'message';
+    const operation = p.operation ?? 'post';
+
+    let call: string | null = null;
+    if (resource === 'message' && ['post', 'send', 'postMessage'].includes(operation)) {
+      const channel = p.channelId ?? p.channel ?? p.user ?? '';
+      call = `slack.actions.sendMessage({ channel: ${v(channel)}, text: ${v(p.text ?? '')} })`;
+      if (p.blocksUi || p.attachments?.length) {
+        this.mark(node, 'partial', 'Blocks and attachments were not converted');
+      }
+    } else if (resource === 'reaction' && operation === 'add') {
+      call = `slack.actions.addReaction({ channel: ${v(p.channelId ?? '')}, timestamp: ${v(p.timestamp ?? '')}, name: ${v(p.name ?? '')} })`;
+    }
+
+    if (!call) {
+      return this.emitStub(w, node, data, `Slack operation "${resource}.${operation}" is not supported`);
+    }
+
+    this.providers.add('slack');
+    const variable = this.identifierFor(node.name);
+    w.line(`const ${variable} = await ${call};`);
+    this.mark(node, 'converted');
+    return variable;
+  }
+
+  private emitGitHub(w: CodeWriter, node: N8nNode, data: string, scope: Set<string>): string {
+    const p = node.parameters;
+    const v = (raw: unknown) => this.value(raw, node, data, scope);
+    const resource = p.resource ?? 'issue';
+    const operation = p.operation ?? 'create';
+    const repo = [`owner: ${v(p.owner ?? '')}`, `repo: ${v(p.repository ?? '')}`];
+
+    let call: string | null = null;
+    if (resource === 'issue' && operation === 'create') {
+      const args = [...repo, `title: ${v(p.title ?? '')}`, `body: ${v(p.body ?? '')}`];
+      const labels: { label: unknown }[] = p.labels ?? [];
+      const assignees: { assignee: unknown }[] = p.assignees ?? [];
+      if (labels.length > 0) args.push(`labels: [${labels.map((item) => v(item.label)).join(', ')}]`);
+      if (assignees.length > 0) args.push(`assignees: [${assignees.map((item) => v(item.assignee)).join(', ')}]`);
+      call = `github.actions.createIssue({ ${args.join(', ')} })`;
+    } else if (resource === 'issue' && operation === 'get') {
+      call = `github.actions.getIssue({ ${[...repo, `issueNumber: Number(${v(p.issueNumber ?? 0)})`].join(', ')} })`;
+    } else if (resource === 'issue' && operation === 'createComment') {
+      call = `github.actions.createComment({ ${[...repo, `issueNumber: Number(${v(p.issueNumber ?? 0)})`, `body: ${v(p.body ?? '')}`].join(', ')} })`;
+    } else if (resource === 'repository' && operation === 'get') {
+      call = `github.actions.getRepository({ ${repo.join(', ')} })`;
+    }
+
+    if (!call) {
+      return this.emitStub(w, node, data, `GitHub operation "${resource}.${operation}" is not supported`);
+    }
+
+    this.providers.add('github');
+    const variable = this.identifierFor(node.name);
+    w.line(`const ${variable}: any = await ${call};`);
+    this.mark(node, 'converted');
+    return variable;
+  }
+
+  // --------------------------------------------------------------------------
+  // Branching
+  // --------------------------------------------------------------------------
+
+  private emitIf(w: CodeWriter, node: N8nNode, data: string, scope: Set<string>): void {
+    const condition = this.condition(node, node.parameters, data, scope);
+    this.resultExpressions.set(node.name, data);
+
+    const hasFalseBranch = (this.connections[node.name]?.main?.[1] ?? []).some(Boolean);
+    w.block(`if (${condition}) {`, () => this.emitOutput(w, node, 0, data, scope), hasFalseBranch ? '} else {' : '}');
+    if (hasFalseBranch) {
+      w.indent(() => this.emitOutput(w, node, 1, data, scope));
+      w.line('}');
+    }
+    this.mark(node, 'converted');
+  }
+
+  private emitSwitch(w: CodeWriter, node: N8nNode, data: string, scope: Set<string>): void {
+    const p = node.parameters;
+    const version = node.typeVersion ?? 1;
+    this.resultExpressions.set(node.name, data);
+
+    if (p.mode === 'expression') {
+      const variable = this.emitStub(w, node, data, 'Switch nodes in expression mode are not supported');
+      this.emitOutput(w, node, 0, variable, scope);
+      return;
+    }
+
+    const branches: { condition: string; output: number }[] = [];
+    let fallback: number | null = null;
+
+    if (version >= 3) {
+      const rules: N8nParameters[] = p.rules?.values ?? [];
+      rules.forEach((rule, index) => {
+        branches.push({ condition: this.condition(node, rule, data, scope), output: index });
+      });
+      const option = p.options?.fallbackOutput;
+      if (option === 'extra') fallback = rules.length;
+      else if (typeof option === 'number' && option >= 0) fallback = option;
+    } else {
+      const left = this.value(p.value1, node, data, scope);
+      for (const rule of (p.rules?.rules ?? []) as N8nParameters[]) {
+        const right = this.value(rule.value2, node, data, scope);
+        branches.push({
+          condition: this.compare(node, rule.operation ?? 'equal', left, right),
+          output: Number(rule.output ?? branches.length),
+        });
+      }
+      if (typeof p.fallbackOutput === 'number' && p.fallbackOutput >= 0) fallback = p.fallbackOutput;
+    }
+
+    const outputs = this.connections[node.name]?.main ?? [];
+    const hasTargets = (output: number) => (outputs[output] ?? []).some(Boolean);
+
+    let opened = false;
+    for (const branch of branches) {
+      const open = opened ? `} else if (${branch.condition}) {` : `if (${branch.condition}) {`;
+      w.line(open);
+      w.indent(() => this.emitOutput(w, node, branch.output, data, scope));
+      opened = true;
+    }
+    if (fallback !== null && hasTargets(fallback)) {
+      if (opened) {
+        w.line('} else {');
+        w.indent(() => this.emitOutput(w, node, fallback!, data, scope));
+      } else {
+        this.emitOutput(w, node, fallback, data, scope);
+      }
+    }
+    if (opened) w.line('}');
+    this.mark(node, 'converted');
+  }
+
+  /** Build a boolean expression from IF/Switch conditions (both the v1 and filter formats) */
+  private condition(node: N8nNode, params: N8nParameters, data: string, scope: Set<string>): string {
+    const v = (raw: unknown) => this.value(raw, node, data, scope);
+    const parts: string[] = [];
+    let joiner = ' && ';
+
+    const filter = params.conditions;
+    if (filter && Array.isArray(filter.conditions)) {
+      for (const condition of filter.conditions as N8nParameters[]) {
+        const operator = condition.operator ?? {};
+        parts.push(this.compare(node, operator.operation ?? 'equals', v(condition.leftValue), v(condition.rightValue)));
+      }
+      if (filter.combinator === 'or') joiner = ' || ';
+    } else if (filter && typeof filter === 'object') {
+      for (const group of Object.values(filter as Record<string, N8nParameters[]>)) {
+        for (const condition of group ?? []) {
+          parts.push(this.compare(node, condition.operation ?? 'equal', v(condition.value1), v(condition.value2)));
+        }
+      }
+      if (params.combineOperation === 'any') joiner = ' || ';
+    }
+
+    if (parts.length === 0) {
+      this.mark(node, 'partial', 'No conditions found; branch always runs');
+      return 'true';
+    }
+    return parts.length === 1 ? parts[0] : parts.map((part) => `(${part})`).join(joiner);
+  }
+
+  private compare(node: N8nNode, operation: string, left: string, right: string): string {
+    switch (operation) {
+      case 'equal':
+      case 'equals':
+        return `${left} === ${right}`;
+      case 'notEqual':
+      case 'notEquals':
+        return `${left} !== ${right}`;
+      case 'contains':
+        return `String(${left}).includes(String(${right}))`;
+      case 'notContains':
+        return `!String(${left}).includes(String(${right}))`;
+      case 'startsWith':
+        return `String(${left}).startsWith(String(${right}))`;
+      case 'notStartsWith':
+        return `!String(${left}).startsWith(String(${right}))`;
+      case 'endsWith':
+        return `String(${left}).endsWith(String(${right}))`;
+      case 'notEndsWith':
+        return `!String(${left}).endsWith(String(${right}))`;
+      case 'larger':
+      case 'gt':
+      case 'after':
+        return `${left} > ${right}`;
+      case 'largerEqual':
+      case 'gte':
+      case 'afterOrEquals':
+        return `${left} >= ${right}`;
+      case 'smaller':
+      case 'lt':
+      case 'before':
+        return `${left} < ${right}`;
+      case 'smallerEqual':
+      case 'lte':
+      case 'beforeOrEquals':
+        return `${left} <= ${right}`;
+      case 'isEmpty':
+      case 'empty':
+        return `(${left} === undefined || ${left} === null || ${left} === '')`;
+      case 'isNotEmpty':
+      case 'notEmpty':
+        return `(${left} !== undefined && ${left} !== null && ${left} !== '')`;
+      case 'exists':
+        return `${left} !== undefined`;
+      case 'notExists':
+        return `${left} === undefined`;
+      case 'true':
+        return `${left} === true`;
+      case 'false':
+        return `${left} === false`;
+      case 'regex':
+        return `new RegExp(String(${right})).test(String(${left}))`;
+      case 'notRegex':
+        return `!new RegExp(String(${right})).test(String(${left}))`;
+      default:
+        this.mark(node, 'partial', `Condition operation "${operation}" is not supported`);
+        return `false /* TODO: n8n condition "${commentSafe(operation)}" */`;
+    }
+  }
+}
+
+/**
+ * Convert an n8n workflow export into Floww TypeScript and a per-node report
+ */
+export function convertN8nWorkflow(n8nWorkflow: Record<string, unknown>): N8nConversionResult {
+  return new N8nConverter(n8nWorkflow).convert();
+}
+
+/**
+ * Render floww.yaml for an imported workflow
+ */
+export function renderN8nProjectConfig(params: { workflowId: string; name: string; description?: string }): string {
+  const lines = [`workflowId: ${JSON.stringify(params.workflowId)}`, `name: ${JSON.stringify(params.name)}`];
+  if (params.description) lines.push(`description: ${JSON.stringify(params.description)}`);
+  lines.push('version: "1.0.0"');
+  lines.push(`entrypoint: ${N8N_ENTRYPOINT}`);
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,212 @@
+/**
+ * Trigger Cron Service
+ *
+ * Schedules builtin cron triggers on the Graphile worker. Each trigger has one
+ * pending `executeScheduledTrigger` job for its next fire time; when the job
+ * runs it executes the due runs (applying the trigger's catch-up policy for
+ * runs missed while the worker was down) and schedules the following one.
+ */
+
+import { eq } from 'drizzle-orm';
+import { getDb } from '~/server/db';
+import { triggers, providers, workflows, namespaces } from '~/server/db/schema';
+import {
+  getNextCronRun,
+  getDueCronRuns,
+  getCronJitterMs,
+  type CronScheduleOptions,
+} from 'floww/providers/server';
+import { updateTriggerState } from '~/server/services/trigger-service';
+import { createExecution } from '~/server/services/execution-service';
+import { executeCronTrigger } from '~/server/services/trigger-execution-service';
+import { checkExecutionLimit } from '~/server/services/billing-service';
+import { logger } from '~/server/utils/logger';
+
+export interface CronTriggerOptions extends CronScheduleOptions {
+  expression: string;
+}
+
+export interface CronRunResult {
+  triggerId: string;
+  status: 'executed' | 'skipped' | 'stopped';
+  /** Number of runs that were executed */
+  runs: number;
+  /** Number of missed runs dropped by the catch-up policy */
+  skipped: number;
+  /** Next scheduled fire time, or null if the schedule should stop */
+  nextScheduledTime: Date | null;
+  /** When the job for the next run should start (scheduled time plus jitter) */
+  nextRunAt: Date | null;
+}
+
+/**
+ * Check whether a trigger runs on a cron schedule
+ */
+export function isCronTrigger(providerType: string, triggerType: string): boolean {
+  return providerType === 'builtin' && triggerType === 'onCron';
+}
+
+/**
+ * Read the cron options from a trigger's input
+ */
+export function getCronTriggerOptions(input: unknown): CronTriggerOptions {
+  const { expression, timezone, catchUp, jitter } = (input ?? {}) as Partial<CronTriggerOptions>;
+  if (!expression) {
+    throw new Error('Cron trigger has no expression');
+  }
+  return { expression, timezone, catchUp, jitter };
+}
+
+/**
+ * Add the scheduled time's jitter to get the job's start time
+ */
+function getRunAt(scheduledTime: Date, jitter?: number): Date {
+  return new Date(scheduledTime.getTime() + getCronJitterMs(jitter));
+}
+
+/**
+ * Schedule the job for a cron run.
+ * Uses one job key per trigger so a trigger never has more than one pending run.
+ */
+export async function scheduleCronRun(
+  triggerId: string,
+  scheduledTime: Date,
+  runAt: Date = scheduledTime,
+  options?: { preserveRunAt?: boolean }
+): Promise<void> {
+  const { addJob } = await import('~/server/jobs/worker');
+  await addJob(
+    'executeScheduledTrigger',
+    { triggerId, scheduledTime: scheduledTime.toISOString() },
+    {
+      runAt,
+      maxAttempts: 1,
+      jobKey: `cron:${triggerId}`,
+      jobKeyMode: options?.preserveRunAt ? 'preserve_run_at' : 'replace',
+    }
+  );
+}
+
+/**
+ * Schedule the next run of a cron trigger after `after`
+ */
+export async function scheduleNextCronRun(
+  triggerId: string,
+  input: unknown,
+  after: Date = new Date(),
+  options?: { preserveRunAt?: boolean }
+): Promise<Date | null> {
+  const { expression, timezone, jitter } = getCronTriggerOptions(input);
+  const next = getNextCronRun(expression, after, timezone);
+  if (next) {
+    await scheduleCronRun(triggerId, next, getRunAt(next, jitter), options);
+  }
+  return next;
+}
+
+/**
+ * Ensure every cron trigger has a pending run (run on worker start).
+ * Triggers whose last run is overdue get a job right away so the catch-up
+ * policy is applied to runs missed while the worker was down.
+ */
+export async function scheduleCronTriggers(): Promise<number> {
+  const db = getDb();
+
+  const rows = await db
+    .select({ trigger: triggers, providerType: providers.type })
+    .from(triggers)
+    .innerJoin(providers, eq(triggers.providerId, providers.id));
+
+  let scheduled = 0;
+  for (const { trigger, providerType } of rows) {
+    if (!isCronTrigger(providerType, trigger.triggerType)) continue;
+
+    const state = (trigger.state ?? {}) as { lastScheduledTime?: string };
+    const after = state.lastScheduledTime ? new Date(state.lastScheduledTime) : new Date();
+
+    try {
+      await scheduleNextCronRun(trigger.id, trigger.input, after, { preserveRunAt: true });
+      scheduled++;
+    } catch (error) {
+      logger.warn('Failed to schedule cron trigger', { triggerId: trigger.id, error: String(error) });
+    }
+  }
+
+  logger.info('Scheduled cron triggers', { count: scheduled });
+  return scheduled;
+}
+
+/**
+ * Execute the due runs of a cron trigger and work out the next fire time
+ */
+export async function runCronTrigger(triggerId: string, scheduledTime: Date): Promise<CronRunResult> {
+  const db = getDb();
+
+  const [row] = await db
+    .select({ trigger: triggers, workflow: workflows })
+    .from(triggers)
+    .innerJoin(workflows, eq(triggers.workflowId, workflows.id))
+    .where(eq(triggers.id, triggerId))
+    .limit(1);
+
+  if (!row) {
+    logger.debug('Cron trigger no longer exists, stopping', { triggerId });
+    return { triggerId, status: 'stopped', runs: 0, skipped: 0, nextScheduledTime: null, nextRunAt: null };
+  }
+
+  const { trigger, workflow } = row;
+  const options = getCronTriggerOptions(trigger.input);
+  const state = (trigger.state ?? {}) as Record<string, unknown>;
+  const now = new Date();
+
+  // Without a previous run, only the run this job was scheduled for is due
+  const lastScheduledTime =
+    typeof state.lastScheduledTime === 'string'
+      ? new Date(state.lastScheduledTime)
+      : new Date(scheduledTime.getTime() - 1);
+
+  const { runs, skipped } = getDueCronRuns(options.expression, lastScheduledTime, now, options);
+  const nextScheduledTime = getNextCronRun(options.expression, now, options.timezone);
+  const nextRunAt = nextScheduledTime && getRunAt(nextScheduledTime, options.jitter);
+
+  if (skipped > 0) {
+    logger.warn('Skipped missed cron runs', { triggerId, skipped, catchUp: options.catchUp ?? 'none' });
+  }
+
+  // Persist progress before executing so a crash can't run the same slots twice
+  await updateTriggerState(triggerId, { ...state, lastScheduledTime: now.toISOString() });
+
+  // Keep the schedule alive but don't execute for inactive workflows
+  if (workflow.active === false || runs.length === 0) {
+    return { triggerId, status: 'skipped', runs: 0, skipped, nextScheduledTime, nextRunAt };
+  }
+
+  const [namespace] = await db
+    .select({ organizationId: namespaces.organizationOwnerId })
+    .from(namespaces)
+    .where(eq(namespaces.id, workflow.namespaceId))
+    .limit(1);
+
+  let executed = 0;
+  for (const runTime of runs) {
+    if (namespace?.organizationId) {
+      const limitCheck = await checkExecutionLimit(namespace.organizationId);
+      if (!limitCheck.allowed) {
+        logger.warn('Execution limit reached, dropping cron runs', {
+          triggerId,
+          workflowId: workflow.id,
+          dropped: runs.length - executed,
+        });
+        break;
+      }
+    }
+
+    const execution = await createExecution({ workflowId: workflow.id, triggerId });
+    await executeCronTrigger(triggerId, options.expression, runTime, execution.id);
+    executed++;
+  }
+
+  logger.info('Executed cron trigger', { triggerId, workflowId: workflow.id, runs: executed });
+
+  return { triggerId, status: 'executed', runs: executed, skipped, nextScheduledTime, nextRunAt };
+}
@@ -19,6 +19,7 @@ import {
   updateExecutionStarted,
   updateExecutionNoDeployment,
   updateExecutionFailed,
+  saveExecutionTriggerPayload,
 } from '~/server/services/execution-service';
 import {
   getRuntime,
@@ -27,7 +28,9 @@ import {
   type RuntimePayload,
 } from '~/server/packages/runtimes';
 import { logger } from '~/server/utils/logger';
+import type { TriggerOptions } from 'floww/common';
 import { settings } from '~/server/settings';
+import { generateInvocationToken } from '~/server/services/workflow-auth-service';
 import {
   buildRuleChainsForDeployment,
   buildRuleChainsForNamespace,
@@ -64,11 +67,33 @@ export interface CronEventData {
   expression: string;
 }
 
+export interface PolledEventData {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+  query: Record<string, string>;
+  polledAt: string;
+}
+
+export interface KvChangeEventData {
+  table: string;
+  key: string;
+  operation: 'set' | 'delete';
+  /** null when the key was created */
+  oldValue: unknown;
+  /** null when the key was deleted */
+  newValue: unknown;
+  /** Workflow that made the write; null for writes from outside a workflow */
+  workflowId: string | null;
+  changedAt: string;
+}
+
 export interface ExecutionResult {
   triggerId: string;
   workflowId: string;
   executionId: string;
-  status: 'invoked' | 'skipped' | 'error';
+  status: 'invoked' | 'queued' | 'skipped' | 'error';
   error?: string;
 }
 
@@ -144,6 +169,42 @@ export function buildCronEventData(
   };
 }
 
+/**
+ * Build event data for polling triggers.
+ * Shaped like webhook event data so handlers receive the event as `body`.
+ */
+export function buildPolledEventData(
+  event: Record<string, unknown>,
+  polledAt: Date = new Date()
+): PolledEventData {
+  return {
+    method: 'POLL',
+    path: '',
+    headers: {},
+    body: event,
+    query: {},
+    polledAt: polledAt.toISOString(),
+  };
+}
+
+/**
+ * Build event data for KV store change triggers
+ */
+export function buildKvChangeEventData(
+  change: Omit<KvChangeEventData, 'changedAt'>,
+  changedAt: Date = new Date()
+): KvChangeEventData {
+  return {
+    table: change.table,
+    key: change.key,
+    operation: change.operation,
+    oldValue: change.oldValue ?? null,
+    newValue: change.newValue ?? null,
+    workflowId: change.workflowId,
+    changedAt: changedAt.toISOString(),
+  };
+}
+
 /**
  * Get the active deployment for a workflow
  */
@@ -166,6 +227,27 @@ async function getActiveDeployment(workflowId: string) {
   return deployment ?? null;
 }
 
+/**
+ * Get a specific deployment of a workflow, whether or not it is still active
+ */
+async function getWorkflowDeployment(workflowId: string, deploymentId: string) {
+  const db = getDb();
+
+  const [deployment] = await db
+    .select({
+      deployment: workflowDeployments,
+      runtime: runtimes,
+    })
+    .from(workflowDeployments)
+    .innerJoin(runtimes, eq(workflowDeployments.runtimeId, runtimes.id))
+    .where(
+      and(eq(workflowDeployments.workflowId, workflowId), eq(workflowDeployments.id, deploymentId))
+    )
+    .limit(1);
+
+  return deployment ?? null;
+}
+
 /**
  * Get all provider configs for a namespace (legacy: keyed by type:alias)
  */
@@ -245,19 +327,36 @@ function resolveCodeAlias(
 }
 
 /**
- * Generate a short-lived JWT token for workflow invocation
- * This is a simplified implementation - in production, use the workflow-auth-service
+ * Schedule a retry for a failed execution (no-op without a retry policy)
  */
-function generateInvocationToken(workflowId: string, namespaceId: string): string {
-  // Simple token for now - should be replaced with proper JWT
-  const payload = {
-    workflowId,
-    namespaceId,
-    exp: Math.floor(Date.now() / 1000) + 300, // 5 minutes
-    iat: Math.floor(Date.now() / 1000),
-  };
+export async function scheduleRetry(executionId: string, errorMessage: string): Promise<void> {
+  try {
+    // Imported lazily: the retry service executes triggers itself
+    const { scheduleExecutionRetry } = await import('~/server/services/execution-retry-service');
+    await scheduleExecutionRetry(executionId, errorMessage);
+  } catch (error) {
+    logger.error('Failed to schedule execution retry', {
+      executionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
 
-  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+/**
+ * Let the next execution queued behind a finished one run
+ */
+export async function releaseConcurrency(executionId: string): Promise<void> {
+  try {
+    const { releaseConcurrencySlot } = await import(
+      '~/server/services/execution-concurrency-service'
+    );
+    await releaseConcurrencySlot(executionId);
+  } catch (error) {
+    logger.error('Failed to release concurrency slot', {
+      executionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
 }
 
 /**
@@ -265,16 +364,18 @@ function generateInvocationToken(workflowId: string, namespaceId: string): strin
  * 
  * Flow:
  * 1. Check if workflow is active
- * 2. Find active deployment
- * 3. Generate auth token
- * 4. Get provider configs
- * 5. Build payload
- * 6. Invoke runtime
+ * 2. Find active deployment (or the pinned `deploymentId`, for replays and resumes)
+ * 3. Claim a concurrency slot (or stay queued)
+ * 4. Generate auth token
+ * 5. Get provider configs
+ * 6. Build payload
+ * 7. Invoke runtime
  */
 export async function executeTrigger(
   triggerId: string,
   eventData: Record<string, unknown>,
-  executionId: string
+  executionId: string,
+  options: { deploymentId?: string } = {}
 ): Promise<ExecutionResult> {
   const db = getDb();
 
@@ -303,6 +404,9 @@ export async function executeTrigger(
 
   const { trigger, provider, workflow } = result[0];
 
+  // Keep the event so the execution can be retried with the same payload
+  await saveExecutionTriggerPayload(executionId, eventData);
+
   // Check if workflow is active
   if (workflow.active === false) {
     await updateExecutionNoDeployment(executionId);
@@ -320,13 +424,16 @@ export async function executeTrigger(
   }
 
   // Find active deployment
-  const deploymentResult = await getActiveDeployment(workflow.id);
+  const deploymentResult = options.deploymentId
+    ? await getWorkflowDeployment(workflow.id, options.deploymentId)
+    : await getActiveDeployment(workflow.id);
   if (!deploymentResult) {
     await updateExecutionNoDeployment(executionId);
     logger.debug('No active deployment found for trigger', {
       triggerId,
       workflowId: workflow.id,
       executionId,
+      deploymentId: options.deploymentId,
     });
     return {
       triggerId,
@@ -338,11 +445,41 @@ export async function executeTrigger(
 
   const { deployment, runtime } = deploymentResult;
 
-  // Update execution: started
-  await updateExecutionStarted(executionId, deployment.id);
+  // Get runtime config
+  const runtimeConfigData = runtime.config as Record<string, unknown> | null;
+  const imageUri = runtimeConfigData?.image_uri as string | undefined;
+  const imageHash = runtimeConfigData?.image_hash as string | undefined;
+  const imageDigest = imageHash ?? imageUri;
 
-  // Generate auth token
-  const authToken = generateInvocationToken(workflow.id, workflow.namespaceId);
+  if (!imageDigest) {
+    logger.error('Runtime config missing image_uri or image_hash', {
+      runtimeId: runtime.id,
+      deploymentId: deployment.id,
+      executionId,
+    });
+    const error = 'Runtime config missing image configuration';
+    await updateExecutionFailed(executionId, error);
+    return {
+      triggerId,
+      workflowId: workflow.id,
+      executionId,
+      status: 'error',
+      error,
+    };
+  }
+
+  // Build runtime configuration
+  const runtimeConfig: RuntimeConfig = {
+    runtimeId: runtime.id,
+    imageDigest,
+  };
+
+  // Get user code from deployment
+  const deploymentUserCode = deployment.userCode as { files?: Record<string, string>; entrypoint?: string } | null;
+  const userCode: UserCode = {
+    files: deploymentUserCode?.files ?? {},
+    entrypoint: deploymentUserCode?.entrypoint ?? 'index.ts',
+  };
 
   // Get provider configs: use ID-based mapping if deployment has one, fall back to namespace lookup
   const deploymentMappings = deployment.providerMappings as Record<string, Record<string, string>> | null;
@@ -370,65 +507,71 @@ export async function executeTrigger(
     });
   }
 
-  // Build runtime payload
-  const triggerPayload = buildTriggerPayload({
-    providerType: provider.type,
-    providerAlias: effectiveAlias,
-    triggerType: trigger.triggerType,
-    triggerInput: trigger.input as Record<string, unknown>,
-    eventData,
-    providerConfigs,
-    authToken,
+  // Executions over a trigger or workflow concurrency limit wait in RECEIVED.
+  // The slot is claimed last, so an execution that can't be invoked never holds one.
+  // (imported lazily: the concurrency service runs queued executions itself)
+  const { acquireConcurrencySlot, parseConcurrencyPolicy } = await import(
+    '~/server/services/execution-concurrency-service'
+  );
+  const acquired = await acquireConcurrencySlot({
     executionId,
-    policyRules,
+    workflowId: workflow.id,
+    triggerId,
+    deploymentId: options.deploymentId,
+    triggerPolicy: parseConcurrencyPolicy((trigger.options as TriggerOptions | null)?.concurrency),
+    workflowPolicy: parseConcurrencyPolicy(deployment.concurrency),
+    eventData,
   });
-
-  // Get runtime config
-  const runtimeConfigData = runtime.config as Record<string, unknown> | null;
-  const imageUri = runtimeConfigData?.image_uri as string | undefined;
-  const imageHash = runtimeConfigData?.image_hash as string | undefined;
-  const imageDigest = imageHash ?? imageUri;
-
-  if (!imageDigest) {
-    logger.error('Runtime config missing image_uri or image_hash', {
-      runtimeId: runtime.id,
-      deploymentId: deployment.id,
-      executionId,
-    });
+  if (!acquired) {
     return {
       triggerId,
       workflowId: workflow.id,
       executionId,
-      status: 'error',
-      error: 'Runtime config missing image configuration',
+      status: 'queued',
     };
   }
 
-  // Build runtime configuration
-  const runtimeConfig: RuntimeConfig = {
-    runtimeId: runtime.id,
-    imageDigest,
-  };
+  // From here on any failure marks the execution failed and gives its slot back
+  try {
+    // Update execution: started
+    await updateExecutionStarted(executionId, deployment.id);
+
+    // Generate auth token
+    const authToken = await generateInvocationToken(workflow.id, workflow.namespaceId, executionId);
+
+    // Build runtime payload
+    const triggerPayload = buildTriggerPayload({
+      providerType: provider.type,
+      providerAlias: effectiveAlias,
+      triggerType: trigger.triggerType,
+      triggerInput: trigger.input as Record<string, unknown>,
+      eventData,
+      providerConfigs,
+      authToken,
+      executionId,
+      policyRules,
+    });
 
-  // Get user code from deployment
-  const deploymentUserCode = deployment.userCode as { files?: Record<string, string>; entrypoint?: string } | null;
-  const userCode: UserCode = {
-    files: deploymentUserCode?.files ?? {},
-    entrypoint: deploymentUserCode?.entrypoint ?? 'index.ts',
-  };
+    // Steps completed by earlier runs of this execution are skipped by the handler
+    // (imported lazily: the step service resumes executions itself)
+    const { getCompletedSteps } = await import('~/server/services/execution-step-service');
+    const steps = await getCompletedSteps(executionId);
+
+    // Build runtime payload
+    const runtimePayload: RuntimePayload = {
+      trigger: triggerPayload.trigger,
+      data: triggerPayload.data,
+      authToken: triggerPayload.authToken,
+      executionId: triggerPayload.executionId,
+      providerConfigs: triggerPayload.providerConfigs,
+      policyRules: triggerPayload.policyRules,
+    };
 
-  // Build runtime payload
-  const runtimePayload: RuntimePayload = {
-    trigger: triggerPayload.trigger,
-    data: triggerPayload.data,
-    authToken: triggerPayload.authToken,
-    executionId: triggerPayload.executionId,
-    providerConfigs: triggerPayload.providerConfigs,
-    policyRules: triggerPayload.policyRules,
-  };
+    if (Object.keys(steps).length > 0) {
+      runtimePayload.steps = steps;
+    }
 
-  // Invoke the runtime
-  try {
+    // Invoke the runtime
     logger.info('Invoking runtime with payload', {
       triggerId,
       workflowId: workflow.id,
@@ -447,6 +590,8 @@ export async function executeTrigger(
       error: errorMsg,
     });
     await updateExecutionFailed(executionId, errorMsg);
+    await releaseConcurrency(executionId);
+    await scheduleRetry(executionId, errorMsg);
     return {
       triggerId,
       workflowId: workflow.id,
@@ -495,6 +640,30 @@ export async function executeCronTrigger(
   return executeTrigger(triggerId, eventData as unknown as Record<string, unknown>, executionId);
 }
 
+/**
+ * Execute a trigger from an event returned by a provider poll
+ */
+export async function executePolledTrigger(
+  triggerId: string,
+  event: Record<string, unknown>,
+  polledAt: Date,
+  executionId: string
+): Promise<ExecutionResult> {
+  const eventData = buildPolledEventData(event, polledAt);
+  return executeTrigger(triggerId, eventData as unknown as Record<string, unknown>, executionId);
+}
+
+/**
+ * Execute a trigger for a change written to a KV store
+ */
+export async function executeKvChangeTrigger(
+  triggerId: string,
+  eventData: KvChangeEventData,
+  executionId: string
+): Promise<ExecutionResult> {
+  return executeTrigger(triggerId, eventData as unknown as Record<string, unknown>, executionId);
+}
+
 /**
  * Execute a trigger manually (user-initiated)
  */
@@ -0,0 +1,283 @@
+/**
+ * Trigger Polling Service
+ *
+ * Runs polls for triggers whose provider definition implements `poll()`
+ * (providers without push webhooks). Each trigger has one pending Graphile
+ * job; the job polls, persists the returned cursor in `triggers.state`,
+ * drops events that were already seen and executes the trigger for the rest.
+ */
+
+import { eq } from 'drizzle-orm';
+import { getDb } from '~/server/db';
+import { triggers, providers, workflows, namespaces } from '~/server/db/schema';
+import { getProviderDefinition, type PolledEvent, type TriggerDefinition } from 'floww/providers/server';
+import { getProviderSecrets, updateTriggerState } from '~/server/services/trigger-service';
+import { createExecution } from '~/server/services/execution-service';
+import { executePolledTrigger } from '~/server/services/trigger-execution-service';
+import { checkExecutionLimit } from '~/server/services/billing-service';
+import { logger } from '~/server/utils/logger';
+
+/** Key in triggers.state holding backend polling metadata (not passed to providers) */
+const POLLING_STATE_KEY = '__polling';
+
+/** Number of event IDs remembered per trigger for deduplication */
+const MAX_SEEN_EVENT_IDS = 500;
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+
+interface PollingMetadata {
+  seenEventIds: string[];
+  lastPolledAt: string | null;
+}
+
+export interface PollResult {
+  triggerId: string;
+  status: 'polled' | 'skipped' | 'stopped' | 'error';
+  /** Number of new (deduplicated) events that were executed */
+  events: number;
+  /** Seconds until the next poll, or null if polling should stop */
+  nextPollInSeconds: number | null;
+  error?: string;
+}
+
+/**
+ * Get the trigger definition if it supports polling
+ */
+export function getPollingTriggerDefinition(
+  providerType: string,
+  triggerType: string
+): TriggerDefinition | null {
+  const triggerDef = getProviderDefinition(providerType)?.triggerDefinitions[triggerType];
+  return triggerDef?.poll ? triggerDef : null;
+}
+
+/**
+ * Check whether a trigger is polled instead of receiving webhooks
+ */
+export function isPollingTrigger(providerType: string, triggerType: string): boolean {
+  return getPollingTriggerDefinition(providerType, triggerType) !== null;
+}
+
+/**
+ * Split stored trigger state into the provider's cursor state and polling metadata
+ */
+export function splitPollingState(state: Record<string, unknown> | null): {
+  providerState: Record<string, unknown>;
+  metadata: PollingMetadata;
+} {
+  const { [POLLING_STATE_KEY]: rawMetadata, ...providerState } = state ?? {};
+  const metadata = (rawMetadata ?? {}) as Partial<PollingMetadata>;
+  return {
+    providerState,
+    metadata: {
+      seenEventIds: Array.isArray(metadata.seenEventIds) ? metadata.seenEventIds : [],
+      lastPolledAt: metadata.lastPolledAt ?? null,
+    },
+  };
+}
+
+/**
+ * Drop events that were already seen in earlier polls (or earlier in the same batch)
+ */
+export function filterUnseenEvents(events: PolledEvent[], seenEventIds: string[]): PolledEvent[] {
+  const seen = new Set(seenEventIds);
+  const unseen: PolledEvent[] = [];
+  for (const event of events) {
+    if (seen.has(event.id)) continue;
+    seen.add(event.id);
+    unseen.push(event);
+  }
+  return unseen;
+}
+
+/**
+ * Build the state persisted after a poll: provider cursor plus polling metadata
+ */
+export function buildPolledState(
+  providerState: Record<string, unknown>,
+  metadata: PollingMetadata,
+  newEvents: PolledEvent[],
+  polledAt: Date
+): Record<string, unknown> {
+  const seenEventIds = [...metadata.seenEventIds, ...newEvents.map((e) => e.id)].slice(-MAX_SEEN_EVENT_IDS);
+  return {
+    ...providerState,
+    [POLLING_STATE_KEY]: {
+      seenEventIds,
+      lastPolledAt: polledAt.toISOString(),
+    } satisfies PollingMetadata,
+  };
+}
+
+/**
+ * Refresh OAuth tokens in provider secrets when they are about to expire
+ */
+async function getFreshProviderSecrets(
+  providerId: string,
+  providerType: string
+): Promise<Record<string, string>> {
+  const secrets = await getProviderSecrets(providerId);
+  const oauthStep = getProviderDefinition(providerType)?.setupSteps.find((step) => step.type === 'oauth');
+  if (!oauthStep || oauthStep.type !== 'oauth' || !secrets.refresh_token || !secrets.expires_at) {
+    return secrets;
+  }
+
+  const { getOAuthProvider, deserializeTokens, serializeTokens, areTokensExpired } = await import(
+    '~/server/services/oauth-service'
+  );
+  const tokens = deserializeTokens(secrets);
+  if (!areTokensExpired(tokens)) {
+    return secrets;
+  }
+
+  const refreshed = await getOAuthProvider(oauthStep.provider).refreshTokens(secrets.refresh_token);
+  const config = { ...secrets, ...serializeTokens(refreshed) };
+
+  const { updateProvider } = await import('~/server/services/provider-service');
+  await updateProvider(providerId, { config });
+  logger.info('Refreshed OAuth tokens for polling trigger provider', { providerId, providerType });
+
+  return config as Record<string, string>;
+}
+
+/**
+ * Schedule the next poll for a trigger.
+ * Uses one job key per trigger so a trigger never has more than one pending poll.
+ */
+export async function schedulePoll(
+  triggerId: string,
+  delaySeconds: number = 0,
+  options?: { preserveRunAt?: boolean }
+): Promise<void> {
+  const { addJob } = await import('~/server/jobs/worker');
+  await addJob(
+    'pollTrigger',
+    { triggerId },
+    {
+      runAt: new Date(Date.now() + delaySeconds * 1000),
+      maxAttempts: 1,
+      jobKey: `poll:${triggerId}`,
+      jobKeyMode: options?.preserveRunAt ? 'preserve_run_at' : 'replace',
+    }
+  );
+}
+
+/**
+ * Ensure every polling trigger has a pending poll job (run on worker start)
+ */
+export async function schedulePollingTriggers(): Promise<number> {
+  const db = getDb();
+
+  const rows = await db
+    .select({ triggerId: triggers.id, triggerType: triggers.triggerType, providerType: providers.type })
+    .from(triggers)
+    .innerJoin(providers, eq(triggers.providerId, providers.id));
+
+  let scheduled = 0;
+  for (const row of rows) {
+    if (!isPollingTrigger(row.providerType, row.triggerType)) continue;
+    await schedulePoll(row.triggerId, 0, { preserveRunAt: true });
+    scheduled++;
+  }
+
+  logger.info('Scheduled polling triggers', { count: scheduled });
+  return scheduled;
+}
+
+/**
+ * Poll a trigger once and execute it for every new event
+ */
+export async function pollTrigger(triggerId: string): Promise<PollResult> {
+  const db = getDb();
+
+  const [row] = await db
+    .select({ trigger: triggers, provider: providers, workflow: workflows })
+    .from(triggers)
+    .innerJoin(providers, eq(triggers.providerId, providers.id))
+    .innerJoin(workflows, eq(triggers.workflowId, workflows.id))
+    .where(eq(triggers.id, triggerId))
+    .limit(1);
+
+  if (!row) {
+    logger.debug('Polling trigger no longer exists, stopping', { triggerId });
+    return { triggerId, status: 'stopped', events: 0, nextPollInSeconds: null };
+  }
+
+  const { trigger, provider, workflow } = row;
+  const triggerDef = getPollingTriggerDefinition(provider.type, trigger.triggerType);
+  if (!triggerDef?.poll) {
+    logger.warn('Trigger does not support polling, stopping', {
+      triggerId,
+      providerType: provider.type,
+      triggerType: trigger.triggerType,
+    });
+    return { triggerId, status: 'stopped', events: 0, nextPollInSeconds: null };
+  }
+
+  const interval = triggerDef.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS;
+
+  // Keep the schedule alive but don't fetch events for inactive workflows
+  if (workflow.active === false) {
+    return { triggerId, status: 'skipped', events: 0, nextPollInSeconds: interval };
+  }
+
+  const { providerState, metadata } = splitPollingState(trigger.state as Record<string, unknown> | null);
+  const polledAt = new Date();
+
+  let result: Awaited<ReturnType<NonNullable<TriggerDefinition['poll']>>>;
+  try {
+    const secrets = await getFreshProviderSecrets(provider.id, provider.type);
+    result = await triggerDef.poll({
+      input: trigger.input,
+      state: providerState,
+      providerId: provider.id,
+      triggerId,
+      secrets,
+    });
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error('Trigger poll failed', { triggerId, providerType: provider.type, error: errorMsg });
+    return { triggerId, status: 'error', events: 0, nextPollInSeconds: interval, error: errorMsg };
+  }
+
+  const newEvents = filterUnseenEvents(result.events, metadata.seenEventIds);
+
+  // Persist the cursor before executing so a crash can't replay the batch
+  await updateTriggerState(
+    triggerId,
+    buildPolledState(result.state as Record<string, unknown>, metadata, newEvents, polledAt)
+  );
+
+  if (newEvents.length === 0) {
+    return { triggerId, status: 'polled', events: 0, nextPollInSeconds: interval };
+  }
+
+  const [namespace] = await db
+    .select({ organizationId: namespaces.organizationOwnerId })
+    .from(namespaces)
+    .where(eq(namespaces.id, workflow.namespaceId))
+    .limit(1);
+
+  let executed = 0;
+  for (const polled of newEvents) {
+    if (namespace?.organizationId) {
+      const limitCheck = await checkExecutionLimit(namespace.organizationId);
+      if (!limitCheck.allowed) {
+        logger.warn('Execution limit reached, dropping polled events', {
+          triggerId,
+          workflowId: workflow.id,
+          dropped: newEvents.length - executed,
+        });
+        break;
+      }
+    }
+
+    const execution = await createExecution({ workflowId: workflow.id, triggerId });
+    await executePolledTrigger(triggerId, polled.event, polledAt, execution.id);
+    executed++;
+  }
+
+  logger.info('Polled trigger', { triggerId, workflowId: workflow.id, events: executed });
+
+  return { triggerId, status: 'polled', events: executed, nextPollInSeconds: interval };
+}
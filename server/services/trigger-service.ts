@@ -14,6 +14,7 @@ import {
   recurringTasks,
   workflowDeployments,
   type Provider,
+  type Trigger,
   type IncomingWebhook,
 } from '~/server/db/schema';
 import { generateUlidUuid } from '~/server/utils/uuid';
@@ -21,6 +22,9 @@ import { encryptSecret, decryptSecret } from '~/server/utils/encryption';
 import { logger } from '~/server/utils/logger';
 import { settings } from '~/server/settings';
 import { getProviderDefinition } from 'floww/providers/server';
+import { isPollingTrigger, schedulePoll } from '~/server/services/trigger-polling-service';
+import { isCronTrigger, scheduleNextCronRun } from '~/server/services/trigger-cron-service';
+import { isKvChangeTrigger } from '~/server/services/kv-change-service';
 
 export interface TriggerInfo {
   id: string;
@@ -36,6 +40,32 @@ export interface TriggerMetadata {
   providerAlias: string;
   triggerType: string;
   input: Record<string, unknown>;
+  /** Execution options such as `retry`; not part of the trigger's identity */
+  options?: Record<string, unknown>;
+}
+
+export interface TriggerPlanEntry {
+  providerType: string;
+  providerAlias: string;
+  triggerType: string;
+  input: Record<string, unknown>;
+  /** lifecycle.create/destroy registers or deletes a webhook at the provider (GitHub, Jira, ...) */
+  externalWebhook: boolean;
+  /** Kept triggers only: retry/concurrency/idempotency options differ */
+  optionsChanged?: boolean;
+}
+
+export interface UnresolvedProvider {
+  providerType: string;
+  providerAlias: string;
+  reason: string;
+}
+
+export interface TriggerSyncPlan {
+  create: TriggerPlanEntry[];
+  destroy: TriggerPlanEntry[];
+  keep: TriggerPlanEntry[];
+  unresolvedProviders: UnresolvedProvider[];
 }
 
 export interface WebhookInfo {
@@ -96,6 +126,9 @@ function getTriggerIdentity(meta: TriggerMetadata): string {
   return `${meta.providerType}:${meta.providerAlias}:${meta.triggerType}:${JSON.stringify(meta.input, Object.keys(meta.input).sort())}`;
 }
 
+// Providers that can be auto-created (no setup required)
+const AUTO_CREATE_PROVIDERS = ['builtin', 'kvstore'];
+
 /**
  * Ensure a provider exists, auto-creating if it has no setup steps
  */
@@ -123,10 +156,7 @@ async function ensureProviderExists(
     return;
   }
 
-  // Providers that can be auto-created (no setup required)
-  const autoCreateProviders = ['builtin', 'kvstore'];
-
-  if (!autoCreateProviders.includes(providerType)) {
+  if (!AUTO_CREATE_PROVIDERS.includes(providerType)) {
     logger.warn('Provider requires setup and cannot be auto-created', { providerType, providerAlias });
     return;
   }
@@ -171,7 +201,7 @@ async function getProviderByTypeAlias(
 /**
  * Get provider secrets for SDK lifecycle
  */
-async function getProviderSecrets(providerId: string): Promise<Record<string, string>> {
+export async function getProviderSecrets(providerId: string): Promise<Record<string, string>> {
   const db = getDb();
 
   const [provider] = await db
@@ -192,6 +222,44 @@ async function getProviderSecrets(providerId: string): Promise<Record<string, st
   }
 }
 
+// Lifecycle state keys holding secrets; stored encrypted in triggers.encrypted_secrets
+const SECRET_STATE_KEYS = ['webhookSecret'];
+
+/**
+ * Split lifecycle state into what's stored in triggers.state and its encrypted secrets
+ */
+function splitTriggerState(state: Record<string, unknown>): {
+  state: Record<string, unknown>;
+  encryptedSecrets: string | null;
+} {
+  const plainState = { ...state };
+  const secrets: Record<string, unknown> = {};
+  for (const key of SECRET_STATE_KEYS) {
+    if (key in plainState) {
+      secrets[key] = plainState[key];
+      delete plainState[key];
+    }
+  }
+
+  return {
+    state: plainState,
+    encryptedSecrets: Object.keys(secrets).length > 0 ? encryptSecret(JSON.stringify(secrets)) : null,
+  };
+}
+
+/**
+ * Get the state the SDK lifecycle returned for a trigger, secrets included.
+ * Only for handing to the provider; TriggerInfo.state never carries them.
+ */
+export function getTriggerLifecycleState(trigger: Trigger): Record<string, unknown> {
+  const state = (trigger.state as Record<string, unknown>) ?? {};
+  if (!trigger.encryptedSecrets) {
+    return state;
+  }
+
+  return { ...state, ...JSON.parse(decryptSecret(trigger.encryptedSecrets)) };
+}
+
 /**
  * Execute SDK lifecycle.create for a trigger
  */
@@ -299,6 +367,62 @@ async function executeTriggerLifecycleDestroy(params: {
   }
 }
 
+/**
+ * Execute SDK lifecycle.refresh for a kept trigger and store the state it returns,
+ * e.g. a secret set on a webhook created before signing was introduced
+ */
+async function executeTriggerLifecycleRefresh(triggerId: string): Promise<void> {
+  const db = getDb();
+
+  const [result] = await db
+    .select({ trigger: triggers, provider: providers })
+    .from(triggers)
+    .innerJoin(providers, eq(triggers.providerId, providers.id))
+    .where(eq(triggers.id, triggerId))
+    .limit(1);
+
+  if (!result) {
+    return;
+  }
+
+  const { trigger, provider } = result;
+  const triggerDef = getProviderDefinition(provider.type)?.triggerDefinitions[trigger.triggerType];
+  if (!triggerDef) {
+    return;
+  }
+
+  const state = getTriggerLifecycleState(trigger);
+  const secrets = await getProviderSecrets(trigger.providerId);
+
+  try {
+    const refreshedState = (await triggerDef.lifecycle.refresh({
+      input: trigger.input as Record<string, unknown>,
+      state,
+      providerId: trigger.providerId,
+      triggerId,
+      secrets,
+    })) as Record<string, unknown>;
+
+    if (JSON.stringify(refreshedState) !== JSON.stringify(state)) {
+      await updateTriggerState(triggerId, refreshedState);
+    }
+
+    logger.info('SDK trigger lifecycle.refresh executed', {
+      providerType: provider.type,
+      triggerType: trigger.triggerType,
+      triggerId,
+    });
+  } catch (error) {
+    logger.warn('SDK trigger lifecycle.refresh failed', {
+      providerType: provider.type,
+      triggerType: trigger.triggerType,
+      triggerId,
+      error: String(error),
+    });
+    // Don't fail the sync - the trigger keeps its current state
+  }
+}
+
 /**
  * Create a new trigger
  */
@@ -308,8 +432,10 @@ export async function createTrigger(params: {
   triggerType: string;
   input: Record<string, unknown>;
   state?: Record<string, unknown>;
+  options?: Record<string, unknown>;
 }): Promise<TriggerInfo> {
   const db = getDb();
+  const { state, encryptedSecrets } = splitTriggerState(params.state ?? {});
 
   const [trigger] = await db
     .insert(triggers)
@@ -319,7 +445,9 @@ export async function createTrigger(params: {
       providerId: params.providerId,
       triggerType: params.triggerType,
       input: params.input,
-      state: params.state ?? {},
+      state,
+      encryptedSecrets,
+      options: params.options ?? null,
     })
     .returning();
 
@@ -334,17 +462,19 @@ export async function createTrigger(params: {
 }
 
 /**
- * Update a trigger's state
+ * Update a trigger's state. Secrets in it replace the stored ones; state
+ * without secrets (e.g. a poll cursor) leaves them as they are.
  */
 export async function updateTriggerState(
   triggerId: string,
-  state: Record<string, unknown>
+  lifecycleState: Record<string, unknown>
 ): Promise<TriggerInfo | null> {
   const db = getDb();
+  const { state, encryptedSecrets } = splitTriggerState(lifecycleState);
 
   const [trigger] = await db
     .update(triggers)
-    .set({ state })
+    .set(encryptedSecrets ? { state, encryptedSecrets } : { state })
     .where(eq(triggers.id, triggerId))
     .returning();
 
@@ -391,7 +521,7 @@ export async function deleteTrigger(triggerId: string): Promise<boolean> {
         triggerType: trigger.triggerType,
         triggerId,
         input: trigger.input as Record<string, unknown>,
-        state: (trigger.state as Record<string, unknown>) ?? {},
+        state: getTriggerLifecycleState(trigger),
       });
     }
   }
@@ -401,6 +531,27 @@ export async function deleteTrigger(triggerId: string): Promise<boolean> {
   return true;
 }
 
+/**
+ * Convert the trigger definitions stored on a deployment (as returned by the
+ * runtime's getDefinitions) into the metadata syncTriggers expects
+ */
+export function getTriggersMetadataFromDefinitions(triggerDefinitions: unknown): TriggerMetadata[] {
+  const triggerDefs = (triggerDefinitions ?? []) as Array<{
+    provider: { type: string; alias: string };
+    triggerType: string;
+    input?: Record<string, unknown>;
+    options?: Record<string, unknown>;
+  }>;
+
+  return triggerDefs.map((def) => ({
+    providerType: def.provider.type,
+    providerAlias: def.provider.alias,
+    triggerType: def.triggerType,
+    input: def.input ?? {},
+    options: def.options,
+  }));
+}
+
 /**
  * Get deployed trigger identities for a workflow
  * These triggers should be preserved and not removed during dev sync
@@ -442,6 +593,123 @@ async function getDeployedTriggerIdentities(workflowId: string): Promise<Set<str
   return identities;
 }
 
+/**
+ * Whether creating or deleting the trigger registers or removes a webhook at
+ * the provider through its SDK lifecycle
+ */
+function hasExternalWebhook(providerType: string, triggerType: string): boolean {
+  if (
+    providerType === 'builtin' ||
+    isPollingTrigger(providerType, triggerType) ||
+    isKvChangeTrigger(providerType, triggerType)
+  ) {
+    return false;
+  }
+
+  return Boolean(getProviderDefinition(providerType)?.triggerDefinitions[triggerType]);
+}
+
+/**
+ * Compute what deploying new trigger definitions would change, without
+ * changing anything: triggers to create, destroy and keep compared with the
+ * active deployment, and provider aliases that syncTriggers couldn't resolve.
+ *
+ * @param usedProviders - Providers the code uses besides those of its triggers
+ */
+export async function planTriggerSync(
+  namespaceId: string,
+  currentTriggerDefinitions: unknown,
+  newTriggersMetadata: TriggerMetadata[],
+  providerMappings?: Record<string, Record<string, string>>,
+  usedProviders: Array<{ type: string; alias: string }> = []
+): Promise<TriggerSyncPlan> {
+  const db = getDb();
+  const hasMapping = providerMappings && Object.keys(providerMappings).length > 0;
+
+  const toEntry = (meta: TriggerMetadata): TriggerPlanEntry => ({
+    providerType: meta.providerType,
+    providerAlias: meta.providerAlias,
+    triggerType: meta.triggerType,
+    input: meta.input,
+    externalWebhook: hasExternalWebhook(meta.providerType, meta.triggerType),
+  });
+
+  const currentMap = new Map<string, TriggerMetadata>();
+  for (const meta of getTriggersMetadataFromDefinitions(currentTriggerDefinitions)) {
+    currentMap.set(getTriggerIdentity(meta), meta);
+  }
+
+  const newMap = new Map<string, TriggerMetadata>();
+  for (const meta of newTriggersMetadata.filter((t) => t.providerType && t.providerAlias)) {
+    newMap.set(getTriggerIdentity(meta), meta);
+  }
+
+  const plan: TriggerSyncPlan = { create: [], destroy: [], keep: [], unresolvedProviders: [] };
+
+  for (const [identity, meta] of newMap) {
+    const current = currentMap.get(identity);
+    if (!current) {
+      plan.create.push(toEntry(meta));
+      continue;
+    }
+    plan.keep.push({
+      ...toEntry(meta),
+      optionsChanged: JSON.stringify(current.options ?? {}) !== JSON.stringify(meta.options ?? {}),
+    });
+  }
+  for (const [identity, meta] of currentMap) {
+    if (!newMap.has(identity)) {
+      plan.destroy.push(toEntry(meta));
+    }
+  }
+
+  // Resolve providers the same way syncTriggers does
+  const providerKeys = new Set([
+    ...[...newMap.values()].map((meta) => `${meta.providerType}:${meta.providerAlias}`),
+    ...usedProviders.map((provider) => `${provider.type}:${provider.alias}`),
+  ]);
+  for (const providerKey of providerKeys) {
+    const [providerType, providerAlias] = providerKey.split(':');
+
+    if (hasMapping) {
+      const mappedId = providerMappings![providerType]?.[providerAlias];
+      if (!mappedId) {
+        plan.unresolvedProviders.push({
+          providerType,
+          providerAlias,
+          reason: 'No provider mapping found in floww.yaml',
+        });
+        continue;
+      }
+
+      const [provider] = await db
+        .select({ id: providers.id })
+        .from(providers)
+        .where(eq(providers.id, mappedId))
+        .limit(1);
+      if (!provider) {
+        plan.unresolvedProviders.push({
+          providerType,
+          providerAlias,
+          reason: `Provider ID ${mappedId} not found`,
+        });
+      }
+      continue;
+    }
+
+    const provider = await getProviderByTypeAlias(namespaceId, providerType, providerAlias);
+    if (!provider && !AUTO_CREATE_PROVIDERS.includes(providerType)) {
+      plan.unresolvedProviders.push({
+        providerType,
+        providerAlias,
+        reason: 'Provider is not configured in this namespace',
+      });
+    }
+  }
+
+  return plan;
+}
+
 /**
  * Sync triggers for a workflow.
  * Returns list of webhook info for created/existing webhooks.
@@ -553,6 +821,17 @@ export async function syncTriggers(
     }
   }
 
+  // Kept triggers pick up changed execution options without being recreated,
+  // and have their external resources refreshed
+  for (const identity of toKeep) {
+    const trigger = existingMap.get(identity)!;
+    await db
+      .update(triggers)
+      .set({ options: newMap.get(identity)!.options ?? null })
+      .where(eq(triggers.id, trigger.id));
+    await executeTriggerLifecycleRefresh(trigger.id);
+  }
+
   // Add triggers
   const errors: Array<{ providerType: string; triggerType: string; error: string }> = [];
   for (const identity of toAdd) {
@@ -593,17 +872,25 @@ export async function syncTriggers(
         providerId,
         triggerType: meta.triggerType,
         input: meta.input,
+        options: meta.options,
       });
 
       // Generate webhook URL for this trigger
       const webhookPath = `/webhook/${generateUlidUuid()}`;
       const webhookUrl = `${publicApiUrl}${webhookPath}`;
 
+      // Polling triggers fetch events themselves and don't need a webhook,
+      // nor do KV change triggers, which the /kv routes run
+      const isPolling = isPollingTrigger(meta.providerType, meta.triggerType);
+      const isKvChange = isKvChangeTrigger(meta.providerType, meta.triggerType);
+
       // For webhook-based triggers, create incoming webhook
       const isWebhookTrigger = 
-        meta.triggerType === 'webhook' || 
-        meta.triggerType === 'onWebhook' ||
-        meta.triggerType.startsWith('on'); // Most provider triggers are webhook-based
+        !isPolling && !isKvChange && (
+          meta.triggerType === 'webhook' || 
+          meta.triggerType === 'onWebhook' ||
+          meta.triggerType.startsWith('on') // Most provider triggers are webhook-based
+        );
 
       if (isWebhookTrigger && meta.providerType !== 'builtin') {
         // For provider triggers, we may need external webhook setup
@@ -625,8 +912,10 @@ export async function syncTriggers(
         });
       }
 
-      // For cron triggers, create recurring task
-      if (meta.triggerType === 'cron' || meta.triggerType === 'onCron' || meta.triggerType === 'onSchedule') {
+      const isCron = isCronTrigger(meta.providerType, meta.triggerType);
+
+      // For cron and polling triggers, create recurring task
+      if (isPolling || isCron || meta.triggerType === 'cron' || meta.triggerType === 'onSchedule') {
         await db.insert(recurringTasks).values({
           id: generateUlidUuid(),
           triggerId: trigger.id,
@@ -655,6 +944,29 @@ export async function syncTriggers(
         });
         // Don't fail the whole sync - the trigger is created, just without external webhook
       }
+
+      // Start polling once the initial state is stored (worker startup reschedules on failure)
+      if (isPolling) {
+        try {
+          await schedulePoll(trigger.id);
+        } catch (scheduleError) {
+          logger.warn('Failed to schedule first poll for trigger', {
+            triggerId: trigger.id,
+            error: String(scheduleError),
+          });
+        }
+      }
+
+      if (isCron) {
+        try {
+          await scheduleNextCronRun(trigger.id, meta.input);
+        } catch (scheduleError) {
+          logger.warn('Failed to schedule first run for cron trigger', {
+            triggerId: trigger.id,
+            error: String(scheduleError),
+          });
+        }
+      }
     } catch (error) {
       errors.push({
         providerType: meta.providerType,
@@ -0,0 +1,136 @@
+/**
+ * Webhook Idempotency Service
+ *
+ * Deduplicates webhook deliveries. A delivery's idempotency key is the
+ * trigger's `idempotencyKey` option resolved against the event, or else the
+ * delivery ID extracted by the provider (X-GitHub-Delivery, Slack event_id,
+ * ...). A delivery whose key was already seen by the same trigger within the
+ * window is recorded as a DUPLICATE execution linked to the first one, and is
+ * not run again.
+ */
+
+import { eq, and, asc, ne, gte, sql } from 'drizzle-orm';
+import { getDb } from '~/server/db';
+import { executionHistory } from '~/server/db/schema';
+import { createExecution } from '~/server/services/execution-service';
+import { logger } from '~/server/utils/logger';
+import { resolveCompleteEventTemplate } from '~/server/utils/event-template';
+import { generateUlidUuid } from '~/server/utils/uuid';
+
+export interface IdempotencyPolicy {
+  // Template such as "{{headers.x-request-id}}"; without one the provider's delivery ID is used
+  key?: string;
+  windowMs: number;
+}
+
+export interface WebhookExecution {
+  executionId: string;
+  // Set when the delivery was a duplicate; the execution was recorded but must not run
+  duplicateOfExecutionId: string | null;
+}
+
+/** How long a key is remembered when the trigger doesn't set idempotencyWindow */
+export const DEFAULT_IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Longest delivery ID kept; longer IDs are truncated */
+const MAX_KEY_LENGTH = 512;
+
+/**
+ * Read the idempotency options of a trigger
+ */
+export function parseIdempotencyPolicy(options: unknown): IdempotencyPolicy {
+  const { idempotencyKey, idempotencyWindow } = (options ?? {}) as {
+    idempotencyKey?: unknown;
+    idempotencyWindow?: unknown;
+  };
+
+  return {
+    key: typeof idempotencyKey === 'string' && idempotencyKey ? idempotencyKey : undefined,
+    windowMs:
+      typeof idempotencyWindow === 'number' && Number.isFinite(idempotencyWindow) && idempotencyWindow >= 0
+        ? idempotencyWindow
+        : DEFAULT_IDEMPOTENCY_WINDOW_MS,
+  };
+}
+
+/**
+ * Pick the idempotency key of a delivery. A key option referring to fields the
+ * event lacks, or resolving to an empty string, disables deduplication for it.
+ */
+export function resolveIdempotencyKey(
+  policy: IdempotencyPolicy,
+  eventData: Record<string, unknown>,
+  deliveryId?: string
+): string | null {
+  if (policy.key) {
+    return resolveCompleteEventTemplate(policy.key, eventData) || null;
+  }
+
+  return deliveryId ? deliveryId.slice(0, MAX_KEY_LENGTH) : null;
+}
+
+/**
+ * Create the execution record for a webhook delivery. Deliveries without a key
+ * are never treated as duplicates.
+ */
+export async function createWebhookExecution(params: {
+  workflowId: string;
+  triggerId: string;
+  idempotencyKey: string | null;
+  windowMs: number;
+}): Promise<WebhookExecution> {
+  const { workflowId, triggerId, idempotencyKey, windowMs } = params;
+
+  if (!idempotencyKey) {
+    const execution = await createExecution({ workflowId, triggerId });
+    return { executionId: execution.id, duplicateOfExecutionId: null };
+  }
+
+  const db = getDb();
+
+  const execution = await db.transaction(async (tx) => {
+    // Concurrent redeliveries of the same event must not both see "no earlier delivery"
+    const lockKey = `idempotency:${triggerId}:${idempotencyKey}`;
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`);
+
+    const [original] = await tx
+      .select({ id: executionHistory.id })
+      .from(executionHistory)
+      .where(
+        and(
+          eq(executionHistory.triggerId, triggerId),
+          eq(executionHistory.idempotencyKey, idempotencyKey),
+          ne(executionHistory.status, 'DUPLICATE'),
+          gte(executionHistory.receivedAt, new Date(Date.now() - windowMs))
+        )
+      )
+      .orderBy(asc(executionHistory.receivedAt))
+      .limit(1);
+
+    const [created] = await tx
+      .insert(executionHistory)
+      .values({
+        id: generateUlidUuid(),
+        workflowId,
+        triggerId,
+        status: original ? 'DUPLICATE' : 'RECEIVED',
+        completedAt: original ? new Date() : null,
+        idempotencyKey,
+        duplicateOfExecutionId: original?.id ?? null,
+      })
+      .returning({ id: executionHistory.id, duplicateOfExecutionId: executionHistory.duplicateOfExecutionId });
+
+    return created;
+  });
+
+  if (execution.duplicateOfExecutionId) {
+    logger.info('Duplicate webhook delivery recorded', {
+      executionId: execution.id,
+      duplicateOfExecutionId: execution.duplicateOfExecutionId,
+      triggerId,
+      idempotencyKey,
+    });
+  }
+
+  return { executionId: execution.id, duplicateOfExecutionId: execution.duplicateOfExecutionId };
+}
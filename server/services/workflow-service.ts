@@ -4,7 +4,7 @@
  * Handles workflow CRUD operations, deployments, and folder management
  */
 
-import { eq, and, desc, asc, isNull, inArray, sql, ilike } from 'drizzle-orm';
+import { eq, and, desc, asc, isNull, inArray, sql, ilike, ne, lt } from 'drizzle-orm';
 import { getDb } from '~/server/db';
 import {
   workflows,
@@ -14,6 +14,14 @@ import {
   organizationMembers,
 } from '~/server/db/schema';
 import { generateUlidUuid } from '~/server/utils/uuid';
+import { logger } from '~/server/utils/logger';
+import { getDefaultRuntimeId } from '~/server/services/default-runtime';
+import {
+  convertN8nWorkflow,
+  renderN8nProjectConfig,
+  N8N_ENTRYPOINT,
+  type N8nConversionReport,
+} from '~/server/services/n8n-converter';
 
 export interface WorkflowInfo {
   id: string;
@@ -37,9 +45,11 @@ export interface WorkflowDeploymentInfo {
   providerDefinitions: unknown;
   triggerDefinitions: unknown;
   providerMappings: unknown;
+  concurrency: unknown;
   deployedAt: Date;
   status: 'ACTIVE' | 'INACTIVE' | 'FAILED';
   note: string | null;
+  environment: string | null;
 }
 
 export interface WorkflowFolderInfo {
@@ -303,9 +313,11 @@ export async function getActiveDeployment(
     providerDefinitions: deployment.providerDefinitions,
     triggerDefinitions: deployment.triggerDefinitions,
     providerMappings: deployment.providerMappings,
+    concurrency: deployment.concurrency,
     deployedAt: deployment.deployedAt,
     status: deployment.status,
     note: deployment.note,
+    environment: deployment.environment,
   };
 }
 
@@ -334,9 +346,11 @@ export async function getDeployment(deploymentId: string): Promise<WorkflowDeplo
     providerDefinitions: deployment.providerDefinitions,
     triggerDefinitions: deployment.triggerDefinitions,
     providerMappings: deployment.providerMappings,
+    concurrency: deployment.concurrency,
     deployedAt: deployment.deployedAt,
     status: deployment.status,
     note: deployment.note,
+    environment: deployment.environment,
   };
 }
 
@@ -367,9 +381,11 @@ export async function listDeployments(
     providerDefinitions: d.providerDefinitions,
     triggerDefinitions: d.triggerDefinitions,
     providerMappings: d.providerMappings,
+    concurrency: d.concurrency,
     deployedAt: d.deployedAt,
     status: d.status,
     note: d.note,
+    environment: d.environment,
   }));
 }
 
@@ -384,7 +400,9 @@ export async function createDeployment(params: {
   providerDefinitions?: unknown;
   triggerDefinitions?: unknown;
   providerMappings?: unknown;
+  concurrency?: unknown;
   note?: string;
+  environment?: string;
 }): Promise<WorkflowDeploymentInfo> {
   const db = getDb();
 
@@ -411,8 +429,10 @@ export async function createDeployment(params: {
       providerDefinitions: params.providerDefinitions ?? null,
       triggerDefinitions: params.triggerDefinitions ?? null,
       providerMappings: params.providerMappings ?? null,
+      concurrency: params.concurrency ?? null,
       status: 'ACTIVE',
       note: params.note ?? null,
+      environment: params.environment ?? null,
     })
     .returning();
 
@@ -431,9 +451,11 @@ export async function createDeployment(params: {
     providerDefinitions: deployment.providerDefinitions,
     triggerDefinitions: deployment.triggerDefinitions,
     providerMappings: deployment.providerMappings,
+    concurrency: deployment.concurrency,
     deployedAt: deployment.deployedAt,
     status: deployment.status,
     note: deployment.note,
+    environment: deployment.environment,
   };
 }
 
@@ -465,9 +487,121 @@ export async function updateDeploymentStatus(
     providerDefinitions: deployment.providerDefinitions,
     triggerDefinitions: deployment.triggerDefinitions,
     providerMappings: deployment.providerMappings,
+    concurrency: deployment.concurrency,
+    deployedAt: deployment.deployedAt,
+    status: deployment.status,
+    note: deployment.note,
+    environment: deployment.environment,
+  };
+}
+
+/**
+ * Get the deployment a rollback returns to: the newest deployment made before
+ * the active one that didn't fail
+ */
+export async function getRollbackTarget(workflowId: string): Promise<WorkflowDeploymentInfo | null> {
+  const db = getDb();
+
+  const active = await getActiveDeployment(workflowId);
+
+  const conditions = [
+    eq(workflowDeployments.workflowId, workflowId),
+    ne(workflowDeployments.status, 'FAILED'),
+  ];
+  if (active) {
+    conditions.push(ne(workflowDeployments.id, active.id));
+    conditions.push(lt(workflowDeployments.deployedAt, active.deployedAt));
+  }
+
+  const [deployment] = await db
+    .select()
+    .from(workflowDeployments)
+    .where(and(...conditions))
+    .orderBy(desc(workflowDeployments.deployedAt))
+    .limit(1);
+
+  if (!deployment) {
+    return null;
+  }
+
+  return {
+    id: deployment.id,
+    workflowId: deployment.workflowId,
+    runtimeId: deployment.runtimeId,
+    deployedById: deployment.deployedById,
+    userCode: deployment.userCode,
+    providerDefinitions: deployment.providerDefinitions,
+    triggerDefinitions: deployment.triggerDefinitions,
+    providerMappings: deployment.providerMappings,
+    concurrency: deployment.concurrency,
+    deployedAt: deployment.deployedAt,
+    status: deployment.status,
+    note: deployment.note,
+    environment: deployment.environment,
+  };
+}
+
+/**
+ * Make an existing deployment the active one (and deactivate the current one).
+ * Returns null when the deployment doesn't belong to the workflow.
+ */
+export async function activateDeployment(
+  workflowId: string,
+  deploymentId: string
+): Promise<WorkflowDeploymentInfo | null> {
+  const db = getDb();
+
+  const deployment = await db.transaction(async (tx) => {
+    const [target] = await tx
+      .select({ id: workflowDeployments.id })
+      .from(workflowDeployments)
+      .where(and(eq(workflowDeployments.id, deploymentId), eq(workflowDeployments.workflowId, workflowId)))
+      .limit(1);
+
+    if (!target) {
+      return null;
+    }
+
+    await tx
+      .update(workflowDeployments)
+      .set({ status: 'INACTIVE' })
+      .where(
+        and(
+          eq(workflowDeployments.workflowId, workflowId),
+          eq(workflowDeployments.status, 'ACTIVE'),
+          ne(workflowDeployments.id, deploymentId)
+        )
+      );
+
+    const [activated] = await tx
+      .update(workflowDeployments)
+      .set({ status: 'ACTIVE' })
+      .where(and(eq(workflowDeployments.id, deploymentId), eq(workflowDeployments.workflowId, workflowId)))
+      .returning();
+
+    await tx.update(workflows).set({ updatedAt: new Date() }).where(eq(workflows.id, workflowId));
+
+    return activated;
+  });
+
+  if (!deployment) {
+    return null;
+  }
+
+  return {
+    id: deployment.id,
+    workflowId: deployment.workflowId,
+    runtimeId: deployment.runtimeId,
+    deployedById: deployment.deployedById,
+    userCode: deployment.userCode,
+    providerDefinitions: deployment.providerDefinitions,
+    triggerDefinitions: deployment.triggerDefinitions,
+    providerMappings: deployment.providerMappings,
+    concurrency: deployment.concurrency,
     deployedAt: deployment.deployedAt,
     status: deployment.status,
     note: deployment.note,
+    environment: deployment.environment,
   };
 }
 
@@ -670,21 +804,66 @@ export async function deleteDeployment(deploymentId: string): Promise<boolean> {
   return result.length > 0;
 }
 
+export interface N8nImportResult {
+  workflow: WorkflowInfo;
+  deployment: WorkflowDeploymentInfo | null;
+  report: N8nConversionReport;
+}
+
 /**
- * Import a workflow from n8n format (stub for future implementation)
+ * Import a workflow from n8n format.
+ *
+ * Converts the n8n nodes into Floww TypeScript and stores the generated
+ * main.ts + floww.yaml as the workflow's initial deployment. Triggers are not
+ * synced until the code is reviewed and deployed.
  */
 export async function importFromN8n(params: {
   namespaceId: string;
   n8nWorkflow: Record<string, unknown>;
   name?: string;
   createdById?: string;
-}): Promise<WorkflowInfo> {
-  // For now, just create a basic workflow with the n8n data stored
-  // Full implementation would parse and convert the n8n workflow format
-  return createWorkflow({
+}): Promise<N8nImportResult> {
+  // Convert first so invalid exports are rejected before anything is created
+  const conversion = convertN8nWorkflow(params.n8nWorkflow);
+
+  const n8nName = typeof params.n8nWorkflow.name === 'string' ? params.n8nWorkflow.name : undefined;
+  const name = params.name ?? n8nName ?? 'Imported from n8n';
+  const description = 'Imported from n8n workflow';
+
+  const workflow = await createWorkflow({
     namespaceId: params.namespaceId,
-    name: params.name ?? 'Imported from n8n',
-    description: 'Imported from n8n workflow',
+    name,
+    description,
     createdById: params.createdById,
   });
+
+  const runtimeId = await getDefaultRuntimeId();
+  if (!runtimeId) {
+    logger.warn('No default runtime configured, skipping initial deployment for n8n import', {
+      workflowId: workflow.id,
+    });
+    return { workflow, deployment: null, report: conversion.report };
+  }
+
+  const deployment = await createDeployment({
+    workflowId: workflow.id,
+    runtimeId,
+    deployedById: params.createdById,
+    userCode: {
+      files: {
+        [N8N_ENTRYPOINT]: conversion.code,
+        'floww.yaml': renderN8nProjectConfig({ workflowId: workflow.id, name, description }),
+      },
+      entrypoint: N8N_ENTRYPOINT,
+    },
+    note: `Imported from n8n (${conversion.report.summary.converted}/${conversion.report.summary.total} nodes converted)`,
+  });
+
+  logger.info('Imported n8n workflow', {
+    workflowId: workflow.id,
+    deploymentId: deployment.id,
+    summary: conversion.report.summary,
+  });
+
+  return { workflow, deployment, report: conversion.report };
 }
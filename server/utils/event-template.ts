@@ -0,0 +1,57 @@
+/**
+ * Event key templates
+ *
+ * Trigger options such as `concurrency.key` and `idempotencyKey` are compiled by
+ * the SDK into templates like "{{body.owner}}/{{body.repo}}", which are filled in
+ * here with the fields of each incoming event.
+ */
+
+/** Longest resolved key kept; longer keys are truncated */
+const MAX_KEY_LENGTH = 512;
+
+const PLACEHOLDER_PATTERN = /\{\{([^}]*)\}\}/g;
+
+/**
+ * Look up a dotted path such as "body.repo" in an event
+ */
+function getEventField(eventData: Record<string, unknown>, path: string): unknown {
+  let value: unknown = eventData;
+  for (const part of path.trim().split('.').filter(Boolean)) {
+    value = value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined;
+  }
+  return value;
+}
+
+/**
+ * Resolve a template against an event. Missing fields resolve to an empty
+ * string and objects to their JSON.
+ */
+export function resolveEventTemplate(template: string, eventData: Record<string, unknown>): string {
+  const key = template.replace(PLACEHOLDER_PATTERN, (_match, path: string) => {
+    const value = getEventField(eventData, path);
+
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+
+  return key.slice(0, MAX_KEY_LENGTH);
+}
+
+/**
+ * Resolve a template against an event, or return null when the event lacks any
+ * of its fields. For keys that must identify an event, where a partly filled in
+ * key such as "-" would match unrelated events.
+ */
+export function resolveCompleteEventTemplate(
+  template: string,
+  eventData: Record<string, unknown>
+): string | null {
+  for (const [, path] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const value = getEventField(eventData, path);
+    if (value === undefined || value === null) {
+      return null;
+    }
+  }
+
+  return resolveEventTemplate(template, eventData);
+}
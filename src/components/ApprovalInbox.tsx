@@ -0,0 +1,147 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+import { Check, X } from "lucide-react";
+import { api, handleApiError } from "@/lib/api";
+import { PendingApproval, PendingApprovalsResponse } from "@/types/api";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { showSuccessNotification, showErrorNotification } from "@/stores/notificationStore";
+
+interface ApprovalInboxProps {
+  namespaceId: string;
+}
+
+export function ApprovalInbox({ namespaceId }: ApprovalInboxProps) {
+  const queryClient = useQueryClient();
+
+  const { data, error } = useQuery({
+    queryKey: ["approvals", namespaceId],
+    queryFn: async () => {
+      return await api.get<PendingApprovalsResponse>("/approvals", {
+        params: { namespaceId },
+      });
+    },
+    refetchInterval: 30000,
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ approval, approved }: { approval: PendingApproval; approved: boolean }) => {
+      return await api.post<PendingApproval>(`/approvals/${approval.id}/decision`, { approved });
+    },
+    onSuccess: (_result, { approved }) => {
+      queryClient.invalidateQueries({ queryKey: ["approvals", namespaceId] });
+      showSuccessNotification(
+        approved ? "Request approved" : "Request rejected",
+        "The execution will resume shortly."
+      );
+    },
+    onError: (error) => {
+      showErrorNotification("Failed to decide approval", handleApiError(error));
+    },
+  });
+
+  const approvals = data?.results || [];
+
+  // Only take up room on the overview when something is waiting
+  if (approvals.length === 0 && !error) {
+    return null;
+  }
+
+  const formatTimestamp = (timestamp: string | null) => {
+    if (!timestamp) return "—";
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    }).replace(',', '');
+  };
+
+  return (
+    <div className="mb-12 space-y-4">
+      <h2 className="text-xl font-semibold text-foreground">
+        Waiting for approval ({approvals.length})
+      </h2>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg">
+          {handleApiError(error)}
+        </div>
+      )}
+
+      {approvals.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Workflow</TableHead>
+              <TableHead>Request</TableHead>
+              <TableHead>Requested At</TableHead>
+              <TableHead>Expires At</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {approvals.map((approval) => (
+              <TableRow key={approval.id}>
+                <TableCell className="text-sm">
+                  <Link
+                    to="/workflows/$workflowId/executions/$executionId"
+                    params={{ workflowId: approval.workflowId, executionId: approval.executionId }}
+                    className="hover:underline"
+                  >
+                    {approval.workflowName}
+                  </Link>
+                </TableCell>
+                <TableCell className="text-sm max-w-md whitespace-pre-wrap">
+                  {approval.message}
+                </TableCell>
+                <TableCell className="font-mono text-xs">
+                  {formatTimestamp(approval.createdAt)}
+                </TableCell>
+                <TableCell className="font-mono text-xs">
+                  {formatTimestamp(approval.expiresAt)}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {approval.canDecide ? (
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        size="sm"
+                        disabled={decideMutation.isPending}
+                        onClick={() => decideMutation.mutate({ approval, approved: true })}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={decideMutation.isPending}
+                        onClick={() => decideMutation.mutate({ approval, approved: false })}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">
+                      Awaiting {approval.approvers.join(", ")}
+                    </span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
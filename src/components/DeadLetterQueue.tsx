@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "@tanstack/react-router";
+import { RotateCcw } from "lucide-react";
+import { api, handleApiError } from "@/lib/api";
+import { ExecutionHistory, ExecutionHistoryResponse, ReplayTarget } from "@/types/api";
+import { Loader } from "@/components/Loader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { showSuccessNotification, showErrorNotification } from "@/stores/notificationStore";
+
+interface DeadLetterQueueProps {
+  workflowId: string;
+}
+
+interface BulkReplayResponse {
+  executionIds: string[];
+  queued: number;
+  skipped: Array<{ executionId: string; reason: string }>;
+}
+
+export function DeadLetterQueue({ workflowId }: DeadLetterQueueProps) {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [target, setTarget] = useState<ReplayTarget>("active");
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["dead-letters", workflowId, statusFilter],
+    queryFn: async () => {
+      const params: Record<string, string | number> = { limit: 50, offset: 0 };
+      if (statusFilter !== "all") params.status = statusFilter;
+
+      return await api.get<ExecutionHistoryResponse>(
+        `/executions/workflows/${workflowId}/dead-letters`,
+        { params }
+      );
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["dead-letters", workflowId] });
+    queryClient.invalidateQueries({ queryKey: ["executions", workflowId] });
+  };
+
+  const replayMutation = useMutation({
+    mutationFn: async (executionId: string) => {
+      return await api.post<{ executionId: string; status: string }>(
+        `/executions/${executionId}/replay`,
+        { target }
+      );
+    },
+    onSuccess: (result) => {
+      invalidate();
+      showSuccessNotification("Execution replayed", `Replay finished with status ${result.status.toLowerCase()}.`);
+    },
+    onError: (error) => {
+      showErrorNotification("Failed to replay execution", handleApiError(error));
+    },
+  });
+
+  const replayAllMutation = useMutation({
+    mutationFn: async () => {
+      return await api.post<BulkReplayResponse>(`/executions/workflows/${workflowId}/replay`, {
+        target,
+        ...(statusFilter !== "all" ? { status: [statusFilter] } : {}),
+      });
+    },
+    onSuccess: (result) => {
+      invalidate();
+      const skipped = result.skipped.length > 0 ? ` ${result.skipped.length} could not be replayed.` : "";
+      showSuccessNotification("Replays queued", `${result.queued} executions queued for replay.${skipped}`);
+    },
+    onError: (error) => {
+      showErrorNotification("Failed to replay executions", handleApiError(error));
+    },
+  });
+
+  const executions = data?.executions || [];
+  const total = data?.total ?? 0;
+  const errorMessage = error ? handleApiError(error) : null;
+
+  const formatTimestamp = (timestamp: string | null) => {
+    if (!timestamp) return "—";
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: false
+    }).replace(',', '');
+  };
+
+  const formatTrigger = (execution: ExecutionHistory) => {
+    if (!execution.triggerType) return "—";
+
+    if (execution.webhookPath && execution.webhookMethod) {
+      return `${execution.webhookMethod} ${execution.webhookPath}`;
+    }
+
+    return execution.triggerType;
+  };
+
+  const handleRowClick = (executionId: string) => {
+    navigate({
+      to: '/workflows/$workflowId/executions/$executionId',
+      params: { workflowId, executionId }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Filters - always mounted so the selection survives refetches */}
+      <div className="flex items-center gap-4">
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="All statuses" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="FAILED">Failed</SelectItem>
+            <SelectItem value="TIMEOUT">Timeout</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={target} onValueChange={(value) => setTarget(value as ReplayTarget)}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="active">Replay on active deployment</SelectItem>
+            <SelectItem value="original">Replay on original deployment</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex-1" />
+        <Button
+          onClick={() => replayAllMutation.mutate()}
+          disabled={total === 0 || replayAllMutation.isPending}
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          {replayAllMutation.isPending ? "Queueing..." : `Replay all (${total})`}
+        </Button>
+      </div>
+
+      {errorMessage && (
+        <div className="bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg">
+          {errorMessage}
+        </div>
+      )}
+
+      {isLoading && !data ? (
+        <Loader isLoading={true} loadingMessage="Loading dead letters...">
+          <div />
+        </Loader>
+      ) : executions.length === 0 ? (
+        <div className="text-center py-12">
+          <h3 className="mt-2 text-sm font-medium text-foreground">No dead letters</h3>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Failed executions that are not retried anymore show up here.
+          </p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Status</TableHead>
+              <TableHead>Received At</TableHead>
+              <TableHead>Trigger</TableHead>
+              <TableHead>Deployment</TableHead>
+              <TableHead>Error</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {executions.map((execution) => (
+              <TableRow
+                key={execution.id}
+                onClick={() => handleRowClick(execution.id)}
+                className="cursor-pointer"
+              >
+                <TableCell>
+                  <Badge variant="destructive">
+                    {execution.status.toLowerCase() === "timeout" ? "Timeout" : "Failed"}
+                  </Badge>
+                  {execution.attempt > 1 && (
+                    <Badge variant="outline" className="ml-2">Attempt {execution.attempt}</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="font-mono text-xs">
+                  {formatTimestamp(execution.receivedAt)}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {formatTrigger(execution)}
+                </TableCell>
+                <TableCell className="font-mono text-xs">
+                  {execution.deploymentId ? execution.deploymentId.substring(0, 8) : "—"}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
+                  {execution.errorMessage || "—"}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={replayMutation.isPending}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      replayMutation.mutate(execution.id);
+                    }}
+                  >
+                    Replay
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
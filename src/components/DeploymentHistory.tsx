@@ -1,9 +1,11 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { api, handleApiError } from "@/lib/api";
 import { WorkflowDeployment, WorkflowDeploymentsResponse } from "@/types/api";
 import { Loader } from "@/components/Loader";
-import { MoreVertical, Edit2, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { MoreVertical, Edit2, Trash2, RotateCcw } from "lucide-react";
+import { showSuccessNotification, showErrorNotification } from "@/stores/notificationStore";
 
 interface DeploymentHistoryProps {
   workflowId: string;
@@ -11,6 +13,7 @@ interface DeploymentHistoryProps {
 }
 
 export function DeploymentHistory({ workflowId, onEdit }: DeploymentHistoryProps) {
+  const queryClient = useQueryClient();
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
 
   // Use TanStack Query to fetch deployments
@@ -26,6 +29,22 @@ export function DeploymentHistory({ workflowId, onEdit }: DeploymentHistoryProps
     },
   });
 
+  const rollbackMutation = useMutation({
+    mutationFn: async (deploymentId: string) => {
+      return await api.post<{ id: string; previousDeploymentId: string | null }>(
+        `/workflows/${workflowId}/rollback`,
+        { deploymentId }
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deployments', workflowId] });
+      showSuccessNotification("Rolled back", "The selected version is active again and its triggers were re-synced.");
+    },
+    onError: (error) => {
+      showErrorNotification("Failed to roll back", handleApiError(error));
+    },
+  });
+
   const deployments = data || [];
   const errorMessage = error ? handleApiError(error) : null;
 
@@ -54,6 +73,8 @@ export function DeploymentHistory({ workflowId, onEdit }: DeploymentHistoryProps
               isDropdownOpen={openDropdown === deployment.id}
               onDropdownToggle={(isOpen) => setOpenDropdown(isOpen ? deployment.id : null)}
               onEdit={onEdit}
+              onRollback={(deploymentId) => rollbackMutation.mutate(deploymentId)}
+              isRollingBack={rollbackMutation.isPending}
             />
           ))
         )}
@@ -68,6 +89,8 @@ interface DeploymentCardProps {
   isDropdownOpen: boolean;
   onDropdownToggle: (isOpen: boolean) => void;
   onEdit?: (deploymentId: string) => void;
+  onRollback: (deploymentId: string) => void;
+  isRollingBack: boolean;
 }
 
 function DeploymentCard({ 
@@ -75,7 +98,9 @@ function DeploymentCard({
   versionNumber, 
   isDropdownOpen,
   onDropdownToggle,
-  onEdit 
+  onEdit,
+  onRollback,
+  isRollingBack,
 }: DeploymentCardProps) {
   // Format timestamp with seconds: YYYY-MM-DD HH:MM:SS
   const deployedTimestamp = new Date(deployment.deployedAt).toLocaleString('en-US', {
@@ -89,6 +114,9 @@ function DeploymentCard({
   }).replace(',', '');
   
   const versionLabel = `version ${versionNumber}`;
+  // The list endpoint returns the database status (ACTIVE, INACTIVE, FAILED)
+  const status = deployment.status.toLowerCase();
+  const canRollback = status === 'inactive' && !isRollingBack;
 
   const handleEdit = () => {
     onDropdownToggle(false);
@@ -97,11 +125,23 @@ function DeploymentCard({
     }
   };
 
+  const handleRollback = () => {
+    onDropdownToggle(false);
+    if (window.confirm(`Roll back to ${versionLabel}? It becomes the active deployment and its triggers are re-synced.`)) {
+      onRollback(deployment.id);
+    }
+  };
+
   return (
     <div className="bg-card border border-border rounded-lg p-6 hover:shadow-md transition-shadow">
       <div className="flex items-center justify-between">
         <div className="flex-1">
-          <h3 className="font-semibold text-lg text-foreground">{versionLabel}</h3>
+          <div className="flex items-center gap-2">
+            <h3 className="font-semibold text-lg text-foreground">{versionLabel}</h3>
+            {status === 'active' && <Badge variant="secondary">Active</Badge>}
+            {status === 'failed' && <Badge variant="destructive">Failed</Badge>}
+            {deployment.environment && <Badge variant="outline">{deployment.environment}</Badge>}
+          </div>
           <p className="text-xs text-muted-foreground mt-0.5">created_at: {deployedTimestamp}</p>
         </div>
         <div className="relative">
@@ -126,6 +166,15 @@ function DeploymentCard({
                   <Edit2 className="h-4 w-4" />
                   <span>Edit</span>
                 </button>
+                {canRollback && (
+                  <button
+                    className="w-full text-left px-4 py-2 text-sm text-foreground hover:bg-muted flex items-center space-x-2"
+                    onClick={handleRollback}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    <span>Rollback</span>
+                  </button>
+                )}
                 <button
                   className="w-full text-left px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-muted flex items-center space-x-2 rounded-b-lg"
                   onClick={() => {
@@ -60,6 +60,10 @@ export function ExecutionHistory({ workflowId }: ExecutionHistoryProps) {
       received: { variant: "outline", label: "Received" },
       timeout: { variant: "destructive", label: "Timeout" },
       no_deployment: { variant: "outline", label: "No Deployment" },
+      sleeping: { variant: "secondary", label: "Sleeping" },
+      waiting: { variant: "secondary", label: "Waiting" },
+      duplicate: { variant: "outline", label: "Duplicate" },
+      cancelled: { variant: "outline", label: "Cancelled" },
     };
 
     const normalized = status.toLowerCase();
@@ -119,7 +123,12 @@ export function ExecutionHistory({ workflowId }: ExecutionHistoryProps) {
                   onClick={() => handleRowClick(execution.id)}
                   className="cursor-pointer"
                 >
-                  <TableCell>{getStatusBadge(execution.status)}</TableCell>
+                  <TableCell>
+                    {getStatusBadge(execution.status)}
+                    {execution.attempt > 1 && (
+                      <Badge variant="outline" className="ml-2">Attempt {execution.attempt}</Badge>
+                    )}
+                  </TableCell>
                   <TableCell className="font-mono text-xs">
                     {formatTimestamp(execution.receivedAt)}
                   </TableCell>
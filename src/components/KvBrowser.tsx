@@ -0,0 +1,274 @@
+import { useEffect, useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Search, Trash2 } from "lucide-react";
+import { api, handleApiError } from "@/lib/api";
+import { KvItem, KvItemListResponse } from "@/types/api";
+import { Loader } from "@/components/Loader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { showSuccessNotification, showErrorNotification } from "@/stores/notificationStore";
+
+interface KvBrowserProps {
+  providerAlias: string;
+}
+
+const PAGE_SIZE = 50;
+
+export function KvBrowser({ providerAlias }: KvBrowserProps) {
+  const queryClient = useQueryClient();
+  const [table, setTable] = useState<string | null>(null);
+  const [prefixInput, setPrefixInput] = useState("");
+  const [prefix, setPrefix] = useState("");
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const basePath = `/kv/${providerAlias}`;
+
+  const { data: tablesData, isLoading: tablesLoading, error: tablesError } = useQuery({
+    queryKey: ["kv-tables", providerAlias],
+    queryFn: async () => await api.get<{ results: string[] }>(basePath),
+  });
+
+  const tables = tablesData?.results ?? [];
+
+  // Select the first table once they are loaded
+  useEffect(() => {
+    if (!table && tablesData?.results.length) {
+      setTable(tablesData.results[0]);
+    }
+  }, [table, tablesData]);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["kv-items", providerAlias, table, prefix],
+    queryFn: async ({ pageParam }) => {
+      const params: Record<string, string | number> = { limit: PAGE_SIZE };
+      if (prefix) params.prefix = prefix;
+      if (pageParam) params.cursor = pageParam;
+
+      return await api.get<KvItemListResponse>(
+        `${basePath}/${table}`,
+        { params }
+      );
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!table,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (key: string) => {
+      return await api.delete<{ success: boolean }>(
+        `${basePath}/${table}/${key}`
+      );
+    },
+    onSuccess: (_result, key) => {
+      queryClient.invalidateQueries({ queryKey: ["kv-items", providerAlias, table] });
+      showSuccessNotification("Key deleted", `${key} was removed from ${table}.`);
+    },
+    onError: (error) => {
+      showErrorNotification("Failed to delete key", handleApiError(error));
+    },
+  });
+
+  const items: KvItem[] = data?.pages.flatMap((page) => page.results) ?? [];
+  const errorMessage = tablesError
+    ? handleApiError(tablesError)
+    : error
+      ? handleApiError(error)
+      : null;
+
+  const formatTimestamp = (timestamp: string | null | undefined) => {
+    if (!timestamp) return "—";
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: false
+    }).replace(',', '');
+  };
+
+  const formatValue = (value: unknown, expanded: boolean) => {
+    return expanded ? JSON.stringify(value, null, 2) : JSON.stringify(value);
+  };
+
+  const handleDelete = (key: string) => {
+    if (window.confirm(`Delete ${key} from ${table}?`)) {
+      deleteMutation.mutate(key);
+    }
+  };
+
+  if (tablesLoading) {
+    return (
+      <Loader isLoading={true} loadingMessage="Loading tables...">
+        <div />
+      </Loader>
+    );
+  }
+
+  if (!tablesError && tables.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="mt-2 text-sm font-medium text-foreground">No tables yet</h3>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Tables show up here once a workflow writes to this KV store.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Filters - always mounted so the selection survives refetches */}
+      <div className="flex items-center gap-4">
+        <Select value={table ?? undefined} onValueChange={setTable}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Select a table" />
+          </SelectTrigger>
+          <SelectContent>
+            {tables.map((name) => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setPrefix(prefixInput.trim());
+          }}
+        >
+          <Input
+            value={prefixInput}
+            onChange={(e) => setPrefixInput(e.target.value)}
+            placeholder="Key prefix"
+            className="w-[260px] font-mono text-xs"
+          />
+          <Button type="submit" variant="outline" size="sm">
+            <Search className="h-4 w-4 mr-2" />
+            Filter
+          </Button>
+        </form>
+      </div>
+
+      {errorMessage && (
+        <div className="bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800/50 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg">
+          {errorMessage}
+        </div>
+      )}
+
+      {isLoading && !data ? (
+        <Loader isLoading={true} loadingMessage="Loading keys...">
+          <div />
+        </Loader>
+      ) : items.length === 0 ? (
+        <div className="text-center py-12">
+          <h3 className="mt-2 text-sm font-medium text-foreground">No keys</h3>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {prefix ? `No keys in ${table} start with ${prefix}.` : `${table} is empty.`}
+          </p>
+        </div>
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Key</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Version</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Updated At</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => {
+                const expanded = expandedKey === item.key;
+                return (
+                  <TableRow
+                    key={item.key}
+                    onClick={() => setExpandedKey(expanded ? null : item.key)}
+                    className="cursor-pointer align-top"
+                  >
+                    <TableCell className="font-mono text-xs">{item.key}</TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground max-w-md">
+                      {expanded ? (
+                        <pre className="whitespace-pre-wrap break-all">{formatValue(item.value, true)}</pre>
+                      ) : (
+                        <div className="truncate">{formatValue(item.value, false)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Badge variant="outline">v{item.version}</Badge>
+                        {item.schemaVersion !== null && (
+                          <Badge variant="secondary" title="Schema version">
+                            schema v{item.schemaVersion}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {formatTimestamp(item.expiresAt)}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {formatTimestamp(item.updatedAt)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={deleteMutation.isPending}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(item.key);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          {hasNextPage && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? "Loading..." : "Load more"}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
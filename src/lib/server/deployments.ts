@@ -9,6 +9,7 @@ export interface DeploymentInfo {
   status: 'ACTIVE' | 'INACTIVE' | 'FAILED';
   deployedAt: string;
   note: string | null;
+  environment: string | null;
   userCode?: {} | undefined;
   providerDefinitions?: {} | undefined;
   triggerDefinitions?: {} | undefined;
@@ -42,6 +43,7 @@ export const getDeployment = createServerFn({ method: 'GET' })
       status: deployment.status,
       deployedAt: deployment.deployedAt.toISOString(),
       note: deployment.note,
+      environment: deployment.environment,
       userCode: deployment.userCode as {} | undefined,
       providerDefinitions: deployment.providerDefinitions as {} | undefined,
       triggerDefinitions: deployment.triggerDefinitions as {} | undefined,
@@ -81,6 +83,7 @@ export const getDeployments = createServerFn({ method: 'GET' })
         status: d.status,
         deployedAt: d.deployedAt.toISOString(),
         note: d.note,
+        environment: d.environment,
       })),
     };
   });
@@ -125,6 +128,7 @@ export const createDeployment = createServerFn({ method: 'POST' })
       status: deployment.status,
       deployedAt: deployment.deployedAt.toISOString(),
       note: deployment.note,
+      environment: deployment.environment,
     };
   });
 
@@ -186,6 +190,7 @@ export const updateDeployment = createServerFn({ method: 'POST' })
       status: updated.status,
       deployedAt: updated.deployedAt.toISOString(),
       note: updated.note,
+      environment: updated.environment,
       userCode: updated.userCode as {} | undefined,
     };
   });
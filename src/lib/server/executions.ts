@@ -10,6 +10,31 @@ export interface ExecutionInfo {
   completedAt: string | null;
   error: string | null;
   triggerPayload: {};
+  attempt: number;
+}
+
+export interface ExecutionAttempt {
+  id: string;
+  attempt: number;
+  status: string;
+  receivedAt: string;
+  error: string | null;
+}
+
+export interface ExecutionStep {
+  name: string;
+  kind: 'step' | 'sleep' | 'approval';
+  wakeAt: string | null;
+  completedAt: string | null;
+}
+
+export interface ExecutionDetails extends ExecutionInfo {
+  /** Every attempt of the retry chain this execution belongs to, oldest first */
+  attempts: ExecutionAttempt[];
+  /** Checkpoints recorded by ctx.step() and ctx.sleep(), oldest first */
+  steps: ExecutionStep[];
+  /** Execution that already handled this webhook delivery, for duplicates */
+  duplicateOfExecutionId: string | null;
 }
 
 export interface ExecutionLog {
@@ -24,9 +49,9 @@ export interface ExecutionLog {
  */
 export const getExecution = createServerFn({ method: 'GET' })
   .inputValidator((input: { executionId: string }) => input)
-  .handler(async ({ data }): Promise<ExecutionInfo> => {
+  .handler(async ({ data }): Promise<ExecutionDetails> => {
     const user = await requireUser();
-    const { getExecution: get, serializeExecution } = await import('~/server/services/execution-service');
+    const { getExecution: get, getExecutionAttempts, serializeExecution } = await import('~/server/services/execution-service');
     const { hasWorkflowAccess } = await import('~/server/services/access-service');
 
     const execution = await get(data.executionId);
@@ -39,6 +64,10 @@ export const getExecution = createServerFn({ method: 'GET' })
       throw new Error('Access denied');
     }
 
+    const attempts = await getExecutionAttempts(execution);
+    const { listExecutionSteps } = await import('~/server/services/execution-step-service');
+    const steps = await listExecutionSteps(execution.id);
+
     const serialized = serializeExecution(execution);
     return {
       id: serialized.id as string,
@@ -49,6 +78,21 @@ export const getExecution = createServerFn({ method: 'GET' })
       completedAt: (serialized.completedAt as string | null) ?? null,
       error: (serialized.errorMessage as string | null) ?? null,
       triggerPayload: {},
+      attempt: serialized.attempt as number,
+      attempts: attempts.map((attempt) => ({
+        id: attempt.id,
+        attempt: attempt.attempt,
+        status: attempt.status,
+        receivedAt: attempt.receivedAt.toISOString(),
+        error: attempt.errorMessage,
+      })),
+      steps: steps.map((step) => ({
+        name: step.name,
+        kind: step.kind,
+        wakeAt: step.wakeAt?.toISOString() ?? null,
+        completedAt: step.completedAt?.toISOString() ?? null,
+      })),
+      duplicateOfExecutionId: execution.duplicateOfExecutionId,
     };
   });
 
@@ -75,7 +119,7 @@ export const getExecutions = createServerFn({ method: 'GET' })
     const result = await listExecutions(data.workflowId, {
       limit: data.limit ?? 50,
       offset: data.offset ?? 0,
-      status: data.status as 'RECEIVED' | 'STARTED' | 'COMPLETED' | 'FAILED' | 'TIMEOUT' | 'NO_DEPLOYMENT' | undefined,
+      status: data.status as 'RECEIVED' | 'STARTED' | 'COMPLETED' | 'FAILED' | 'TIMEOUT' | 'NO_DEPLOYMENT' | 'SLEEPING' | 'WAITING' | 'DUPLICATE' | 'CANCELLED' | undefined,
     });
 
     return {
@@ -90,6 +134,7 @@ export const getExecutions = createServerFn({ method: 'GET' })
           completedAt: (serialized.completedAt as string | null) ?? null,
           error: (serialized.errorMessage as string | null) ?? null,
           triggerPayload: {},
+          attempt: serialized.attempt as number,
         };
       }),
       total: result.total,
@@ -23,6 +23,28 @@ export interface WorkflowDetail extends WorkflowListItem {
   } | null;
 }
 
+export interface N8nNodeReportItem {
+  nodeId: string | null;
+  name: string;
+  type: string;
+  status: 'converted' | 'partial' | 'unsupported' | 'skipped';
+  notes: string[];
+}
+
+export interface N8nImportResult extends WorkflowListItem {
+  deploymentId: string | null;
+  report: {
+    nodes: N8nNodeReportItem[];
+    summary: {
+      total: number;
+      converted: number;
+      partial: number;
+      unsupported: number;
+      skipped: number;
+    };
+  };
+}
+
 export interface FolderInfo {
   id: string;
   name: string;
@@ -236,7 +258,7 @@ export const importN8nWorkflow = createServerFn({ method: 'POST' })
     n8nJson: unknown;
     name?: string;
   }) => input)
-  .handler(async ({ data }): Promise<WorkflowListItem> => {
+  .handler(async ({ data }): Promise<N8nImportResult> => {
     const user = await requireUser();
     const { importFromN8n } = await import('~/server/services/workflow-service');
     const { checkWorkflowLimit } = await import('~/server/services/billing-service');
@@ -247,7 +269,7 @@ export const importN8nWorkflow = createServerFn({ method: 'POST' })
       throw new Error(limitCheck.message);
     }
 
-    const workflow = await importFromN8n({
+    const { workflow, deployment, report } = await importFromN8n({
       namespaceId: data.namespaceId,
       n8nWorkflow: data.n8nJson as Record<string, unknown>,
       name: data.name,
@@ -263,6 +285,8 @@ export const importN8nWorkflow = createServerFn({ method: 'POST' })
       parentFolderId: workflow.parentFolderId,
       createdAt: workflow.createdAt.toISOString(),
       updatedAt: workflow.updatedAt.toISOString(),
+      deploymentId: deployment?.id ?? null,
+      report,
     };
   });
 
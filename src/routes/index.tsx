@@ -2,6 +2,7 @@ import { createFileRoute } from "@tanstack/react-router";
 import { useQuery } from "@tanstack/react-query";
 import { BaseCard } from "@/components/BaseCard";
 import { ExecutionChart } from "@/components/ExecutionChart";
+import { ApprovalInbox } from "@/components/ApprovalInbox";
 import { useNamespaceStore } from "@/stores/namespaceStore";
 import { getSummary } from "@/lib/server/summary";
 
@@ -64,6 +65,9 @@ function HomePage() {
         <h1 className="text-3xl font-bold text-foreground">Overview</h1>
       </div>
 
+      {/* Executions waiting for a human decision */}
+      {currentNamespace && <ApprovalInbox namespaceId={currentNamespace.id} />}
+
       {/* Chart Section */}
       {currentNamespace && (
         <div className="mb-12">
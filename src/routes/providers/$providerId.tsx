@@ -15,6 +15,7 @@ import { PolicyTester } from "@/components/PolicyTester";
 import { ProviderAccessContent } from "@/components/ProviderAccessManagement";
 import { ProviderConfigModal } from "@/components/ProviderConfigModal";
 import { DeleteProviderDialog } from "@/components/DeleteProviderDialog";
+import { KvBrowser } from "@/components/KvBrowser";
 import {
   showSuccessNotification,
   showErrorNotification,
@@ -26,10 +27,11 @@ import {
   Users,
   Shield,
   AlertTriangle,
+  Database,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
-type TabType = "policy" | "configuration" | "access" | "danger";
+type TabType = "policy" | "configuration" | "access" | "data" | "danger";
 
 export const Route = createFileRoute("/providers/$providerId")({
   component: ProviderDetailPage,
@@ -118,6 +120,7 @@ function ProviderDetailPage() {
   });
 
   const logoUrl = provider ? getProviderLogoUrl(provider.type) : null;
+  const isKvStore = provider?.type === "kv" || provider?.type === "kvstore";
   const providerName = provider?.alias || provider?.type || "Provider";
 
   if (providerError) {
@@ -225,6 +228,26 @@ function ProviderDetailPage() {
                     </div>
                   </Link>
                 )}
+                {isKvStore && (
+                  <Link
+                    {...({
+                      to: "/providers/$providerId",
+                      params: { providerId },
+                      search: { tab: "data" },
+                      className: `py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                        activeTab === "data"
+                          ? "border-primary text-primary"
+                          : "border-transparent text-muted-foreground hover:text-foreground hover:border-border"
+                      }`,
+                    } as any)}
+                    onClick={() => setActiveTab("data")}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <Database className="h-4 w-4" />
+                      <span>Data</span>
+                    </div>
+                  </Link>
+                )}
                 <Link
                   {...({
                     to: "/providers/$providerId",
@@ -289,6 +312,8 @@ function ProviderDetailPage() {
                   providerId={providerId}
                   organizationId={currentNamespace.organization.id}
                 />
+              ) : activeTab === "data" && isKvStore && provider.alias ? (
+                <KvBrowser providerAlias={provider.alias} />
               ) : activeTab === "danger" ? (
                 <div className="border border-red-200 dark:border-red-800/50 rounded-lg p-6">
                   <div className="flex items-start gap-4">
@@ -1,19 +1,20 @@
 import { createFileRoute, Link, Outlet, useRouterState } from "@tanstack/react-router";
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { ArrowLeft, Code, Package, Activity, Settings, FileText, PlayCircle } from "lucide-react";
+import { ArrowLeft, Code, Package, Activity, Settings, FileText, PlayCircle, Inbox } from "lucide-react";
 import { handleApiError } from "@/lib/api";
 import { getWorkflow } from "@/lib/server/workflows";
 import { Loader } from "@/components/Loader";
 import { DeploymentEditor } from "@/components/DeploymentEditor";
 import { DeploymentHistory } from "@/components/DeploymentHistory";
 import { ExecutionHistory } from "@/components/ExecutionHistory";
+import { DeadLetterQueue } from "@/components/DeadLetterQueue";
 import { WorkflowConfiguration } from "@/components/WorkflowConfiguration";
 import { WorkflowLogs } from "@/components/WorkflowLogs";
 import { ManualTriggersSection } from "@/components/ManualTriggersSection";
 import { useNamespaceStore } from "@/stores/namespaceStore";
 
-type TabType = "edit" | "deployments" | "executions" | "logs" | "config" | "triggers";
+type TabType = "edit" | "deployments" | "executions" | "dead-letters" | "logs" | "config" | "triggers";
 
 export const Route = createFileRoute("/workflows/$workflowId/deployments")({
   component: DeploymentsPage,
@@ -146,6 +147,24 @@ function DeploymentsPage() {
               <span>Executions</span>
             </div>
           </Link>
+          <Link
+            {...({
+              to: "/workflows/$workflowId/deployments",
+              params: { workflowId },
+              search: { tab: "dead-letters" },
+              className: `py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === "dead-letters"
+                  ? "border-primary text-primary"
+                  : "border-transparent text-muted-foreground hover:text-foreground hover:border-border"
+              }`
+            } as any)}
+            onClick={() => setActiveTab("dead-letters")}
+          >
+            <div className="flex items-center space-x-2">
+              <Inbox className="h-4 w-4" />
+              <span>Dead Letters</span>
+            </div>
+          </Link>
           <Link
             {...({
               to: "/workflows/$workflowId/deployments",
@@ -220,6 +239,10 @@ function DeploymentsPage() {
           <ExecutionHistory
             workflowId={workflowId}
           />
+        ) : activeTab === "dead-letters" ? (
+          <DeadLetterQueue
+            workflowId={workflowId}
+          />
         ) : activeTab === "logs" ? (
           <WorkflowLogs
             workflowId={workflowId}
@@ -41,6 +41,9 @@ function ExecutionDetailPage() {
       ? new Date(executionData.completedAt).getTime() - new Date(executionData.startedAt).getTime()
       : null,
     errorMessage: executionData.error,
+    attempt: executionData.attempt,
+    originalExecutionId: null,
+    duplicateOfExecutionId: executionData.duplicateOfExecutionId,
     logEntries: logsData?.results.map(log => ({
       id: log.id,
       timestamp: log.timestamp,
@@ -84,6 +87,10 @@ function ExecutionDetailPage() {
       received: { variant: "outline", label: "Received" },
       timeout: { variant: "destructive", label: "Timeout" },
       no_deployment: { variant: "outline", label: "No Deployment" },
+      sleeping: { variant: "secondary", label: "Sleeping" },
+      waiting: { variant: "secondary", label: "Waiting" },
+      duplicate: { variant: "outline", label: "Duplicate" },
+      cancelled: { variant: "outline", label: "Cancelled" },
     };
 
     const config = statusConfig[status] || { variant: "outline" as const, label: status };
@@ -136,6 +143,76 @@ function ExecutionDetailPage() {
               <p className="font-mono text-sm text-foreground">{execution.id}</p>
             </div>
 
+            {/* Duplicate Delivery */}
+            {executionData?.duplicateOfExecutionId && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Duplicate Of</h3>
+                <Link
+                  to="/workflows/$workflowId/executions/$executionId"
+                  params={{ workflowId, executionId: executionData.duplicateOfExecutionId }}
+                  className="font-mono text-sm text-foreground hover:underline"
+                >
+                  {executionData.duplicateOfExecutionId}
+                </Link>
+                <p className="text-sm text-muted-foreground mt-1">
+                  The same webhook delivery was received again and was not run.
+                </p>
+              </div>
+            )}
+
+            {/* Retry Chain */}
+            {executionData && executionData.attempts.length > 1 && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Retry Chain</h3>
+                <div className="border border-border rounded-lg divide-y divide-border">
+                  {executionData.attempts.map((attempt) => (
+                    <Link
+                      key={attempt.id}
+                      to="/workflows/$workflowId/executions/$executionId"
+                      params={{ workflowId, executionId: attempt.id }}
+                      className={`px-4 py-2 flex items-center gap-3 hover:bg-muted/50 transition-colors ${
+                        attempt.id === execution.id ? "bg-muted" : ""
+                      }`}
+                    >
+                      <span className="text-sm font-medium text-foreground whitespace-nowrap">
+                        Attempt {attempt.attempt}
+                      </span>
+                      {getStatusBadge(attempt.status)}
+                      <span className="font-mono text-xs text-muted-foreground whitespace-nowrap">
+                        {formatTimestamp(attempt.receivedAt)}
+                      </span>
+                      {attempt.error && (
+                        <span className="text-sm text-muted-foreground truncate">{attempt.error}</span>
+                      )}
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Steps */}
+            {executionData && executionData.steps.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Steps</h3>
+                <div className="border border-border rounded-lg divide-y divide-border">
+                  {executionData.steps.map((step) => (
+                    <div key={step.name} className="px-4 py-2 flex items-center gap-3">
+                      <span className="font-mono text-sm text-foreground truncate">{step.name}</span>
+                      {step.kind === "sleep" && <Badge variant="outline">Sleep</Badge>}
+                      {step.kind === "approval" && <Badge variant="outline">Approval</Badge>}
+                      <span className="ml-auto font-mono text-xs text-muted-foreground whitespace-nowrap">
+                        {step.completedAt
+                          ? formatTimestamp(step.completedAt)
+                          : step.wakeAt
+                            ? `Until ${formatTimestamp(step.wakeAt)}`
+                            : "Waiting"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Timestamps */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div>
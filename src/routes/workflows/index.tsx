@@ -196,9 +196,16 @@ function WorkflowsPage() {
         },
       });
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['workflows'] });
-      showSuccessNotification("Workflow imported", "The workflow was imported successfully.");
+      const { converted, partial, unsupported, total } = result.report.summary;
+      const needsReview = partial + unsupported;
+      showSuccessNotification(
+        "Workflow imported",
+        needsReview > 0
+          ? `Converted ${converted} of ${total} nodes. ${needsReview} need review; look for TODO comments in main.ts.`
+          : `Converted ${converted} of ${total} nodes.`
+      );
     },
     onError: (error) => {
       showErrorNotification("Import failed", handleApiError(error));
@@ -60,9 +60,12 @@ export type {
   ExecutionLogEntry,
   ExecutionHistory,
   ExecutionHistoryResponse,
+  ReplayTarget,
   WorkflowLogsResponse,
   ExecutionDaySummary,
   SummaryResponse,
+  PendingApproval,
+  PendingApprovalsResponse,
 } from '@floww/api-contract';
 
 // Service Account types
@@ -92,6 +95,9 @@ export type {
   EvaluatePolicyInput,
 } from '@floww/api-contract';
 
+// KV Store types
+export type { KvItem, KvItemListResponse } from '@floww/api-contract';
+
 // Error types
 export type { ApiErrorResponse } from '@floww/api-contract';
 
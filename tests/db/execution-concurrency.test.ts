@@ -0,0 +1,266 @@
+/**
+ * Execution Concurrency Database Tests
+ *
+ * Slot accounting against the test database: claiming slots, releasing them
+ * to the oldest queued execution, timing out executions that never reported
+ * back, and not holding slots for executions that fail before they run.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { getTestDb } from '../setup/global-setup';
+import { executionHistory, runtimes } from '~/server/db/schema';
+import { encryptSecret } from '~/server/utils/encryption';
+import {
+  createFullTestSetup,
+  createTestProvider,
+  createTestTrigger,
+  createTestExecution,
+} from '../helpers/factories';
+
+vi.mock('~/server/jobs/worker', () => ({
+  addJob: vi.fn(),
+}));
+
+vi.mock('~/server/packages/runtimes', () => ({
+  getRuntime: vi.fn(() => ({ invokeTrigger: vi.fn() })),
+}));
+
+vi.mock('~/server/services/workflow-auth-service', () => ({
+  generateInvocationToken: vi.fn(),
+}));
+
+import { addJob } from '~/server/jobs/worker';
+import { generateInvocationToken } from '~/server/services/workflow-auth-service';
+import { executeTrigger } from '~/server/services/trigger-execution-service';
+import {
+  acquireConcurrencySlot,
+  releaseConcurrencySlot,
+  timeoutStaleExecutions,
+  STALE_EXECUTION_TIMEOUT_MS,
+} from '~/server/services/execution-concurrency-service';
+
+const policy = { limit: 1, key: '{{body.repo}}' };
+
+async function setup() {
+  const { workflow, namespace, runtime } = await createFullTestSetup();
+  const provider = await createTestProvider(namespace.id, { encryptedConfig: encryptSecret('{}') });
+  const trigger = await createTestTrigger(workflow.id, provider.id, { options: { concurrency: policy } });
+  return { workflow, runtime, trigger };
+}
+
+async function getStatus(executionId: string) {
+  const [execution] = await getTestDb()
+    .select()
+    .from(executionHistory)
+    .where(eq(executionHistory.id, executionId));
+  return execution;
+}
+
+function minutesAgo(minutes: number): Date {
+  return new Date(Date.now() - minutes * 60_000);
+}
+
+describe('Execution Concurrency', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(generateInvocationToken).mockResolvedValue('invocation-token');
+  });
+
+  describe('acquireConcurrencySlot', () => {
+    it('should start executions while the key has room and queue the rest', async () => {
+      const { workflow, trigger } = await setup();
+      const first = await createTestExecution(workflow.id, { triggerId: trigger.id, receivedAt: minutesAgo(2) });
+      const second = await createTestExecution(workflow.id, { triggerId: trigger.id, receivedAt: minutesAgo(1) });
+      const otherKey = await createTestExecution(workflow.id, { triggerId: trigger.id });
+
+      const request = (executionId: string, repo: string) => ({
+        executionId,
+        workflowId: workflow.id,
+        triggerId: trigger.id,
+        triggerPolicy: policy,
+        eventData: { body: { repo } },
+      });
+
+      expect(await acquireConcurrencySlot(request(first.id, 'acme/api'))).toBe(true);
+      expect(await acquireConcurrencySlot(request(second.id, 'acme/api'))).toBe(false);
+      expect(await acquireConcurrencySlot(request(otherKey.id, 'acme/web'))).toBe(true);
+
+      expect(await getStatus(first.id)).toMatchObject({ status: 'STARTED', concurrencyKey: 'acme/api' });
+      expect(await getStatus(second.id)).toMatchObject({ status: 'RECEIVED', concurrencyKey: 'acme/api' });
+      expect(await getStatus(otherKey.id)).toMatchObject({ status: 'STARTED', concurrencyKey: 'acme/web' });
+    });
+
+    it('should not let a newer execution overtake an older queued one', async () => {
+      const { workflow, trigger } = await setup();
+      await createTestExecution(workflow.id, {
+        triggerId: trigger.id,
+        status: 'RECEIVED',
+        concurrencyKey: 'acme/api',
+        receivedAt: minutesAgo(5),
+      });
+      const newer = await createTestExecution(workflow.id, { triggerId: trigger.id });
+
+      const acquired = await acquireConcurrencySlot({
+        executionId: newer.id,
+        workflowId: workflow.id,
+        triggerId: trigger.id,
+        triggerPolicy: { limit: 2, key: '{{body.repo}}' },
+        eventData: { body: { repo: 'acme/api' } },
+      });
+
+      expect(acquired).toBe(false);
+    });
+  });
+
+  describe('releaseConcurrencySlot', () => {
+    it('should queue the oldest execution waiting on the same key', async () => {
+      const { workflow, trigger } = await setup();
+      const finished = await createTestExecution(workflow.id, {
+        triggerId: trigger.id,
+        status: 'COMPLETED',
+        concurrencyKey: 'acme/api',
+        receivedAt: minutesAgo(10),
+      });
+      const oldest = await createTestExecution(workflow.id, {
+        triggerId: trigger.id,
+        concurrencyKey: 'acme/api',
+        receivedAt: minutesAgo(5),
+      });
+      await createTestExecution(workflow.id, {
+        triggerId: trigger.id,
+        concurrencyKey: 'acme/api',
+        receivedAt: minutesAgo(1),
+      });
+      await createTestExecution(workflow.id, {
+        triggerId: trigger.id,
+        concurrencyKey: 'acme/web',
+        receivedAt: minutesAgo(8),
+      });
+
+      await releaseConcurrencySlot(finished.id);
+
+      expect(addJob).toHaveBeenCalledTimes(1);
+      expect(addJob).toHaveBeenCalledWith(
+        'runQueuedExecution',
+        { executionId: oldest.id },
+        expect.objectContaining({ jobKey: `concurrency:${oldest.id}` })
+      );
+    });
+
+    it('should do nothing for executions without a concurrency limit', async () => {
+      const { workflow, trigger } = await setup();
+      const finished = await createTestExecution(workflow.id, { triggerId: trigger.id, status: 'COMPLETED' });
+      await createTestExecution(workflow.id, { triggerId: trigger.id });
+
+      await releaseConcurrencySlot(finished.id);
+
+      expect(addJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('timeoutStaleExecutions', () => {
+    it('should time out overdue executions and run the next queued one', async () => {
+      const { workflow, trigger } = await setup();
+      const stale = await createTestExecution(workflow.id, {
+        triggerId: trigger.id,
+        status: 'STARTED',
+        concurrencyKey: 'acme/api',
+        receivedAt: minutesAgo(61),
+        startedAt: minutesAgo(60),
+      });
+      const queued = await createTestExecution(workflow.id, {
+        triggerId: trigger.id,
+        concurrencyKey: 'acme/api',
+        receivedAt: minutesAgo(59),
+      });
+
+      expect(await timeoutStaleExecutions()).toBe(1);
+
+      const timedOut = await getStatus(stale.id);
+      expect(timedOut.status).toBe('TIMEOUT');
+      expect(timedOut.completedAt).not.toBeNull();
+      expect(timedOut.errorMessage).toContain('did not finish');
+      expect(addJob).toHaveBeenCalledWith(
+        'runQueuedExecution',
+        { executionId: queued.id },
+        expect.anything()
+      );
+    });
+
+    it('should time out executions that claimed a slot but were never invoked', async () => {
+      const { workflow, trigger } = await setup();
+      const stale = await createTestExecution(workflow.id, {
+        triggerId: trigger.id,
+        status: 'STARTED',
+        concurrencyKey: 'acme/api',
+        receivedAt: new Date(Date.now() - STALE_EXECUTION_TIMEOUT_MS - 60_000),
+      });
+
+      expect(await timeoutStaleExecutions()).toBe(1);
+      expect((await getStatus(stale.id)).status).toBe('TIMEOUT');
+    });
+
+    it('should leave running and finished executions alone', async () => {
+      const { workflow, trigger } = await setup();
+      const running = await createTestExecution(workflow.id, {
+        triggerId: trigger.id,
+        status: 'STARTED',
+        receivedAt: minutesAgo(120),
+        startedAt: minutesAgo(1),
+      });
+      const completed = await createTestExecution(workflow.id, {
+        triggerId: trigger.id,
+        status: 'COMPLETED',
+        startedAt: minutesAgo(120),
+      });
+      const sleeping = await createTestExecution(workflow.id, {
+        triggerId: trigger.id,
+        status: 'SLEEPING',
+        startedAt: minutesAgo(120),
+      });
+
+      expect(await timeoutStaleExecutions()).toBe(0);
+      expect((await getStatus(running.id)).status).toBe('STARTED');
+      expect((await getStatus(completed.id)).status).toBe('COMPLETED');
+      expect((await getStatus(sleeping.id)).status).toBe('SLEEPING');
+      expect(addJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('executeTrigger', () => {
+    const eventData = { body: { repo: 'acme/api' } };
+
+    it('should fail executions whose runtime has no image without claiming a slot', async () => {
+      const { workflow, runtime, trigger } = await setup();
+      await getTestDb().update(runtimes).set({ config: {} }).where(eq(runtimes.id, runtime.id));
+      const execution = await createTestExecution(workflow.id, { triggerId: trigger.id });
+
+      const result = await executeTrigger(trigger.id, eventData, execution.id);
+
+      expect(result).toMatchObject({ status: 'error', error: 'Runtime config missing image configuration' });
+      expect(await getStatus(execution.id)).toMatchObject({ status: 'FAILED', concurrencyKey: null });
+    });
+
+    it('should fail the execution and release its slot when it breaks before invoking', async () => {
+      const { workflow, trigger } = await setup();
+      const execution = await createTestExecution(workflow.id, { triggerId: trigger.id, receivedAt: minutesAgo(2) });
+      const queued = await createTestExecution(workflow.id, {
+        triggerId: trigger.id,
+        concurrencyKey: 'acme/api',
+        receivedAt: minutesAgo(1),
+      });
+      vi.mocked(generateInvocationToken).mockRejectedValueOnce(new Error('Signing key missing'));
+
+      const result = await executeTrigger(trigger.id, eventData, execution.id);
+
+      expect(result).toMatchObject({ status: 'error', error: 'Signing key missing' });
+      expect(await getStatus(execution.id)).toMatchObject({ status: 'FAILED', concurrencyKey: 'acme/api' });
+      expect(addJob).toHaveBeenCalledWith(
+        'runQueuedExecution',
+        { executionId: queued.id },
+        expect.anything()
+      );
+    });
+  });
+});
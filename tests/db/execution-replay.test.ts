@@ -0,0 +1,201 @@
+/**
+ * Execution Replay Database Tests
+ *
+ * Replays of failed executions against the test database: the replay is a new
+ * execution with the source's trigger payload and completed steps, run on the
+ * active or the original deployment.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getTestDb } from '../setup/global-setup';
+import { executionSteps } from '~/server/db/schema';
+import {
+  createFullTestSetup,
+  createTestProvider,
+  createTestTrigger,
+  createTestExecution,
+} from '../helpers/factories';
+
+vi.mock('~/server/jobs/worker', () => ({
+  addJob: vi.fn(),
+}));
+
+vi.mock('~/server/services/trigger-execution-service', () => ({
+  executeTrigger: vi.fn(),
+}));
+
+import { addJob } from '~/server/jobs/worker';
+import { executeTrigger } from '~/server/services/trigger-execution-service';
+import { getExecution, getExecutionTriggerPayload } from '~/server/services/execution-service';
+import { copyExecutionSteps, listExecutionSteps } from '~/server/services/execution-step-service';
+import { replayExecution, replayExecutions } from '~/server/services/execution-replay-service';
+
+const payload = { body: { issue: 'PROJ-1' }, headers: {} };
+
+async function setup() {
+  const { workflow, namespace, deployment } = await createFullTestSetup();
+  const provider = await createTestProvider(namespace.id);
+  const trigger = await createTestTrigger(workflow.id, provider.id);
+  return { workflow, deployment, trigger };
+}
+
+async function createFailedExecution(
+  workflowId: string,
+  triggerId: string,
+  deploymentId: string | null,
+  receivedAt = new Date()
+) {
+  return createTestExecution(workflowId, {
+    triggerId,
+    deploymentId,
+    status: 'FAILED',
+    triggerPayload: payload,
+    receivedAt,
+  });
+}
+
+async function addSteps(executionId: string) {
+  const completedAt = new Date();
+  await getTestDb()
+    .insert(executionSteps)
+    .values([
+      { executionHistoryId: executionId, name: 'fetch-issue', kind: 'step', result: { key: 'PROJ-1' }, completedAt },
+      { executionHistoryId: executionId, name: 'pause', kind: 'sleep', wakeAt: completedAt, completedAt },
+      { executionHistoryId: executionId, name: 'notify', kind: 'step', result: null },
+    ]);
+}
+
+describe('Execution Replay', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(executeTrigger).mockResolvedValue({ status: 'completed' });
+  });
+
+  describe('replayExecution', () => {
+    it('should run a new execution with the source payload on the active deployment', async () => {
+      const { workflow, deployment, trigger } = await setup();
+      const source = await createFailedExecution(workflow.id, trigger.id, deployment.id);
+
+      const { execution } = await replayExecution(source.id);
+
+      expect(execution.id).not.toBe(source.id);
+      expect(await getExecution(execution.id)).toMatchObject({
+        workflowId: workflow.id,
+        triggerId: trigger.id,
+        replayOfExecutionId: source.id,
+      });
+      expect(await getExecutionTriggerPayload(execution.id)).toEqual(payload);
+      expect(executeTrigger).toHaveBeenCalledWith(trigger.id, payload, execution.id, { deploymentId: undefined });
+    });
+
+    it('should pin the replay to the deployment that ran the source', async () => {
+      const { workflow, deployment, trigger } = await setup();
+      const source = await createFailedExecution(workflow.id, trigger.id, deployment.id);
+
+      const { execution } = await replayExecution(source.id, { target: 'original' });
+
+      expect(executeTrigger).toHaveBeenCalledWith(trigger.id, payload, execution.id, {
+        deploymentId: deployment.id,
+      });
+    });
+
+    it('should carry over completed steps only', async () => {
+      const { workflow, deployment, trigger } = await setup();
+      const source = await createFailedExecution(workflow.id, trigger.id, deployment.id);
+      await addSteps(source.id);
+
+      const { execution } = await replayExecution(source.id);
+
+      const steps = await listExecutionSteps(execution.id);
+      expect(steps.map((step) => [step.name, step.kind, step.result])).toEqual(
+        expect.arrayContaining([
+          ['fetch-issue', 'step', { key: 'PROJ-1' }],
+          ['pause', 'sleep', null],
+        ])
+      );
+      expect(steps).toHaveLength(2);
+    });
+
+    it('should refuse the original deployment when the source never ran on one', async () => {
+      const { workflow, trigger } = await setup();
+      const source = await createFailedExecution(workflow.id, trigger.id, null);
+
+      await expect(replayExecution(source.id, { target: 'original' })).rejects.toThrow(
+        'has no original deployment to replay on'
+      );
+      expect(executeTrigger).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replayExecutions', () => {
+    it('should queue a replay per dead-lettered execution and skip what cannot replay', async () => {
+      const { workflow, deployment, trigger } = await setup();
+      const replayable = await createFailedExecution(workflow.id, trigger.id, deployment.id);
+      const neverDeployed = await createFailedExecution(workflow.id, trigger.id, null);
+      await addSteps(replayable.id);
+
+      const { executions, skipped } = await replayExecutions(workflow.id, {}, { target: 'original' });
+
+      expect(executions).toHaveLength(1);
+      const [replay] = executions;
+      expect(replay.replayOfExecutionId).toBe(replayable.id);
+      expect(await getExecutionTriggerPayload(replay.id)).toEqual(payload);
+      expect((await listExecutionSteps(replay.id)).map((step) => step.name).sort()).toEqual([
+        'fetch-issue',
+        'pause',
+      ]);
+      expect(skipped).toEqual([
+        { executionId: neverDeployed.id, reason: expect.stringContaining('no original deployment') },
+      ]);
+
+      expect(addJob).toHaveBeenCalledTimes(1);
+      expect(addJob).toHaveBeenCalledWith(
+        'replayExecution',
+        { executionId: replay.id, deploymentId: deployment.id },
+        expect.objectContaining({ jobKey: `replay:${replay.id}` })
+      );
+      expect(executeTrigger).not.toHaveBeenCalled();
+    });
+
+    it('should not queue executions that were already replayed', async () => {
+      const { workflow, deployment, trigger } = await setup();
+      const source = await createFailedExecution(workflow.id, trigger.id, deployment.id);
+
+      const first = await replayExecutions(workflow.id, {});
+      const second = await replayExecutions(workflow.id, {});
+
+      expect(first.executions).toHaveLength(1);
+      expect(first.executions[0].replayOfExecutionId).toBe(source.id);
+      expect(second.executions).toHaveLength(0);
+      expect(addJob).toHaveBeenCalledWith(
+        'replayExecution',
+        { executionId: first.executions[0].id, deploymentId: null },
+        expect.anything()
+      );
+    });
+  });
+
+  describe('copyExecutionSteps', () => {
+    it('should keep steps the target already recorded', async () => {
+      const { workflow, deployment, trigger } = await setup();
+      const source = await createFailedExecution(workflow.id, trigger.id, deployment.id);
+      const target = await createTestExecution(workflow.id, { triggerId: trigger.id });
+      await addSteps(source.id);
+      await getTestDb()
+        .insert(executionSteps)
+        .values({
+          executionHistoryId: target.id,
+          name: 'fetch-issue',
+          kind: 'step',
+          result: { key: 'PROJ-2' },
+          completedAt: new Date(),
+        });
+
+      await copyExecutionSteps(source.id, target.id);
+
+      const steps = await listExecutionSteps(target.id);
+      expect(steps.find((step) => step.name === 'fetch-issue')?.result).toEqual({ key: 'PROJ-2' });
+      expect(steps.map((step) => step.name).sort()).toEqual(['fetch-issue', 'pause']);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * KV Change Writer Database Tests
+ *
+ * A write through the /kv routes doesn't run onChange triggers of the workflow
+ * making it. That workflow is taken from its verified invocation token, never
+ * from what the client claims. Write-backs of migrated values run none.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createFullTestSetup,
+  createTestNamespace,
+  createTestProvider,
+  createTestTrigger,
+  createTestWorkflow,
+} from '../helpers/factories';
+
+vi.mock('~/server/services/auth', () => ({
+  authenticateRequest: vi.fn(),
+}));
+
+vi.mock('~/server/jobs/worker', () => ({
+  addJob: vi.fn(),
+}));
+
+import { authenticateRequest } from '~/server/services/auth';
+import { addJob } from '~/server/jobs/worker';
+import { generateInvocationToken } from '~/server/services/workflow-auth-service';
+import { KV_CHANGE_TRIGGER_TYPE } from '~/server/services/kv-change-service';
+import { callRoute, createTestUser } from '../helpers/route-helpers';
+import '~/server/api/routes/kv-store';
+
+async function setup() {
+  const { user, organization, namespace, workflow } = await createFullTestSetup();
+  const provider = await createTestProvider(namespace.id, { type: 'kvstore', alias: 'state' });
+  await createTestTrigger(workflow.id, provider.id, {
+    triggerType: KV_CHANGE_TRIGGER_TYPE,
+    input: { table: 'projects', operations: ['set', 'delete'] },
+  });
+  vi.mocked(authenticateRequest).mockResolvedValue(createTestUser({ id: user.id }));
+  return { user, organization, namespace, workflow };
+}
+
+function setValue(headers: Record<string, string>) {
+  return callRoute('PUT', '/kv/state/projects/PROJ', { body: { value: 'synced' }, headers });
+}
+
+describe('KV Change Writer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should not run the writing workflow's own triggers", async () => {
+    const { workflow, namespace } = await setup();
+    const token = await generateInvocationToken(workflow.id, namespace.id);
+
+    const response = await setValue({ Authorization: `Bearer ${token}` });
+
+    expect(response.status).toBe(200);
+    expect(addJob).not.toHaveBeenCalled();
+  });
+
+  it('should ignore a workflow ID claimed in a header', async () => {
+    const { workflow } = await setup();
+
+    const response = await setValue({ 'X-Floww-Workflow-Id': workflow.id });
+
+    expect(response.status).toBe(200);
+    expect(addJob).toHaveBeenCalledWith(
+      'executeKvChangeTriggers',
+      expect.objectContaining({ deliveries: [expect.anything()] }),
+      expect.anything()
+    );
+  });
+
+  it("should not trust invocation tokens of workflows outside the provider's namespace", async () => {
+    const { user, organization } = await setup();
+    const otherNamespace = await createTestNamespace({ organizationId: organization.id });
+    const otherWorkflow = await createTestWorkflow(otherNamespace.id, user.id);
+    const token = await generateInvocationToken(otherWorkflow.id, otherNamespace.id);
+
+    const response = await setValue({ Authorization: `Bearer ${token}` });
+
+    expect(response.status).toBe(200);
+    expect(addJob).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not run triggers for the write-back of a migrated value', async () => {
+    await setup();
+    expect((await setValue({})).status).toBe(200);
+    vi.mocked(addJob).mockClear();
+
+    const response = await callRoute('PUT', '/kv/state/projects/PROJ', {
+      body: { value: 'synced', ifVersion: 1, schemaVersion: 2, migration: true },
+    });
+
+    expect(response.status).toBe(200);
+    expect(addJob).not.toHaveBeenCalled();
+  });
+});
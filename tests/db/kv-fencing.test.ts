@@ -0,0 +1,177 @@
+/**
+ * KV Lock Fencing Database Tests
+ *
+ * Writes through the /kv routes with a lease's fencing token, against the test
+ * database: a token stops working once its lock is acquired again, whatever
+ * happened to the key, and locks don't fence each other.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createFullTestSetup, createTestProvider } from '../helpers/factories';
+
+vi.mock('~/server/services/auth', () => ({
+  authenticateRequest: vi.fn(),
+}));
+
+import { authenticateRequest } from '~/server/services/auth';
+import { acquireLock, releaseLock } from '~/server/services/kv-lock-service';
+import { callRoute, createTestUser } from '../helpers/route-helpers';
+import '~/server/api/routes/kv-store';
+
+async function setup() {
+  const { user, namespace } = await createFullTestSetup();
+  const provider = await createTestProvider(namespace.id, { type: 'kvstore', alias: 'state' });
+  vi.mocked(authenticateRequest).mockResolvedValue(createTestUser({ id: user.id }));
+  return provider;
+}
+
+async function acquire(providerId: string, name: string) {
+  const result = await acquireLock(providerId, name, 60_000);
+  if (!result.acquired) {
+    throw new Error(`Lock ${name} is held`);
+  }
+  return result;
+}
+
+function setValue(value: unknown, fencingToken: number) {
+  return callRoute('PUT', '/kv/state/projects/PROJ', { body: { value, fencingToken } });
+}
+
+// A lease whose lock was acquired again since
+async function acquireStale(providerId: string) {
+  const stale = await acquire(providerId, 'sync:PROJ');
+  await releaseLock(providerId, 'sync:PROJ', stale.leaseId);
+  const current = await acquire(providerId, 'sync:PROJ');
+  return { stale, current };
+}
+
+async function getValue() {
+  const response = await callRoute('GET', '/kv/state/projects/PROJ');
+  return response.status === 200 ? (await response.json()).value : undefined;
+}
+
+describe('KV Lock Fencing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should hand out increasing tokens across lock names', async () => {
+    const provider = await setup();
+
+    const first = await acquire(provider.id, 'sync:A');
+    const second = await acquire(provider.id, 'sync:B');
+    await releaseLock(provider.id, 'sync:A', first.leaseId);
+    const third = await acquire(provider.id, 'sync:A');
+
+    expect(second.fencingToken).toBeGreaterThan(first.fencingToken);
+    expect(third.fencingToken).toBeGreaterThan(second.fencingToken);
+  });
+
+  it('should reject writes of a lease once the lock was acquired again', async () => {
+    const provider = await setup();
+    const stale = await acquire(provider.id, 'sync:PROJ');
+    await releaseLock(provider.id, 'sync:PROJ', stale.leaseId);
+    const current = await acquire(provider.id, 'sync:PROJ');
+
+    const rejected = await setValue('stale', stale.fencingToken);
+    expect(rejected.status).toBe(409);
+    expect(await rejected.json()).toMatchObject({ error: 'Stale fencing token' });
+
+    expect((await setValue('current', current.fencingToken)).status).toBe(200);
+  });
+
+  it('should keep rejecting a stale lease after the key was deleted', async () => {
+    const provider = await setup();
+    const stale = await acquire(provider.id, 'sync:PROJ');
+    expect((await setValue('first', stale.fencingToken)).status).toBe(200);
+    await releaseLock(provider.id, 'sync:PROJ', stale.leaseId);
+    await acquire(provider.id, 'sync:PROJ');
+
+    expect((await callRoute('DELETE', '/kv/state/projects/PROJ')).status).toBe(200);
+
+    expect((await setValue('stale', stale.fencingToken)).status).toBe(409);
+  });
+
+  it('should not fence writes of one lock by another lock', async () => {
+    const provider = await setup();
+    const older = await acquire(provider.id, 'sync:A');
+    const newer = await acquire(provider.id, 'sync:B');
+
+    expect((await setValue('from B', newer.fencingToken)).status).toBe(200);
+    expect((await setValue('from A', older.fencingToken)).status).toBe(200);
+  });
+
+  describe('other writes', () => {
+    it('should fence set-many', async () => {
+      const provider = await setup();
+      const { stale, current } = await acquireStale(provider.id);
+      const write = (fencingToken: number) =>
+        callRoute('POST', '/kv/state/projects/set-many', {
+          body: { entries: [{ key: 'PROJ', value: fencingToken }], fencingToken },
+        });
+
+      const rejected = await write(stale.fencingToken);
+      expect(rejected.status).toBe(409);
+      expect(await rejected.json()).toMatchObject({ error: 'Stale fencing token' });
+      expect(await getValue()).toBeUndefined();
+
+      expect((await write(current.fencingToken)).status).toBe(200);
+      expect(await getValue()).toBe(current.fencingToken);
+    });
+
+    it('should fence increment', async () => {
+      const provider = await setup();
+      const { stale, current } = await acquireStale(provider.id);
+      const increment = (fencingToken: number) =>
+        callRoute('POST', '/kv/state/projects/PROJ/increment', { body: { by: 1, fencingToken } });
+
+      expect((await increment(stale.fencingToken)).status).toBe(409);
+      expect(await getValue()).toBeUndefined();
+
+      expect((await increment(current.fencingToken)).status).toBe(200);
+      expect(await getValue()).toBe(1);
+    });
+
+    it('should fence delete', async () => {
+      const provider = await setup();
+      const { stale, current } = await acquireStale(provider.id);
+      expect((await setValue('kept', current.fencingToken)).status).toBe(200);
+
+      const rejected = await callRoute(
+        'DELETE',
+        `/kv/state/projects/PROJ?fencingToken=${stale.fencingToken}`
+      );
+      expect(rejected.status).toBe(409);
+      expect(await getValue()).toBe('kept');
+
+      expect(
+        (await callRoute('DELETE', `/kv/state/projects/PROJ?fencingToken=${current.fencingToken}`))
+          .status
+      ).toBe(200);
+      expect(await getValue()).toBeUndefined();
+    });
+
+    it('should reject a malformed fencing token on delete', async () => {
+      await setup();
+
+      const response = await callRoute('DELETE', '/kv/state/projects/PROJ?fencingToken=abc');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should fence delete-many', async () => {
+      const provider = await setup();
+      const { stale, current } = await acquireStale(provider.id);
+      expect((await setValue('kept', current.fencingToken)).status).toBe(200);
+      const deleteMany = (fencingToken: number) =>
+        callRoute('POST', '/kv/state/projects/delete-many', { body: { keys: ['PROJ'], fencingToken } });
+
+      expect((await deleteMany(stale.fencingToken)).status).toBe(409);
+      expect(await getValue()).toBe('kept');
+
+      const deleted = await deleteMany(current.fencingToken);
+      expect(deleted.status).toBe(200);
+      expect(await deleted.json()).toMatchObject({ deleted: 1 });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Trigger Secrets Database Tests
+ *
+ * Secrets in a trigger's lifecycle state (GitHub and GitLab webhook secrets)
+ * are stored encrypted next to the state, handed to the provider only, and
+ * never returned by the triggers API. Hooks created without a secret get one
+ * when a sync keeps their trigger.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { getTestDb } from '../setup/global-setup';
+import { triggers } from '~/server/db/schema';
+import { createFullTestSetup, createTestProvider } from '../helpers/factories';
+
+vi.mock('~/server/services/auth', () => ({
+  authenticateRequest: vi.fn(),
+}));
+
+import { authenticateRequest } from '~/server/services/auth';
+import {
+  createTrigger,
+  getTriggerLifecycleState,
+  syncTriggers,
+  updateTriggerState,
+} from '~/server/services/trigger-service';
+import { callRoute, createTestUser } from '../helpers/route-helpers';
+import '~/server/api/routes/triggers';
+
+async function setup(state: Record<string, unknown> = { webhookSecret: 'hook-secret' }) {
+  const { user, namespace, workflow } = await createFullTestSetup();
+  const provider = await createTestProvider(namespace.id, { type: 'github', alias: 'default' });
+  const trigger = await createTrigger({
+    workflowId: workflow.id,
+    providerId: provider.id,
+    triggerType: 'onPush',
+    input: { owner: 'acme', repository: 'api' },
+    state: { webhookId: 42, owner: 'acme', repository: 'api', ...state },
+  });
+  vi.mocked(authenticateRequest).mockResolvedValue(createTestUser({ id: user.id, isAdmin: true }));
+  return { namespace, workflow, trigger };
+}
+
+async function getRow(triggerId: string) {
+  const [row] = await getTestDb().select().from(triggers).where(eq(triggers.id, triggerId));
+  return row;
+}
+
+describe('Trigger Secrets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should store the webhook secret encrypted, outside the state', async () => {
+    const { trigger } = await setup();
+
+    const row = await getRow(trigger.id);
+
+    expect(row.state).toEqual({ webhookId: 42, owner: 'acme', repository: 'api' });
+    expect(row.encryptedSecrets).toBeTruthy();
+    expect(row.encryptedSecrets).not.toContain('hook-secret');
+    expect(getTriggerLifecycleState(row)).toMatchObject({ webhookId: 42, webhookSecret: 'hook-secret' });
+  });
+
+  it('should leave the webhook secret out of the triggers API', async () => {
+    const { workflow } = await setup();
+
+    const response = await callRoute('GET', `/triggers?workflowId=${workflow.id}`);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.results).toHaveLength(1);
+    expect(body.results[0].state).toEqual({ webhookId: 42, owner: 'acme', repository: 'api' });
+    expect(JSON.stringify(body)).not.toContain('hook-secret');
+  });
+
+  it('should keep the secret when state without one is stored', async () => {
+    const { trigger } = await setup();
+
+    await updateTriggerState(trigger.id, { webhookId: 43, owner: 'acme', repository: 'api' });
+
+    expect(getTriggerLifecycleState(await getRow(trigger.id))).toMatchObject({
+      webhookId: 43,
+      webhookSecret: 'hook-secret',
+    });
+  });
+
+  it('should set a secret on the hook of a kept trigger that has none', async () => {
+    const { namespace, workflow, trigger } = await setup({});
+    const fetchMock = vi.fn().mockImplementation(async () => new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await syncTriggers(workflow.id, namespace.id, [
+      { providerType: 'github', providerAlias: 'default', triggerType: 'onPush', input: { owner: 'acme', repository: 'api' } },
+    ]);
+
+    const row = await getRow(trigger.id);
+    const { webhookSecret } = getTriggerLifecycleState(row);
+    expect(webhookSecret).toMatch(/^[0-9a-f]{64}$/);
+    expect(row.state).not.toHaveProperty('webhookSecret');
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringContaining('/repos/acme/api/hooks/42/config'),
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ secret: webhookSecret }) })
+    );
+  });
+});
@@ -15,6 +15,8 @@ import {
   workflowDeployments,
   runtimes,
   providers,
+  triggers,
+  executionHistory,
   subscriptions,
   type NewUser,
   type NewOrganization,
@@ -23,6 +25,8 @@ import {
   type NewRuntime,
   type NewProvider,
   type NewWorkflowDeployment,
+  type NewTrigger,
+  type NewExecutionHistoryRecord,
 } from '~/server/db/schema';
 import { generateUlidUuid } from '~/server/utils/uuid';
 
@@ -175,6 +179,49 @@ export async function createTestProvider(
   return provider;
 }
 
+/**
+ * Create a test trigger
+ */
+export async function createTestTrigger(
+  workflowId: string,
+  providerId: string,
+  data: Partial<NewTrigger> = {}
+) {
+  const db = getTestDb();
+  const [trigger] = await db
+    .insert(triggers)
+    .values({
+      workflowId,
+      providerId,
+      triggerType: data.triggerType || 'webhook',
+      input: data.input || {},
+      ...data,
+    })
+    .returning();
+
+  return trigger;
+}
+
+/**
+ * Create a test execution
+ */
+export async function createTestExecution(
+  workflowId: string,
+  data: Partial<NewExecutionHistoryRecord> = {}
+) {
+  const db = getTestDb();
+  const [execution] = await db
+    .insert(executionHistory)
+    .values({
+      workflowId,
+      status: data.status || 'RECEIVED',
+      ...data,
+    })
+    .returning();
+
+  return execution;
+}
+
 /**
  * Create a test workflow deployment
  */
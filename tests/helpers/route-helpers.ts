@@ -0,0 +1,58 @@
+/**
+ * Route Test Helpers
+ *
+ * Call API route handlers through the router, without a server or network.
+ * Test files import the route module they cover (which registers its routes)
+ * and mock `authenticateRequest` from ~/server/services/auth to pick the caller.
+ */
+
+import { handleApiRequest } from '~/server/api/router';
+import type { AuthenticatedUser } from '~/server/services/auth';
+
+export interface CallRouteOptions {
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Send a request to an /api route, e.g. callRoute('GET', '/executions?status=failed')
+ */
+export async function callRoute(
+  method: string,
+  path: string,
+  options: CallRouteOptions = {}
+): Promise<Response> {
+  const headers: Record<string, string> = { Authorization: 'Bearer test-token', ...options.headers };
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const response = await handleApiRequest(
+    new Request(`http://localhost/api${path}`, {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    })
+  );
+  if (!response) {
+    throw new Error(`No route handled ${method} ${path}`);
+  }
+  return response;
+}
+
+/**
+ * An authenticated user to return from the mocked authenticateRequest
+ */
+export function createTestUser(overrides: Partial<AuthenticatedUser> = {}): AuthenticatedUser {
+  return {
+    id: 'user-1',
+    workosUserId: null,
+    userType: 'HUMAN',
+    email: 'user@example.com',
+    firstName: 'Test',
+    lastName: 'User',
+    isAdmin: false,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Approvals API Route Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock db
+vi.mock('~/server/db', () => ({
+  getDb: vi.fn(),
+}));
+
+// Mock approval service (signature checks are covered by its own tests)
+vi.mock('~/server/services/execution-approval-service', () => ({
+  getApproval: vi.fn(),
+  verifyApprovalCallback: vi.fn(),
+  canDecideApproval: vi.fn(),
+  decideApproval: vi.fn(),
+  listPendingApprovals: vi.fn(),
+}));
+
+// Mock access service
+vi.mock('~/server/services/access-service', () => ({
+  hasNamespaceAccess: vi.fn(),
+  hasWorkflowAccess: vi.fn(),
+}));
+
+// Mock user auth
+vi.mock('~/server/services/auth', () => ({
+  authenticateRequest: vi.fn(),
+}));
+
+import * as approvalService from '~/server/services/execution-approval-service';
+import * as accessService from '~/server/services/access-service';
+import { authenticateRequest } from '~/server/services/auth';
+import { callRoute, createTestUser } from '../../../helpers/route-helpers';
+import '~/server/api/routes/approvals';
+
+const pendingApproval = {
+  id: 'approval-1',
+  executionId: 'exec-1',
+  workflowId: 'wf-1',
+  stepName: 'deploy',
+  message: 'Deploy to production?',
+  approvers: [] as string[],
+  status: 'PENDING',
+  expiresAt: null,
+  decidedAt: null,
+  decidedByUserId: null,
+  comment: null,
+  createdAt: new Date(),
+};
+
+function submitCallback(headers: Record<string, string> = {}) {
+  return callRoute('POST', '/approvals/approval-1/callback?decision=approve&signature=sig', {
+    headers: { Authorization: '', ...headers },
+  });
+}
+
+describe('Approvals API Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(approvalService.verifyApprovalCallback).mockReturnValue(true);
+    vi.mocked(approvalService.decideApproval).mockResolvedValue({
+      ...pendingApproval,
+      status: 'APPROVED',
+    } as any);
+    vi.mocked(accessService.hasWorkflowAccess).mockResolvedValue(true);
+  });
+
+  describe('POST /approvals/:approvalId/callback', () => {
+    it('should decide with a signed link when there are no approvers', async () => {
+      vi.mocked(approvalService.getApproval).mockResolvedValue(pendingApproval as any);
+
+      const response = await submitCallback();
+
+      expect(response.status).toBe(200);
+      expect(authenticateRequest).not.toHaveBeenCalled();
+      expect(approvalService.decideApproval).toHaveBeenCalledWith('approval-1', {
+        status: 'APPROVED',
+        decidedByUserId: undefined,
+        comment: undefined,
+      });
+    });
+
+    it('should require a signed-in user when approvers are set', async () => {
+      vi.mocked(approvalService.getApproval).mockResolvedValue({
+        ...pendingApproval,
+        approvers: ['lead@example.com'],
+      } as any);
+      vi.mocked(authenticateRequest).mockResolvedValue(null);
+
+      const response = await submitCallback();
+
+      expect(response.status).toBe(401);
+      expect(approvalService.decideApproval).not.toHaveBeenCalled();
+    });
+
+    it('should reject signed-in users who are not approvers', async () => {
+      vi.mocked(approvalService.getApproval).mockResolvedValue({
+        ...pendingApproval,
+        approvers: ['lead@example.com'],
+      } as any);
+      vi.mocked(authenticateRequest).mockResolvedValue(createTestUser({ email: 'someone@example.com' }));
+      vi.mocked(approvalService.canDecideApproval).mockResolvedValue(false);
+
+      const response = await submitCallback({ Cookie: 'session=abc' });
+
+      expect(response.status).toBe(403);
+      expect(approvalService.decideApproval).not.toHaveBeenCalled();
+    });
+
+    it('should record the approver who decided', async () => {
+      vi.mocked(approvalService.getApproval).mockResolvedValue({
+        ...pendingApproval,
+        approvers: ['lead@example.com'],
+      } as any);
+      vi.mocked(authenticateRequest).mockResolvedValue(createTestUser({ id: 'lead', email: 'lead@example.com' }));
+      vi.mocked(approvalService.canDecideApproval).mockResolvedValue(true);
+
+      const response = await submitCallback({ Cookie: 'session=abc' });
+
+      expect(response.status).toBe(200);
+      expect(authenticateRequest).toHaveBeenCalledWith('session=abc', '');
+      expect(approvalService.decideApproval).toHaveBeenCalledWith(
+        'approval-1',
+        expect.objectContaining({ status: 'APPROVED', decidedByUserId: 'lead' })
+      );
+    });
+
+    it('should reject links with an invalid signature', async () => {
+      vi.mocked(approvalService.verifyApprovalCallback).mockReturnValue(false);
+
+      const response = await submitCallback();
+
+      expect(response.status).toBe(403);
+      expect(approvalService.getApproval).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /approvals/:approvalId/callback', () => {
+    it('should not show the confirmation form to users who are not approvers', async () => {
+      vi.mocked(approvalService.getApproval).mockResolvedValue({
+        ...pendingApproval,
+        approvers: ['lead@example.com'],
+      } as any);
+      vi.mocked(authenticateRequest).mockResolvedValue(null);
+
+      const response = await callRoute('GET', '/approvals/approval-1/callback?decision=approve&signature=sig');
+
+      expect(response.status).toBe(401);
+      expect(await response.text()).not.toContain('<form');
+    });
+  });
+});
@@ -18,6 +18,9 @@ vi.mock('~/server/services/execution-service', () => ({
   createExecution: vi.fn(),
   updateExecutionCompleted: vi.fn(),
   updateExecutionFailed: vi.fn(),
+  cancelExecution: vi.fn(),
+  listDeadLetterExecutions: vi.fn(),
+  searchExecutionLogs: vi.fn(),
   serializeExecution: vi.fn((e) => ({
     id: e.id,
     status: e.status,
@@ -35,9 +38,30 @@ vi.mock('~/server/services/workflow-auth-service', () => ({
   verifyInvocationToken: vi.fn(),
 }));
 
+// Mock approval and concurrency state released on cancel
+vi.mock('~/server/services/execution-approval-service', () => ({
+  requestApproval: vi.fn(),
+  cancelPendingApprovals: vi.fn(),
+}));
+
+vi.mock('~/server/services/trigger-execution-service', () => ({
+  scheduleRetry: vi.fn(),
+  releaseConcurrency: vi.fn(),
+}));
+
+// Mock user auth
+vi.mock('~/server/services/auth', () => ({
+  authenticateRequest: vi.fn(),
+}));
+
 import * as executionService from '~/server/services/execution-service';
 import * as accessService from '~/server/services/access-service';
 import * as workflowAuthService from '~/server/services/workflow-auth-service';
+import * as executionApprovalService from '~/server/services/execution-approval-service';
+import * as triggerExecutionService from '~/server/services/trigger-execution-service';
+import { authenticateRequest } from '~/server/services/auth';
+import { callRoute, createTestUser } from '../../../helpers/route-helpers';
+import '~/server/api/routes/executions';
 
 describe('Executions API Routes', () => {
   beforeEach(() => {
@@ -92,6 +116,49 @@ describe('Executions API Routes', () => {
     });
   });
 
+  describe('GET /executions filters', () => {
+    beforeEach(() => {
+      vi.mocked(authenticateRequest).mockResolvedValue(createTestUser());
+      vi.mocked(accessService.hasWorkflowAccess).mockResolvedValue(true);
+      vi.mocked(executionService.listExecutions).mockResolvedValue({ executions: [], total: 0 });
+    });
+
+    it('should accept a status in any case and ISO dates', async () => {
+      const response = await callRoute(
+        'GET',
+        '/executions?workflowId=wf-1&status=failed&since=2025-01-01T00:00:00Z&until=2025-02-01'
+      );
+
+      expect(response.status).toBe(200);
+      expect(executionService.listExecutions).toHaveBeenCalledWith(
+        'wf-1',
+        expect.objectContaining({
+          status: 'FAILED',
+          since: new Date('2025-01-01T00:00:00Z'),
+          until: new Date('2025-02-01'),
+        })
+      );
+    });
+
+    it('should reject an unknown status with 400', async () => {
+      const top = await callRoute('GET', '/executions?workflowId=wf-1&status=exploded');
+      const perWorkflow = await callRoute('GET', '/executions/workflows/wf-1?status=exploded');
+
+      expect(top.status).toBe(400);
+      expect(perWorkflow.status).toBe(400);
+      expect(executionService.listExecutions).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed dates with 400', async () => {
+      const since = await callRoute('GET', '/executions?workflowId=wf-1&since=last-week');
+      const until = await callRoute('GET', '/executions/workflows/wf-1?until=not-a-date');
+
+      expect(since.status).toBe(400);
+      expect(until.status).toBe(400);
+      expect(executionService.listExecutions).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET /executions/:id', () => {
     it('should return execution details', async () => {
       const mockExecution = {
@@ -177,6 +244,59 @@ describe('Executions API Routes', () => {
     });
   });
 
+  describe('POST /executions/:id/cancel', () => {
+    const waiting = { id: 'exec-1', workflowId: 'wf-1', status: 'WAITING' };
+
+    beforeEach(() => {
+      vi.mocked(authenticateRequest).mockResolvedValue(createTestUser());
+      vi.mocked(accessService.hasWorkflowAccess).mockResolvedValue(true);
+    });
+
+    it('should cancel a waiting execution and release its approvals and slot', async () => {
+      vi.mocked(executionService.getExecution).mockResolvedValue(waiting as any);
+      vi.mocked(executionService.cancelExecution).mockResolvedValue({ ...waiting, status: 'CANCELLED' } as any);
+
+      const response = await callRoute('POST', '/executions/exec-1/cancel');
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).status).toBe('CANCELLED');
+      expect(executionService.cancelExecution).toHaveBeenCalledWith('exec-1');
+      expect(executionApprovalService.cancelPendingApprovals).toHaveBeenCalledWith('exec-1');
+      expect(triggerExecutionService.releaseConcurrency).toHaveBeenCalledWith('exec-1');
+    });
+
+    it('should return 404 for an unknown execution', async () => {
+      vi.mocked(executionService.getExecution).mockResolvedValue(null);
+
+      const response = await callRoute('POST', '/executions/missing/cancel');
+
+      expect(response.status).toBe(404);
+      expect(executionService.cancelExecution).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 without access to the workflow', async () => {
+      vi.mocked(executionService.getExecution).mockResolvedValue(waiting as any);
+      vi.mocked(accessService.hasWorkflowAccess).mockResolvedValue(false);
+
+      const response = await callRoute('POST', '/executions/exec-1/cancel');
+
+      expect(response.status).toBe(403);
+      expect(executionService.cancelExecution).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 for an execution that already finished', async () => {
+      vi.mocked(executionService.getExecution).mockResolvedValue({ ...waiting, status: 'COMPLETED' } as any);
+      vi.mocked(executionService.cancelExecution).mockResolvedValue(null);
+
+      const response = await callRoute('POST', '/executions/exec-1/cancel');
+
+      expect(response.status).toBe(409);
+      expect((await response.json()).error).toContain('COMPLETED');
+      expect(executionApprovalService.cancelPendingApprovals).not.toHaveBeenCalled();
+      expect(triggerExecutionService.releaseConcurrency).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET /executions/workflows/:workflowId', () => {
     it('should list executions for workflow (alternative route)', async () => {
       const mockResult = {
@@ -193,8 +313,83 @@ describe('Executions API Routes', () => {
   });
 
   describe('GET /executions/workflows/:workflowId/logs', () => {
-    it('should aggregate logs from recent executions', async () => {
-      expect(true).toBe(true);
+    beforeEach(() => {
+      vi.mocked(authenticateRequest).mockResolvedValue(createTestUser());
+      vi.mocked(accessService.hasWorkflowAccess).mockResolvedValue(true);
+      vi.mocked(executionService.searchExecutionLogs).mockResolvedValue([]);
+    });
+
+    it('should pass levels and since to the log search', async () => {
+      const response = await callRoute(
+        'GET',
+        '/executions/workflows/wf-1/logs?level=warn,ERROR&since=2025-01-31T00:00:00Z'
+      );
+
+      expect(response.status).toBe(200);
+      expect(executionService.searchExecutionLogs).toHaveBeenCalledWith(
+        'wf-1',
+        expect.objectContaining({
+          levels: ['WARN', 'ERROR'],
+          since: new Date('2025-01-31T00:00:00Z'),
+        })
+      );
+    });
+
+    it('should reject unknown levels with 400', async () => {
+      const response = await callRoute('GET', '/executions/workflows/wf-1/logs?level=warn,loud');
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain('loud');
+      expect(executionService.searchExecutionLogs).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid since with 400', async () => {
+      const response = await callRoute('GET', '/executions/workflows/wf-1/logs?since=1h');
+
+      expect(response.status).toBe(400);
+      expect(executionService.searchExecutionLogs).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /executions/workflows/:workflowId/dead-letters', () => {
+    beforeEach(() => {
+      vi.mocked(authenticateRequest).mockResolvedValue(createTestUser());
+      vi.mocked(accessService.hasWorkflowAccess).mockResolvedValue(true);
+      vi.mocked(executionService.listDeadLetterExecutions).mockResolvedValue({ executions: [], total: 0 });
+    });
+
+    it('should accept statuses in any case', async () => {
+      const response = await callRoute(
+        'GET',
+        '/executions/workflows/wf-1/dead-letters?status=failed,Timeout&since=2025-01-31T00:00:00Z'
+      );
+
+      expect(response.status).toBe(200);
+      expect(executionService.listDeadLetterExecutions).toHaveBeenCalledWith(
+        'wf-1',
+        expect.objectContaining({
+          statuses: ['FAILED', 'TIMEOUT'],
+          since: new Date('2025-01-31T00:00:00Z'),
+          until: undefined,
+        })
+      );
+    });
+
+    it('should reject unknown statuses with 400', async () => {
+      const response = await callRoute('GET', '/executions/workflows/wf-1/dead-letters?status=failed,broken');
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain('broken');
+      expect(executionService.listDeadLetterExecutions).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid dates with 400', async () => {
+      const since = await callRoute('GET', '/executions/workflows/wf-1/dead-letters?since=yesterday');
+      const until = await callRoute('GET', '/executions/workflows/wf-1/dead-letters?until=2025-13-45');
+
+      expect(since.status).toBe(400);
+      expect(until.status).toBe(400);
+      expect(executionService.listDeadLetterExecutions).not.toHaveBeenCalled();
     });
   });
 
@@ -3,6 +3,15 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  setKvValueSchema,
+  incrementKvValueSchema,
+  getManyKvValuesSchema,
+  setManyKvValuesSchema,
+  deleteManyKvValuesSchema,
+  acquireKvLockSchema,
+  extendKvLockSchema,
+} from '~/server/api/schemas';
 
 // Mock db
 vi.mock('~/server/db', () => ({
@@ -48,12 +57,17 @@ describe('KV Store API Routes', () => {
       expect(mockPairs).toHaveLength(2);
     });
 
-    it('should support pagination', async () => {
-      const limit = 10;
-      const offset = 20;
+    it('should support cursor pagination', async () => {
+      // The next page starts after the last key of the previous one
+      const page = { results: [{ key: 'user:123' }, { key: 'user:456' }], nextCursor: 'user:456' };
 
-      expect(limit).toBe(10);
-      expect(offset).toBe(20);
+      expect(page.nextCursor).toBe(page.results[page.results.length - 1].key);
+    });
+
+    it('should filter by key prefix', async () => {
+      const keys = ['org-1:a', 'org-1:b', 'org-2:a'];
+
+      expect(keys.filter((key) => key.startsWith('org-1:'))).toHaveLength(2);
     });
   });
 
@@ -107,6 +121,129 @@ describe('KV Store API Routes', () => {
     });
   });
 
+  describe('Conditional writes and TTLs', () => {
+    it('should accept a TTL with a value', () => {
+      const result = setKvValueSchema.safeParse({ value: 'cached', ttlSeconds: 60 });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject non-positive TTLs', () => {
+      expect(setKvValueSchema.safeParse({ value: 1, ttlSeconds: 0 }).success).toBe(false);
+      expect(setKvValueSchema.safeParse({ value: 1, ttlSeconds: 1.5 }).success).toBe(false);
+    });
+
+    it('should not combine ifVersion with ifAbsent', () => {
+      const result = setKvValueSchema.safeParse({ value: 1, ifVersion: 2, ifAbsent: true });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should answer 409 when the condition does not hold', async () => {
+      // ifAbsent on a live key, or ifVersion on a changed or deleted key
+      const conflictStatus = 409;
+
+      expect(conflictStatus).toBe(409);
+    });
+  });
+
+  describe('POST /kv/:provider/:table/:key/increment', () => {
+    it('should increment by 1 by default', () => {
+      const result = incrementKvValueSchema.parse({});
+
+      expect(result.by).toBe(1);
+    });
+
+    it('should accept negative and fractional steps', () => {
+      expect(incrementKvValueSchema.parse({ by: -2.5 }).by).toBe(-2.5);
+    });
+
+    it('should answer 409 for a value that is not a number', async () => {
+      expect(true).toBe(true);
+    });
+  });
+
+  describe('Batch operations', () => {
+    it('should accept up to 1000 keys for get-many', () => {
+      const keys = Array.from({ length: 1000 }, (_, i) => `key-${i}`);
+
+      expect(getManyKvValuesSchema.safeParse({ keys }).success).toBe(true);
+      expect(getManyKvValuesSchema.safeParse({ keys: [...keys, 'one-more'] }).success).toBe(false);
+      expect(getManyKvValuesSchema.safeParse({ keys: [] }).success).toBe(false);
+    });
+
+    it('should accept per-entry TTLs for set-many', () => {
+      const result = setManyKvValuesSchema.safeParse({
+        entries: [
+          { key: 'a', value: 1 },
+          { key: 'b', value: { nested: true }, ttlSeconds: 60 },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should take either keys or a prefix for delete-many', () => {
+      expect(deleteManyKvValuesSchema.safeParse({ keys: ['a'] }).success).toBe(true);
+      expect(deleteManyKvValuesSchema.safeParse({ prefix: 'session:' }).success).toBe(true);
+      expect(deleteManyKvValuesSchema.safeParse({ keys: ['a'], prefix: 'session:' }).success).toBe(
+        false
+      );
+      expect(deleteManyKvValuesSchema.safeParse({}).success).toBe(false);
+    });
+  });
+
+  describe('Locks', () => {
+    it('should default the lease TTL to 30 seconds', () => {
+      expect(acquireKvLockSchema.parse({}).ttlMs).toBe(30_000);
+    });
+
+    it('should require the lease ID to extend a lease', () => {
+      expect(extendKvLockSchema.safeParse({ ttlMs: 1000 }).success).toBe(false);
+      expect(
+        extendKvLockSchema.safeParse({ leaseId: '0190b4f2-6f0e-7c3a-9d1e-2b8f4c6a1e00' }).success
+      ).toBe(true);
+    });
+
+    it('should answer 409 with retryAfterMs while the lock is held', async () => {
+      const response = { error: 'Lock is held', retryAfterMs: 1200 };
+
+      expect(response.retryAfterMs).toBeGreaterThan(0);
+    });
+
+    it('should reject writes with a stale fencing token', () => {
+      // A key written with token 5 rejects a write with token 4
+      const result = setKvValueSchema.safeParse({ value: 'done', fencingToken: 4 });
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('Typed tables', () => {
+    it('should accept the schema version of a typed write', () => {
+      expect(setKvValueSchema.safeParse({ value: { name: 'Alice' }, schemaVersion: 2 }).success).toBe(
+        true
+      );
+      expect(setKvValueSchema.safeParse({ value: { name: 'Alice' }, schemaVersion: 0 }).success).toBe(
+        false
+      );
+    });
+
+    it('should accept schema versions in batch writes', () => {
+      const result = setManyKvValuesSchema.safeParse({
+        entries: [{ key: 'user-1', value: { name: 'Alice' }, schemaVersion: 3 }],
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should clear the schema version on untyped writes', () => {
+      const result = setKvValueSchema.parse({ value: 'plain' });
+
+      expect(result.schemaVersion ?? null).toBeNull();
+    });
+  });
+
   describe('DELETE /kv/:provider/:table/:key', () => {
     it('should delete a key', async () => {
       expect(true).toBe(true);
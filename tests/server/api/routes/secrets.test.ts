@@ -20,6 +20,42 @@ vi.mock('~/server/services/access-service', () => ({
   hasNamespaceAccess: vi.fn(),
 }));
 
+// Mock user auth
+vi.mock('~/server/services/auth', () => ({
+  authenticateRequest: vi.fn(),
+}));
+
+import { getDb } from '~/server/db';
+import { authenticateRequest } from '~/server/services/auth';
+import { callRoute, createTestUser } from '../../../helpers/route-helpers';
+import '~/server/api/routes/secrets';
+
+const storedSecret = {
+  id: 'secret-1',
+  namespaceId: 'ns-1',
+  name: 'API_KEY',
+  provider: 'custom',
+  encryptedValue: 'encrypted-value',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+/**
+ * Mock the two lookups of GET /secrets/:secretId: the secret, then the
+ * caller's organization membership
+ */
+function mockSecretLookup(membership: { role: string } | undefined) {
+  const query: Record<string, ReturnType<typeof vi.fn>> = {};
+  for (const method of ['select', 'from', 'where', 'innerJoin']) {
+    query[method] = vi.fn(() => query);
+  }
+  query.limit = vi
+    .fn()
+    .mockResolvedValueOnce([storedSecret])
+    .mockResolvedValueOnce(membership ? [membership] : []);
+  vi.mocked(getDb).mockReturnValue(query as any);
+}
+
 describe('Secrets API Routes', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -79,6 +115,36 @@ describe('Secrets API Routes', () => {
       expect(mockSecret.name).toBe('API_KEY');
       expect('value' in mockSecret).toBe(false);
     });
+
+    it('should not reveal values to organization members', async () => {
+      vi.mocked(authenticateRequest).mockResolvedValue(createTestUser());
+      mockSecretLookup({ role: 'MEMBER' });
+
+      const response = await callRoute('GET', '/secrets/secret-1?reveal=true');
+
+      expect(response.status).toBe(403);
+      expect(await response.text()).not.toContain('decrypted-value');
+    });
+
+    it.each(['OWNER', 'ADMIN'])('should reveal values to organization %s role', async (role) => {
+      vi.mocked(authenticateRequest).mockResolvedValue(createTestUser());
+      mockSecretLookup({ role });
+
+      const response = await callRoute('GET', '/secrets/secret-1?reveal=true');
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ id: 'secret-1', value: 'decrypted-value' });
+    });
+
+    it('should leave the value out for members without ?reveal=true', async () => {
+      vi.mocked(authenticateRequest).mockResolvedValue(createTestUser());
+      mockSecretLookup({ role: 'MEMBER' });
+
+      const response = await callRoute('GET', '/secrets/secret-1');
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).not.toHaveProperty('value');
+    });
   });
 
   describe('PATCH /secrets/:id', () => {
@@ -2,7 +2,8 @@
  * Webhooks API Route Tests
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHmac } from 'crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock db
 vi.mock('~/server/db', () => ({
@@ -44,9 +45,16 @@ vi.mock('~/server/services/workflow-auth-service', () => ({
   generateInvocationToken: vi.fn().mockResolvedValue('mock-token'),
 }));
 
+// Provider configs are stored as plain JSON in these tests
+vi.mock('~/server/utils/encryption', () => ({
+  decryptSecret: vi.fn((value: string) => value),
+  encryptSecret: vi.fn((value: string) => value),
+}));
+
 import * as executionService from '~/server/services/execution-service';
 import * as triggerExecutionService from '~/server/services/trigger-execution-service';
 import * as billingService from '~/server/services/billing-service';
+import { getDb } from '~/server/db';
 
 describe('Webhooks API Routes', () => {
   beforeEach(() => {
@@ -176,6 +184,255 @@ describe('Webhooks API Routes', () => {
     });
   });
 
+  describe('Webhook Signatures', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    async function getWebhookProcessor(providerType: string) {
+      const { getProviderDefinition } = await import('floww/providers/server');
+      return getProviderDefinition(providerType)!.webhookProcessor!;
+    }
+
+    const rawBody = '{"ref":"refs/heads/main","repository":{"name":"repo"}}';
+
+    function githubRequest(state: Record<string, unknown>, headers: Record<string, string>) {
+      return {
+        headers: { 'content-type': 'application/json', ...headers },
+        body: JSON.parse(rawBody),
+        rawBody,
+        method: 'POST',
+        path: '/webhook/abc',
+        trigger: { id: 't1', triggerType: 'onPush', input: {}, state },
+      };
+    }
+
+    it('should store a generated secret when creating a GitHub webhook', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ id: 42 }), { status: 201 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const { getProviderDefinition } = await import('floww/providers/server');
+      const state = (await getProviderDefinition('github')!.triggerDefinitions.onPush.lifecycle.create({
+        input: { owner: 'acme', repository: 'repo' },
+        webhookUrl: 'https://app.example.com/webhook/abc',
+        providerId: 'p1',
+        triggerId: 't1',
+        secrets: { access_token: 'token' },
+      })) as Record<string, unknown>;
+
+      const requestBody = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(state.webhookSecret).toMatch(/^[0-9a-f]{64}$/);
+      expect(requestBody.config.secret).toBe(state.webhookSecret);
+    });
+
+    it('should accept GitHub deliveries signed with the hook secret', async () => {
+      const processor = await getWebhookProcessor('github');
+      const signature = `sha256=${createHmac('sha256', 'hook-secret').update(rawBody).digest('hex')}`;
+
+      const result = await processor.validateWebhook!(
+        githubRequest({ webhookSecret: 'hook-secret' }, { 'x-hub-signature-256': signature }),
+        {}
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject GitHub deliveries with a missing or wrong signature', async () => {
+      const processor = await getWebhookProcessor('github');
+      const forged = `sha256=${createHmac('sha256', 'other-secret').update(rawBody).digest('hex')}`;
+
+      const unsigned = await processor.validateWebhook!(githubRequest({ webhookSecret: 'hook-secret' }, {}), {});
+      const wrong = await processor.validateWebhook!(
+        githubRequest({ webhookSecret: 'hook-secret' }, { 'x-hub-signature-256': forged }),
+        {}
+      );
+
+      expect(unsigned.valid).toBe(false);
+      expect(wrong.valid).toBe(false);
+    });
+
+    it('should reject deliveries to hooks that have no secret yet', async () => {
+      const github = await getWebhookProcessor('github');
+      const gitlab = await getWebhookProcessor('gitlab');
+
+      expect((await github.validateWebhook!(githubRequest({}, {}), {})).valid).toBe(false);
+      expect((await gitlab.validateWebhook!({ ...githubRequest({}, {}), headers: {} }, {})).valid).toBe(false);
+    });
+
+    it('should set a secret on a GitHub hook created without one when refreshing', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response('{}', { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const { getProviderDefinition } = await import('floww/providers/server');
+      const state = (await getProviderDefinition('github')!.triggerDefinitions.onPush.lifecycle.refresh({
+        input: { owner: 'acme', repository: 'repo' },
+        state: { webhookId: 42, owner: 'acme', repository: 'repo' },
+        providerId: 'p1',
+        triggerId: 't1',
+        secrets: { access_token: 'token' },
+      })) as Record<string, unknown>;
+
+      const [url, init] = fetchMock.mock.calls[1];
+      expect(url).toBe('https://api.github.com/repos/acme/repo/hooks/42/config');
+      expect(init.method).toBe('PATCH');
+      expect(state.webhookSecret).toMatch(/^[0-9a-f]{64}$/);
+      expect(JSON.parse(init.body)).toEqual({ secret: state.webhookSecret });
+    });
+
+    it('should set a secret token on a GitLab hook created without one when refreshing', async () => {
+      const fetchMock = vi.fn().mockImplementation(async () =>
+        new Response(JSON.stringify({ id: 42, url: 'https://app.example.com/webhook/abc' }), { status: 200 })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const { getProviderDefinition } = await import('floww/providers/server');
+      const state = (await getProviderDefinition('gitlab')!.triggerDefinitions.onMergeRequest.lifecycle.refresh({
+        input: { projectId: '7' },
+        state: { webhookId: 42, projectId: '7' },
+        providerId: 'p1',
+        triggerId: 't1',
+        secrets: { accessToken: 'token' },
+      })) as Record<string, unknown>;
+
+      const [url, init] = fetchMock.mock.calls[2];
+      expect(url).toBe('https://gitlab.com/api/v4/projects/7/hooks/42');
+      expect(init.method).toBe('PUT');
+      expect(JSON.parse(init.body)).toEqual({
+        url: 'https://app.example.com/webhook/abc',
+        token: state.webhookSecret,
+      });
+    });
+
+    it('should check the X-Gitlab-Token header against the hook secret', async () => {
+      const processor = await getWebhookProcessor('gitlab');
+      const request = (token?: string) => ({
+        headers: token ? { 'x-gitlab-token': token } : {},
+        body: { object_kind: 'merge_request' },
+        rawBody: '{"object_kind":"merge_request"}',
+        method: 'POST',
+        path: '/webhook/abc',
+        trigger: { id: 't1', triggerType: 'onMergeRequest', input: {}, state: { webhookSecret: 'hook-secret' } },
+      });
+
+      expect((await processor.validateWebhook!(request('hook-secret'), {})).valid).toBe(true);
+      expect((await processor.validateWebhook!(request('nope'), {})).valid).toBe(false);
+      expect((await processor.validateWebhook!(request(), {})).valid).toBe(false);
+    });
+  });
+
+  describe('Provider-owned webhook signatures', () => {
+    const rawBody = '{"ref":"refs/heads/main","repository":{"name":"repo"}}';
+
+    // Webhook lookup: a provider-owned GitHub webhook with the given provider config
+    function mockProviderWebhook(config: Record<string, string>) {
+      const triggerQuery = { where: vi.fn().mockResolvedValue([]) };
+      const lookup: Record<string, any> = {
+        leftJoin: vi.fn(() => lookup),
+        where: vi.fn(() => lookup),
+        limit: vi.fn().mockResolvedValue([
+          {
+            webhook: { id: 'wh-1', providerId: 'p1', triggerId: null },
+            trigger: null,
+            provider: { id: 'p1', type: 'github', encryptedConfig: JSON.stringify(config) },
+            workflow: null,
+          },
+        ]),
+      };
+      vi.mocked(getDb).mockReturnValue({
+        select: vi.fn(() => ({
+          from: vi.fn(() => ({ ...lookup, innerJoin: vi.fn(() => triggerQuery) })),
+        })),
+      } as any);
+      return triggerQuery;
+    }
+
+    function delivery(headers: Record<string, string>) {
+      return new Request('http://localhost/webhook/abc', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'x-github-event': 'push', ...headers },
+        body: rawBody,
+      });
+    }
+
+    const sign = (secret: string) =>
+      `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`;
+
+    it('should reject unsigned and forged deliveries with 401', async () => {
+      const { handleWebhook } = await import('~/server/api/routes/webhooks');
+      const triggerQuery = mockProviderWebhook({ access_token: 'token', webhook_secret: 'provider-secret' });
+
+      const unsigned = await handleWebhook(delivery({}), 'abc');
+      const forged = await handleWebhook(delivery({ 'x-hub-signature-256': sign('guess') }), 'abc');
+
+      expect(unsigned.status).toBe(401);
+      expect(forged.status).toBe(401);
+      expect(triggerQuery.where).not.toHaveBeenCalled();
+    });
+
+    it('should reject deliveries when the provider has no webhook secret', async () => {
+      const { handleWebhook } = await import('~/server/api/routes/webhooks');
+      mockProviderWebhook({ access_token: 'token' });
+
+      const response = await handleWebhook(delivery({ 'x-hub-signature-256': sign('anything') }), 'abc');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject deliveries when validation throws', async () => {
+      const { handleWebhook } = await import('~/server/api/routes/webhooks');
+      const { getProviderDefinition } = await import('floww/providers/server');
+      vi.spyOn(getProviderDefinition('github')!.webhookProcessor!, 'validateWebhook').mockRejectedValueOnce(
+        new Error('boom')
+      );
+      mockProviderWebhook({ access_token: 'token', webhook_secret: 'provider-secret' });
+
+      const response = await handleWebhook(delivery({ 'x-hub-signature-256': sign('provider-secret') }), 'abc');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should accept deliveries signed with the provider webhook secret', async () => {
+      const { handleWebhook } = await import('~/server/api/routes/webhooks');
+      const triggerQuery = mockProviderWebhook({ access_token: 'token', webhook_secret: 'provider-secret' });
+
+      const response = await handleWebhook(delivery({ 'x-hub-signature-256': sign('provider-secret') }), 'abc');
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ message: 'No matching triggers for this event' });
+      expect(triggerQuery.where).toHaveBeenCalled();
+    });
+  });
+
+  describe('Webhook Delivery IDs', () => {
+    async function getWebhookProcessor(providerType: string) {
+      const { getProviderDefinition } = await import('floww/providers/server');
+      return getProviderDefinition(providerType)!.webhookProcessor!;
+    }
+
+    const request = (headers: Record<string, string>, body: unknown = {}) => ({
+      headers,
+      body,
+      method: 'POST',
+      path: '/webhook/abc',
+    });
+
+    it('should read the delivery ID each provider sends', async () => {
+      const github = await getWebhookProcessor('github');
+      const slack = await getWebhookProcessor('slack');
+      const builtin = await getWebhookProcessor('builtin');
+
+      expect(github.getIdempotencyKey!(request({ 'x-github-delivery': 'guid-1' }))).toBe('guid-1');
+      expect(slack.getIdempotencyKey!(request({}, { type: 'event_callback', event_id: 'Ev123' }))).toBe('Ev123');
+      expect(builtin.getIdempotencyKey!(request({ 'idempotency-key': 'order-7' }))).toBe('order-7');
+    });
+
+    it('should have no delivery ID when the header is missing', async () => {
+      const github = await getWebhookProcessor('github');
+
+      expect(github.getIdempotencyKey!(request({}))).toBeUndefined();
+    });
+  });
+
   describe('No Authentication Required', () => {
     it('should allow unauthenticated requests', async () => {
       // Webhooks are public endpoints
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
 
 /**
  * Workflows API Route Tests
@@ -14,6 +14,15 @@ const mockGetWorkflow = vi.fn();
 const mockCreateWorkflow = vi.fn();
 const mockIsWorkflowNameUnique = vi.fn();
 const mockCheckWorkflowLimit = vi.fn();
+const mockGetRollbackTarget = vi.fn();
+const mockGetDeployment = vi.fn();
+const mockGetActiveDeployment = vi.fn();
+const mockActivateDeployment = vi.fn();
+const mockSyncTriggers = vi.fn();
+
+vi.mock('~/server/db', () => ({
+  getDb: vi.fn(),
+}));
 
 vi.mock('~/server/services/workflow-service', () => ({
   getWorkflow: mockGetWorkflow,
@@ -21,8 +30,11 @@ vi.mock('~/server/services/workflow-service', () => ({
   createWorkflow: mockCreateWorkflow,
   updateWorkflow: vi.fn(),
   deleteWorkflow: vi.fn(),
-  getActiveDeployment: vi.fn(),
+  getActiveDeployment: mockGetActiveDeployment,
   createDeployment: vi.fn(),
+  getDeployment: mockGetDeployment,
+  getRollbackTarget: mockGetRollbackTarget,
+  activateDeployment: mockActivateDeployment,
   isWorkflowNameUnique: mockIsWorkflowNameUnique,
 }));
 
@@ -35,6 +47,18 @@ vi.mock('~/server/services/billing-service', () => ({
   checkWorkflowLimit: mockCheckWorkflowLimit,
 }));
 
+vi.mock('~/server/services/trigger-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('~/server/services/trigger-service')>()),
+  syncTriggers: mockSyncTriggers,
+}));
+
+vi.mock('~/server/services/auth', () => ({
+  authenticateRequest: vi.fn(),
+}));
+
+import { authenticateRequest } from '~/server/services/auth';
+import { callRoute, createTestUser } from '../../../helpers/route-helpers';
+
 describe('Workflows API Routes', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -122,4 +146,104 @@ describe('Workflows API Routes', () => {
       expect(isUnique).toBe(false);
     });
   });
+
+  describe('POST /api/workflows/:id/rollback', () => {
+    const deployment = (overrides: Record<string, unknown> = {}) => ({
+      id: 'dep-1',
+      workflowId: 'wf-1',
+      runtimeId: 'rt-1',
+      status: 'INACTIVE',
+      deployedAt: new Date('2026-01-01T00:00:00Z'),
+      triggerDefinitions: [
+        { provider: { type: 'github', alias: 'default' }, triggerType: 'onPush', input: { repo: 'acme/api' } },
+      ],
+      providerMappings: { github: { default: 'provider-1' } },
+      ...overrides,
+    });
+
+    beforeAll(async () => {
+      // Registers the routes; imported here so the mocks above exist first
+      await import('~/server/api/routes/workflows');
+    });
+
+    beforeEach(() => {
+      vi.mocked(authenticateRequest).mockResolvedValue(createTestUser());
+      mockGetWorkflow.mockResolvedValue({ id: 'wf-1', namespaceId: 'ns-1' });
+      mockGetActiveDeployment.mockResolvedValue(deployment({ id: 'dep-2', status: 'ACTIVE' }));
+      mockSyncTriggers.mockResolvedValue([]);
+    });
+
+    it('should reactivate the deployment before the active one and re-sync its triggers', async () => {
+      mockGetRollbackTarget.mockResolvedValueOnce(deployment());
+      mockActivateDeployment.mockResolvedValueOnce(deployment({ status: 'ACTIVE' }));
+
+      const response = await callRoute('POST', '/workflows/wf-1/rollback', { body: {} });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        id: 'dep-1',
+        status: 'ACTIVE',
+        previousDeploymentId: 'dep-2',
+      });
+      expect(mockActivateDeployment).toHaveBeenCalledWith('wf-1', 'dep-1');
+      expect(mockSyncTriggers).toHaveBeenCalledWith(
+        'wf-1',
+        'ns-1',
+        [
+          {
+            providerType: 'github',
+            providerAlias: 'default',
+            triggerType: 'onPush',
+            input: { repo: 'acme/api' },
+            options: undefined,
+          },
+        ],
+        { github: { default: 'provider-1' } }
+      );
+    });
+
+    it('should return 404 when there is no previous deployment', async () => {
+      mockGetRollbackTarget.mockResolvedValueOnce(null);
+
+      const response = await callRoute('POST', '/workflows/wf-1/rollback', { body: {} });
+
+      expect(response.status).toBe(404);
+      expect(mockActivateDeployment).not.toHaveBeenCalled();
+      expect(mockSyncTriggers).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a deployment of another workflow', async () => {
+      mockGetDeployment.mockResolvedValueOnce(deployment({ id: 'dep-9', workflowId: 'wf-2' }));
+
+      const response = await callRoute('POST', '/workflows/wf-1/rollback', {
+        body: { deploymentId: 'dep-9' },
+      });
+
+      expect(response.status).toBe(404);
+      expect(mockActivateDeployment).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the target is already active', async () => {
+      mockGetDeployment.mockResolvedValueOnce(deployment({ status: 'ACTIVE' }));
+
+      const response = await callRoute('POST', '/workflows/wf-1/rollback', {
+        body: { deploymentId: 'dep-1' },
+      });
+
+      expect(response.status).toBe(409);
+      expect(mockActivateDeployment).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a failed deployment', async () => {
+      mockGetDeployment.mockResolvedValueOnce(deployment({ status: 'FAILED' }));
+
+      const response = await callRoute('POST', '/workflows/wf-1/rollback', {
+        body: { deploymentId: 'dep-1' },
+      });
+
+      expect(response.status).toBe(400);
+      expect(mockActivateDeployment).not.toHaveBeenCalled();
+      expect(mockSyncTriggers).not.toHaveBeenCalled();
+    });
+  });
 });
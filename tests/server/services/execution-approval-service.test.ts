@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+
+/**
+ * Execution Approval Service Tests
+ *
+ * Covers the signed callback URLs used by Slack buttons.
+ */
+
+vi.mock('~/server/db', () => ({
+  getDb: vi.fn(),
+}));
+
+describe('ExecutionApprovalService', () => {
+  describe('verifyApprovalCallback', () => {
+    it('should accept the signature of the same approval and decision', async () => {
+      const { signApprovalCallback, verifyApprovalCallback } = await import(
+        '~/server/services/execution-approval-service'
+      );
+
+      const signature = signApprovalCallback('approval-1', 'approve');
+
+      expect(verifyApprovalCallback('approval-1', 'approve', signature)).toBe(true);
+    });
+
+    it('should reject a signature for another decision or approval', async () => {
+      const { signApprovalCallback, verifyApprovalCallback } = await import(
+        '~/server/services/execution-approval-service'
+      );
+
+      const signature = signApprovalCallback('approval-1', 'reject');
+
+      expect(verifyApprovalCallback('approval-1', 'approve', signature)).toBe(false);
+      expect(verifyApprovalCallback('approval-2', 'reject', signature)).toBe(false);
+      expect(verifyApprovalCallback('approval-1', 'reject', 'not-a-signature')).toBe(false);
+    });
+  });
+
+  describe('getApprovalCallbackUrls', () => {
+    it('should link to the callback route with a signed decision', async () => {
+      const { getApprovalCallbackUrls, verifyApprovalCallback } = await import(
+        '~/server/services/execution-approval-service'
+      );
+
+      const url = new URL(getApprovalCallbackUrls('approval-1').approve);
+
+      expect(url.pathname).toBe('/api/approvals/approval-1/callback');
+      expect(url.searchParams.get('decision')).toBe('approve');
+      expect(
+        verifyApprovalCallback('approval-1', 'approve', url.searchParams.get('signature')!)
+      ).toBe(true);
+    });
+  });
+});
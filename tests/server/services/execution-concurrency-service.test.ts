@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+
+/**
+ * Execution Concurrency Service Tests
+ *
+ * Covers how concurrency policies and their keys are read.
+ */
+
+vi.mock('~/server/db', () => ({
+  getDb: vi.fn(),
+}));
+
+describe('ExecutionConcurrencyService', () => {
+  describe('resolveConcurrencyKey', () => {
+    const event = {
+      body: { repository: { full_name: 'acme/api', id: 42 }, ref: 'refs/heads/main' },
+      headers: { 'x-github-event': 'push' },
+    };
+
+    it('should fill in event fields', async () => {
+      const { resolveConcurrencyKey } = await import('~/server/services/execution-concurrency-service');
+
+      expect(resolveConcurrencyKey('{{body.repository.full_name}}', event)).toBe('acme/api');
+      expect(resolveConcurrencyKey('{{body.repository.id}}:{{headers.x-github-event}}', event)).toBe(
+        '42:push'
+      );
+    });
+
+    it('should share one key without a template and blank out missing fields', async () => {
+      const { resolveConcurrencyKey } = await import('~/server/services/execution-concurrency-service');
+
+      expect(resolveConcurrencyKey(undefined, event)).toBe('');
+      expect(resolveConcurrencyKey('repo:{{body.missing.field}}', event)).toBe('repo:');
+    });
+  });
+
+  describe('parseConcurrencyPolicy', () => {
+    it('should accept a positive integer limit', async () => {
+      const { parseConcurrencyPolicy } = await import('~/server/services/execution-concurrency-service');
+
+      expect(parseConcurrencyPolicy({ limit: 2, key: '{{body.id}}' })).toEqual({
+        limit: 2,
+        key: '{{body.id}}',
+      });
+      expect(parseConcurrencyPolicy({ limit: 1 })).toEqual({ limit: 1, key: undefined });
+    });
+
+    it('should ignore missing or invalid policies', async () => {
+      const { parseConcurrencyPolicy } = await import('~/server/services/execution-concurrency-service');
+
+      expect(parseConcurrencyPolicy(null)).toBeNull();
+      expect(parseConcurrencyPolicy({ limit: 0 })).toBeNull();
+      expect(parseConcurrencyPolicy({ limit: 1.5 })).toBeNull();
+    });
+  });
+});
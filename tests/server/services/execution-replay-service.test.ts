@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+
+/**
+ * Execution Replay Service Tests
+ *
+ * Covers which deployment a replay runs on.
+ */
+
+vi.mock('~/server/db', () => ({
+  getDb: vi.fn(),
+}));
+
+describe('ExecutionReplayService', () => {
+  describe('resolveReplayDeployment', () => {
+    it('should leave the deployment open when replaying on the active deployment', async () => {
+      const { resolveReplayDeployment } = await import('~/server/services/execution-replay-service');
+
+      expect(resolveReplayDeployment({ id: 'exec-1', deploymentId: 'dep-1' }, 'active')).toBeUndefined();
+      expect(resolveReplayDeployment({ id: 'exec-1', deploymentId: null }, 'active')).toBeUndefined();
+    });
+
+    it('should pin the deployment that originally ran the execution', async () => {
+      const { resolveReplayDeployment } = await import('~/server/services/execution-replay-service');
+
+      expect(resolveReplayDeployment({ id: 'exec-1', deploymentId: 'dep-1' }, 'original')).toBe('dep-1');
+    });
+
+    it('should reject replaying on the original deployment when there was none', async () => {
+      const { resolveReplayDeployment } = await import('~/server/services/execution-replay-service');
+
+      expect(() => resolveReplayDeployment({ id: 'exec-1', deploymentId: null }, 'original')).toThrow(
+        'Execution exec-1 has no original deployment to replay on'
+      );
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+
+/**
+ * Execution Retry Service Tests
+ *
+ * Covers the backoff schedule and the decision whether a failure is retried.
+ */
+
+vi.mock('~/server/db', () => ({
+  getDb: vi.fn(),
+}));
+
+describe('ExecutionRetryService', () => {
+  describe('getRetryDelayMs', () => {
+    it('should double the delay for each retry with exponential backoff', async () => {
+      const { getRetryDelayMs } = await import('~/server/services/execution-retry-service');
+      const retry = { attempts: 5, backoff: 'exponential' as const, initialDelayMs: 500 };
+
+      expect([1, 2, 3, 4].map((n) => getRetryDelayMs(retry, n))).toEqual([500, 1000, 2000, 4000]);
+    });
+
+    it('should keep the delay constant with fixed backoff', async () => {
+      const { getRetryDelayMs } = await import('~/server/services/execution-retry-service');
+      const retry = { attempts: 3, backoff: 'fixed' as const, initialDelayMs: 2000 };
+
+      expect(getRetryDelayMs(retry, 1)).toBe(2000);
+      expect(getRetryDelayMs(retry, 2)).toBe(2000);
+    });
+
+    it('should default to exponential backoff capped at the max delay', async () => {
+      const { getRetryDelayMs } = await import('~/server/services/execution-retry-service');
+
+      expect(getRetryDelayMs({ attempts: 3 }, 2)).toBe(2000);
+      expect(getRetryDelayMs({ attempts: 10, initialDelayMs: 1000, maxDelayMs: 5000 }, 6)).toBe(5000);
+    });
+  });
+
+  describe('shouldRetry', () => {
+    it('should retry until the attempts are used up', async () => {
+      const { shouldRetry } = await import('~/server/services/execution-retry-service');
+      const retry = { attempts: 3 };
+
+      expect(shouldRetry(retry, 1, 'boom')).toBe(true);
+      expect(shouldRetry(retry, 2, 'boom')).toBe(true);
+      expect(shouldRetry(retry, 3, 'boom')).toBe(false);
+    });
+
+    it('should only retry matching errors when retryOn is set', async () => {
+      const { shouldRetry } = await import('~/server/services/execution-retry-service');
+      const retry = { attempts: 3, retryOn: ['ECONNRESET', 'RateLimitError'] };
+
+      expect(shouldRetry(retry, 1, 'RateLimitError: slow down')).toBe(true);
+      expect(shouldRetry(retry, 1, 'fetch failed: ECONNRESET')).toBe(true);
+      expect(shouldRetry(retry, 1, 'TypeError: x is undefined')).toBe(false);
+    });
+
+    it('should never exceed the maximum number of attempts', async () => {
+      const { shouldRetry, MAX_RETRY_ATTEMPTS } = await import('~/server/services/execution-retry-service');
+
+      expect(shouldRetry({ attempts: 100 }, MAX_RETRY_ATTEMPTS, 'boom')).toBe(false);
+    });
+  });
+
+  describe('getRetryOptions', () => {
+    it('should ignore triggers without a usable retry policy', async () => {
+      const { getRetryOptions } = await import('~/server/services/execution-retry-service');
+
+      expect(getRetryOptions(null)).toBeNull();
+      expect(getRetryOptions({})).toBeNull();
+      expect(getRetryOptions({ retry: { attempts: 1 } })).toBeNull();
+      expect(getRetryOptions({ retry: { attempts: 3 } })).toEqual({ attempts: 3 });
+    });
+  });
+});
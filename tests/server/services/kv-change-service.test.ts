@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+/**
+ * KV Change Service Tests
+ *
+ * Covers which onChange triggers a write fires and the job that runs them.
+ */
+
+vi.mock('~/server/db', () => ({
+  getDb: vi.fn(),
+}));
+
+const addJob = vi.fn();
+vi.mock('~/server/jobs/worker', () => ({
+  addJob: (...args: unknown[]) => addJob(...args),
+}));
+
+vi.mock('~/server/services/execution-service', () => ({
+  createExecution: vi.fn(),
+  updateExecutionFailed: vi.fn(),
+}));
+
+vi.mock('~/server/services/trigger-execution-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('~/server/services/trigger-execution-service')>()),
+  executeKvChangeTrigger: vi.fn(),
+}));
+
+import { getDb } from '~/server/db';
+import { createExecution, updateExecutionFailed } from '~/server/services/execution-service';
+import { executeKvChangeTrigger } from '~/server/services/trigger-execution-service';
+
+const ordersTrigger = {
+  id: 'trigger-1',
+  workflowId: 'workflow-1',
+  input: { table: 'orders', prefix: 'eu-', operations: ['set' as const] },
+};
+
+const setChange = {
+  table: 'orders',
+  key: 'eu-1',
+  operation: 'set' as const,
+  oldValue: { total: 5 },
+  newValue: { total: 7 },
+};
+
+describe('KvChangeService', () => {
+  beforeEach(() => {
+    addJob.mockReset();
+  });
+
+  describe('matchesChange', () => {
+    it('should match writes to the table, prefix and operations', async () => {
+      const { matchesChange } = await import('~/server/services/kv-change-service');
+
+      expect(matchesChange(ordersTrigger, setChange, null)).toBe(true);
+      expect(matchesChange(ordersTrigger, { ...setChange, key: 'us-1' }, null)).toBe(false);
+      expect(matchesChange(ordersTrigger, { ...setChange, operation: 'delete' }, null)).toBe(false);
+      expect(matchesChange(ordersTrigger, { ...setChange, table: 'users' }, null)).toBe(false);
+    });
+
+    it('should not fire for writes by its own workflow', async () => {
+      const { matchesChange } = await import('~/server/services/kv-change-service');
+
+      expect(matchesChange(ordersTrigger, setChange, 'workflow-1')).toBe(false);
+      expect(matchesChange(ordersTrigger, setChange, 'workflow-2')).toBe(true);
+    });
+  });
+
+  describe('dispatchKvChanges', () => {
+    it('should queue one job with the deliveries of all matching changes', async () => {
+      const { dispatchKvChanges } = await import('~/server/services/kv-change-service');
+
+      const queued = await dispatchKvChanges(
+        [ordersTrigger],
+        [setChange, { ...setChange, key: 'us-2' }, { ...setChange, key: 'eu-3', oldValue: null }],
+        'workflow-2'
+      );
+
+      expect(queued).toBe(2);
+      expect(addJob).toHaveBeenCalledTimes(1);
+      const [taskName, payload] = addJob.mock.calls[0];
+      expect(taskName).toBe('executeKvChangeTriggers');
+      expect(payload.deliveries.map((d: any) => d.event.key)).toEqual(['eu-1', 'eu-3']);
+      expect(payload.deliveries[0]).toMatchObject({
+        triggerId: 'trigger-1',
+        event: { oldValue: { total: 5 }, newValue: { total: 7 }, workflowId: 'workflow-2' },
+      });
+    });
+
+    it('should not queue a job when nothing matches', async () => {
+      const { dispatchKvChanges } = await import('~/server/services/kv-change-service');
+
+      expect(await dispatchKvChanges([ordersTrigger], [setChange], 'workflow-1')).toBe(0);
+      expect(addJob).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the write when queueing fails', async () => {
+      const { dispatchKvChanges } = await import('~/server/services/kv-change-service');
+      addJob.mockRejectedValueOnce(new Error('queue down'));
+
+      expect(await dispatchKvChanges([ordersTrigger], [setChange], null)).toBe(0);
+    });
+  });
+
+  describe('runKvChangeTriggers', () => {
+    it('should mark a failed delivery and run the ones after it', async () => {
+      const { runKvChangeTriggers } = await import('~/server/services/kv-change-service');
+      const rows = [
+        { triggerId: 'trigger-1', workflowId: 'workflow-1', organizationId: null },
+        { triggerId: 'trigger-2', workflowId: 'workflow-2', organizationId: null },
+      ];
+      const query = { from: () => query, innerJoin: () => query, where: async () => rows };
+      vi.mocked(getDb).mockReturnValue({ select: () => query } as any);
+      vi.mocked(createExecution)
+        .mockResolvedValueOnce({ id: 'execution-1' } as any)
+        .mockResolvedValueOnce({ id: 'execution-2' } as any);
+      vi.mocked(executeKvChangeTrigger)
+        .mockRejectedValueOnce(new Error('runtime unavailable'))
+        .mockResolvedValueOnce({ status: 'completed' } as any);
+      const event = { table: 'orders', key: 'eu-1' } as any;
+
+      const executed = await runKvChangeTriggers([
+        { triggerId: 'trigger-1', event },
+        { triggerId: 'trigger-2', event },
+      ]);
+
+      expect(executed).toBe(1);
+      expect(updateExecutionFailed).toHaveBeenCalledWith('execution-1', 'runtime unavailable');
+      expect(executeKvChangeTrigger).toHaveBeenCalledWith('trigger-2', event, 'execution-2');
+    });
+  });
+
+  describe('isKvChangeTrigger', () => {
+    it('should only match kvstore onChange triggers', async () => {
+      const { isKvChangeTrigger } = await import('~/server/services/kv-change-service');
+
+      expect(isKvChangeTrigger('kvstore', 'onChange')).toBe(true);
+      expect(isKvChangeTrigger('github', 'onChange')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+/**
+ * KV Lock Service Tests
+ *
+ * Covers how acquire, extend and release report their outcome. The atomicity
+ * of the upserts themselves is left to Postgres.
+ */
+
+vi.mock('~/server/db', () => ({
+  getDb: vi.fn(),
+}));
+
+// Query builder stub: every chained call returns the chain, awaiting it
+// resolves to the rows queued for that query
+function mockDb(...results: unknown[][]) {
+  const chain: Record<string, unknown> = {};
+  for (const method of ['insert', 'values', 'onConflictDoUpdate', 'select', 'from', 'where', 'limit', 'update', 'set']) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.returning = vi.fn(() => Promise.resolve(results.shift() ?? []));
+  chain.then = (resolve: (rows: unknown[]) => unknown) => resolve(results.shift() ?? []);
+  return chain;
+}
+
+describe('KvLockService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('acquireLock', () => {
+    it('should return the lease when the upsert took the lock', async () => {
+      const { getDb } = await import('~/server/db');
+      const expiresAt = new Date(Date.now() + 30_000);
+      vi.mocked(getDb).mockReturnValue(
+        mockDb([{ leaseId: 'lease-1', fencingToken: 3, expiresAt }]) as never
+      );
+
+      const { acquireLock } = await import('~/server/services/kv-lock-service');
+      const result = await acquireLock('provider-1', 'sync:PROJ', 30_000);
+
+      expect(result).toEqual({ acquired: true, leaseId: 'lease-1', fencingToken: 3, expiresAt });
+    });
+
+    it('should report how long until a held lock expires', async () => {
+      const { getDb } = await import('~/server/db');
+      vi.mocked(getDb).mockReturnValue(
+        mockDb([], [{ expiresAt: new Date(Date.now() + 5_000) }]) as never
+      );
+
+      const { acquireLock } = await import('~/server/services/kv-lock-service');
+      const result = await acquireLock('provider-1', 'sync:PROJ', 30_000);
+
+      expect(result.acquired).toBe(false);
+      if (!result.acquired) {
+        expect(result.retryAfterMs).toBeGreaterThan(4_000);
+        expect(result.retryAfterMs).toBeLessThanOrEqual(5_000);
+      }
+    });
+  });
+
+  describe('extendLock and releaseLock', () => {
+    it('should report a lease that is gone', async () => {
+      const { getDb } = await import('~/server/db');
+      vi.mocked(getDb).mockReturnValue(mockDb([], []) as never);
+
+      const { extendLock, releaseLock } = await import('~/server/services/kv-lock-service');
+
+      expect(await extendLock('provider-1', 'sync:PROJ', 'lease-1', 30_000)).toBeNull();
+      expect(await releaseLock('provider-1', 'sync:PROJ', 'lease-1')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { convertN8nWorkflow, renderN8nProjectConfig } from '~/server/services/n8n-converter';
+
+function reportFor(result: ReturnType<typeof convertN8nWorkflow>, name: string) {
+  return result.report.nodes.find((node) => node.name === name);
+}
+
+describe('n8n Converter', () => {
+  it('should reject exports without a nodes array', () => {
+    expect(() => convertN8nWorkflow({ name: 'Broken' })).toThrow('missing "nodes" array');
+  });
+
+  it('should convert a webhook -> IF -> Slack flow', () => {
+    const result = convertN8nWorkflow({
+      name: 'Notify',
+      nodes: [
+        {
+          name: 'Webhook',
+          type: 'n8n-nodes-base.webhook',
+          typeVersion: 1,
+          parameters: { path: 'incoming', httpMethod: 'POST' },
+        },
+        {
+          name: 'Is Urgent',
+          type: 'n8n-nodes-base.if',
+          typeVersion: 1,
+          parameters: {
+            conditions: { string: [{ value1: '={{ $json.body.priority }}', operation: 'equal', value2: 'high' }] },
+          },
+        },
+        {
+          name: 'Send Slack',
+          type: 'n8n-nodes-base.slack',
+          typeVersion: 1,
+          parameters: { channel: '#alerts', text: '=Urgent: {{ $json.body.title }}' },
+        },
+      ],
+      connections: {
+        Webhook: { main: [[{ node: 'Is Urgent', type: 'main', index: 0 }]] },
+        'Is Urgent': { main: [[{ node: 'Send Slack', type: 'main', index: 0 }], []] },
+      },
+    });
+
+    expect(result.code).toContain("import { Builtin, Slack } from 'floww';");
+    expect(result.code).toContain('builtin.triggers.onWebhook({');
+    expect(result.code).toContain("path: '/incoming',");
+    expect(result.code).toContain("method: 'POST',");
+    expect(result.code).toContain("if (input.body.priority === 'high') {");
+    expect(result.code).toContain("slack.actions.sendMessage({ channel: '#alerts', text: `Urgent: ${input.body.title}` })");
+    expect(result.code).not.toContain('} else {');
+    expect(result.report.summary).toEqual({ total: 3, converted: 3, partial: 0, unsupported: 0, skipped: 0 });
+  });
+
+  it('should convert schedule triggers to cron expressions', () => {
+    const result = convertN8nWorkflow({
+      name: 'Schedules',
+      nodes: [
+        {
+          name: 'Every Day',
+          type: 'n8n-nodes-base.scheduleTrigger',
+          typeVersion: 1,
+          parameters: { rule: { interval: [{ field: 'days', triggerAtHour: 9, triggerAtMinute: 30 }] } },
+        },
+        {
+          name: 'Cron',
+          type: 'n8n-nodes-base.cron',
+          typeVersion: 1,
+          parameters: { triggerTimes: { item: [{ mode: 'everyWeek', hour: 8, minute: 0, weekday: '1' }] } },
+        },
+      ],
+      connections: {},
+    });
+
+    expect(result.code).toContain("expression: '30 9 * * *',");
+    expect(result.code).toContain("expression: '0 8 * * 1',");
+    expect(reportFor(result, 'Every Day')?.status).toBe('converted');
+  });
+
+  it('should map HTTP Request and Set nodes', () => {
+    const result = convertN8nWorkflow({
+      name: 'Fetch',
+      nodes: [
+        { name: 'Manual', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, parameters: {} },
+        {
+          name: 'Get User',
+          type: 'n8n-nodes-base.httpRequest',
+          typeVersion: 4,
+          parameters: {
+            method: 'POST',
+            url: 'https://api.example.com/users',
+            sendBody: true,
+            bodyParameters: { parameters: [{ name: 'id', value: '={{ $json.userId }}' }] },
+          },
+        },
+        {
+          name: 'Shape',
+          type: 'n8n-nodes-base.set',
+          typeVersion: 3.4,
+          parameters: {
+            assignments: { assignments: [{ name: 'email', value: "={{ $('Get User').item.json.email }}", type: 'string' }] },
+          },
+        },
+      ],
+      connections: {
+        Manual: { main: [[{ node: 'Get User', type: 'main', index: 0 }]] },
+        'Get User': { main: [[{ node: 'Shape', type: 'main', index: 0 }]] },
+      },
+    });
+
+    expect(result.code).toContain("const getUserResponse = await fetch('https://api.example.com/users', {");
+    expect(result.code).toContain('body: JSON.stringify({ id: input.userId }),');
+    expect(result.code).toContain('const getUser = await getUserResponse.json();');
+    expect(result.code).toContain('const shape: any = { email: getUser.email };');
+  });
+
+  it('should stub unsupported nodes and report them', () => {
+    const result = convertN8nWorkflow({
+      name: 'Mixed',
+      nodes: [
+        { name: 'Start', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, parameters: {} },
+        { name: 'Code', type: 'n8n-nodes-base.code', typeVersion: 2, parameters: { jsCode: 'return items;' } },
+        { name: 'Orphan', type: 'n8n-nodes-base.noOp', typeVersion: 1, parameters: {} },
+        { name: 'Fancy Trigger', type: 'n8n-nodes-base.airtableTrigger', typeVersion: 1, parameters: {} },
+      ],
+      connections: {
+        Start: { main: [[{ node: 'Code', type: 'main', index: 0 }]] },
+      },
+    });
+
+    expect(result.code).toContain('// TODO: Node type is not supported by the importer. Original parameters:');
+    expect(result.code).toContain('const code: any = input;');
+    expect(result.code).toContain("name: 'Fancy Trigger',");
+    expect(reportFor(result, 'Code')?.status).toBe('unsupported');
+    expect(reportFor(result, 'Orphan')?.notes).toContain('Not connected to a trigger; no code was generated');
+    expect(reportFor(result, 'Fancy Trigger')?.status).toBe('unsupported');
+  });
+
+  it('should flag expressions it cannot translate', () => {
+    const result = convertN8nWorkflow({
+      name: 'Expressions',
+      nodes: [
+        { name: 'Start', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, parameters: {} },
+        {
+          name: 'Post',
+          type: 'n8n-nodes-base.slack',
+          typeVersion: 1,
+          parameters: { channel: 'general', text: '={{ $workflow.name }}' },
+        },
+      ],
+      connections: {
+        Start: { main: [[{ node: 'Post', type: 'main', index: 0 }]] },
+      },
+    });
+
+    expect(result.code).toContain('text: undefined /* TODO: translate n8n expression {{ $workflow.name }} */');
+    expect(reportFor(result, 'Post')?.status).toBe('partial');
+  });
+
+  it('should render floww.yaml for the imported workflow', () => {
+    expect(renderN8nProjectConfig({ workflowId: 'wf-1', name: 'My "Flow"' })).toBe(
+      'workflowId: "wf-1"\nname: "My \\"Flow\\""\nversion: "1.0.0"\nentrypoint: main.ts\n'
+    );
+  });
+});
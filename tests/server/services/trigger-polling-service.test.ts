@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+/**
+ * Trigger Polling Service Tests
+ *
+ * Covers the cursor/dedupe bookkeeping and the Google Calendar poll contract.
+ */
+
+vi.mock('~/server/db', () => ({
+  getDb: vi.fn(),
+}));
+
+describe('TriggerPollingService', () => {
+  describe('isPollingTrigger', () => {
+    it('should detect triggers whose definition implements poll', async () => {
+      const { isPollingTrigger } = await import('~/server/services/trigger-polling-service');
+
+      expect(isPollingTrigger('google_calendar', 'onEventCreated')).toBe(true);
+      expect(isPollingTrigger('google_calendar', 'onEventUpdated')).toBe(true);
+      expect(isPollingTrigger('github', 'onPush')).toBe(false);
+      expect(isPollingTrigger('unknown', 'onSomething')).toBe(false);
+    });
+  });
+
+  describe('state bookkeeping', () => {
+    it('should split polling metadata from provider state', async () => {
+      const { splitPollingState } = await import('~/server/services/trigger-polling-service');
+
+      const { providerState, metadata } = splitPollingState({
+        sync_token: 'abc',
+        __polling: { seenEventIds: ['1'], lastPolledAt: '2026-01-01T00:00:00.000Z' },
+      });
+
+      expect(providerState).toEqual({ sync_token: 'abc' });
+      expect(metadata).toEqual({ seenEventIds: ['1'], lastPolledAt: '2026-01-01T00:00:00.000Z' });
+    });
+
+    it('should default metadata for triggers that were never polled', async () => {
+      const { splitPollingState } = await import('~/server/services/trigger-polling-service');
+
+      expect(splitPollingState(null).metadata).toEqual({ seenEventIds: [], lastPolledAt: null });
+    });
+
+    it('should drop events that were already seen', async () => {
+      const { filterUnseenEvents } = await import('~/server/services/trigger-polling-service');
+
+      const events = [
+        { id: 'a', event: {} },
+        { id: 'b', event: {} },
+        { id: 'b', event: {} },
+        { id: 'c', event: {} },
+      ];
+
+      expect(filterUnseenEvents(events, ['a']).map((e) => e.id)).toEqual(['b', 'c']);
+    });
+
+    it('should remember new event IDs with the updated cursor', async () => {
+      const { buildPolledState } = await import('~/server/services/trigger-polling-service');
+
+      const state = buildPolledState(
+        { sync_token: 'next' },
+        { seenEventIds: ['a'], lastPolledAt: null },
+        [{ id: 'b', event: {} }],
+        new Date('2026-01-01T00:00:00.000Z')
+      );
+
+      expect(state).toEqual({
+        sync_token: 'next',
+        __polling: { seenEventIds: ['a', 'b'], lastPolledAt: '2026-01-01T00:00:00.000Z' },
+      });
+    });
+  });
+
+  describe('Google Calendar poll', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function mockCalendarApi(pages: Array<Record<string, unknown>>) {
+      const fetchMock = vi.fn();
+      for (const page of pages) {
+        fetchMock.mockResolvedValueOnce(new Response(JSON.stringify(page), { status: 200 }));
+      }
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    async function getTriggerDefinition(triggerType: string) {
+      const { getProviderDefinition } = await import('floww/providers/server');
+      return getProviderDefinition('google_calendar')!.triggerDefinitions[triggerType];
+    }
+
+    const baseContext = {
+      input: { calendar_id: 'primary' },
+      providerId: 'provider-1',
+      triggerId: 'trigger-1',
+      secrets: { access_token: 'token' },
+    };
+
+    it('should only establish a sync token on the first poll', async () => {
+      const fetchMock = mockCalendarApi([{ nextSyncToken: 'sync-1' }]);
+      const trigger = await getTriggerDefinition('onEventCreated');
+
+      const result = await trigger.poll!({
+        ...baseContext,
+        state: { calendar_id: 'primary', sync_token: null, synced_at: null },
+      });
+
+      expect(result.events).toEqual([]);
+      expect(result.state).toMatchObject({ calendar_id: 'primary', sync_token: 'sync-1' });
+      expect(String(fetchMock.mock.calls[0][0])).not.toContain('syncToken');
+    });
+
+    it('should classify changes as created or updated', async () => {
+      const previousSync = '2026-01-01T10:00:00.000Z';
+      const page = {
+        items: [
+          { id: 'new', created: '2026-01-01T10:00:30.000Z', updated: '2026-01-01T10:00:30.000Z' },
+          { id: 'old', created: '2025-12-01T00:00:00.000Z', updated: '2026-01-01T10:00:40.000Z' },
+          { id: 'gone', status: 'cancelled' },
+        ],
+        nextSyncToken: 'sync-2',
+      };
+      const state = { calendar_id: 'primary', sync_token: 'sync-1', synced_at: previousSync };
+
+      mockCalendarApi([page]);
+      const created = await (await getTriggerDefinition('onEventCreated')).poll!({ ...baseContext, state });
+      expect(created.events.map((e) => e.id)).toEqual(['new']);
+      expect(created.events[0].event).toMatchObject({ type: 'event_created', calendar_id: 'primary' });
+      expect(created.state).toMatchObject({ sync_token: 'sync-2' });
+
+      mockCalendarApi([page]);
+      const updated = await (await getTriggerDefinition('onEventUpdated')).poll!({ ...baseContext, state });
+      expect(updated.events.map((e) => e.id)).toEqual(['old:2026-01-01T10:00:40.000Z']);
+      expect(updated.events[0].event).toMatchObject({ type: 'event_updated' });
+    });
+
+    it('should start over when the sync token has expired', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(new Response('gone', { status: 410 }))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ nextSyncToken: 'fresh' }), { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const trigger = await getTriggerDefinition('onEventCreated');
+      const result = await trigger.poll!({
+        ...baseContext,
+        state: { calendar_id: 'primary', sync_token: 'stale', synced_at: '2026-01-01T10:00:00.000Z' },
+      });
+
+      expect(result.events).toEqual([]);
+      expect(result.state).toMatchObject({ sync_token: 'fresh' });
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+/**
+ * Trigger Service Tests
+ *
+ * Covers the deployment plan computed for `floww deploy --dry-run`.
+ */
+
+const mockProviderRows = vi.fn();
+
+vi.mock('~/server/db', () => ({
+  getDb: vi.fn(() => ({
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          limit: () => Promise.resolve(mockProviderRows()),
+        }),
+      }),
+    }),
+  })),
+}));
+
+const definition = (type: string, alias: string, triggerType: string, input: Record<string, unknown>, options?: Record<string, unknown>) => ({
+  provider: { type, alias },
+  triggerType,
+  input,
+  options,
+});
+
+describe('TriggerService', () => {
+  beforeEach(() => {
+    mockProviderRows.mockReset();
+    mockProviderRows.mockReturnValue([{ id: 'provider-1' }]);
+  });
+
+  describe('planTriggerSync', () => {
+    it('should split triggers into create, destroy and keep', async () => {
+      const { planTriggerSync, getTriggersMetadataFromDefinitions } = await import('~/server/services/trigger-service');
+
+      const current = [
+        definition('builtin', 'default', 'onCron', { expression: '0 * * * *' }),
+        definition('github', 'default', 'onPush', { owner: 'acme', repository: 'api' }),
+        definition('builtin', 'default', 'onWebhook', { path: '/hook' }, { retry: { attempts: 2 } }),
+      ];
+      const next = [
+        definition('builtin', 'default', 'onCron', { expression: '0 * * * *' }),
+        definition('builtin', 'default', 'onWebhook', { path: '/hook' }, { retry: { attempts: 5 } }),
+        definition('github', 'default', 'onPullRequest', { owner: 'acme', repository: 'api' }),
+      ];
+
+      const plan = await planTriggerSync('ns-1', current, getTriggersMetadataFromDefinitions(next));
+
+      expect(plan.create).toEqual([
+        expect.objectContaining({ providerType: 'github', triggerType: 'onPullRequest', externalWebhook: true }),
+      ]);
+      expect(plan.destroy).toEqual([
+        expect.objectContaining({ providerType: 'github', triggerType: 'onPush', externalWebhook: true }),
+      ]);
+      expect(plan.keep).toEqual([
+        expect.objectContaining({ triggerType: 'onCron', externalWebhook: false, optionsChanged: false }),
+        expect.objectContaining({ triggerType: 'onWebhook', externalWebhook: false, optionsChanged: true }),
+      ]);
+      expect(plan.unresolvedProviders).toEqual([]);
+    });
+
+    it('should report provider aliases that do not resolve', async () => {
+      const { planTriggerSync, getTriggersMetadataFromDefinitions } = await import('~/server/services/trigger-service');
+      mockProviderRows.mockReturnValue([]);
+
+      const next = getTriggersMetadataFromDefinitions([
+        definition('builtin', 'default', 'onCron', { expression: '0 * * * *' }),
+        definition('github', 'work', 'onPush', { owner: 'acme', repository: 'api' }),
+      ]);
+
+      const plan = await planTriggerSync('ns-1', [], next);
+
+      // Builtin providers are created on demand
+      expect(plan.unresolvedProviders).toEqual([
+        { providerType: 'github', providerAlias: 'work', reason: 'Provider is not configured in this namespace' },
+      ]);
+    });
+
+    it('should require a floww.yaml mapping when mappings are used', async () => {
+      const { planTriggerSync, getTriggersMetadataFromDefinitions } = await import('~/server/services/trigger-service');
+
+      const next = getTriggersMetadataFromDefinitions([
+        definition('github', 'default', 'onPush', { owner: 'acme', repository: 'api' }),
+      ]);
+
+      const plan = await planTriggerSync('ns-1', [], next, { builtin: { default: 'provider-1' } }, [
+        { type: 'slack', alias: 'default' },
+      ]);
+
+      expect(plan.unresolvedProviders.map((p) => `${p.providerType}:${p.providerAlias}`)).toEqual([
+        'github:default',
+        'slack:default',
+      ]);
+    });
+  });
+});
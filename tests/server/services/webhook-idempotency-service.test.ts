@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+
+/**
+ * Webhook Idempotency Service Tests
+ *
+ * Covers how idempotency options are read and which key a delivery gets.
+ */
+
+vi.mock('~/server/db', () => ({
+  getDb: vi.fn(),
+}));
+
+describe('WebhookIdempotencyService', () => {
+  describe('parseIdempotencyPolicy', () => {
+    it('should read the key template and window from trigger options', async () => {
+      const { parseIdempotencyPolicy } = await import('~/server/services/webhook-idempotency-service');
+
+      expect(
+        parseIdempotencyPolicy({ idempotencyKey: '{{body.id}}', idempotencyWindow: 60000 })
+      ).toEqual({ key: '{{body.id}}', windowMs: 60000 });
+    });
+
+    it('should default to the provider delivery ID and a 24 hour window', async () => {
+      const { parseIdempotencyPolicy, DEFAULT_IDEMPOTENCY_WINDOW_MS } = await import(
+        '~/server/services/webhook-idempotency-service'
+      );
+
+      expect(parseIdempotencyPolicy(null)).toEqual({
+        key: undefined,
+        windowMs: DEFAULT_IDEMPOTENCY_WINDOW_MS,
+      });
+      expect(parseIdempotencyPolicy({ idempotencyWindow: -1 }).windowMs).toBe(
+        DEFAULT_IDEMPOTENCY_WINDOW_MS
+      );
+    });
+  });
+
+  describe('resolveIdempotencyKey', () => {
+    const event = {
+      body: { order: { id: 'ord_1' } },
+      headers: { 'x-github-delivery': 'guid-1' },
+    };
+
+    it('should prefer the key option over the delivery ID', async () => {
+      const { resolveIdempotencyKey } = await import('~/server/services/webhook-idempotency-service');
+
+      expect(
+        resolveIdempotencyKey({ key: '{{body.order.id}}', windowMs: 1000 }, event, 'guid-1')
+      ).toBe('ord_1');
+      expect(resolveIdempotencyKey({ windowMs: 1000 }, event, 'guid-1')).toBe('guid-1');
+    });
+
+    it('should skip deduplication without a key', async () => {
+      const { resolveIdempotencyKey } = await import('~/server/services/webhook-idempotency-service');
+
+      expect(resolveIdempotencyKey({ windowMs: 1000 }, event)).toBeNull();
+      expect(resolveIdempotencyKey({ key: '{{body.missing}}', windowMs: 1000 }, event, 'guid-1')).toBeNull();
+    });
+
+    it('should skip deduplication when any field of the key is missing', async () => {
+      const { resolveIdempotencyKey } = await import('~/server/services/webhook-idempotency-service');
+
+      expect(
+        resolveIdempotencyKey({ key: '{{body.order.id}}-{{body.order.attempt}}', windowMs: 1000 }, event)
+      ).toBeNull();
+      expect(resolveIdempotencyKey({ key: '{{body.a}}-{{body.b}}', windowMs: 1000 }, event)).toBeNull();
+    });
+  });
+});
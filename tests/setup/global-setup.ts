@@ -41,6 +41,22 @@ export function getTestDb(): PostgresJsDatabase<typeof schema> {
 beforeAll(async () => {
   testClient = postgres(TEST_DATABASE_URL, { max: 1 });
   testDb = drizzle(testClient, { schema });
+
+  // A db.transaction() in server code would BEGIN/COMMIT on its own and commit
+  // the test's transaction with it; run it as a savepoint inside it instead
+  let savepointCounter = 0;
+  testDb.transaction = (async (callback: (tx: unknown) => Promise<unknown>) => {
+    const savepoint = `test_tx_${++savepointCounter}`;
+    await testClient.unsafe(`SAVEPOINT ${savepoint}`);
+    try {
+      const result = await callback(testDb);
+      await testClient.unsafe(`RELEASE SAVEPOINT ${savepoint}`);
+      return result;
+    } catch (error) {
+      await testClient.unsafe(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+      throw error;
+    }
+  }) as typeof testDb.transaction;
 });
 
 // Global teardown - runs once after all tests